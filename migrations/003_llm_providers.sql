@@ -0,0 +1,10 @@
+-- Migration: LLM Provider Preferences
+-- Description: Lets users pick which LLM provider serves model IDs without a provider prefix
+
+-- Add llm_provider column to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'llm_provider') THEN
+    ALTER TABLE profiles ADD COLUMN llm_provider TEXT;
+  END IF;
+END $$;
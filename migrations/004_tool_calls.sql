@@ -0,0 +1,36 @@
+-- Migration: Tool Calls
+-- Description: Allows tool role messages and stores assistant tool calls on chat and API conversation messages
+
+-- Allow the tool role on chat messages
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_role_check;
+ALTER TABLE messages ADD CONSTRAINT messages_role_check
+  CHECK (role IN ('user', 'assistant', 'system', 'tool'));
+
+-- Add tool call columns to messages
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'messages' AND column_name = 'tool_calls') THEN
+    ALTER TABLE messages ADD COLUMN tool_calls JSONB;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'messages' AND column_name = 'tool_call_id') THEN
+    ALTER TABLE messages ADD COLUMN tool_call_id TEXT;
+  END IF;
+END $$;
+
+-- Allow the tool role on API conversation messages
+ALTER TABLE api_conversation_messages DROP CONSTRAINT IF EXISTS api_conversation_messages_role_check;
+ALTER TABLE api_conversation_messages ADD CONSTRAINT api_conversation_messages_role_check
+  CHECK (role IN ('system', 'user', 'assistant', 'tool'));
+
+-- Add tool call columns to api_conversation_messages
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_conversation_messages' AND column_name = 'tool_calls') THEN
+    ALTER TABLE api_conversation_messages ADD COLUMN tool_calls JSONB;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_conversation_messages' AND column_name = 'tool_call_id') THEN
+    ALTER TABLE api_conversation_messages ADD COLUMN tool_call_id TEXT;
+  END IF;
+END $$;
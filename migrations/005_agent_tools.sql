@@ -0,0 +1,13 @@
+-- Migration: Agent Tools
+-- Description: Records the estimated cost of API calls and server tool invocations in api_usage
+
+-- Add cost column to api_usage
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_usage' AND column_name = 'cost') THEN
+    ALTER TABLE api_usage ADD COLUMN cost NUMERIC(12, 6);
+  END IF;
+END $$;
+
+-- Tool invocations are recorded with endpoint 'tool:<name>'
+CREATE INDEX IF NOT EXISTS idx_api_usage_endpoint ON api_usage(endpoint);
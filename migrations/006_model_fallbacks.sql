@@ -0,0 +1,10 @@
+-- Migration: Model Fallbacks
+-- Description: Stores a default model fallback chain on API keys
+
+-- Add fallback_models column to api_keys
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'fallback_models') THEN
+    ALTER TABLE api_keys ADD COLUMN fallback_models TEXT[];
+  END IF;
+END $$;
@@ -0,0 +1,38 @@
+-- Migration: Spending Budgets
+-- Description: Adds daily and monthly USD budgets with a soft-limit warning threshold to profiles and API keys
+
+-- Add budget columns to profiles
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'daily_budget_usd') THEN
+    ALTER TABLE profiles ADD COLUMN daily_budget_usd NUMERIC(12, 4);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'monthly_budget_usd') THEN
+    ALTER TABLE profiles ADD COLUMN monthly_budget_usd NUMERIC(12, 4);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'budget_soft_limit_percent') THEN
+    ALTER TABLE profiles ADD COLUMN budget_soft_limit_percent INTEGER DEFAULT 80 CHECK (budget_soft_limit_percent BETWEEN 1 AND 100);
+  END IF;
+END $$;
+
+-- Add budget columns to api_keys
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'daily_budget_usd') THEN
+    ALTER TABLE api_keys ADD COLUMN daily_budget_usd NUMERIC(12, 4);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'monthly_budget_usd') THEN
+    ALTER TABLE api_keys ADD COLUMN monthly_budget_usd NUMERIC(12, 4);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'budget_soft_limit_percent') THEN
+    ALTER TABLE api_keys ADD COLUMN budget_soft_limit_percent INTEGER DEFAULT 80 CHECK (budget_soft_limit_percent BETWEEN 1 AND 100);
+  END IF;
+END $$;
+
+-- Spend is summed per user and per key over the current month
+CREATE INDEX IF NOT EXISTS idx_api_usage_user_cost ON api_usage(user_id, created_at) WHERE cost IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_api_usage_api_key_cost ON api_usage(api_key_id, created_at) WHERE cost IS NOT NULL;
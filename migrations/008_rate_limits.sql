@@ -0,0 +1,18 @@
+-- Migration: Rate Limits
+-- Description: Adds per-minute and per-day request limits and a tokens-per-minute limit to API keys. The existing rate_limit column stays the hourly request limit.
+
+-- Add rate limit columns to api_keys
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'rate_limit_per_minute') THEN
+    ALTER TABLE api_keys ADD COLUMN rate_limit_per_minute INTEGER CHECK (rate_limit_per_minute > 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'rate_limit_per_day') THEN
+    ALTER TABLE api_keys ADD COLUMN rate_limit_per_day INTEGER CHECK (rate_limit_per_day > 0);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'token_limit_per_minute') THEN
+    ALTER TABLE api_keys ADD COLUMN token_limit_per_minute INTEGER CHECK (token_limit_per_minute > 0);
+  END IF;
+END $$;
@@ -0,0 +1,17 @@
+-- Migration: API Key IDs
+-- Description: Adds a public key ID to API keys so a key is found with one indexed lookup instead of checking every active key.
+-- New keys are "ska_live_<key_id>_<secret>" with a SHA-256 key_hash. Existing keys keep working: the first time one is used,
+-- its row is found by checking the bcrypt hashes of keys without a key_id, then it gets a key_id derived from the key and a
+-- SHA-256 key_hash, so later requests take the indexed path.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'key_id') THEN
+    ALTER TABLE api_keys ADD COLUMN key_id TEXT;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_id ON api_keys(key_id);
+
+-- Legacy keys still waiting to be upgraded
+CREATE INDEX IF NOT EXISTS idx_api_keys_legacy ON api_keys(is_active) WHERE key_id IS NULL;
@@ -0,0 +1,13 @@
+-- Migration: API Key Rotation
+-- Description: Links a rotated API key to its successor. The old key stays valid until its expires_at, which rotation sets to the end of the grace period.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'rotated_to') THEN
+    ALTER TABLE api_keys ADD COLUMN rotated_to UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'rotated_at') THEN
+    ALTER TABLE api_keys ADD COLUMN rotated_at TIMESTAMPTZ;
+  END IF;
+END $$;
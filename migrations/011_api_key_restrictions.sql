@@ -0,0 +1,23 @@
+-- Migration: API Key Restrictions
+-- Description: Optional per-key IP (CIDR), origin and model allowlists, and an error code on api_usage so rejected requests can be told apart.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'allowed_ips') THEN
+    ALTER TABLE api_keys ADD COLUMN allowed_ips TEXT[];
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'allowed_origins') THEN
+    ALTER TABLE api_keys ADD COLUMN allowed_origins TEXT[];
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'allowed_models') THEN
+    ALTER TABLE api_keys ADD COLUMN allowed_models TEXT[];
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_usage' AND column_name = 'error_code') THEN
+    ALTER TABLE api_usage ADD COLUMN error_code TEXT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_api_usage_error_code ON api_usage(api_key_id, error_code) WHERE error_code IS NOT NULL;
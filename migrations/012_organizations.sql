@@ -0,0 +1,117 @@
+-- Migration: Organizations
+-- Description: Organizations whose members share prompts, schemas, files, conversations and API keys. Resources with an org_id belong to the organization; user_id is kept as the creator. Usage made with an organization's keys is billed to its own budgets.
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  daily_budget_usd NUMERIC(12, 4),
+  monthly_budget_usd NUMERIC(12, 4),
+  budget_soft_limit_percent INTEGER NOT NULL DEFAULT 80 CHECK (budget_soft_limit_percent BETWEEN 1 AND 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+DO $$
+DECLARE
+  table_name_ TEXT;
+BEGIN
+  FOREACH table_name_ IN ARRAY ARRAY['system_prompts', 'structured_outputs', 'api_keys', 'api_conversations', 'file_uploads', 'api_usage'] LOOP
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = table_name_ AND column_name = 'org_id') THEN
+      EXECUTE format('ALTER TABLE %I ADD COLUMN org_id UUID REFERENCES organizations(id) ON DELETE CASCADE', table_name_);
+    END IF;
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I(org_id) WHERE org_id IS NOT NULL', 'idx_' || table_name_ || '_org_id', table_name_);
+  END LOOP;
+END $$;
+
+-- True when the current user belongs to the organization with at least the given role.
+-- SECURITY DEFINER so policies on organization_members can use it without recursing.
+CREATE OR REPLACE FUNCTION is_org_member(org UUID, min_role TEXT DEFAULT 'viewer')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE org_id = org
+      AND user_id = auth.uid()
+      AND array_position(ARRAY['viewer', 'member', 'admin', 'owner'], role)
+        >= array_position(ARRAY['viewer', 'member', 'admin', 'owner'], min_role)
+  );
+$$;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON organizations;
+CREATE POLICY "Members can view their organizations" ON organizations FOR SELECT USING (is_org_member(id));
+DROP POLICY IF EXISTS "Admins can update their organizations" ON organizations;
+CREATE POLICY "Admins can update their organizations" ON organizations FOR UPDATE USING (is_org_member(id, 'admin'));
+DROP POLICY IF EXISTS "Owners can delete their organizations" ON organizations;
+CREATE POLICY "Owners can delete their organizations" ON organizations FOR DELETE USING (is_org_member(id, 'owner'));
+
+DROP POLICY IF EXISTS "Members can view fellow members" ON organization_members;
+CREATE POLICY "Members can view fellow members" ON organization_members FOR SELECT USING (is_org_member(org_id));
+DROP POLICY IF EXISTS "Admins can manage members" ON organization_members;
+CREATE POLICY "Admins can manage members" ON organization_members FOR ALL USING (is_org_member(org_id, 'admin'));
+
+-- Personal rows stay private to their user; organization rows are readable by
+-- every member and writable by members (admins for API keys)
+
+DROP POLICY IF EXISTS "Users can view own API keys" ON api_keys;
+CREATE POLICY "Users can view own API keys" ON api_keys FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id));
+DROP POLICY IF EXISTS "Users can create own API keys" ON api_keys;
+CREATE POLICY "Users can create own API keys" ON api_keys FOR INSERT WITH CHECK (auth.uid() = user_id AND (org_id IS NULL OR is_org_member(org_id, 'admin')));
+DROP POLICY IF EXISTS "Users can update own API keys" ON api_keys;
+CREATE POLICY "Users can update own API keys" ON api_keys FOR UPDATE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'admin'));
+DROP POLICY IF EXISTS "Users can delete own API keys" ON api_keys;
+CREATE POLICY "Users can delete own API keys" ON api_keys FOR DELETE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'admin'));
+
+DROP POLICY IF EXISTS "Users can view own or public prompts" ON system_prompts;
+CREATE POLICY "Users can view own or public prompts" ON system_prompts FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id) OR is_public = true);
+DROP POLICY IF EXISTS "Users can create own prompts" ON system_prompts;
+CREATE POLICY "Users can create own prompts" ON system_prompts FOR INSERT WITH CHECK (auth.uid() = user_id AND (org_id IS NULL OR is_org_member(org_id, 'member')));
+DROP POLICY IF EXISTS "Users can update own prompts" ON system_prompts;
+CREATE POLICY "Users can update own prompts" ON system_prompts FOR UPDATE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+DROP POLICY IF EXISTS "Users can delete own prompts" ON system_prompts;
+CREATE POLICY "Users can delete own prompts" ON system_prompts FOR DELETE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+
+DROP POLICY IF EXISTS "Users can view own or public schemas" ON structured_outputs;
+CREATE POLICY "Users can view own or public schemas" ON structured_outputs FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id) OR is_public = true);
+DROP POLICY IF EXISTS "Users can create own schemas" ON structured_outputs;
+CREATE POLICY "Users can create own schemas" ON structured_outputs FOR INSERT WITH CHECK (auth.uid() = user_id AND (org_id IS NULL OR is_org_member(org_id, 'member')));
+DROP POLICY IF EXISTS "Users can update own schemas" ON structured_outputs;
+CREATE POLICY "Users can update own schemas" ON structured_outputs FOR UPDATE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+DROP POLICY IF EXISTS "Users can delete own schemas" ON structured_outputs;
+CREATE POLICY "Users can delete own schemas" ON structured_outputs FOR DELETE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+
+DROP POLICY IF EXISTS "Users can view own API conversations" ON api_conversations;
+CREATE POLICY "Users can view own API conversations" ON api_conversations FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id));
+DROP POLICY IF EXISTS "Users can create own API conversations" ON api_conversations;
+CREATE POLICY "Users can create own API conversations" ON api_conversations FOR INSERT WITH CHECK (auth.uid() = user_id AND (org_id IS NULL OR is_org_member(org_id, 'member')));
+DROP POLICY IF EXISTS "Users can update own API conversations" ON api_conversations;
+CREATE POLICY "Users can update own API conversations" ON api_conversations FOR UPDATE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+DROP POLICY IF EXISTS "Users can delete own API conversations" ON api_conversations;
+CREATE POLICY "Users can delete own API conversations" ON api_conversations FOR DELETE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+
+DROP POLICY IF EXISTS "Users can view own or public files" ON file_uploads;
+CREATE POLICY "Users can view own or public files" ON file_uploads FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id) OR is_public = true);
+DROP POLICY IF EXISTS "Users can create own files" ON file_uploads;
+CREATE POLICY "Users can create own files" ON file_uploads FOR INSERT WITH CHECK (auth.uid() = user_id AND (org_id IS NULL OR is_org_member(org_id, 'member')));
+DROP POLICY IF EXISTS "Users can update own files" ON file_uploads;
+CREATE POLICY "Users can update own files" ON file_uploads FOR UPDATE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
+DROP POLICY IF EXISTS "Users can delete own files" ON file_uploads;
+CREATE POLICY "Users can delete own files" ON file_uploads FOR DELETE USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'member'));
@@ -0,0 +1,43 @@
+-- Migration: Roles and Permissions
+-- Description: Platform roles for operators. A role grants permission patterns (e.g. "migrations:*" or "*"), and users are granted roles. Users listed in BOOTSTRAP_ADMIN_EMAILS are admins without a row here.
+
+CREATE TABLE IF NOT EXISTS roles (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  permission TEXT NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE ON UPDATE CASCADE,
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role);
+
+INSERT INTO roles (name, description) VALUES
+  ('admin', 'Full access to the platform'),
+  ('operator', 'Monitors the platform and checks migrations')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', '*'),
+  ('operator', 'system:health'),
+  ('operator', 'migrations:read')
+ON CONFLICT DO NOTHING;
+
+-- Roles are read and changed with the service role; users can only see their own
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own roles" ON user_roles;
+CREATE POLICY "Users can view own roles" ON user_roles FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,104 @@
+-- Migration: Admin Console
+-- Description: User suspension, an audit trail of admin actions, and the lookups the admin console needs (user search by email and usage per user).
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'suspended_at') THEN
+    ALTER TABLE profiles ADD COLUMN suspended_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'suspended_reason') THEN
+    ALTER TABLE profiles ADD COLUMN suspended_reason TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'suspended_by') THEN
+    ALTER TABLE profiles ADD COLUMN suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  ip_address INET,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id);
+
+-- Only the service role reads and writes the audit log
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_file_uploads_failed ON file_uploads(updated_at DESC) WHERE processing_status = 'failed';
+
+-- New permissions for the console; admins already have them through '*'
+INSERT INTO role_permissions (role, permission) VALUES
+  ('operator', 'admin:access'),
+  ('operator', 'users:read')
+ON CONFLICT DO NOTHING;
+
+-- Users matching an email, username or name, newest first. total_count is the
+-- number of matches before paging.
+CREATE OR REPLACE FUNCTION admin_search_users(search TEXT DEFAULT NULL, page_size INTEGER DEFAULT 25, page_offset INTEGER DEFAULT 0)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  username TEXT,
+  full_name TEXT,
+  created_at TIMESTAMPTZ,
+  last_sign_in_at TIMESTAMPTZ,
+  suspended_at TIMESTAMPTZ,
+  suspended_reason TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email::TEXT, p.username, p.full_name, u.created_at, u.last_sign_in_at,
+    p.suspended_at, p.suspended_reason, COUNT(*) OVER () AS total_count
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE search IS NULL OR search = ''
+    OR u.email ILIKE '%' || search || '%'
+    OR p.username ILIKE '%' || search || '%'
+    OR p.full_name ILIKE '%' || search || '%'
+    OR u.id::TEXT = search
+  ORDER BY u.created_at DESC
+  LIMIT page_size OFFSET page_offset;
+$$;
+
+-- API requests, tokens, cost and errors per user since a point in time, for the
+-- given users or else the biggest spenders
+CREATE OR REPLACE FUNCTION admin_usage_by_user(since TIMESTAMPTZ, user_ids UUID[] DEFAULT NULL, max_users INTEGER DEFAULT 10)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  requests BIGINT,
+  tokens BIGINT,
+  cost NUMERIC,
+  errors BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.user_id, u.email::TEXT, COUNT(*), COALESCE(SUM(a.tokens_used), 0), COALESCE(SUM(a.cost), 0),
+    COUNT(*) FILTER (WHERE a.status_code >= 400)
+  FROM api_usage a
+  LEFT JOIN auth.users u ON u.id = a.user_id
+  WHERE a.created_at >= since AND (user_ids IS NULL OR a.user_id = ANY(user_ids))
+  GROUP BY a.user_id, u.email
+  ORDER BY COALESCE(SUM(a.cost), 0) DESC
+  LIMIT CASE WHEN user_ids IS NULL THEN max_users END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_search_users(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION admin_usage_by_user(TIMESTAMPTZ, UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,174 @@
+-- Migration: Tamper-Evident Audit Log
+-- Description: Records how the actor authenticated (API key or session), the workspace and a before/after diff with each audit entry, hash-chains entries so edits and deletions can be detected, and makes the audit log append-only.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'seq') THEN
+    ALTER TABLE audit_log ADD COLUMN seq BIGINT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'org_id') THEN
+    ALTER TABLE audit_log ADD COLUMN org_id UUID;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'api_key_id') THEN
+    ALTER TABLE audit_log ADD COLUMN api_key_id UUID;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'session_id') THEN
+    ALTER TABLE audit_log ADD COLUMN session_id TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'changes') THEN
+    ALTER TABLE audit_log ADD COLUMN changes JSONB NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'prev_hash') THEN
+    ALTER TABLE audit_log ADD COLUMN prev_hash TEXT;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'hash') THEN
+    ALTER TABLE audit_log ADD COLUMN hash TEXT;
+  END IF;
+END $$;
+
+-- Entries outlive the users who made them. Clearing actor_id when a user is
+-- deleted would be an update, which the log no longer allows.
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_actor_id_fkey;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_log_seq ON audit_log(seq);
+CREATE INDEX IF NOT EXISTS idx_audit_log_org_id ON audit_log(org_id, seq DESC);
+
+-- SHA-256 of an entry's contents and the hash of the entry before it. Changing
+-- any recorded field, or removing an entry, breaks the chain from there on.
+CREATE OR REPLACE FUNCTION audit_log_entry_hash(entry audit_log)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_array(
+    entry.seq,
+    entry.prev_hash,
+    entry.id,
+    entry.actor_id,
+    entry.org_id,
+    entry.api_key_id,
+    entry.session_id,
+    entry.action,
+    entry.target_type,
+    entry.target_id,
+    entry.changes,
+    entry.metadata,
+    host(entry.ip_address),
+    extract(epoch FROM entry.created_at)
+  )::TEXT, 'UTF8')), 'hex');
+$$;
+
+-- Chain the entries written before this migration, oldest first
+DO $$
+DECLARE
+  entry audit_log;
+  last_seq BIGINT;
+  last_hash TEXT;
+BEGIN
+  SELECT seq, hash INTO last_seq, last_hash FROM audit_log WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1;
+
+  FOR entry IN SELECT * FROM audit_log WHERE seq IS NULL ORDER BY created_at, id LOOP
+    entry.seq := COALESCE(last_seq, 0) + 1;
+    entry.prev_hash := last_hash;
+    entry.hash := audit_log_entry_hash(entry);
+
+    UPDATE audit_log SET seq = entry.seq, prev_hash = entry.prev_hash, hash = entry.hash WHERE id = entry.id;
+
+    last_seq := entry.seq;
+    last_hash := entry.hash;
+  END LOOP;
+END $$;
+
+ALTER TABLE audit_log ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE audit_log ALTER COLUMN hash SET NOT NULL;
+
+-- Link each new entry to the last one. The lock makes writers take turns, so
+-- two entries can't both claim the same predecessor.
+CREATE OR REPLACE FUNCTION audit_log_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_seq BIGINT;
+  last_hash TEXT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('audit_log'));
+
+  SELECT seq, hash INTO last_seq, last_hash FROM audit_log ORDER BY seq DESC LIMIT 1;
+
+  NEW.seq := COALESCE(last_seq, 0) + 1;
+  NEW.prev_hash := last_hash;
+  NEW.created_at := NOW();
+  NEW.hash := audit_log_entry_hash(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION audit_log_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'audit_log_chain_entry') THEN
+    CREATE TRIGGER audit_log_chain_entry
+      BEFORE INSERT ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_chain();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'audit_log_no_changes') THEN
+    CREATE TRIGGER audit_log_no_changes
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'audit_log_no_truncate') THEN
+    CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+  END IF;
+END $$;
+
+-- Walk the chain, or its last max_entries entries, recomputing every hash.
+-- first_invalid_seq is the first entry that was edited, or that follows a
+-- removed entry; it's null when the chain is intact.
+CREATE OR REPLACE FUNCTION verify_audit_chain(max_entries INTEGER DEFAULT NULL)
+RETURNS TABLE (checked BIGINT, first_invalid_seq BIGINT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry audit_log;
+  start_seq BIGINT;
+  expected_prev TEXT;
+  entries_checked BIGINT := 0;
+BEGIN
+  SELECT GREATEST(COALESCE(MAX(seq), 0) - COALESCE(max_entries, MAX(seq)) + 1, 1) INTO start_seq FROM audit_log;
+  SELECT hash INTO expected_prev FROM audit_log WHERE seq = start_seq - 1;
+
+  FOR entry IN SELECT * FROM audit_log WHERE seq >= start_seq ORDER BY seq LOOP
+    IF entry.seq <> start_seq + entries_checked
+      OR entry.prev_hash IS DISTINCT FROM expected_prev
+      OR entry.hash IS DISTINCT FROM audit_log_entry_hash(entry) THEN
+      RETURN QUERY SELECT entries_checked, entry.seq;
+      RETURN;
+    END IF;
+
+    expected_prev := entry.hash;
+    entries_checked := entries_checked + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT entries_checked, NULL::BIGINT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_audit_chain(INTEGER) FROM PUBLIC, anon, authenticated;
+
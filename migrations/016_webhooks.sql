@@ -0,0 +1,57 @@
+-- Migration: Webhooks
+-- Description: Outbound webhook endpoints for a user, an organization or a single API key, and a log of every delivery attempt so failed deliveries can be retried with backoff and replayed.
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE, -- Only events caused by this key, null for the whole workspace
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT '{}', -- Event types, or '*' for all
+  secret TEXT NOT NULL, -- Signs payloads; the endpoint's owner needs it to verify them
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id) WHERE org_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_org_id ON webhook_endpoints(org_id) WHERE org_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL, -- Shared by every delivery of the same event, including replays
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(), -- Null once the delivery succeeded or gave up
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- Endpoints and deliveries are managed through the API; members can see
+-- their own and their organizations'
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Users can view own webhook endpoints" ON webhook_endpoints FOR SELECT USING ((auth.uid() = user_id AND org_id IS NULL) OR is_org_member(org_id, 'admin'));
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries" ON webhook_deliveries FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE webhook_endpoints.id = webhook_deliveries.endpoint_id
+      AND ((auth.uid() = webhook_endpoints.user_id AND webhook_endpoints.org_id IS NULL) OR is_org_member(webhook_endpoints.org_id, 'admin'))
+  )
+);
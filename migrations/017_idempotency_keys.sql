@@ -0,0 +1,36 @@
+-- Migration: Idempotency Keys
+-- Description: Remembers the first response to each Idempotency-Key a user sends for 24 hours, so a retried API request is answered with the stored response instead of being carried out twice.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of the method, path and body; a retry must match it
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  response_content_type TEXT,
+  locked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- When the request being processed was claimed
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Only the API reads and writes stored responses
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Delete the keys that have expired; schedule it daily, e.g. with pg_cron
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM idempotency_keys WHERE expires_at < NOW();
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,50 @@
+-- Migration: Message Branches
+-- Description: Stores chat and API conversation messages as trees. Each message points at the message it follows, so an edited user turn or a regenerated reply is saved as a sibling branch, and each conversation remembers the last message of the branch being shown.
+
+-- The message each message follows; null for the first turn
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE api_conversation_messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES api_conversation_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+CREATE INDEX IF NOT EXISTS idx_api_conversation_messages_parent_id ON api_conversation_messages(parent_id);
+
+-- Last message of the active branch; history is read by following parent_id back from it
+ALTER TABLE chats ADD COLUMN IF NOT EXISTS active_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE api_conversations ADD COLUMN IF NOT EXISTS active_message_id UUID REFERENCES api_conversation_messages(id) ON DELETE SET NULL;
+
+-- Existing conversations become a single branch, each message following the one before it.
+-- Conversations that already have branches are left alone, so the migration can be rerun.
+UPDATE messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS previous_id
+  FROM messages
+) ordered
+WHERE m.id = ordered.id
+  AND ordered.previous_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM messages b WHERE b.chat_id = m.chat_id AND b.parent_id IS NOT NULL);
+
+UPDATE api_conversation_messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM api_conversation_messages
+) ordered
+WHERE m.id = ordered.id
+  AND ordered.previous_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM api_conversation_messages b
+    WHERE b.conversation_id = m.conversation_id AND b.parent_id IS NOT NULL
+  );
+
+UPDATE chats c
+SET active_message_id = (
+  SELECT id FROM messages WHERE chat_id = c.id ORDER BY created_at DESC, id DESC LIMIT 1
+)
+WHERE c.active_message_id IS NULL;
+
+UPDATE api_conversations c
+SET active_message_id = (
+  SELECT id FROM api_conversation_messages WHERE conversation_id = c.id ORDER BY created_at DESC, id DESC LIMIT 1
+)
+WHERE c.active_message_id IS NULL;
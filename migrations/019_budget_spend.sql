@@ -0,0 +1,35 @@
+-- Migration: Budget Spend
+-- Description: Sums spend for budget checks in the database. Fetching the usage rows instead is capped at the API's row limit, which undercounted busy users and keys.
+
+-- Spend since the start of the current day and month for one user, organization
+-- or API key. A user's own spend leaves out usage billed to an organization.
+CREATE OR REPLACE FUNCTION budget_spend(scope_column TEXT, scope_id UUID, day_start TIMESTAMPTZ, month_start TIMESTAMPTZ)
+RETURNS TABLE (daily NUMERIC, monthly NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF scope_column = 'user_id' THEN
+    RETURN QUERY
+      SELECT COALESCE(SUM(cost) FILTER (WHERE created_at >= day_start), 0), COALESCE(SUM(cost), 0)
+      FROM api_usage
+      WHERE user_id = scope_id AND org_id IS NULL AND created_at >= month_start AND cost IS NOT NULL;
+  ELSIF scope_column = 'org_id' THEN
+    RETURN QUERY
+      SELECT COALESCE(SUM(cost) FILTER (WHERE created_at >= day_start), 0), COALESCE(SUM(cost), 0)
+      FROM api_usage
+      WHERE org_id = scope_id AND created_at >= month_start AND cost IS NOT NULL;
+  ELSIF scope_column = 'api_key_id' THEN
+    RETURN QUERY
+      SELECT COALESCE(SUM(cost) FILTER (WHERE created_at >= day_start), 0), COALESCE(SUM(cost), 0)
+      FROM api_usage
+      WHERE api_key_id = scope_id AND created_at >= month_start AND cost IS NOT NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown budget scope column: %', scope_column;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION budget_spend(TEXT, UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
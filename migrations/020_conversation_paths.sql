@@ -0,0 +1,41 @@
+-- Migration: Conversation Paths
+-- Description: Reads the branch ending at an API conversation message in the database, by following parent_id back from it. Building it from the conversation's messages instead was capped at the API's row limit, which cut long conversations short.
+
+-- Needed to find each message's siblings
+CREATE INDEX IF NOT EXISTS idx_api_conversation_messages_conversation_parent
+  ON api_conversation_messages(conversation_id, parent_id);
+
+-- The messages from the first turn to a message, oldest first, each with the IDs
+-- of its siblings (itself included), oldest first. Returned as one JSON array so
+-- the row limit doesn't apply.
+CREATE OR REPLACE FUNCTION api_conversation_path(target_conversation_id UUID, target_message_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE path(id, parent_id, depth) AS (
+    SELECT id, parent_id, 0
+    FROM api_conversation_messages
+    WHERE id = target_message_id AND conversation_id = target_conversation_id
+    UNION ALL
+    SELECT m.id, m.parent_id, path.depth + 1
+    FROM api_conversation_messages m
+    JOIN path ON m.id = path.parent_id
+    WHERE m.conversation_id = target_conversation_id
+  )
+  SELECT COALESCE(
+    jsonb_agg(to_jsonb(m) || jsonb_build_object('sibling_ids', siblings.ids) ORDER BY path.depth DESC),
+    '[]'::jsonb
+  )
+  FROM path
+  JOIN api_conversation_messages m ON m.id = path.id
+  CROSS JOIN LATERAL (
+    SELECT jsonb_agg(s.id ORDER BY s.created_at, s.id) AS ids
+    FROM api_conversation_messages s
+    WHERE s.conversation_id = target_conversation_id AND s.parent_id IS NOT DISTINCT FROM m.parent_id
+  ) siblings;
+$$;
+
+REVOKE EXECUTE ON FUNCTION api_conversation_path(UUID, UUID) FROM PUBLIC, anon, authenticated;
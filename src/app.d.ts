@@ -3,17 +3,25 @@
 
 import type { User } from '@supabase/supabase-js';
 import type { AuthSession } from '$lib/server/auth';
+import type { ValidationIssue } from '$lib/server/validation';
 
 declare global {
 	namespace App {
-		// interface Error {}
+		interface Error {
+			message: string;
+			code?: string; // Machine-readable error code returned by the API, e.g. "KEY_NOT_FOUND"
+			errors?: ValidationIssue[]; // Every invalid field of a VALIDATION_ERROR
+		}
 		interface Locals {
 			session: AuthSession | null;
 			user: User | null;
 		}
 		// interface PageData {}
 		// interface PageState {}
-		// interface Platform {}
+		interface Platform {
+			// Cloudflare's execution context, to keep the worker alive for background work
+			ctx?: { waitUntil(promise: Promise<unknown>): void };
+		}
 	}
 }
 
@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createClient } from './client.js';
+import {
+	ConnectionError,
+	InternalServerError,
+	NotFoundError,
+	PermissionDeniedError,
+	RateLimitError,
+	ValidationError
+} from './errors.js';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const client = createClient({
+	apiKey: 'ska_test_3f9a0c1b2d4e5f60_secret',
+	baseUrl: 'https://api.example.com/api/v1/',
+	retryBaseDelayMs: 0,
+	fetch: fetchMock
+});
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json', ...headers }
+	});
+}
+
+function sseResponse(parts: string[]) {
+	const encoder = new TextEncoder();
+	const body = new ReadableStream({
+		start(controller) {
+			for (const part of parts) controller.enqueue(encoder.encode(part));
+			controller.close();
+		}
+	});
+	return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function sentRequest(call = 0) {
+	const [url, init] = fetchMock.mock.calls[call];
+	return { url: String(url), init: init!, headers: init!.headers as Record<string, string> };
+}
+
+describe('SDK client', () => {
+	beforeEach(() => {
+		fetchMock.mockReset();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	describe('requests', () => {
+		it('should send the API key and query parameters', async () => {
+			fetchMock.mockResolvedValueOnce(jsonResponse({ data: [], metadata: {} }));
+
+			const list = await client.prompts.list({ limit: 20, search: undefined, trending: true });
+
+			expect(list).toEqual({ data: [], metadata: {} });
+			const { url, init, headers } = sentRequest();
+			expect(url).toBe('https://api.example.com/api/v1/prompts?limit=20&trending=true');
+			expect(init.method).toBe('GET');
+			expect(headers.Authorization).toBe('Bearer ska_test_3f9a0c1b2d4e5f60_secret');
+			expect(headers['Idempotency-Key']).toBeUndefined();
+		});
+
+		it('should send JSON bodies with an idempotency key', async () => {
+			fetchMock.mockResolvedValueOnce(jsonResponse({ id: 'prompt-1', version: 2 }));
+
+			await client.prompts.restore('prompt 1', { version: 1 });
+
+			const { url, init, headers } = sentRequest();
+			expect(url).toBe('https://api.example.com/api/v1/prompts/prompt%201/restore');
+			expect(init.method).toBe('POST');
+			expect(init.body).toBe('{"version":1}');
+			expect(headers['Content-Type']).toBe('application/json');
+			expect(headers['Idempotency-Key']).toEqual(expect.any(String));
+		});
+
+		it('should use the idempotency key it is given', async () => {
+			fetchMock.mockResolvedValueOnce(jsonResponse({ deleted: true, permanent: true }));
+
+			await client.keys.delete('key-1', { permanent: true }, { idempotencyKey: 'delete-key-1' });
+
+			const { url, headers } = sentRequest();
+			expect(url).toBe('https://api.example.com/api/v1/auth/keys/key-1?permanent=true');
+			expect(headers['Idempotency-Key']).toBe('delete-key-1');
+		});
+
+		it('should edit, regenerate and switch conversation branches', async () => {
+			fetchMock.mockImplementation(async () => jsonResponse({}));
+
+			await client.conversations.messages.edit('conv-1', 'msg-1', { content: 'Try again' });
+			await client.conversations.messages.regenerate('conv-1', 'msg-2');
+			await client.conversations.switchBranch('conv-1', 'msg-1');
+
+			const calls = [0, 1, 2].map((call) => sentRequest(call));
+			expect(calls.map(({ url, init }) => [init.method, url, init.body])).toEqual([
+				[
+					'POST',
+					'https://api.example.com/api/v1/conversations/conv-1/messages/msg-1/edit',
+					'{"content":"Try again","stream":false}'
+				],
+				[
+					'POST',
+					'https://api.example.com/api/v1/conversations/conv-1/messages/msg-2/regenerate',
+					'{"stream":false}'
+				],
+				[
+					'PUT',
+					'https://api.example.com/api/v1/conversations/conv-1/branch',
+					'{"message_id":"msg-1"}'
+				]
+			]);
+		});
+
+		it('should upload files as multipart form data', async () => {
+			fetchMock.mockResolvedValueOnce(jsonResponse({ id: 'file-1' }));
+
+			await client.files.upload(new Blob(['%PDF']), {
+				filename: 'report.pdf',
+				process: true,
+				options: { analyze_content: true }
+			});
+
+			const form = sentRequest().init.body as FormData;
+			expect((form.get('file') as File).name).toBe('report.pdf');
+			expect(form.get('process')).toBe('true');
+			expect(form.get('options')).toBe('{"analyze_content":true}');
+			expect(sentRequest().headers['Content-Type']).toBeUndefined();
+		});
+	});
+
+	describe('errors', () => {
+		it('should throw typed errors with the response code', async () => {
+			fetchMock.mockResolvedValueOnce(
+				jsonResponse({ message: 'System prompt not found', code: 'PROMPT_NOT_FOUND' }, 404)
+			);
+
+			const err = await client.prompts.get('missing').catch((e) => e);
+
+			expect(err).toBeInstanceOf(NotFoundError);
+			expect(err).toMatchObject({
+				status: 404,
+				code: 'PROMPT_NOT_FOUND',
+				message: 'System prompt not found'
+			});
+		});
+
+		it('should list the invalid fields of validation errors', async () => {
+			const issues = [{ path: 'body.version', code: 'too_small', message: 'must be >= 1' }];
+			fetchMock.mockResolvedValueOnce(
+				jsonResponse({ message: 'Invalid request', code: 'VALIDATION_ERROR', errors: issues }, 422)
+			);
+
+			const err = await client.prompts.restore('prompt-1', { version: 0 }).catch((e) => e);
+
+			expect(err).toBeInstanceOf(ValidationError);
+			expect(err.issues).toEqual(issues);
+		});
+
+		it('should read errors in the formatApiError envelope', async () => {
+			fetchMock.mockResolvedValueOnce(
+				jsonResponse(
+					{
+						error: { message: 'Model not allowed', code: 'MODEL_NOT_ALLOWED', type: 'client_error' }
+					},
+					403
+				)
+			);
+
+			const err = await client.models.tokenize({ text: 'Hi' }).catch((e) => e);
+
+			expect(err).toBeInstanceOf(PermissionDeniedError);
+			expect(err.code).toBe('MODEL_NOT_ALLOWED');
+			expect(err.message).toBe('Model not allowed');
+		});
+	});
+
+	describe('retries', () => {
+		it('should wait as long as Retry-After asks, keeping the idempotency key', async () => {
+			vi.useFakeTimers();
+			fetchMock
+				.mockResolvedValueOnce(
+					jsonResponse({ message: 'Rate limit exceeded' }, 429, { 'Retry-After': '2' })
+				)
+				.mockResolvedValueOnce(jsonResponse({ id: 'schema-1' }));
+
+			const created = client.schemas.create({ name: 'Sentiment', json_schema: {} });
+			await vi.advanceTimersByTimeAsync(1999);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+
+			expect(await created).toEqual({ id: 'schema-1' });
+			expect(sentRequest(1).headers['Idempotency-Key']).toBe(
+				sentRequest(0).headers['Idempotency-Key']
+			);
+		});
+
+		it('should wait for the rate limit window to reset when none of it remains', async () => {
+			vi.useFakeTimers();
+			vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+			const reset = String(Date.parse('2024-01-01T00:00:05Z') / 1000);
+			fetchMock
+				.mockResolvedValueOnce(
+					jsonResponse({ message: 'Busy' }, 503, {
+						'X-RateLimit-Remaining': '0',
+						'X-RateLimit-Reset': reset
+					})
+				)
+				.mockResolvedValueOnce(jsonResponse({ total_requests: 1 }));
+
+			const usage = client.usage.get();
+			await vi.advanceTimersByTimeAsync(4999);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+
+			expect(await usage).toEqual({ total_requests: 1 });
+		});
+
+		it('should not retry when asked to wait longer than the retry delay limit', async () => {
+			fetchMock.mockResolvedValueOnce(
+				jsonResponse({ message: 'Rate limit exceeded' }, 429, { 'Retry-After': '3600' })
+			);
+
+			const err = await client.usage.get().catch((e) => e);
+
+			expect(err).toBeInstanceOf(RateLimitError);
+			expect(err.retryAfterMs).toBe(3600000);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should give up on server errors after the retries', async () => {
+			fetchMock.mockImplementation(async () => jsonResponse({ message: 'Internal Error' }, 500));
+
+			const err = await client.files.get('file-1').catch((e) => e);
+
+			expect(err).toBeInstanceOf(InternalServerError);
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not retry requests the server rejected', async () => {
+			fetchMock.mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404));
+
+			await expect(client.files.delete('file-1')).rejects.toBeInstanceOf(NotFoundError);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should retry failed connections', async () => {
+			fetchMock
+				.mockRejectedValueOnce(new TypeError('fetch failed'))
+				.mockResolvedValueOnce(jsonResponse({ model: 'openai/gpt-4o', tokens: 3 }));
+
+			expect(await client.models.tokenize({ text: 'Hi' }, { maxRetries: 1 })).toMatchObject({
+				tokens: 3
+			});
+
+			fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+			await expect(client.models.list({}, { maxRetries: 1 })).rejects.toBeInstanceOf(
+				ConnectionError
+			);
+		});
+	});
+
+	describe('streaming', () => {
+		it('should yield each chunk until [DONE]', async () => {
+			const chunk = (content: string) =>
+				JSON.stringify({ id: 'gen_1', choices: [{ index: 0, delta: { content } }] });
+			const first = `data: ${chunk('Hel')}\n\n`;
+			fetchMock.mockResolvedValueOnce(
+				sseResponse([
+					first.slice(0, 20),
+					first.slice(20),
+					`: keep-alive\n\ndata: ${chunk('lo')}\n\n`,
+					'data: [DONE]\n\n'
+				])
+			);
+
+			const stream = await client.chat.completions.stream({
+				messages: [{ role: 'user', content: 'Hi' }]
+			});
+			let reply = '';
+			for await (const event of stream) {
+				reply += event.choices[0].delta.content;
+			}
+
+			expect(reply).toBe('Hello');
+			expect(JSON.parse(sentRequest().init.body as string).stream).toBe(true);
+			expect(sentRequest().headers['Idempotency-Key']).toBeUndefined();
+		});
+
+		it('should stream conversation replies with the final usage event', async () => {
+			const usage = { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 };
+			fetchMock.mockResolvedValueOnce(
+				sseResponse([
+					`data: ${JSON.stringify({ id: 'msg-2', choices: [{ index: 0, delta: { content: 'Hi' } }] })}\n\n`,
+					`data: ${JSON.stringify({ id: 'msg-2', choices: [], usage, user_message_id: 'msg-1' })}\n\n`,
+					'data: [DONE]\n\n'
+				])
+			);
+
+			const stream = await client.conversations.messages.stream('conv 1', { content: 'Hello' });
+			const events = [];
+			for await (const event of stream) events.push(event);
+
+			expect(events.at(-1)).toMatchObject({ usage, user_message_id: 'msg-1' });
+			const { url, init } = sentRequest();
+			expect(url).toBe('https://api.example.com/api/v1/conversations/conv%201/messages');
+			expect(JSON.parse(init.body as string)).toEqual({ content: 'Hello', stream: true });
+		});
+
+		it('should throw errors before the stream starts', async () => {
+			fetchMock.mockResolvedValueOnce(
+				jsonResponse({ message: 'Budget exceeded' }, 402, { 'Content-Type': 'application/json' })
+			);
+
+			await expect(
+				client.chat.completions.stream({ messages: [{ role: 'user', content: 'Hi' }] })
+			).rejects.toMatchObject({ name: 'BudgetExceededError', status: 402 });
+		});
+	});
+});
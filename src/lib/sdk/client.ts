@@ -0,0 +1,496 @@
+import { apiErrorFromResponse, ConnectionError, parseRetryAfter, type ApiError } from './errors.js';
+import { createStream, type Stream } from './streaming.js';
+import type {
+	ApiKey,
+	ApiKeyList,
+	ChatCompletion,
+	ChatCompletionChunk,
+	ChatCompletionParams,
+	ConversationBranch,
+	ConversationList,
+	ConversationMessageChunk,
+	CreateApiKeyParams,
+	CreatedApiKey,
+	CreateStructuredOutputParams,
+	CreateSystemPromptParams,
+	DeleteApiKeyQuery,
+	DeletedApiKey,
+	DeletedConversation,
+	DeletedFile,
+	DeletedStructuredOutput,
+	DeletedSystemPrompt,
+	EditMessageParams,
+	ExecuteSystemPromptParams,
+	ExtractedFile,
+	ExtractFileParams,
+	FileList,
+	FileStats,
+	FileUpload,
+	ListApiKeysQuery,
+	ListConversationsQuery,
+	ListFilesQuery,
+	ListModelsQuery,
+	ListStructuredOutputsQuery,
+	ListSystemPromptsQuery,
+	ModelList,
+	RegenerateMessageParams,
+	RestoreSystemPromptParams,
+	RotateApiKeyParams,
+	RotatedApiKey,
+	SendMessageParams,
+	SentMessage,
+	StructuredCompletion,
+	StructuredCompletionParams,
+	StructuredOutput,
+	StructuredOutputList,
+	SystemPrompt,
+	SystemPromptExecution,
+	SystemPromptList,
+	SystemPromptVersion,
+	TokenCount,
+	TokenizeParams,
+	UpdateApiKeyParams,
+	UpdateStructuredOutputParams,
+	UpdateSystemPromptParams,
+	UploadedFile,
+	UploadFileParams,
+	Usage,
+	UsageQuery
+} from './types.js';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 60000;
+
+export interface ClientOptions {
+	apiKey: string;
+	baseUrl: string; // e.g. https://your-domain.com/api/v1
+	maxRetries?: number; // Retries of failed requests, on top of the first attempt
+	retryBaseDelayMs?: number;
+	retryMaxDelayMs?: number; // Requests the server asks to wait longer for aren't retried
+	headers?: Record<string, string>; // Sent with every request
+	fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+	signal?: AbortSignal;
+	// Sent with mutating requests so retries aren't carried out twice. One is
+	// generated for each call when not given.
+	idempotencyKey?: string;
+	maxRetries?: number;
+	headers?: Record<string, string>;
+}
+
+type QueryValue = string | number | boolean | string[] | null | undefined;
+
+interface ApiRequest {
+	method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+	path: string;
+	query?: { [name: string]: QueryValue };
+	body?: unknown; // JSON, or FormData for uploads
+	stream?: boolean;
+}
+
+/**
+ * Delay before retry number `retry` (starting at 1), using exponential backoff
+ * with full jitter
+ */
+function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number): number {
+	const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+	return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * How long the server asked to wait: `Retry-After`, or until the rate limit
+ * window resets when none of it remains
+ */
+function requestedDelay(headers: Headers): number | undefined {
+	const retryAfter = parseRetryAfter(headers.get('retry-after'));
+	if (retryAfter !== undefined) return retryAfter;
+
+	for (const suffix of ['', '-tokens']) {
+		const reset = Number(headers.get(`x-ratelimit-reset${suffix}`));
+		if (headers.get(`x-ratelimit-remaining${suffix}`) === '0' && reset > 0) {
+			return Math.max(0, reset * 1000 - Date.now());
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Failures that may succeed when sent again: timeouts, rate limits, server
+ * errors and a retry racing the request it repeats
+ */
+function isRetryable(err: ApiError): boolean {
+	return (
+		err.status === 408 ||
+		err.status === 429 ||
+		err.status >= 500 ||
+		err.code === 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+	);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) return reject(signal.reason);
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal!.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+async function readBody(response: Response): Promise<unknown> {
+	const text = await response.text().catch(() => '');
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
+
+function buildUrl(baseUrl: string, path: string, query: ApiRequest['query'] = {}): string {
+	const params = new URLSearchParams();
+	for (const [name, value] of Object.entries(query)) {
+		if (value === undefined || value === null) continue;
+		for (const item of Array.isArray(value) ? value : [value]) {
+			params.append(name, String(item));
+		}
+	}
+
+	const search = params.toString();
+	return `${baseUrl.replace(/\/+$/, '')}${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Create a client for the v1 API. Failed requests are retried with backoff,
+ * waiting as long as rate limit headers ask; errors are thrown as `ApiError`
+ * subclasses and `ConnectionError`.
+ */
+export function createClient(options: ClientOptions) {
+	const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+	const retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+	const retryMaxDelayMs = options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+
+	/**
+	 * Send a request, retrying it while it fails in a way that may pass, and
+	 * return the successful response
+	 */
+	async function send(request: ApiRequest, requestOptions: RequestOptions = {}): Promise<Response> {
+		const url = buildUrl(options.baseUrl, request.path, request.query);
+		const maxRetries = requestOptions.maxRetries ?? options.maxRetries ?? DEFAULT_MAX_RETRIES;
+		const signal = requestOptions.signal;
+
+		const headers: Record<string, string> = {
+			Accept: request.stream ? 'text/event-stream' : 'application/json',
+			...options.headers,
+			...requestOptions.headers,
+			Authorization: `Bearer ${options.apiKey}`
+		};
+		// Streaming completions don't accept idempotency keys
+		if (request.method !== 'GET' && !request.stream) {
+			headers['Idempotency-Key'] = requestOptions.idempotencyKey ?? crypto.randomUUID();
+		}
+
+		let body: BodyInit | undefined;
+		if (request.body instanceof FormData) {
+			body = request.body;
+		} else if (request.body !== undefined) {
+			body = JSON.stringify(request.body);
+			headers['Content-Type'] = 'application/json';
+		}
+
+		for (let attempt = 1; ; attempt++) {
+			let response: Response;
+			try {
+				response = await fetchImpl(url, { method: request.method, headers, body, signal });
+			} catch (err) {
+				if (signal?.aborted) throw err;
+				if (attempt > maxRetries) {
+					throw new ConnectionError(`Could not reach ${url}`, { cause: err });
+				}
+				await sleep(backoffDelay(attempt, retryBaseDelayMs, retryMaxDelayMs), signal);
+				continue;
+			}
+
+			if (response.ok) return response;
+
+			const err = apiErrorFromResponse(response.status, response.headers, await readBody(response));
+			if (attempt > maxRetries || !isRetryable(err)) throw err;
+
+			const delay = requestedDelay(response.headers);
+			if (delay !== undefined && delay > retryMaxDelayMs) throw err;
+
+			await sleep(
+				Math.max(delay ?? 0, backoffDelay(attempt, retryBaseDelayMs, retryMaxDelayMs)),
+				signal
+			);
+		}
+	}
+
+	async function request<T>(apiRequest: ApiRequest, requestOptions?: RequestOptions): Promise<T> {
+		const response = await send(apiRequest, requestOptions);
+		return (await response.json()) as T;
+	}
+
+	/**
+	 * Open an event stream. Resolves once the response starts, so failed
+	 * requests are retried and thrown here.
+	 */
+	async function stream<T>(
+		apiRequest: ApiRequest,
+		requestOptions: RequestOptions = {}
+	): Promise<Stream<T>> {
+		const controller = new AbortController();
+		const { signal } = requestOptions;
+		signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+		if (signal?.aborted) controller.abort(signal.reason);
+
+		const response = await send(
+			{ ...apiRequest, stream: true },
+			{ ...requestOptions, signal: controller.signal }
+		);
+		return createStream<T>(response, controller);
+	}
+
+	const id = (value: string) => encodeURIComponent(value);
+
+	return {
+		request,
+
+		keys: {
+			list: (query?: ListApiKeysQuery, opts?: RequestOptions) =>
+				request<ApiKeyList>({ method: 'GET', path: '/auth/keys', query }, opts),
+			create: (params: CreateApiKeyParams, opts?: RequestOptions) =>
+				request<CreatedApiKey>({ method: 'POST', path: '/auth/keys', body: params }, opts),
+			get: (keyId: string, opts?: RequestOptions) =>
+				request<ApiKey>({ method: 'GET', path: `/auth/keys/${id(keyId)}` }, opts),
+			update: (keyId: string, params: UpdateApiKeyParams, opts?: RequestOptions) =>
+				request<ApiKey>({ method: 'PUT', path: `/auth/keys/${id(keyId)}`, body: params }, opts),
+			delete: (keyId: string, query?: DeleteApiKeyQuery, opts?: RequestOptions) =>
+				request<DeletedApiKey>({ method: 'DELETE', path: `/auth/keys/${id(keyId)}`, query }, opts),
+			rotate: (keyId: string, params: RotateApiKeyParams = {}, opts?: RequestOptions) =>
+				request<RotatedApiKey>(
+					{ method: 'POST', path: `/auth/keys/${id(keyId)}/rotate`, body: params },
+					opts
+				)
+		},
+
+		usage: {
+			get: (query?: UsageQuery, opts?: RequestOptions) =>
+				request<Usage>({ method: 'GET', path: '/auth/usage', query }, opts)
+		},
+
+		prompts: {
+			list: (query?: ListSystemPromptsQuery, opts?: RequestOptions) =>
+				request<SystemPromptList>({ method: 'GET', path: '/prompts', query }, opts),
+			create: (params: CreateSystemPromptParams, opts?: RequestOptions) =>
+				request<SystemPrompt>({ method: 'POST', path: '/prompts', body: params }, opts),
+			get: (promptId: string, opts?: RequestOptions) =>
+				request<SystemPrompt>({ method: 'GET', path: `/prompts/${id(promptId)}` }, opts),
+			update: (promptId: string, params: UpdateSystemPromptParams, opts?: RequestOptions) =>
+				request<SystemPrompt>(
+					{ method: 'PUT', path: `/prompts/${id(promptId)}`, body: params },
+					opts
+				),
+			delete: (promptId: string, opts?: RequestOptions) =>
+				request<DeletedSystemPrompt>({ method: 'DELETE', path: `/prompts/${id(promptId)}` }, opts),
+			execute: (promptId: string, params: ExecuteSystemPromptParams = {}, opts?: RequestOptions) =>
+				request<SystemPromptExecution>(
+					{ method: 'POST', path: `/prompts/${id(promptId)}/execute`, body: params },
+					opts
+				),
+			versions: (promptId: string, opts?: RequestOptions) =>
+				request<SystemPromptVersion[]>(
+					{ method: 'GET', path: `/prompts/${id(promptId)}/versions` },
+					opts
+				),
+			restore: (promptId: string, params: RestoreSystemPromptParams, opts?: RequestOptions) =>
+				request<SystemPrompt>(
+					{ method: 'POST', path: `/prompts/${id(promptId)}/restore`, body: params },
+					opts
+				)
+		},
+
+		schemas: {
+			list: (query?: ListStructuredOutputsQuery, opts?: RequestOptions) =>
+				request<StructuredOutputList>({ method: 'GET', path: '/schemas', query }, opts),
+			create: (params: CreateStructuredOutputParams, opts?: RequestOptions) =>
+				request<StructuredOutput>({ method: 'POST', path: '/schemas', body: params }, opts),
+			get: (schemaId: string, opts?: RequestOptions) =>
+				request<StructuredOutput>({ method: 'GET', path: `/schemas/${id(schemaId)}` }, opts),
+			update: (schemaId: string, params: UpdateStructuredOutputParams, opts?: RequestOptions) =>
+				request<StructuredOutput>(
+					{ method: 'PUT', path: `/schemas/${id(schemaId)}`, body: params },
+					opts
+				),
+			delete: (schemaId: string, opts?: RequestOptions) =>
+				request<DeletedStructuredOutput>(
+					{ method: 'DELETE', path: `/schemas/${id(schemaId)}` },
+					opts
+				)
+		},
+
+		chat: {
+			completions: {
+				create: (params: ChatCompletionParams, opts?: RequestOptions) =>
+					request<ChatCompletion>(
+						{ method: 'POST', path: '/chat/completions', body: { ...params, stream: false } },
+						opts
+					),
+				/**
+				 * Stream a completion as `chat.completion.chunk` events
+				 */
+				stream: (params: ChatCompletionParams, opts?: RequestOptions) =>
+					stream<ChatCompletionChunk>(
+						{ method: 'POST', path: '/chat/completions', body: { ...params, stream: true } },
+						opts
+					)
+			}
+		},
+
+		completions: {
+			structured: {
+				create: (params: StructuredCompletionParams, opts?: RequestOptions) =>
+					request<StructuredCompletion>(
+						{ method: 'POST', path: '/completions/structured', body: params },
+						opts
+					)
+			}
+		},
+
+		conversations: {
+			list: (query?: ListConversationsQuery, opts?: RequestOptions) =>
+				request<ConversationList>({ method: 'GET', path: '/conversations', query }, opts),
+			delete: (conversationId: string, opts?: RequestOptions) =>
+				request<DeletedConversation>(
+					{ method: 'DELETE', path: `/conversations/${id(conversationId)}` },
+					opts
+				),
+			/**
+			 * Show the branch holding a message, continuing to its newest reply
+			 */
+			switchBranch: (conversationId: string, messageId: string, opts?: RequestOptions) =>
+				request<ConversationBranch>(
+					{
+						method: 'PUT',
+						path: `/conversations/${id(conversationId)}/branch`,
+						body: { message_id: messageId }
+					},
+					opts
+				),
+			messages: {
+				/**
+				 * The messages of the active branch, each with its place among the
+				 * edits and regenerations of its turn
+				 */
+				list: (conversationId: string, opts?: RequestOptions) =>
+					request<ConversationBranch>(
+						{ method: 'GET', path: `/conversations/${id(conversationId)}/messages` },
+						opts
+					),
+				create: (conversationId: string, params: SendMessageParams, opts?: RequestOptions) =>
+					request<SentMessage>(
+						{
+							method: 'POST',
+							path: `/conversations/${id(conversationId)}/messages`,
+							body: { ...params, stream: false }
+						},
+						opts
+					),
+				/**
+				 * Stream the reply as `chat.completion.chunk` events. The last event
+				 * carries the usage and the ID of the saved user message.
+				 */
+				stream: (
+					conversationId: string,
+					params: Omit<SendMessageParams, 'server_tools' | 'max_steps'>,
+					opts?: RequestOptions
+				) =>
+					stream<ConversationMessageChunk>(
+						{
+							method: 'POST',
+							path: `/conversations/${id(conversationId)}/messages`,
+							body: { ...params, stream: true }
+						},
+						opts
+					),
+				edit: (
+					conversationId: string,
+					messageId: string,
+					params: EditMessageParams,
+					opts?: RequestOptions
+				) =>
+					request<SentMessage>(
+						{
+							method: 'POST',
+							path: `/conversations/${id(conversationId)}/messages/${id(messageId)}/edit`,
+							body: { ...params, stream: false }
+						},
+						opts
+					),
+				regenerate: (
+					conversationId: string,
+					messageId: string,
+					params: RegenerateMessageParams = {},
+					opts?: RequestOptions
+				) =>
+					request<SentMessage>(
+						{
+							method: 'POST',
+							path: `/conversations/${id(conversationId)}/messages/${id(messageId)}/regenerate`,
+							body: { ...params, stream: false }
+						},
+						opts
+					)
+			}
+		},
+
+		files: {
+			list: (query?: ListFilesQuery, opts?: RequestOptions) =>
+				request<FileList>({ method: 'GET', path: '/files', query }, opts),
+			stats: (opts?: RequestOptions) =>
+				request<FileStats>({ method: 'GET', path: '/files', query: { stats: true } }, opts),
+			get: (fileId: string, opts?: RequestOptions) =>
+				request<FileUpload>({ method: 'GET', path: `/files/${id(fileId)}` }, opts),
+			/**
+			 * Upload a PDF, image or audio file. Name a `Blob` with `filename`.
+			 */
+			upload: (
+				file: Blob,
+				{ filename, ...params }: UploadFileParams & { filename?: string } = {},
+				opts?: RequestOptions
+			) => {
+				const form = new FormData();
+				const name = filename ?? (file instanceof File ? file.name : 'upload');
+				form.append('file', new File([file], name, { type: file.type }));
+				if (params.process !== undefined) form.append('process', String(params.process));
+				if (params.options) form.append('options', JSON.stringify(params.options));
+
+				return request<UploadedFile>({ method: 'POST', path: '/files/upload', body: form }, opts);
+			},
+			extract: (fileId: string, params: ExtractFileParams = {}, opts?: RequestOptions) =>
+				request<ExtractedFile>(
+					{ method: 'POST', path: `/files/${id(fileId)}/extract`, body: params },
+					opts
+				),
+			delete: (fileId: string, opts?: RequestOptions) =>
+				request<DeletedFile>({ method: 'DELETE', path: `/files/${id(fileId)}` }, opts)
+		},
+
+		models: {
+			list: (query?: ListModelsQuery, opts?: RequestOptions) =>
+				request<ModelList>({ method: 'GET', path: '/models', query }, opts),
+			tokenize: (params: TokenizeParams, opts?: RequestOptions) =>
+				request<TokenCount>({ method: 'POST', path: '/tokenize', body: params }, opts)
+		}
+	};
+}
+
+export type AcceleratorClient = ReturnType<typeof createClient>;
@@ -0,0 +1,219 @@
+import type { ValidationIssue } from './types.js';
+
+/**
+ * Error codes the API responds with. Others may be added, so handle unknown
+ * codes by status.
+ */
+export type ApiErrorCode =
+	| 'VALIDATION_ERROR'
+	| 'INVALID_JSON'
+	| 'INVALID_BODY'
+	| 'NO_UPDATE_FIELDS'
+	| 'MISSING_SCHEMA_TYPE'
+	| 'INVALID_SCOPES'
+	| 'INVALID_FILE'
+	| 'INVALID_FILE_TYPE'
+	| 'INVALID_WEBHOOK'
+	| 'EXTRACTION_FAILED'
+	| 'ACCOUNT_SUSPENDED'
+	| 'IP_NOT_ALLOWED'
+	| 'ORIGIN_NOT_ALLOWED'
+	| 'MODEL_NOT_ALLOWED'
+	| 'SCOPES_NOT_HELD'
+	| 'RESTRICTIONS_NOT_HELD'
+	| 'OWN_KEY_CHANGE_NOT_ALLOWED'
+	| 'PROMPT_NOT_FOUND'
+	| 'SCHEMA_NOT_FOUND'
+	| 'FILE_NOT_FOUND'
+	| 'KEY_NOT_FOUND'
+	| 'WEBHOOK_NOT_FOUND'
+	| 'DELIVERY_NOT_FOUND'
+	| 'INVALID_IDEMPOTENCY_KEY'
+	| 'IDEMPOTENCY_NOT_SUPPORTED'
+	| 'IDEMPOTENCY_KEY_MISMATCH'
+	| 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+	| 'AUTH_RATE_LIMITED'
+	| (string & {});
+
+/**
+ * An error response from the API
+ */
+export class ApiError extends Error {
+	readonly status: number;
+	readonly code: ApiErrorCode | null;
+	readonly headers: Headers;
+	readonly body: unknown; // The parsed response body, or its text when it isn't JSON
+
+	constructor(
+		status: number,
+		message: string,
+		code: ApiErrorCode | null,
+		headers: Headers,
+		body: unknown
+	) {
+		super(message);
+		this.name = new.target.name;
+		this.status = status;
+		this.code = code;
+		this.headers = headers;
+		this.body = body;
+	}
+}
+
+/**
+ * 400: the request couldn't be carried out as sent
+ */
+export class BadRequestError extends ApiError {}
+
+/**
+ * 401: the API key is missing, invalid, revoked or expired
+ */
+export class AuthenticationError extends ApiError {}
+
+/**
+ * 402: a spending budget is used up until it resets
+ */
+export class BudgetExceededError extends ApiError {}
+
+/**
+ * 403: the key lacks a scope, is restricted from this IP, origin or model,
+ * or its account is suspended
+ */
+export class PermissionDeniedError extends ApiError {}
+
+/**
+ * 404: the resource doesn't exist or isn't visible to the key
+ */
+export class NotFoundError extends ApiError {}
+
+/**
+ * 409: an `Idempotency-Key` was reused for a different request, or the
+ * request it was first sent with is still running
+ */
+export class ConflictError extends ApiError {}
+
+/**
+ * 422: parameters or body fields are invalid
+ */
+export class ValidationError extends ApiError {
+	readonly issues: ValidationIssue[];
+
+	constructor(
+		status: number,
+		message: string,
+		code: ApiErrorCode | null,
+		headers: Headers,
+		body: unknown
+	) {
+		super(status, message, code, headers, body);
+		const errors = (body as { errors?: unknown } | null)?.errors;
+		this.issues = Array.isArray(errors) ? (errors as ValidationIssue[]) : [];
+	}
+}
+
+/**
+ * 429: a rate limit of the key is used up
+ */
+export class RateLimitError extends ApiError {
+	readonly retryAfterMs: number | null; // From `Retry-After`
+
+	constructor(
+		status: number,
+		message: string,
+		code: ApiErrorCode | null,
+		headers: Headers,
+		body: unknown
+	) {
+		super(status, message, code, headers, body);
+		this.retryAfterMs = parseRetryAfter(headers.get('retry-after')) ?? null;
+	}
+}
+
+/**
+ * 5xx: the server or the model provider failed
+ */
+export class InternalServerError extends ApiError {}
+
+/**
+ * The API couldn't be reached, or the connection dropped
+ */
+export class ConnectionError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = 'ConnectionError';
+	}
+}
+
+type ApiErrorClass = new (
+	status: number,
+	message: string,
+	code: ApiErrorCode | null,
+	headers: Headers,
+	body: unknown
+) => ApiError;
+
+const ERROR_CLASSES_BY_CODE: Record<string, ApiErrorClass> = {
+	VALIDATION_ERROR: ValidationError,
+	ACCOUNT_SUSPENDED: PermissionDeniedError,
+	IP_NOT_ALLOWED: PermissionDeniedError,
+	ORIGIN_NOT_ALLOWED: PermissionDeniedError,
+	MODEL_NOT_ALLOWED: PermissionDeniedError,
+	IDEMPOTENCY_KEY_MISMATCH: ConflictError,
+	IDEMPOTENCY_REQUEST_IN_PROGRESS: ConflictError
+};
+
+const ERROR_CLASSES_BY_STATUS: Record<number, ApiErrorClass> = {
+	400: BadRequestError,
+	401: AuthenticationError,
+	402: BudgetExceededError,
+	403: PermissionDeniedError,
+	404: NotFoundError,
+	409: ConflictError,
+	422: ValidationError,
+	429: RateLimitError
+};
+
+function errorClass(status: number, code: string | null): ApiErrorClass {
+	if (code && ERROR_CLASSES_BY_CODE[code]) return ERROR_CLASSES_BY_CODE[code];
+	if (code?.endsWith('_NOT_FOUND')) return NotFoundError;
+	if (ERROR_CLASSES_BY_STATUS[status]) return ERROR_CLASSES_BY_STATUS[status];
+	return status >= 500 ? InternalServerError : ApiError;
+}
+
+/**
+ * Build the error for a failed response. Errors arrive either as
+ * `{ message, code }` or, from `formatApiError`, as
+ * `{ error: { message, code, type } }`.
+ */
+export function apiErrorFromResponse(status: number, headers: Headers, body: unknown): ApiError {
+	const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+	const details = (
+		fields.error && typeof fields.error === 'object' ? fields.error : fields
+	) as Record<string, unknown>;
+
+	const code = typeof details.code === 'string' ? details.code : null;
+	const message =
+		typeof details.message === 'string'
+			? details.message
+			: typeof body === 'string' && body
+				? body
+				: `Request failed with status ${status}`;
+
+	const ErrorClass = errorClass(status, code);
+	return new ErrorClass(status, message, code, headers, body);
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,11 @@
+// Client for the v1 API. It doesn't depend on SvelteKit, so it runs in
+// browsers, Node and other services.
+export {
+	createClient,
+	type AcceleratorClient,
+	type ClientOptions,
+	type RequestOptions
+} from './client.js';
+export * from './errors.js';
+export type { Stream } from './streaming.js';
+export type * from './types.js';
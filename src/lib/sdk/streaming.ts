@@ -0,0 +1,76 @@
+import { ConnectionError } from './errors.js';
+
+/**
+ * A streamed response. Iterate it for its events; breaking out of the loop
+ * closes the connection.
+ */
+export interface Stream<T> extends AsyncIterable<T> {
+	response: Response; // For headers such as `X-Model-Used`
+	abort(): void;
+}
+
+/**
+ * Read the JSON `data:` events of a server-sent event stream until
+ * `data: [DONE]` or the end of the body
+ */
+export async function* parseEventStream<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let data: string[] = [];
+
+	try {
+		while (true) {
+			let chunk: ReadableStreamReadResult<Uint8Array>;
+			try {
+				chunk = await reader.read();
+			} catch (err) {
+				if ((err as Error)?.name === 'AbortError') throw err;
+				throw new ConnectionError('The stream was interrupted', { cause: err });
+			}
+			if (chunk.done) break;
+
+			buffer += decoder.decode(chunk.value, { stream: true });
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() ?? '';
+
+			for (const line of lines) {
+				if (line.startsWith('data:')) {
+					data.push(line.slice(5).trimStart());
+					continue;
+				}
+				// Events end with a blank line; other fields and comments are ignored
+				if (line !== '' || data.length === 0) continue;
+
+				const payload = data.join('\n');
+				data = [];
+				if (payload === '[DONE]') return;
+				yield JSON.parse(payload) as T;
+			}
+		}
+
+		// The last event may not be followed by a blank line
+		if (buffer.startsWith('data:')) data.push(buffer.slice(5).trimStart());
+		const payload = data.join('\n');
+		if (payload && payload !== '[DONE]') yield JSON.parse(payload) as T;
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+}
+
+/**
+ * Wrap a streamed response, so it can be iterated once
+ */
+export function createStream<T>(response: Response, controller: AbortController): Stream<T> {
+	let consumed = false;
+
+	return {
+		response,
+		abort: () => controller.abort(),
+		[Symbol.asyncIterator]() {
+			if (consumed) throw new Error('A stream can only be iterated once');
+			consumed = true;
+			return parseEventStream<T>(response.body!);
+		}
+	};
+}
@@ -0,0 +1,139 @@
+/**
+ * Request and response types of the v1 API, read from the route definitions
+ * the server validates requests against and publishes as OpenAPI, so they
+ * can't drift from what the server accepts and returns.
+ */
+import type { Infer, RouteDefinition, Schema } from '$lib/server/openapi.js';
+import type { StreamChunk } from '$lib/server/llm.js';
+import type { ValidationIssue } from '$lib/server/validation.js';
+import type { route as KeysRoute } from '../../routes/api/v1/auth/keys/schema.js';
+import type { route as KeyRoute } from '../../routes/api/v1/auth/keys/[id]/schema.js';
+import type { route as RotateKeyRoute } from '../../routes/api/v1/auth/keys/[id]/rotate/schema.js';
+import type { route as UsageRoute } from '../../routes/api/v1/auth/usage/schema.js';
+import type { route as PromptsRoute } from '../../routes/api/v1/prompts/schema.js';
+import type { route as PromptRoute } from '../../routes/api/v1/prompts/[id]/schema.js';
+import type { route as ExecutePromptRoute } from '../../routes/api/v1/prompts/[id]/execute/schema.js';
+import type { route as PromptVersionsRoute } from '../../routes/api/v1/prompts/[id]/versions/schema.js';
+import type { route as RestorePromptRoute } from '../../routes/api/v1/prompts/[id]/restore/schema.js';
+import type { route as SchemasRoute } from '../../routes/api/v1/schemas/schema.js';
+import type { route as SchemaRoute } from '../../routes/api/v1/schemas/[id]/schema.js';
+import type { route as StructuredCompletionRoute } from '../../routes/api/v1/completions/structured/schema.js';
+import type { route as ChatCompletionsRoute } from '../../routes/api/v1/chat/completions/schema.js';
+import type { route as ConversationsRoute } from '../../routes/api/v1/conversations/schema.js';
+import type { route as ConversationRoute } from '../../routes/api/v1/conversations/[id]/schema.js';
+import type { route as ConversationMessagesRoute } from '../../routes/api/v1/conversations/[id]/messages/schema.js';
+import type { route as EditMessageRoute } from '../../routes/api/v1/conversations/[id]/messages/[messageId]/edit/schema.js';
+import type { route as RegenerateMessageRoute } from '../../routes/api/v1/conversations/[id]/messages/[messageId]/regenerate/schema.js';
+import type { route as ConversationBranchRoute } from '../../routes/api/v1/conversations/[id]/branch/schema.js';
+import type { route as FilesRoute } from '../../routes/api/v1/files/schema.js';
+import type { route as FileRoute } from '../../routes/api/v1/files/[id]/schema.js';
+import type { route as ExtractFileRoute } from '../../routes/api/v1/files/[id]/extract/schema.js';
+import type { route as UploadFileRoute } from '../../routes/api/v1/files/upload/schema.js';
+import type { route as ModelsRoute } from '../../routes/api/v1/models/schema.js';
+import type { route as TokenizeRoute } from '../../routes/api/v1/tokenize/schema.js';
+
+type OperationOf<R extends RouteDefinition, M extends keyof R['operations']> = NonNullable<
+	R['operations'][M]
+>;
+
+type InferOr<S, Fallback> = S extends Schema ? Infer<S> : Fallback;
+
+/**
+ * Body of an operation's request
+ */
+export type BodyOf<R extends RouteDefinition, M extends keyof R['operations']> =
+	OperationOf<R, M> extends { body: infer B } ? InferOr<B, never> : never;
+
+/**
+ * Query parameters of an operation
+ */
+export type QueryOf<R extends RouteDefinition, M extends keyof R['operations']> =
+	OperationOf<R, M> extends { query: infer Q } ? InferOr<Q, never> : never;
+
+/**
+ * Body of an operation's successful response
+ */
+export type ResponseOf<R extends RouteDefinition, M extends keyof R['operations']> =
+	OperationOf<R, M> extends { response: infer S } ? InferOr<S, unknown> : unknown;
+
+export type { ValidationIssue };
+
+// API keys
+export type ApiKey = ResponseOf<typeof KeyRoute, 'GET'>;
+export type ApiKeyList = ResponseOf<typeof KeysRoute, 'GET'>;
+export type ListApiKeysQuery = QueryOf<typeof KeysRoute, 'GET'>;
+export type CreateApiKeyParams = BodyOf<typeof KeysRoute, 'POST'>;
+export type CreatedApiKey = ResponseOf<typeof KeysRoute, 'POST'>;
+export type UpdateApiKeyParams = BodyOf<typeof KeyRoute, 'PUT'>;
+export type DeleteApiKeyQuery = QueryOf<typeof KeyRoute, 'DELETE'>;
+export type DeletedApiKey = ResponseOf<typeof KeyRoute, 'DELETE'>;
+export type RotateApiKeyParams = BodyOf<typeof RotateKeyRoute, 'POST'>;
+export type RotatedApiKey = ResponseOf<typeof RotateKeyRoute, 'POST'>;
+
+// Usage
+export type UsageQuery = QueryOf<typeof UsageRoute, 'GET'>;
+export type Usage = ResponseOf<typeof UsageRoute, 'GET'>;
+
+// System prompts
+export type SystemPrompt = ResponseOf<typeof PromptRoute, 'GET'>;
+export type SystemPromptList = ResponseOf<typeof PromptsRoute, 'GET'>;
+export type ListSystemPromptsQuery = QueryOf<typeof PromptsRoute, 'GET'>;
+export type CreateSystemPromptParams = BodyOf<typeof PromptsRoute, 'POST'>;
+export type UpdateSystemPromptParams = BodyOf<typeof PromptRoute, 'PUT'>;
+export type ExecuteSystemPromptParams = BodyOf<typeof ExecutePromptRoute, 'POST'>;
+export type SystemPromptExecution = ResponseOf<typeof ExecutePromptRoute, 'POST'>;
+export type SystemPromptVersion = ResponseOf<typeof PromptVersionsRoute, 'GET'>[number];
+export type RestoreSystemPromptParams = BodyOf<typeof RestorePromptRoute, 'POST'>;
+export type DeletedSystemPrompt = ResponseOf<typeof PromptRoute, 'DELETE'>;
+
+// Structured output schemas
+export type StructuredOutput = ResponseOf<typeof SchemaRoute, 'GET'>;
+export type StructuredOutputList = ResponseOf<typeof SchemasRoute, 'GET'>;
+export type ListStructuredOutputsQuery = QueryOf<typeof SchemasRoute, 'GET'>;
+export type CreateStructuredOutputParams = BodyOf<typeof SchemasRoute, 'POST'>;
+export type UpdateStructuredOutputParams = BodyOf<typeof SchemaRoute, 'PUT'>;
+export type DeletedStructuredOutput = ResponseOf<typeof SchemaRoute, 'DELETE'>;
+
+// Completions
+export type ChatCompletionParams = Omit<BodyOf<typeof ChatCompletionsRoute, 'POST'>, 'stream'>;
+export type ChatCompletion = ResponseOf<typeof ChatCompletionsRoute, 'POST'>;
+export type ChatMessage = ChatCompletionParams['messages'][number];
+export type ChatCompletionChunk = StreamChunk;
+export type StructuredCompletionParams = BodyOf<typeof StructuredCompletionRoute, 'POST'>;
+export type StructuredCompletion = ResponseOf<typeof StructuredCompletionRoute, 'POST'>;
+
+// Conversations
+export type ListConversationsQuery = QueryOf<typeof ConversationsRoute, 'GET'>;
+export type ConversationList = ResponseOf<typeof ConversationsRoute, 'GET'>;
+export type Conversation = ConversationList['conversations'][number];
+export type DeletedConversation = ResponseOf<typeof ConversationRoute, 'DELETE'>;
+export type SendMessageParams = Omit<BodyOf<typeof ConversationMessagesRoute, 'POST'>, 'stream'>;
+export type SentMessage = ResponseOf<typeof ConversationMessagesRoute, 'POST'>;
+export type ConversationMessage = SentMessage['user_message'];
+export type EditMessageParams = Omit<BodyOf<typeof EditMessageRoute, 'POST'>, 'stream'>;
+export type RegenerateMessageParams = Omit<BodyOf<typeof RegenerateMessageRoute, 'POST'>, 'stream'>;
+export type ConversationBranch = ResponseOf<typeof ConversationBranchRoute, 'PUT'>;
+export type BranchedConversationMessage = ConversationBranch['messages'][number];
+export type ConversationMessageChunk = StreamChunk & {
+	conversation_id?: string;
+	user_message_id?: string;
+	memory_updated?: boolean;
+};
+
+// Files
+export type FileUpload = ResponseOf<typeof FileRoute, 'GET'>;
+export type ListFilesQuery = Omit<QueryOf<typeof FilesRoute, 'GET'>, 'stats'>;
+export type FileList = Extract<ResponseOf<typeof FilesRoute, 'GET'>, { data: unknown }>;
+export type FileStats = Exclude<ResponseOf<typeof FilesRoute, 'GET'>, { data: unknown }>;
+export type UploadFileParams = Omit<BodyOf<typeof UploadFileRoute, 'POST'>, 'file'>;
+export type UploadedFile = ResponseOf<typeof UploadFileRoute, 'POST'>;
+export type ExtractFileParams = BodyOf<typeof ExtractFileRoute, 'POST'>;
+export type ExtractedFile = ResponseOf<typeof ExtractFileRoute, 'POST'>;
+export type DeletedFile = ResponseOf<typeof FileRoute, 'DELETE'>;
+
+// Models and tokenization
+export type ListModelsQuery = QueryOf<typeof ModelsRoute, 'GET'>;
+export type ModelList = ResponseOf<typeof ModelsRoute, 'GET'>;
+export type Model = ModelList['data'][number];
+export type TokenizeParams = BodyOf<typeof TokenizeRoute, 'POST'>;
+export type TokenCount = ResponseOf<typeof TokenizeRoute, 'POST'>;
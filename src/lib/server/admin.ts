@@ -0,0 +1,141 @@
+import { supabaseAdmin } from './supabase.js';
+import { getUserPermissions } from './permissions.js';
+import { listApiKeysByCreator } from './api-keys.js';
+
+const USAGE_WINDOW_DAYS = 30;
+
+export interface AdminUser {
+	id: string;
+	email: string | null;
+	username: string | null;
+	full_name: string | null;
+	created_at: string;
+	last_sign_in_at: string | null;
+	suspended_at: string | null;
+	suspended_reason: string | null;
+	usage: UserUsage; // Over the last 30 days
+}
+
+export interface UserUsage {
+	requests: number;
+	tokens: number;
+	cost: number; // USD
+	errors: number; // Requests answered with a 4xx or 5xx
+}
+
+const EMPTY_USAGE: UserUsage = { requests: 0, tokens: 0, cost: 0, errors: 0 };
+
+export interface UserUsageSummary extends UserUsage {
+	user_id: string;
+	email: string | null;
+}
+
+function usageSince(days: number): string {
+	return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Usage per user over the last `days` days, for the given users or else the
+ * biggest spenders, highest cost first
+ */
+export async function getUsageByUser(
+	options: { userIds?: string[]; days?: number; limit?: number } = {}
+): Promise<UserUsageSummary[]> {
+	const { data, error: dbError } = await supabaseAdmin.rpc('admin_usage_by_user', {
+		since: usageSince(options.days ?? USAGE_WINDOW_DAYS),
+		user_ids: options.userIds ?? null,
+		max_users: options.limit ?? 10
+	});
+
+	if (dbError) {
+		throw new Error(`Failed to get usage by user: ${dbError.message}`);
+	}
+
+	// Postgres bigint and numeric columns can come back as strings
+	return ((data || []) as Record<string, string | number | null>[]).map((row) => ({
+		user_id: String(row.user_id),
+		email: row.email === null ? null : String(row.email),
+		requests: Number(row.requests),
+		tokens: Number(row.tokens),
+		cost: Number(row.cost),
+		errors: Number(row.errors)
+	}));
+}
+
+/**
+ * Search users by email, username, name or ID, with their usage over the
+ * last 30 days
+ */
+export async function searchUsers(
+	search: string,
+	options: { limit?: number; offset?: number } = {}
+): Promise<{ users: AdminUser[]; total: number }> {
+	const { data, error: dbError } = await supabaseAdmin.rpc('admin_search_users', {
+		search: search.trim() || null,
+		page_size: options.limit ?? 25,
+		page_offset: options.offset ?? 0
+	});
+
+	if (dbError) {
+		throw new Error(`Failed to search users: ${dbError.message}`);
+	}
+
+	const rows = (data || []) as (Omit<AdminUser, 'usage'> & { total_count: number })[];
+	const usage = new Map(
+		rows.length > 0
+			? (await getUsageByUser({ userIds: rows.map((row) => row.id) })).map((summary) => [
+					summary.user_id,
+					summary
+				])
+			: []
+	);
+
+	return {
+		users: rows.map((row) => ({ ...row, usage: usage.get(row.id) ?? EMPTY_USAGE })),
+		total: Number(rows[0]?.total_count ?? 0)
+	};
+}
+
+/**
+ * Get a user with their roles, API keys and usage, for the admin console
+ */
+export async function getAdminUser(userId: string) {
+	const { users } = await searchUsers(userId, { limit: 1 });
+	const user = users.find((candidate) => candidate.id === userId);
+	if (!user) return null;
+
+	const [permissions, apiKeys] = await Promise.all([
+		getUserPermissions(userId),
+		listApiKeysByCreator(userId)
+	]);
+
+	return { ...user, roles: permissions.roles, api_keys: apiKeys };
+}
+
+/**
+ * Files whose processing failed, newest first
+ */
+export async function listFailedFileJobs(options: { limit?: number; offset?: number } = {}) {
+	const limit = options.limit ?? 50;
+	const offset = options.offset ?? 0;
+
+	const {
+		data,
+		count,
+		error: dbError
+	} = await supabaseAdmin
+		.from('file_uploads')
+		.select(
+			'id, user_id, org_id, original_name, mime_type, file_size, file_type, processing_error, created_at, updated_at',
+			{ count: 'exact' }
+		)
+		.eq('processing_status', 'failed')
+		.order('updated_at', { ascending: false })
+		.range(offset, offset + limit - 1);
+
+	if (dbError) {
+		throw new Error(`Failed to list failed files: ${dbError.message}`);
+	}
+
+	return { files: data || [], total: count || 0 };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runAgent, runAgentStream } from './agent.js';
+import { getMockRequests, queueMockResponses, resetMockProvider } from './llm-mock-provider.js';
+import { supabaseAdmin } from './supabase.js';
+import { enforceBudget, recordCompletionCost } from './budgets.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: {}
+}));
+
+// Mock Supabase
+const mockInsert = vi.fn(() => ({ error: null }));
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn(() => ({ insert: mockInsert }))
+	}
+}));
+
+vi.mock('./budgets.js', () => ({
+	calculateUsageCost: vi.fn(async () => 0.25),
+	enforceBudget: vi.fn(async () => ({ budgets: [], exceeded: null, warnings: [] })),
+	recordCompletionCost: vi.fn(async () => 0.5)
+}));
+
+const context = { userId: 'test-user-id' };
+
+describe('Agent Loop', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+	});
+
+	it('should call tools and feed results back to the model', async () => {
+		queueMockResponses(
+			{ tool_calls: [{ name: 'calculator', arguments: { expression: '19 * 23' } }] },
+			{ content: '19 times 23 is 437.' }
+		);
+
+		const result = await runAgent({
+			request: { model: 'mock/echo', messages: [{ role: 'user', content: 'What is 19*23?' }] },
+			tools: ['calculator'],
+			context
+		});
+
+		expect(result.content).toBe('19 times 23 is 437.');
+		expect(result.steps).toHaveLength(1);
+		expect(result.steps[0]).toMatchObject({ step: 1, name: 'calculator' });
+		expect(JSON.parse(result.steps[0].result).value).toBe(437);
+		expect(result.messages.map((m) => m.role)).toEqual(['assistant', 'tool', 'assistant']);
+
+		const secondRequest = getMockRequests()[1];
+		expect(secondRequest.tools?.[0].function.name).toBe('calculator');
+		expect(secondRequest.messages[2]).toMatchObject({
+			role: 'tool',
+			tool_call_id: result.steps[0].tool_call_id
+		});
+
+		expect(supabaseAdmin.from).toHaveBeenCalledWith('api_usage');
+		expect(mockInsert).toHaveBeenCalledWith(
+			expect.objectContaining({ endpoint: 'tool:calculator', method: 'TOOL', status_code: 200 })
+		);
+	});
+
+	it('should force a final answer once the step limit is reached', async () => {
+		const callCalculator = {
+			tool_calls: [{ name: 'calculator', arguments: { expression: '1+1' } }]
+		};
+		queueMockResponses(callCalculator, callCalculator, { content: 'Done.' });
+
+		const result = await runAgent({
+			request: { model: 'mock/echo', messages: [{ role: 'user', content: 'Loop forever' }] },
+			maxSteps: 2,
+			context
+		});
+
+		const requests = getMockRequests();
+		expect(requests).toHaveLength(3);
+		expect(requests[2].tool_choice).toBe('none');
+		expect(result.steps).toHaveLength(2);
+		expect(result.content).toBe('Done.');
+	});
+
+	it('should record the cost of tools that call a model', async () => {
+		vi.spyOn(await import('./tools.js'), 'executeToolCall').mockResolvedValueOnce({
+			tool_call_id: 'call-1',
+			name: 'run_system_prompt',
+			arguments: {},
+			content: 'Summary',
+			model: 'openai/gpt-4o',
+			usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+			duration_ms: 5
+		});
+		queueMockResponses(
+			{ tool_calls: [{ name: 'run_system_prompt', arguments: { prompt_id: 'p', input: 'x' } }] },
+			{ content: 'Done.' }
+		);
+
+		await runAgent({
+			request: { model: 'mock/echo', messages: [{ role: 'user', content: 'Summarize' }] },
+			context,
+			apiKeyId: 'key-1'
+		});
+
+		expect(recordCompletionCost).toHaveBeenCalledWith({
+			user_id: 'test-user-id',
+			org_id: undefined,
+			api_key_id: 'key-1',
+			endpoint: 'tool:run_system_prompt',
+			method: 'TOOL',
+			model: 'openai/gpt-4o',
+			usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+			response_time: 5
+		});
+	});
+
+	it('should stop at a hard budget limit between steps', async () => {
+		vi.mocked(enforceBudget).mockRejectedValueOnce(
+			Object.assign(new Error('Daily API key budget exceeded'), { status: 402 })
+		);
+		queueMockResponses(
+			{ tool_calls: [{ name: 'calculator', arguments: { expression: '1+1' } }] },
+			{ content: 'Never sent.' }
+		);
+
+		await expect(
+			runAgent({
+				request: { model: 'mock/echo', messages: [{ role: 'user', content: 'Add' }] },
+				context,
+				apiKeyId: 'key-1'
+			})
+		).rejects.toMatchObject({ status: 402 });
+
+		expect(getMockRequests()).toHaveLength(1);
+		expect(enforceBudget).toHaveBeenCalledWith('test-user-id', 'key-1', undefined, 0.25);
+	});
+
+	it('should stream chunks and tool steps in order', async () => {
+		queueMockResponses(
+			{ tool_calls: [{ name: 'current_time', arguments: { timezone: 'UTC' } }] },
+			{ content: 'It is late.' }
+		);
+
+		const types: string[] = [];
+		for await (const event of runAgentStream({
+			request: { model: 'mock/echo', messages: [{ role: 'user', content: 'Time?' }] },
+			stream: true,
+			context
+		})) {
+			if (types[types.length - 1] !== event.type) types.push(event.type);
+		}
+
+		expect(types).toEqual(['chunk', 'step', 'chunk', 'done']);
+	});
+});
@@ -0,0 +1,278 @@
+import { env } from '$env/dynamic/private';
+import {
+	accumulateToolCalls,
+	createCompletion,
+	createCompletionStream,
+	estimateTokenCount,
+	parseStreamResponse,
+	type ChatMessage,
+	type CompletionRequest,
+	type CompletionUsage,
+	type StreamChunk,
+	type ToolCall
+} from './llm.js';
+import { countPromptTokens, loadTokenizer } from './tokenizer.js';
+import { executeToolCall, getToolDefinitions, type ToolContext } from './tools.js';
+import { trackApiUsage } from './analytics.js';
+import { calculateUsageCost, enforceBudget, recordCompletionCost } from './budgets.js';
+
+const DEFAULT_MAX_STEPS = 5;
+const MAX_STEPS_LIMIT = 20;
+
+/**
+ * One tool invocation made by the assistant while answering
+ */
+export interface AgentStep {
+	step: number; // Model round-trip that requested the call, starting at 1
+	tool_call_id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+	result: string;
+	error?: string;
+	duration_ms: number;
+}
+
+export interface AgentResult {
+	content: string;
+	model: string;
+	finish_reason: string;
+	steps: AgentStep[];
+	messages: ChatMessage[]; // Messages produced by the run, in order, ending with the answer
+	usage: CompletionUsage;
+}
+
+export type AgentEvent =
+	| { type: 'chunk'; chunk: StreamChunk }
+	| { type: 'step'; step: AgentStep }
+	| { type: 'done'; result: AgentResult };
+
+export interface AgentOptions {
+	request: CompletionRequest; // Messages and model settings; `tools` is filled in from `tools`
+	tools?: string[]; // Names of server tools to offer; all registered tools when omitted
+	maxSteps?: number;
+	stream?: boolean; // Stream each model call and emit `chunk` events
+	context: ToolContext;
+	apiKeyId?: string; // Developer API key the run is billed to, for usage records
+}
+
+/**
+ * Resolve the step limit from the request, falling back to `AGENT_MAX_STEPS`
+ */
+export function resolveMaxSteps(requested?: number): number {
+	const configured = parseInt(env.AGENT_MAX_STEPS || '', 10) || DEFAULT_MAX_STEPS;
+	const steps = requested && requested > 0 ? requested : configured;
+	return Math.min(Math.floor(steps), MAX_STEPS_LIMIT);
+}
+
+function addUsage(total: CompletionUsage, usage: CompletionUsage | undefined): void {
+	if (!usage) return;
+
+	total.prompt_tokens += usage.prompt_tokens || 0;
+	total.completion_tokens += usage.completion_tokens || 0;
+	total.total_tokens += usage.total_tokens || 0;
+	if (usage.estimated_cost !== undefined) {
+		total.estimated_cost = (total.estimated_cost || 0) + usage.estimated_cost;
+	}
+}
+
+/**
+ * Call the model once, streaming chunks out when requested
+ */
+async function* callModel(
+	request: CompletionRequest,
+	stream: boolean
+): AsyncGenerator<
+	StreamChunk,
+	{
+		content: string;
+		toolCalls: ToolCall[];
+		model: string;
+		finishReason: string;
+		usage: CompletionUsage;
+	}
+> {
+	if (!stream) {
+		const completion = await createCompletion(request);
+		const choice = completion.choices[0];
+		const content = choice?.message?.content;
+
+		return {
+			content: typeof content === 'string' ? content : '',
+			toolCalls: choice?.message?.tool_calls || [],
+			model: completion.model,
+			finishReason: choice?.finish_reason || 'stop',
+			usage: completion.usage
+		};
+	}
+
+	const responseStream = await createCompletionStream(request);
+	let content = '';
+	let model = request.model || '';
+	let finishReason = 'stop';
+	let usage: CompletionUsage | undefined;
+	const toolCalls: ToolCall[] = [];
+
+	for await (const chunk of parseStreamResponse(responseStream)) {
+		const choice = chunk.choices?.[0];
+		content += choice?.delta?.content || '';
+		accumulateToolCalls(toolCalls, choice?.delta?.tool_calls);
+		model = chunk.model || model;
+		finishReason = choice?.finish_reason || finishReason;
+		usage = chunk.usage || usage;
+		yield chunk;
+	}
+
+	// Not every provider reports usage on streams, so estimate when missing
+	if (!usage) {
+		await loadTokenizer(model);
+		const promptTokens = countPromptTokens(request.messages, model);
+		const completionTokens = estimateTokenCount(content, model);
+		usage = {
+			prompt_tokens: promptTokens,
+			completion_tokens: completionTokens,
+			total_tokens: promptTokens + completionTokens
+		};
+	}
+
+	return { content, toolCalls: toolCalls.filter(Boolean), model, finishReason, usage };
+}
+
+/**
+ * Run the model → tool → model loop, yielding chunks, tool steps and the final result.
+ *
+ * When the step limit is reached the model is asked for a final answer with
+ * tool use disabled. Budgets are checked again before every model call after
+ * the first, so a long run stops at a hard limit with a 402.
+ */
+export async function* runAgentStream(options: AgentOptions): AsyncGenerator<AgentEvent> {
+	const maxSteps = resolveMaxSteps(options.maxSteps);
+	const toolDefinitions = getToolDefinitions(options.tools);
+	const conversation = [...options.request.messages];
+	const produced: ChatMessage[] = [];
+	const steps: AgentStep[] = [];
+	const usage: CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+	// Cost of the run's model calls, which the caller records once the run ends
+	let modelCost = 0;
+
+	for (let step = 1; ; step++) {
+		if (step > 1) {
+			await enforceBudget(
+				options.context.userId,
+				options.apiKeyId,
+				options.context.orgId,
+				modelCost
+			);
+		}
+
+		const toolsExhausted = step > maxSteps;
+		const request: CompletionRequest = {
+			...options.request,
+			messages: conversation,
+			...(toolDefinitions.length > 0 && {
+				tools: toolDefinitions,
+				tool_choice: toolsExhausted ? 'none' : options.request.tool_choice || 'auto'
+			})
+		};
+
+		const call = callModel(request, !!options.stream);
+		let next = await call.next();
+		while (!next.done) {
+			yield { type: 'chunk', chunk: next.value };
+			next = await call.next();
+		}
+
+		const response = next.value;
+		addUsage(usage, response.usage);
+		modelCost += await calculateUsageCost(response.model, response.usage);
+
+		if (response.toolCalls.length === 0 || toolsExhausted) {
+			produced.push({ role: 'assistant', content: response.content });
+			yield {
+				type: 'done',
+				result: {
+					content: response.content,
+					model: response.model,
+					finish_reason: response.finishReason,
+					steps,
+					messages: produced,
+					usage
+				}
+			};
+			return;
+		}
+
+		const assistantMessage: ChatMessage = {
+			role: 'assistant',
+			content: response.content || null,
+			tool_calls: response.toolCalls
+		};
+		conversation.push(assistantMessage);
+		produced.push(assistantMessage);
+
+		for (const toolCall of response.toolCalls) {
+			const execution = await executeToolCall(toolCall, {
+				...options.context,
+				model: options.context.model || options.request.model
+			});
+			addUsage(usage, execution.usage);
+
+			// Tools that call a model, like run_system_prompt, are billed for it
+			if (execution.model) {
+				await recordCompletionCost({
+					user_id: options.context.userId,
+					org_id: options.context.orgId,
+					api_key_id: options.apiKeyId,
+					endpoint: `tool:${execution.name}`,
+					method: 'TOOL',
+					model: execution.model,
+					usage: execution.usage,
+					response_time: execution.duration_ms
+				});
+			} else {
+				await trackApiUsage({
+					user_id: options.context.userId,
+					org_id: options.context.orgId ?? undefined,
+					api_key_id: options.apiKeyId,
+					endpoint: `tool:${execution.name}`,
+					method: 'TOOL',
+					response_time: execution.duration_ms,
+					status_code: execution.error ? 500 : 200,
+					error_message: execution.error
+				});
+			}
+
+			const toolMessage: ChatMessage = {
+				role: 'tool',
+				tool_call_id: execution.tool_call_id,
+				content: execution.content
+			};
+			conversation.push(toolMessage);
+			produced.push(toolMessage);
+
+			const agentStep: AgentStep = {
+				step,
+				tool_call_id: execution.tool_call_id,
+				name: execution.name,
+				arguments: execution.arguments,
+				result: execution.content,
+				error: execution.error,
+				duration_ms: execution.duration_ms
+			};
+			steps.push(agentStep);
+			yield { type: 'step', step: agentStep };
+		}
+	}
+}
+
+/**
+ * Run the agent loop to completion and return the final answer
+ */
+export async function runAgent(options: AgentOptions): Promise<AgentResult> {
+	for await (const event of runAgentStream(options)) {
+		if (event.type === 'done') {
+			return event.result;
+		}
+	}
+
+	throw new Error('Agent finished without a result');
+}
@@ -3,10 +3,13 @@ import type { RequestEvent } from '@sveltejs/kit';
 
 interface ApiUsageData {
 	user_id: string;
+	org_id?: string; // Organization billed for the request
+	api_key_id?: string;
 	endpoint: string;
 	method: string;
 	model?: string;
 	tokens_used?: number;
+	cost?: number; // Estimated USD cost
 	response_time?: number;
 	status_code?: number;
 	error_message?: string;
@@ -200,6 +203,7 @@ export function createApiTracker(event: RequestEvent, startTime: number = Date.n
 			userId?: string;
 			model?: string;
 			tokensUsed?: number;
+			cost?: number;
 			statusCode?: number;
 			error?: string;
 		}) {
@@ -214,6 +218,7 @@ export function createApiTracker(event: RequestEvent, startTime: number = Date.n
 					method,
 					model: options.model,
 					tokens_used: options.tokensUsed,
+					cost: options.cost,
 					response_time: responseTime,
 					status_code: options.statusCode,
 					error_message: options.error
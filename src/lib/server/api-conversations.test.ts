@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabaseAdmin } from './supabase.js';
+import { sendMessage, streamMessage } from './api-conversations.js';
+import { getMockRequests, queueMockResponses, resetMockProvider } from './llm-mock-provider.js';
+import { dispatchWebhookEvent } from './webhooks.js';
+import { childrenOf, pathTo } from './message-tree.js';
+
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: { LLM_MOCK: 'true', LLM_RETRY_BASE_DELAY_MS: '0' }
+}));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+vi.mock('./webhooks.js', () => ({
+	dispatchWebhookEvent: vi.fn(async () => {})
+}));
+
+global.fetch = vi.fn();
+
+const owner = { user_id: 'user-1', org_id: null };
+
+const conversation = {
+	id: 'conversation-1',
+	user_id: 'user-1',
+	org_id: null,
+	title: 'Support',
+	system_prompt: 'You are a helpful assistant',
+	model: 'mock/echo',
+	temperature: 0.7,
+	metadata: {},
+	is_active: true,
+	created_at: '2025-01-01T00:00:00.000Z',
+	updated_at: '2025-01-01T00:00:00.000Z'
+};
+
+let inserted: Record<string, unknown>[];
+let updates: { id: unknown; values: Record<string, unknown> }[];
+
+type StoredMessage = { id: string; parent_id: string | null; created_at: string };
+
+/**
+ * Stand-in for the conversation tables: the conversation exists with the
+ * given earlier messages and active message, and inserted messages are given IDs
+ */
+function mockTables(stored: StoredMessage[] = [], activeMessageId: string | null = null) {
+	inserted = [];
+	updates = [];
+
+	// Walks the tree like the api_conversation_path function
+	vi.mocked(supabaseAdmin.rpc).mockImplementation(((
+		_fn: string,
+		{ target_message_id }: { target_message_id: string }
+	) =>
+		Promise.resolve({
+			data: pathTo(stored, target_message_id).map((m) => ({
+				...m,
+				sibling_ids: childrenOf(stored, m.parent_id).map((s) => s.id)
+			})),
+			error: null
+		})) as never);
+
+	vi.mocked(supabaseAdmin.from).mockImplementation((table: string) => {
+		let result: unknown = { data: null, error: null };
+		let values: Record<string, unknown> | null = null;
+		let messageId: unknown = null;
+
+		const builder: Record<string, unknown> = {};
+		for (const method of ['select', 'or', 'order', 'limit', 'range', 'gte']) {
+			builder[method] = () => builder;
+		}
+		builder.insert = ([row]: Record<string, unknown>[]) => {
+			const message = {
+				...row,
+				id: `message-${inserted.length + 1}`,
+				created_at: new Date().toISOString()
+			};
+			inserted.push(message);
+			result = { data: message, error: null };
+			return builder;
+		};
+		builder.update = (fields: Record<string, unknown>) => {
+			values = fields;
+			return builder;
+		};
+		builder.eq = (column: string, value: unknown) => {
+			if (values && column === 'id' && table === 'api_conversation_messages') {
+				updates.push({ id: value, values });
+			}
+			if (!values && column === 'id') messageId = value;
+			return builder;
+		};
+		builder.single = async () => {
+			if (values) return result;
+			if (table === 'api_conversations') {
+				return { data: { ...conversation, active_message_id: activeMessageId }, error: null };
+			}
+			if (messageId) {
+				const message = stored.find((m) => m.id === messageId);
+				return message
+					? { data: message, error: null }
+					: { data: null, error: { code: 'PGRST116', message: 'Not found' } };
+			}
+			return result;
+		};
+		builder.then = (resolve: (value: unknown) => unknown) =>
+			resolve(
+				table === 'api_conversation_messages' && !values ? { data: stored, error: null } : result
+			);
+
+		return builder as never;
+	});
+}
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+	const text = await new Response(stream).text();
+	return text
+		.split('\n\n')
+		.filter(Boolean)
+		.map((event) => event.replace(/^data: /, ''));
+}
+
+describe('streamMessage', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+		mockTables();
+	});
+
+	it('should stream chunks for the assistant message, ending with the usage', async () => {
+		queueMockResponses({ content: 'Happy to help with your account.' });
+
+		const result = await streamMessage(owner, conversation.id, { content: 'I need help' });
+		const events = await readEvents(result.stream);
+		const { message, usage } = await result.completed;
+
+		expect(events.at(-1)).toBe('[DONE]');
+		const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+		expect(chunks.every((chunk) => chunk.id === result.assistant_message.id)).toBe(true);
+		expect(chunks.map((chunk) => chunk.choices[0]?.delta?.content ?? '').join('')).toBe(
+			'Happy to help with your account.'
+		);
+		expect(chunks.at(-1)).toMatchObject({
+			object: 'chat.completion.chunk',
+			choices: [],
+			usage,
+			conversation_id: conversation.id,
+			user_message_id: result.user_message.id
+		});
+
+		expect(message).toMatchObject({
+			content: 'Happy to help with your account.',
+			tokens_used: usage.total_tokens,
+			metadata: { usage }
+		});
+		expect(updates.at(-1)).toMatchObject({
+			id: result.assistant_message.id,
+			values: { content: 'Happy to help with your account.', tokens_used: usage.total_tokens }
+		});
+		expect(dispatchWebhookEvent).toHaveBeenLastCalledWith(
+			expect.anything(),
+			'conversation.message.created',
+			expect.objectContaining({ message_id: result.assistant_message.id, role: 'assistant' })
+		);
+	});
+
+	it('should save the assistant message before the reply arrives', async () => {
+		queueMockResponses({ content: 'Hello!' });
+
+		const result = await streamMessage(owner, conversation.id, { content: 'Hi' });
+
+		expect(inserted.map((row) => [row.role, row.content])).toEqual([
+			['user', 'Hi'],
+			['assistant', '']
+		]);
+		expect(result.assistant_message.metadata).toEqual({ streaming: true });
+		await result.completed;
+	});
+
+	it('should save the reply as it arrives', async () => {
+		queueMockResponses({ content: 'One two three four five six' });
+		let now = Date.now();
+		vi.spyOn(Date, 'now').mockImplementation(() => (now += 600));
+
+		const result = await streamMessage(owner, conversation.id, { content: 'Count' });
+		await result.completed;
+		vi.mocked(Date.now).mockRestore();
+
+		const saved = updates
+			.filter((update) => update.id === result.assistant_message.id)
+			.map((update) => update.values.content as string);
+		expect(saved.length).toBeGreaterThan(2);
+		expect(saved).toEqual([...saved].sort((a, b) => a.length - b.length));
+		expect(saved.at(-1)).toBe('One two three four five six');
+	});
+
+	it('should finish and save the reply when the client disconnects', async () => {
+		queueMockResponses({ content: 'A long answer that keeps going after the client left.' });
+
+		const result = await streamMessage(owner, conversation.id, { content: 'Tell me' });
+		const reader = result.stream.getReader();
+		await reader.read();
+		await reader.cancel();
+
+		const { message } = await result.completed;
+
+		expect(message.content).toBe('A long answer that keeps going after the client left.');
+		expect(updates.at(-1)?.values.content).toBe(
+			'A long answer that keeps going after the client left.'
+		);
+	});
+
+	it('should fall back to the next model in the chain', async () => {
+		queueMockResponses({ error: { status: 404, message: 'Unknown model' } }, { content: 'Hi!' });
+
+		const result = await streamMessage(owner, conversation.id, {
+			content: 'Hi',
+			fallback_models: ['mock/backup']
+		});
+		const { message } = await result.completed;
+
+		expect(getMockRequests().map((request) => request.model)).toEqual(['echo', 'backup']);
+		expect(message).toMatchObject({ content: 'Hi!', model: 'mock/backup' });
+	});
+
+	it('should mark the user message when the model fails', async () => {
+		queueMockResponses({ error: { status: 400, message: 'Bad request' } });
+
+		await expect(streamMessage(owner, conversation.id, { content: 'Hi' })).rejects.toThrow();
+
+		expect(inserted).toHaveLength(1);
+		expect(updates.at(-1)).toMatchObject({
+			id: 'message-1',
+			values: { metadata: { error: expect.any(String) } }
+		});
+	});
+});
+
+describe('branching turns', () => {
+	// Hi → Hello! → Question → Answer
+	const stored = [
+		['u1', null, 'user', 'Hi'],
+		['a1', 'u1', 'assistant', 'Hello!'],
+		['u2', 'a1', 'user', 'Question'],
+		['a2', 'u2', 'assistant', 'Answer']
+	].map(([id, parent_id, role, content], minute) => ({
+		id: id!,
+		parent_id,
+		role,
+		content,
+		conversation_id: conversation.id,
+		created_at: `2025-01-01T00:0${minute}:00.000Z`
+	}));
+
+	const sentContents = () =>
+		getMockRequests()
+			.at(-1)!
+			.messages.map((m) => m.content);
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+		mockTables(stored, 'a2');
+	});
+
+	it('should continue from the end of the active branch', async () => {
+		queueMockResponses({ content: 'Sure' });
+
+		const result = await sendMessage(owner, conversation.id, { content: 'Another' });
+
+		expect(result.user_message.parent_id).toBe('a2');
+		expect(result.assistant_message.parent_id).toBe(result.user_message.id);
+		expect(sentContents()).toEqual([
+			'You are a helpful assistant',
+			'Hi',
+			'Hello!',
+			'Question',
+			'Answer',
+			'Another'
+		]);
+	});
+
+	it('should save an edit as a sibling answered with the history before it', async () => {
+		queueMockResponses({ content: 'New answer' });
+
+		const result = await sendMessage(owner, conversation.id, {
+			content: 'Better question',
+			edit_message_id: 'u2'
+		});
+
+		expect(result.user_message).toMatchObject({ parent_id: 'a1', content: 'Better question' });
+		expect(sentContents()).toEqual([
+			'You are a helpful assistant',
+			'Hi',
+			'Hello!',
+			'Better question'
+		]);
+	});
+
+	it('should answer the same user message again when regenerating', async () => {
+		queueMockResponses({ content: 'Another answer' });
+
+		const result = await sendMessage(owner, conversation.id, { regenerate_message_id: 'a2' });
+
+		expect(result.user_message.id).toBe('u2');
+		expect(inserted).toEqual([
+			expect.objectContaining({ role: 'assistant', parent_id: 'u2', content: 'Another answer' })
+		]);
+		expect(sentContents()).toEqual(['You are a helpful assistant', 'Hi', 'Hello!', 'Question']);
+	});
+
+	it('should refuse to edit a reply', async () => {
+		await expect(
+			sendMessage(owner, conversation.id, { content: 'Changed', edit_message_id: 'a2' })
+		).rejects.toThrow('Message not found');
+		expect(inserted).toEqual([]);
+	});
+});
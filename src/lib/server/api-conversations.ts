@@ -1,9 +1,38 @@
 import { supabaseAdmin } from './supabase.js';
-import { createCompletion, createCompletionStream, truncateMessages, type ChatMessage } from './llm.js';
+import { ownerColumns, ownerFilter, toOwner, type Owner } from './organizations.js';
+import {
+	accumulateToolCalls,
+	createCompletion,
+	createRoutedCompletionStream,
+	estimateUsage,
+	getPromptBudget,
+	parseStreamResponse,
+	truncateMessagesForModel,
+	type ChatMessage,
+	type CompletionUsage,
+	type ToolCall,
+	type ToolChoice,
+	type ToolDefinition
+} from './llm.js';
+import { runAgent, type AgentStep } from './agent.js';
+import { recordCompletionCost } from './budgets.js';
+import {
+	applyConversationMemory,
+	getConversationMemory,
+	getMemoryStrategy,
+	type ConversationMemory,
+	type MemoryStrategy
+} from './conversation-memory.js';
+import { dispatchWebhookEvent } from './webhooks.js';
+import { branchInfo, latestLeaf, type BranchedMessage } from './message-tree.js';
+
+// How often a streaming reply is saved while it arrives
+const STREAM_SAVE_INTERVAL_MS = 1000;
 
 export interface ApiConversation {
 	id: string;
-	user_id: string;
+	user_id: string; // Creator
+	org_id?: string | null; // Owning organization, null for personal conversations
 	api_key_id?: string;
 	title: string;
 	system_prompt?: string;
@@ -12,6 +41,7 @@ export interface ApiConversation {
 	max_tokens?: number;
 	metadata: Record<string, any>;
 	is_active: boolean;
+	active_message_id?: string | null; // Last message of the active branch
 	created_at: string;
 	updated_at: string;
 }
@@ -19,8 +49,11 @@ export interface ApiConversation {
 export interface ApiConversationMessage {
 	id: string;
 	conversation_id: string;
-	role: 'system' | 'user' | 'assistant';
+	parent_id?: string | null; // Message this one follows, null for a first turn
+	role: 'system' | 'user' | 'assistant' | 'tool';
 	content: string;
+	tool_calls?: ToolCall[] | null;
+	tool_call_id?: string | null;
 	tokens_used?: number;
 	model?: string;
 	metadata: Record<string, any>;
@@ -34,26 +67,46 @@ export interface CreateApiConversationRequest {
 	temperature?: number;
 	max_tokens?: number;
 	metadata?: Record<string, any>;
+	memory_strategy?: MemoryStrategy; // Summarize old turns instead of dropping them
 	api_key_id?: string;
 }
 
 export interface AddMessageRequest {
-	role: 'user' | 'assistant' | 'system';
+	role: 'user' | 'assistant' | 'system' | 'tool';
 	content: string;
+	tool_calls?: ToolCall[];
+	tool_call_id?: string;
 	metadata?: Record<string, any>;
+	parent_id?: string | null; // Message this one follows; the active message by default
 }
 
 export interface SendMessageRequest {
 	content: string;
+	edit_message_id?: string; // Earlier user message this one replaces, in a new branch beside it
 	include_history?: boolean;
 	max_history_messages?: number;
 	metadata?: Record<string, any>;
+	tools?: ToolDefinition[];
+	tool_choice?: ToolChoice;
+	server_tools?: boolean | string[]; // Let the assistant call server tools; `true` enables all
+	max_steps?: number;
+	fallback_models?: string[]; // Models to try in order if the conversation's model fails
 	apiKey?: string;
+	api_key_id?: string; // Developer API key making the request, for usage records
 }
 
+export interface RegenerateMessageRequest extends Omit<SendMessageRequest, 'content' | 'edit_message_id'> {
+	regenerate_message_id: string; // Reply whose user message is answered again, in a new branch
+}
+
+// A new message, an edited one, or a regenerated reply
+export type TurnRequest = SendMessageRequest | RegenerateMessageRequest;
+
 export interface SendMessageResponse {
 	user_message: ApiConversationMessage;
 	assistant_message: ApiConversationMessage;
+	tool_steps?: AgentStep[];
+	memory_updated?: boolean; // Older turns were folded into the running summary
 	usage?: {
 		prompt_tokens: number;
 		completion_tokens: number;
@@ -61,22 +114,33 @@ export interface SendMessageResponse {
 	};
 }
 
+export interface StreamMessageResponse {
+	user_message: ApiConversationMessage;
+	assistant_message: ApiConversationMessage; // Saved empty, then filled in as the reply arrives
+	stream: ReadableStream<Uint8Array>; // Server-sent events in the `chat.completion.chunk` format
+	// Settles once the whole reply is saved, even if the client disconnected
+	completed: Promise<{ message: ApiConversationMessage; usage: CompletionUsage }>;
+}
+
 /**
  * Create a new API conversation
  */
 export async function createApiConversation(
-	userId: string,
+	owner: Owner,
 	request: CreateApiConversationRequest
 ): Promise<ApiConversation> {
 	const conversationData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		api_key_id: request.api_key_id || null,
 		title: request.title,
 		system_prompt: request.system_prompt || null,
 		model: request.model || 'openai/gpt-3.5-turbo',
 		temperature: request.temperature ?? 0.7,
 		max_tokens: request.max_tokens || null,
-		metadata: request.metadata || {},
+		metadata: {
+			...request.metadata,
+			...(request.memory_strategy && { memory_strategy: request.memory_strategy })
+		},
 		is_active: true
 	};
 
@@ -97,7 +161,7 @@ export async function createApiConversation(
  * List conversations for a user
  */
 export async function listApiConversations(
-	userId: string,
+	owner: Owner,
 	options?: {
 		api_key_id?: string;
 		active_only?: boolean;
@@ -109,7 +173,7 @@ export async function listApiConversations(
 	let query = supabaseAdmin
 		.from('api_conversations')
 		.select('*')
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	// Filter by API key
 	if (options?.api_key_id) {
@@ -149,14 +213,14 @@ export async function listApiConversations(
  * Get conversation by ID
  */
 export async function getApiConversation(
-	userId: string,
+	owner: Owner,
 	conversationId: string
 ): Promise<ApiConversation | null> {
 	const { data, error } = await supabaseAdmin
 		.from('api_conversations')
 		.select('*')
 		.eq('id', conversationId)
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.single();
 
 	if (error) {
@@ -171,7 +235,7 @@ export async function getApiConversation(
  * Update conversation
  */
 export async function updateApiConversation(
-	userId: string,
+	owner: Owner,
 	conversationId: string,
 	updates: Partial<Pick<ApiConversation, 'title' | 'system_prompt' | 'model' | 'temperature' | 'max_tokens' | 'metadata' | 'is_active'>>
 ): Promise<ApiConversation> {
@@ -182,7 +246,7 @@ export async function updateApiConversation(
 			updated_at: new Date().toISOString()
 		})
 		.eq('id', conversationId)
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.select()
 		.single();
 
@@ -196,17 +260,17 @@ export async function updateApiConversation(
 /**
  * Delete/deactivate conversation
  */
-export async function deleteApiConversation(userId: string, conversationId: string, soft: boolean = true): Promise<boolean> {
+export async function deleteApiConversation(owner: Owner, conversationId: string, soft: boolean = true): Promise<boolean> {
 	if (soft) {
 		// Soft delete - just mark as inactive
-		await updateApiConversation(userId, conversationId, { is_active: false });
+		await updateApiConversation(owner, conversationId, { is_active: false });
 	} else {
 		// Hard delete - remove from database
 		const { error } = await supabaseAdmin
 			.from('api_conversations')
 			.delete()
 			.eq('id', conversationId)
-			.eq('user_id', userId);
+			.or(ownerFilter(owner));
 
 		if (error) {
 			throw new Error(`Failed to delete conversation: ${error.message}`);
@@ -217,16 +281,31 @@ export async function deleteApiConversation(userId: string, conversationId: stri
 }
 
 /**
- * Add message to conversation
+ * Add message to conversation. It follows the conversation's active message
+ * unless `parent_id` says otherwise, and becomes the new end of the active
+ * branch.
  */
 export async function addApiConversationMessage(
 	conversationId: string,
 	request: AddMessageRequest
 ): Promise<ApiConversationMessage> {
+	let parentId = request.parent_id;
+	if (parentId === undefined) {
+		const { data: conversation } = await supabaseAdmin
+			.from('api_conversations')
+			.select('active_message_id')
+			.eq('id', conversationId)
+			.single();
+		parentId = conversation?.active_message_id ?? null;
+	}
+
 	const messageData = {
 		conversation_id: conversationId,
+		parent_id: parentId,
 		role: request.role,
 		content: request.content,
+		tool_calls: request.tool_calls?.length ? request.tool_calls : null,
+		tool_call_id: request.tool_call_id || null,
 		tokens_used: null,
 		model: null,
 		metadata: request.metadata || {}
@@ -242,10 +321,10 @@ export async function addApiConversationMessage(
 		throw new Error(`Failed to add message: ${error.message}`);
 	}
 
-	// Update conversation timestamp
+	// Update conversation timestamp and active branch
 	await supabaseAdmin
 		.from('api_conversations')
-		.update({ updated_at: new Date().toISOString() })
+		.update({ updated_at: new Date().toISOString(), active_message_id: data.id })
 		.eq('id', conversationId);
 
 	return data;
@@ -255,7 +334,7 @@ export async function addApiConversationMessage(
  * Get messages for a conversation
  */
 export async function getApiConversationMessages(
-	userId: string,
+	owner: Owner,
 	conversationId: string,
 	options?: {
 		limit?: number;
@@ -264,7 +343,7 @@ export async function getApiConversationMessages(
 	}
 ): Promise<ApiConversationMessage[]> {
 	// First verify user owns the conversation
-	const conversation = await getApiConversation(userId, conversationId);
+	const conversation = await getApiConversation(owner, conversationId);
 	if (!conversation) {
 		throw new Error('Conversation not found');
 	}
@@ -299,77 +378,386 @@ export async function getApiConversationMessages(
 }
 
 /**
- * Send message and get AI response
+ * Get a message in a conversation
  */
-export async function sendMessage(
-	userId: string,
+export async function getApiConversationMessage(
+	owner: Owner,
 	conversationId: string,
-	request: SendMessageRequest
-): Promise<SendMessageResponse> {
-	// Get conversation
-	const conversation = await getApiConversation(userId, conversationId);
+	messageId: string
+): Promise<ApiConversationMessage | null> {
+	// First verify user owns the conversation
+	const conversation = await getApiConversation(owner, conversationId);
 	if (!conversation) {
 		throw new Error('Conversation not found');
 	}
 
-	// Add user message
-	const userMessage = await addApiConversationMessage(conversationId, {
-		role: 'user',
-		content: request.content,
-		metadata: request.metadata
+	return findConversationMessage(conversationId, messageId);
+}
+
+async function findConversationMessage(
+	conversationId: string,
+	messageId: string
+): Promise<ApiConversationMessage | null> {
+	const { data, error } = await supabaseAdmin
+		.from('api_conversation_messages')
+		.select('*')
+		.eq('id', messageId)
+		.eq('conversation_id', conversationId)
+		.single();
+
+	if (error) {
+		if (error.code === 'PGRST116') return null; // Not found
+		throw new Error(`Failed to get message: ${error.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * The messages from the first turn to a message, oldest first, each with its
+ * place among the alternatives for its turn. Walked in the database, so long
+ * conversations aren't cut off at the row limit. Empty for `null`, the point
+ * before the first turn.
+ */
+async function getConversationPath(
+	conversationId: string,
+	messageId: string | null
+): Promise<BranchedMessage<ApiConversationMessage>[]> {
+	if (!messageId) return [];
+
+	const { data, error } = await supabaseAdmin.rpc('api_conversation_path', {
+		target_conversation_id: conversationId,
+		target_message_id: messageId
 	});
 
-	// Get conversation history if requested
-	let messages: ChatMessage[] = [];
-	
-	if (request.include_history !== false) {
-		const historyMessages = await getApiConversationMessages(userId, conversationId, {
-			limit: request.max_history_messages || 20
-		});
+	if (error) {
+		throw new Error(`Failed to get messages: ${error.message}`);
+	}
+
+	const path: (ApiConversationMessage & { sibling_ids: string[] })[] = data || [];
+	return path.map(({ sibling_ids, ...message }) => ({
+		...message,
+		branch: branchInfo(message.id, sibling_ids)
+	}));
+}
+
+/**
+ * The last message of a conversation's active branch: its active message, or
+ * the newest message for conversations without one
+ */
+async function getActiveMessageId(conversation: ApiConversation): Promise<string | null> {
+	if (conversation.active_message_id) return conversation.active_message_id;
+
+	const { data, error } = await supabaseAdmin
+		.from('api_conversation_messages')
+		.select('id')
+		.eq('conversation_id', conversation.id)
+		.order('created_at', { ascending: false })
+		.order('id', { ascending: false })
+		.limit(1);
+
+	if (error) {
+		throw new Error(`Failed to get messages: ${error.message}`);
+	}
+
+	return data?.[0]?.id ?? null;
+}
+
+/**
+ * Get the messages of a conversation's active branch, each with its place
+ * among the alternatives for its turn
+ */
+export async function getActiveApiConversationMessages(
+	owner: Owner,
+	conversationId: string
+): Promise<BranchedMessage<ApiConversationMessage>[]> {
+	const conversation = await getApiConversation(owner, conversationId);
+	if (!conversation) {
+		throw new Error('Conversation not found');
+	}
 
-		// Convert to ChatMessage format and exclude the message we just added
-		messages = historyMessages
-			.filter(m => m.id !== userMessage.id)
-			.map(m => ({
-				role: m.role as ChatMessage['role'],
-				content: m.content
-			}));
+	return getConversationPath(conversationId, await getActiveMessageId(conversation));
+}
+
+/**
+ * Make the branch holding a message the active one, continuing to its newest
+ * reply. Returns the new active branch, or null if the message isn't in the
+ * conversation.
+ */
+export async function switchApiConversationBranch(
+	owner: Owner,
+	conversationId: string,
+	messageId: string
+): Promise<BranchedMessage<ApiConversationMessage>[] | null> {
+	const messages = await getApiConversationMessages(owner, conversationId);
+	const leaf = latestLeaf(messages, messageId);
+	if (!leaf) {
+		return null;
+	}
+
+	const { error } = await supabaseAdmin
+		.from('api_conversations')
+		.update({ active_message_id: leaf.id })
+		.eq('id', conversationId)
+		.or(ownerFilter(owner));
+
+	if (error) {
+		throw new Error(`Failed to switch branch: ${error.message}`);
 	}
 
-	// Add system prompt if configured
-	if (conversation.system_prompt) {
-		messages.unshift({
-			role: 'system',
-			content: conversation.system_prompt
+	return getConversationPath(conversationId, leaf.id);
+}
+
+/**
+ * Convert a stored conversation message to the completion format
+ */
+function toChatMessage(message: ApiConversationMessage): ChatMessage {
+	return {
+		role: message.role as ChatMessage['role'],
+		content: message.content,
+		...(message.tool_calls?.length && { tool_calls: message.tool_calls }),
+		...(message.tool_call_id && { tool_call_id: message.tool_call_id })
+	};
+}
+
+/**
+ * Build the prompt for a conversation using the summarize memory strategy,
+ * saving the running summary when it changes
+ */
+async function buildSummarizedPrompt(
+	owner: Owner,
+	conversation: ApiConversation,
+	memory: ConversationMemory | null,
+	historyMessages: ApiConversationMessage[],
+	currentMessage: ChatMessage,
+	options: { apiKey?: string; apiKeyId?: string }
+): Promise<{ messages: ChatMessage[]; updated: boolean }> {
+	// Only turns newer than the summary are sent as messages
+	const history = historyMessages
+		.filter((m) => !memory || m.created_at > memory.summarized_until)
+		.map((m) => ({ message: toChatMessage(m), created_at: m.created_at }));
+
+	const result = await applyConversationMemory({
+		systemPrompt: conversation.system_prompt,
+		history,
+		current: currentMessage,
+		memory,
+		model: conversation.model,
+		promptBudget: await getPromptBudget(conversation.model, conversation.max_tokens),
+		apiKey: options.apiKey
+	});
+
+	if (result.updated) {
+		await updateApiConversation(owner, conversation.id, {
+			metadata: { ...conversation.metadata, memory_summary: result.memory }
+		});
+
+		const { user_id, org_id } = toOwner(owner);
+		await recordCompletionCost({
+			user_id,
+			org_id,
+			api_key_id: options.apiKeyId,
+			endpoint: 'conversation:summarize',
+			model: result.memory?.model || conversation.model,
+			usage: result.usage
 		});
 	}
 
-	// Add the current user message
-	messages.push({
+	return { messages: result.messages, updated: result.updated };
+}
+
+/**
+ * Send a `conversation.message.created` webhook for a saved message
+ */
+function announceMessage(
+	conversation: ApiConversation,
+	message: ApiConversationMessage,
+	apiKeyId?: string
+): Promise<void> {
+	return dispatchWebhookEvent(
+		{ user_id: conversation.user_id, org_id: conversation.org_id ?? null, api_key_id: apiKeyId },
+		'conversation.message.created',
+		{
+			conversation_id: conversation.id,
+			message_id: message.id,
+			role: message.role,
+			content: message.content,
+			tool_calls: message.tool_calls ?? null,
+			tokens_used: message.tokens_used ?? null,
+			model: message.model ?? null,
+			created_at: message.created_at
+		}
+	);
+}
+
+/**
+ * Find the user message a turn answers: a new message is saved after the
+ * active message, an edited one beside the message it replaces, and a
+ * regenerated reply answers the user message of the reply it replaces
+ */
+async function startTurn(
+	conversation: ApiConversation,
+	request: TurnRequest
+): Promise<ApiConversationMessage> {
+	if ('regenerate_message_id' in request) {
+		const path = await getConversationPath(conversation.id, request.regenerate_message_id);
+		const userMessage = path.findLast((m) => m.role === 'user');
+		if (path.at(-1)?.role !== 'assistant' || !userMessage) {
+			throw new Error('Message not found');
+		}
+		return userMessage;
+	}
+
+	let parentId: string | null;
+	if (request.edit_message_id) {
+		const edited = await findConversationMessage(conversation.id, request.edit_message_id);
+		if (edited?.role !== 'user') {
+			throw new Error('Message not found');
+		}
+		parentId = edited.parent_id ?? null;
+	} else {
+		parentId = await getActiveMessageId(conversation);
+	}
+
+	const userMessage = await addApiConversationMessage(conversation.id, {
 		role: 'user',
-		content: request.content
+		content: request.content,
+		metadata: request.metadata,
+		parent_id: parentId
 	});
+	await announceMessage(conversation, userMessage, request.api_key_id);
 
-	// Truncate messages to fit context window
-	const truncatedMessages = truncateMessages(messages, 4000);
+	return userMessage;
+}
+
+/**
+ * Save a user's message and build the prompt answering it from the history
+ * on its branch
+ */
+async function prepareTurn(
+	owner: Owner,
+	conversationId: string,
+	request: TurnRequest
+): Promise<{
+	conversation: ApiConversation;
+	userMessage: ApiConversationMessage;
+	truncatedMessages: ChatMessage[];
+	memoryUpdated: boolean;
+}> {
+	// Get conversation
+	const conversation = await getApiConversation(owner, conversationId);
+	if (!conversation) {
+		throw new Error('Conversation not found');
+	}
+
+	const userMessage = await startTurn(conversation, request);
+	const history = await getConversationPath(conversationId, userMessage.parent_id ?? null);
+
+	const currentMessage: ChatMessage = { role: 'user', content: userMessage.content };
+	let truncatedMessages: ChatMessage[];
+	let memoryUpdated = false;
+
+	if (request.include_history !== false && getMemoryStrategy(conversation.metadata) === 'summarize') {
+		const memory = getConversationMemory(conversation.metadata);
+		const result = await buildSummarizedPrompt(owner, conversation, memory, history, currentMessage, {
+			apiKey: request.apiKey,
+			apiKeyId: request.api_key_id
+		});
+
+		truncatedMessages = result.messages;
+		memoryUpdated = result.updated;
+	} else {
+		// Get conversation history if requested
+		let messages: ChatMessage[] = [];
+
+		if (request.include_history !== false) {
+			messages = history.slice(-(request.max_history_messages || 20)).map(toChatMessage);
+		}
+
+		// Add system prompt if configured
+		if (conversation.system_prompt) {
+			messages.unshift({
+				role: 'system',
+				content: conversation.system_prompt
+			});
+		}
+
+		// Add the current user message
+		messages.push(currentMessage);
+
+		// Truncate messages to fit the model's context window, leaving room for the reply
+		truncatedMessages = await truncateMessagesForModel(
+			messages,
+			conversation.model,
+			conversation.max_tokens
+		);
+	}
+
+	return { conversation, userMessage, truncatedMessages, memoryUpdated };
+}
+
+/**
+ * Record why a message couldn't be answered on the user's message
+ */
+async function markTurnFailed(userMessage: ApiConversationMessage, error: unknown): Promise<void> {
+	await supabaseAdmin
+		.from('api_conversation_messages')
+		.update({
+			metadata: {
+				...userMessage.metadata,
+				error: error instanceof Error ? error.message : 'Unknown error'
+			}
+		})
+		.eq('id', userMessage.id);
+}
+
+/**
+ * Send message and get AI response. Edited messages and regenerated replies
+ * are saved in a new branch, which becomes the active one.
+ */
+export async function sendMessage(
+	owner: Owner,
+	conversationId: string,
+	request: TurnRequest
+): Promise<SendMessageResponse> {
+	const { conversation, userMessage, truncatedMessages, memoryUpdated } = await prepareTurn(
+		owner,
+		conversationId,
+		request
+	);
 
 	try {
+		if (request.server_tools) {
+			const response = await sendMessageWithTools(
+				conversation,
+				userMessage,
+				truncatedMessages,
+				request
+			);
+			return { ...response, memory_updated: memoryUpdated };
+		}
+
 		// Get AI response
 		const completion = await createCompletion({
 			messages: truncatedMessages,
 			model: conversation.model,
 			temperature: conversation.temperature,
 			max_tokens: conversation.max_tokens,
+			...(request.tools?.length && { tools: request.tools }),
+			...(request.tool_choice && { tool_choice: request.tool_choice }),
+			fallback_models: request.fallback_models,
 			apiKey: request.apiKey
 		});
 
 		const content = completion.choices[0]?.message?.content;
 		const assistantContent = typeof content === 'string' ? content : '';
 
-		// Save assistant response
+		// Save assistant response, including any tool calls the client must answer
 		const assistantMessage = await addApiConversationMessage(conversationId, {
 			role: 'assistant',
 			content: assistantContent,
+			tool_calls: completion.choices[0]?.message?.tool_calls,
+			parent_id: userMessage.id,
 			metadata: {
 				...request.metadata,
 				model: completion.model,
@@ -386,37 +774,270 @@ export async function sendMessage(
 			})
 			.eq('id', assistantMessage.id);
 
+		const savedMessage = {
+			...assistantMessage,
+			tokens_used: completion.usage?.total_tokens,
+			model: completion.model
+		};
+		await announceMessage(conversation, savedMessage, request.api_key_id);
+
 		return {
 			user_message: userMessage,
-			assistant_message: {
-				...assistantMessage,
-				tokens_used: completion.usage?.total_tokens,
-				model: completion.model
-			},
+			assistant_message: savedMessage,
+			memory_updated: memoryUpdated,
 			usage: completion.usage
 		};
 
 	} catch (error) {
-		// Mark user message with error metadata
-		await supabaseAdmin
-			.from('api_conversation_messages')
-			.update({
+		await markTurnFailed(userMessage, error);
+		throw error;
+	}
+}
+
+/**
+ * Send a message and stream the AI response as server-sent events, in the
+ * format of `/api/v1/chat/completions`. Every chunk's `id` is the assistant
+ * message's, and a last chunk without choices carries the usage before
+ * `data: [DONE]`. The reply is saved as it arrives and generation carries on
+ * when the client disconnects, so the conversation keeps the complete answer.
+ */
+export async function streamMessage(
+	owner: Owner,
+	conversationId: string,
+	request: TurnRequest
+): Promise<StreamMessageResponse> {
+	const { conversation, userMessage, truncatedMessages, memoryUpdated } = await prepareTurn(
+		owner,
+		conversationId,
+		request
+	);
+
+	let upstream: ReadableStream;
+	let routedModel: string;
+	let assistantMessage: ApiConversationMessage;
+	try {
+		const routed = await createRoutedCompletionStream({
+			messages: truncatedMessages,
+			model: conversation.model,
+			temperature: conversation.temperature,
+			max_tokens: conversation.max_tokens,
+			...(request.tools?.length && { tools: request.tools }),
+			...(request.tool_choice && { tool_choice: request.tool_choice }),
+			fallback_models: request.fallback_models,
+			apiKey: request.apiKey
+		});
+		upstream = routed.stream;
+		routedModel = routed.routing.model_used;
+
+		// Saved before the first token, so an interrupted reply is still on record
+		assistantMessage = await addApiConversationMessage(conversationId, {
+			role: 'assistant',
+			content: '',
+			parent_id: userMessage.id,
+			metadata: { ...request.metadata, streaming: true }
+		});
+	} catch (error) {
+		await markTurnFailed(userMessage, error);
+		throw error;
+	}
+
+	const encoder = new TextEncoder();
+	let clientConnected = true;
+	let controller!: ReadableStreamDefaultController<Uint8Array>;
+	const stream = new ReadableStream<Uint8Array>({
+		start(streamController) {
+			controller = streamController;
+		},
+		cancel() {
+			clientConnected = false;
+		}
+	});
+
+	const send = (data: unknown) => {
+		if (!clientConnected) return;
+		try {
+			const payload = typeof data === 'string' ? data : JSON.stringify(data);
+			controller.enqueue(encoder.encode(`data: ${payload}\n\n`));
+		} catch {
+			clientConnected = false;
+		}
+	};
+
+	// Saves run one at a time, so an older save can't overwrite a newer one
+	let saving = Promise.resolve();
+	const save = (fields: Partial<ApiConversationMessage>) => {
+		saving = saving.then(async () => {
+			const { error } = await supabaseAdmin
+				.from('api_conversation_messages')
+				.update(fields)
+				.eq('id', assistantMessage.id);
+			if (error) console.error('Failed to save streamed message:', error);
+		});
+		return saving;
+	};
+
+	const completed = (async () => {
+		let content = '';
+		const toolCalls: ToolCall[] = [];
+		let usage: CompletionUsage | undefined;
+		let model = routedModel;
+		let created = Math.floor(Date.now() / 1000);
+		let savedAt = Date.now();
+
+		try {
+			for await (const chunk of parseStreamResponse(upstream)) {
+				const delta = chunk.choices?.[0]?.delta;
+				content += delta?.content || '';
+				accumulateToolCalls(toolCalls, delta?.tool_calls);
+				usage = chunk.usage || usage;
+				model = chunk.model || model;
+				created = chunk.created || created;
+
+				send({ ...chunk, id: assistantMessage.id });
+
+				if (Date.now() - savedAt >= STREAM_SAVE_INTERVAL_MS) {
+					savedAt = Date.now();
+					void save({ content });
+				}
+			}
+		} catch (error) {
+			await save({
+				content,
+				tool_calls: toolCalls.length ? toolCalls : null,
+				model,
 				metadata: {
-					...userMessage.metadata,
+					...request.metadata,
+					model,
 					error: error instanceof Error ? error.message : 'Unknown error'
 				}
-			})
-			.eq('id', userMessage.id);
+			});
+			await markTurnFailed(userMessage, error);
+			if (clientConnected) controller.error(error);
+			throw error;
+		}
 
-		throw error;
+		const finalUsage = usage || estimateUsage(truncatedMessages, content, model);
+		const savedMessage: ApiConversationMessage = {
+			...assistantMessage,
+			content,
+			tool_calls: toolCalls.length ? toolCalls : null,
+			tokens_used: finalUsage.total_tokens,
+			model,
+			metadata: { ...request.metadata, model, usage: finalUsage }
+		};
+		await save({
+			content: savedMessage.content,
+			tool_calls: savedMessage.tool_calls,
+			tokens_used: savedMessage.tokens_used,
+			model: savedMessage.model,
+			metadata: savedMessage.metadata
+		});
+		await announceMessage(conversation, savedMessage, request.api_key_id);
+
+		send({
+			id: assistantMessage.id,
+			object: 'chat.completion.chunk',
+			created,
+			model,
+			choices: [],
+			usage: finalUsage,
+			conversation_id: conversation.id,
+			user_message_id: userMessage.id,
+			memory_updated: memoryUpdated
+		});
+		send('[DONE]');
+		if (clientConnected) controller.close();
+
+		return { message: savedMessage, usage: finalUsage };
+	})();
+
+	return {
+		user_message: userMessage,
+		assistant_message: assistantMessage,
+		stream,
+		completed
+	};
+}
+
+/**
+ * Answer a message with the agent loop, saving each tool call and result as
+ * conversation messages before the final answer
+ */
+async function sendMessageWithTools(
+	conversation: ApiConversation,
+	userMessage: ApiConversationMessage,
+	messages: ChatMessage[],
+	request: TurnRequest
+): Promise<SendMessageResponse> {
+	const result = await runAgent({
+		request: {
+			messages,
+			model: conversation.model,
+			temperature: conversation.temperature,
+			max_tokens: conversation.max_tokens,
+			apiKey: request.apiKey
+		},
+		tools: Array.isArray(request.server_tools) ? request.server_tools : undefined,
+		maxSteps: request.max_steps,
+		context: {
+			userId: conversation.user_id,
+			orgId: conversation.org_id,
+			apiKey: request.apiKey
+		},
+		apiKeyId: request.api_key_id
+	});
+
+	const answer = result.messages[result.messages.length - 1];
+	let assistantMessage: ApiConversationMessage | null = null;
+
+	for (const message of result.messages) {
+		assistantMessage = await addApiConversationMessage(conversation.id, {
+			role: message.role as 'assistant' | 'tool',
+			content: typeof message.content === 'string' ? message.content : '',
+			tool_calls: message.tool_calls,
+			tool_call_id: message.tool_call_id,
+			parent_id: assistantMessage?.id ?? userMessage.id,
+			metadata:
+				message === answer
+					? { ...request.metadata, model: result.model, usage: result.usage, tool_steps: result.steps.length }
+					: {}
+		});
+
+		// The answer is announced once its usage is recorded
+		if (message !== answer) {
+			await announceMessage(conversation, assistantMessage, request.api_key_id);
+		}
 	}
+
+	// The last message saved is the final answer
+	await supabaseAdmin
+		.from('api_conversation_messages')
+		.update({
+			tokens_used: result.usage.total_tokens,
+			model: result.model
+		})
+		.eq('id', assistantMessage!.id);
+
+	const savedMessage = {
+		...assistantMessage!,
+		tokens_used: result.usage.total_tokens,
+		model: result.model
+	};
+	await announceMessage(conversation, savedMessage, request.api_key_id);
+
+	return {
+		user_message: userMessage,
+		assistant_message: savedMessage,
+		tool_steps: result.steps,
+		usage: result.usage
+	};
 }
 
 /**
  * Get conversation summary/statistics
  */
 export async function getApiConversationSummary(
-	userId: string,
+	owner: Owner,
 	conversationId: string
 ): Promise<{
 	conversation: ApiConversation;
@@ -426,8 +1047,10 @@ export async function getApiConversationSummary(
 	first_message_at?: string;
 	last_message_at?: string;
 	participants: string[];
+	memory_strategy: MemoryStrategy;
+	memory: ConversationMemory | null;
 }> {
-	const conversation = await getApiConversation(userId, conversationId);
+	const conversation = await getApiConversation(owner, conversationId);
 	if (!conversation) {
 		throw new Error('Conversation not found');
 	}
@@ -454,24 +1077,26 @@ export async function getApiConversationSummary(
 		models_used: modelsUsed,
 		first_message_at: messageList[0]?.created_at,
 		last_message_at: messageList[messageList.length - 1]?.created_at,
-		participants
+		participants,
+		memory_strategy: getMemoryStrategy(conversation.metadata),
+		memory: getConversationMemory(conversation.metadata)
 	};
 }
 
 /**
- * Export conversation to various formats
+ * Export a conversation's active branch to various formats
  */
 export async function exportApiConversation(
-	userId: string,
+	owner: Owner,
 	conversationId: string,
 	format: 'json' | 'markdown' | 'csv' = 'json'
 ): Promise<string> {
-	const conversation = await getApiConversation(userId, conversationId);
+	const conversation = await getApiConversation(owner, conversationId);
 	if (!conversation) {
 		throw new Error('Conversation not found');
 	}
 
-	const messages = await getApiConversationMessages(userId, conversationId);
+	const messages = await getActiveApiConversationMessages(owner, conversationId);
 
 	switch (format) {
 		case 'json':
@@ -495,6 +1120,9 @@ export async function exportApiConversation(
 				const roleEmoji = message.role === 'user' ? '👤' : message.role === 'assistant' ? '🤖' : '⚙️';
 				markdown += `### ${roleEmoji} ${message.role.charAt(0).toUpperCase() + message.role.slice(1)} (${timestamp})\n\n`;
 				markdown += `${message.content}\n\n`;
+				for (const call of message.tool_calls || []) {
+					markdown += `> Tool call \`${call.function.name}\`: \`${call.function.arguments}\`\n\n`;
+				}
 			}
 			return markdown;
 
@@ -521,21 +1149,21 @@ export async function exportApiConversation(
 }
 
 /**
- * Clone/fork a conversation
+ * Clone/fork a conversation, copying the messages of its active branch
  */
 export async function forkApiConversation(
-	userId: string,
+	owner: Owner,
 	conversationId: string,
 	newTitle?: string,
 	includeMessages: boolean = false
 ): Promise<ApiConversation> {
-	const original = await getApiConversation(userId, conversationId);
+	const original = await getApiConversation(owner, conversationId);
 	if (!original) {
 		throw new Error('Conversation not found');
 	}
 
 	// Create new conversation
-	const forkedConversation = await createApiConversation(userId, {
+	const forkedConversation = await createApiConversation(owner, {
 		title: newTitle || `${original.title} (Copy)`,
 		system_prompt: original.system_prompt,
 		model: original.model,
@@ -550,12 +1178,14 @@ export async function forkApiConversation(
 
 	// Copy messages if requested
 	if (includeMessages) {
-		const messages = await getApiConversationMessages(userId, conversationId);
+		const messages = await getActiveApiConversationMessages(owner, conversationId);
 		
 		for (const message of messages) {
 			await addApiConversationMessage(forkedConversation.id, {
 				role: message.role,
 				content: message.content,
+				tool_calls: message.tool_calls || undefined,
+				tool_call_id: message.tool_call_id || undefined,
 				metadata: message.metadata
 			});
 		}
@@ -568,7 +1198,7 @@ export async function forkApiConversation(
  * Search conversations by content
  */
 export async function searchApiConversations(
-	userId: string,
+	owner: Owner,
 	query: string,
 	options?: {
 		limit?: number;
@@ -590,7 +1220,7 @@ export async function searchApiConversations(
 	const { data: conversations, error: convError } = await supabaseAdmin
 		.from('api_conversations')
 		.select('*')
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.eq('is_active', true)
 		.or(`title.ilike.%${query}%,system_prompt.ilike.%${query}%`)
 		.order('updated_at', { ascending: false })
@@ -606,13 +1236,20 @@ export async function searchApiConversations(
 
 	// Search message content if requested
 	if (options?.search_messages !== false) {
-		const { data: messageMatches, error: msgError } = await supabaseAdmin
+		const { user_id, org_id } = toOwner(owner);
+		let messageQuery = supabaseAdmin
 			.from('api_conversation_messages')
 			.select(`
 				*,
-				api_conversations!inner(id, title, user_id)
-			`)
-			.eq('api_conversations.user_id', userId)
+				api_conversations!inner(id, title, user_id, org_id)
+			`);
+
+		// Only messages in conversations the owner holds
+		messageQuery = org_id
+			? messageQuery.eq('api_conversations.org_id', org_id)
+			: messageQuery.eq('api_conversations.user_id', user_id).is('api_conversations.org_id', null);
+
+		const { data: messageMatches, error: msgError } = await messageQuery
 			.eq('api_conversations.is_active', true)
 			.ilike('content', `%${query}%`)
 			.order('created_at', { ascending: false })
@@ -629,6 +1266,8 @@ export async function searchApiConversations(
 				conversation_id: match.conversation_id,
 				role: match.role,
 				content: match.content,
+				tool_calls: match.tool_calls,
+				tool_call_id: match.tool_call_id,
 				tokens_used: match.tokens_used,
 				model: match.model,
 				metadata: match.metadata,
@@ -0,0 +1,332 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import {
+	authenticateApiKey,
+	clearApiKeyCache,
+	createApiKey,
+	parseApiKey,
+	revokeApiKey,
+	rotateApiKey
+} from './api-keys.js';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn(),
+		rpc: vi.fn()
+	}
+}));
+
+const updates: Record<string, unknown>[] = [];
+const deletes: unknown[] = [];
+const eqFilters: [string, unknown][] = [];
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to `result`
+ */
+function query(result: { data: unknown; error: unknown }) {
+	const builder: any = {
+		select: () => builder,
+		insert: () => builder,
+		delete: () => {
+			deletes.push(builder);
+			return builder;
+		},
+		update: (values: Record<string, unknown>) => {
+			updates.push(values);
+			return builder;
+		},
+		eq: (column: string, value: unknown) => {
+			eqFilters.push([column, value]);
+			return builder;
+		},
+		is: () => builder,
+		or: () => builder,
+		single: async () => result,
+		then: (resolve: (value: unknown) => void) => resolve(result)
+	};
+	return builder;
+}
+
+/**
+ * Answer each `from()` call with the next result
+ */
+async function mockQueries(...results: { data: unknown; error: unknown }[]) {
+	const { supabaseAdmin } = await import('./supabase.js');
+	const queue = [...results];
+	vi.mocked(supabaseAdmin.from).mockImplementation(
+		() => query(queue.shift() || { data: null, error: null }) as any
+	);
+	return supabaseAdmin;
+}
+
+const notFound = { data: null, error: { code: 'PGRST116', message: 'Not found' } };
+const ok = { data: null, error: null };
+
+function keyRow(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'key-1',
+		user_id: 'user-1',
+		key_id: null,
+		key_hash: '',
+		scopes: ['read'],
+		rate_limit: 100,
+		expires_at: null,
+		is_active: true,
+		fallback_models: null,
+		...overrides
+	};
+}
+
+describe('API Keys', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		updates.length = 0;
+		deletes.length = 0;
+		eqFilters.length = 0;
+		clearApiKeyCache();
+	});
+
+	it('should parse the key ID out of new and legacy keys', () => {
+		const secret = 'a'.repeat(64);
+
+		expect(parseApiKey(`ska_live_0123456789abcdef_${secret}`)).toEqual({
+			prefix: 'ska_live_',
+			key_id: '0123456789abcdef',
+			legacy: false
+		});
+		expect(parseApiKey(`ska_test_${secret}`)).toMatchObject({ prefix: 'ska_test_', legacy: true });
+		expect(parseApiKey(`ska_live_${secret}`)?.key_id).toHaveLength(32);
+		expect(parseApiKey(`ska_prod_${secret}`)).toBeNull();
+		expect(parseApiKey(`ska_live_0123456789abcdef_${secret.slice(1)}`)).toBeNull();
+	});
+
+	it('should create keys with an embedded ID and a SHA-256 hash', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		let inserted: any;
+		vi.mocked(supabaseAdmin.from).mockImplementation(() => {
+			const builder = query(ok);
+			builder.insert = ([row]: any[]) => {
+				inserted = row;
+				return query({ data: row, error: null });
+			};
+			return builder;
+		});
+
+		const { apiKey } = await createApiKey('user-1', { name: 'Test' });
+		const parsed = parseApiKey(apiKey.key);
+
+		expect(parsed).toMatchObject({ prefix: 'ska_live_', legacy: false });
+		expect(inserted.key_id).toBe(parsed?.key_id);
+		expect(inserted.key_prefix).toBe(`ska_live_${parsed?.key_id}`);
+		expect(inserted.key_hash).toBe(crypto.createHash('sha256').update(apiKey.key).digest('hex'));
+	});
+
+	it('should find a key with one lookup by its ID and cache it', async () => {
+		const key = `ska_live_0123456789abcdef_${'b'.repeat(64)}`;
+		const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+		const supabaseAdmin = await mockQueries(
+			{ data: keyRow({ key_id: '0123456789abcdef', key_hash: keyHash }), error: null },
+			ok
+		);
+
+		const result = await authenticateApiKey(key);
+		expect(result).toMatchObject({ success: true, user_id: 'user-1', api_key_id: 'key-1' });
+		expect(eqFilters).toContainEqual(['key_id', '0123456789abcdef']);
+
+		// Served from the cache
+		expect(await authenticateApiKey(key)).toEqual(result);
+		expect(supabaseAdmin.from).toHaveBeenCalledTimes(2);
+	});
+
+	it("should give org keys their creator's role and reject them once the creator leaves", async () => {
+		const key = `ska_live_0123456789abcdef_${'f'.repeat(64)}`;
+		const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+		const row = keyRow({ key_id: '0123456789abcdef', key_hash: keyHash, org_id: 'org-1' });
+
+		await mockQueries({ data: row, error: null }, { data: { role: 'viewer' }, error: null }, ok);
+		expect(await authenticateApiKey(key)).toMatchObject({
+			success: true,
+			org_id: 'org-1',
+			org_role: 'viewer'
+		});
+
+		clearApiKeyCache();
+		await mockQueries({ data: row, error: null }, notFound);
+		expect(await authenticateApiKey(key)).toEqual({
+			success: false,
+			error: 'API key creator is no longer a member of its organization'
+		});
+	});
+
+	it('should reject a key whose secret does not match', async () => {
+		const key = `ska_live_0123456789abcdef_${'b'.repeat(64)}`;
+		await mockQueries({
+			data: keyRow({ key_id: '0123456789abcdef', key_hash: 'c'.repeat(64) }),
+			error: null
+		});
+
+		expect(await authenticateApiKey(key)).toEqual({ success: false, error: 'Invalid API key' });
+	});
+
+	it('should upgrade a legacy key the first time it is used', async () => {
+		const key = `ska_live_${'d'.repeat(64)}`;
+		const legacyRow = keyRow({ key_hash: bcrypt.hashSync(key, 4) });
+		await mockQueries(
+			notFound,
+			{
+				data: [keyRow({ id: 'other', key_hash: bcrypt.hashSync('other', 4) }), legacyRow],
+				error: null
+			},
+			ok,
+			ok
+		);
+
+		expect(await authenticateApiKey(key)).toMatchObject({ success: true, api_key_id: 'key-1' });
+		expect(updates[0]).toEqual({
+			key_id: parseApiKey(key)?.key_id,
+			key_hash: crypto.createHash('sha256').update(key).digest('hex')
+		});
+	});
+
+	it('should not scan the legacy keys again for a key that matched none', async () => {
+		const key = `ska_live_${'f'.repeat(64)}`;
+		const supabaseAdmin = await mockQueries(notFound, {
+			data: [keyRow({ key_hash: bcrypt.hashSync('other', 4) })],
+			error: null
+		});
+
+		expect(await authenticateApiKey(key)).toEqual({ success: false, error: 'Invalid API key' });
+		expect(await authenticateApiKey(key)).toEqual({ success: false, error: 'Invalid API key' });
+		// The second attempt only looks the key ID up
+		expect(supabaseAdmin.from).toHaveBeenCalledTimes(3);
+	});
+
+	it("should cap legacy key scans per client so one client can't lock out others", async () => {
+		const key = `ska_live_${'d'.repeat(64)}`;
+		const legacyRow = keyRow({ key_hash: bcrypt.hashSync(key, 4) });
+		const otherRows = { data: [keyRow({ key_hash: bcrypt.hashSync('other', 4) })], error: null };
+
+		// 30 made-up keys from one address use up its scans
+		await mockQueries(...Array.from({ length: 30 }, () => [notFound, otherRows]).flat());
+		for (let i = 0; i < 30; i++) {
+			const guess = `ska_live_${i.toString(16).padStart(64, '0')}`;
+			expect(await authenticateApiKey(guess, '203.0.113.9')).toMatchObject({ success: false });
+		}
+
+		// A real key from that address is told to retry, not that it's invalid
+		await mockQueries(notFound);
+		expect(await authenticateApiKey(key, '203.0.113.9')).toMatchObject({
+			success: false,
+			retry_after: expect.any(Number)
+		});
+
+		await mockQueries(notFound, { data: [legacyRow], error: null }, ok, ok);
+		expect(await authenticateApiKey(key, '198.51.100.4')).toMatchObject({
+			success: true,
+			api_key_id: 'key-1'
+		});
+	});
+
+	it('should drop revoked keys from the cache', async () => {
+		const key = `ska_live_0123456789abcdef_${'e'.repeat(64)}`;
+		const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+		await mockQueries(
+			{ data: keyRow({ key_id: '0123456789abcdef', key_hash: keyHash }), error: null },
+			ok,
+			ok,
+			notFound
+		);
+
+		expect((await authenticateApiKey(key)).success).toBe(true);
+		await revokeApiKey('user-1', 'key-1');
+
+		expect(await authenticateApiKey(key)).toEqual({ success: false, error: 'Invalid API key' });
+	});
+
+	it('should rotate a key into a successor with the same settings and a grace period', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		let inserted: any;
+		vi.mocked(supabaseAdmin.from).mockImplementation(() => {
+			const builder = query({ data: { id: 'key-1' }, error: null });
+			builder.insert = ([row]: any[]) => {
+				inserted = row;
+				return query({ data: { ...row, id: 'key-2' }, error: null });
+			};
+			return builder;
+		});
+
+		const now = Date.now();
+		const { apiKey } = await rotateApiKey(
+			'user-1',
+			{
+				...keyRow(),
+				name: 'Production',
+				key_prefix: 'ska_test_0123456789abcdef',
+				scopes: ['read', 'write'],
+				rate_limit: 500,
+				daily_budget_usd: 5,
+				usage_count: 10,
+				created_at: '',
+				updated_at: ''
+			} as any,
+			3600
+		);
+
+		expect(apiKey.id).toBe('key-2');
+		expect(inserted).toMatchObject({
+			name: 'Production',
+			key_prefix: expect.stringMatching(/^ska_test_/),
+			scopes: ['read', 'write'],
+			rate_limit: 500,
+			daily_budget_usd: 5
+		});
+		expect(updates[0]).toMatchObject({ rotated_to: 'key-2' });
+		const graceEnd = new Date(updates[0].expires_at as string).getTime();
+		expect(graceEnd - now).toBeGreaterThanOrEqual(3600 * 1000);
+		expect(graceEnd - now).toBeLessThan(3601 * 1000);
+	});
+
+	it('should delete the successor when the key was rotated concurrently', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		vi.mocked(supabaseAdmin.from).mockImplementation(() => {
+			const builder = query(notFound);
+			builder.insert = ([row]: Record<string, unknown>[]) =>
+				query({ data: { ...row, id: 'key-2' }, error: null });
+			return builder;
+		});
+
+		await expect(
+			rotateApiKey('user-1', { ...keyRow(), key_prefix: 'ska_live_0123456789abcdef' } as never)
+		).rejects.toMatchObject({ status: 409 });
+		expect(deletes).toHaveLength(1);
+		expect(eqFilters).toContainEqual(['id', 'key-2']);
+	});
+
+	it('should report the rotation when a rotated key is used', async () => {
+		const key = `ska_live_0123456789abcdef_${'f'.repeat(64)}`;
+		const keyHash = crypto.createHash('sha256').update(key).digest('hex');
+		const expiresAt = new Date(Date.now() + 60000).toISOString();
+		await mockQueries(
+			{
+				data: keyRow({
+					key_id: '0123456789abcdef',
+					key_hash: keyHash,
+					rotated_to: 'key-2',
+					rotated_at: '2025-03-15T12:00:00.000Z',
+					expires_at: expiresAt
+				}),
+				error: null
+			},
+			ok
+		);
+
+		expect((await authenticateApiKey(key)).rotation).toEqual({
+			successor_id: 'key-2',
+			rotated_at: '2025-03-15T12:00:00.000Z',
+			expires_at: expiresAt
+		});
+	});
+});
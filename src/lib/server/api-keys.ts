@@ -1,19 +1,45 @@
+import { error } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
 import { supabaseAdmin } from './supabase.js';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { resolveRateLimits, type RateLimits } from './rate-limiter.js';
+import { normalizeRestrictionList, type KeyRestrictions } from './key-restrictions.js';
+import {
+	getMemberRole,
+	ownerColumns,
+	ownerFilter,
+	type OrgRole,
+	type Owner
+} from './organizations.js';
+import { dispatchWebhookEvent } from './webhooks.js';
 
 export interface ApiKey {
 	id: string;
-	user_id: string;
+	user_id: string; // Creator
+	org_id?: string | null; // Organization the key belongs to and bills to, null for personal keys
 	name: string;
-	key_prefix: string;
+	key_prefix: string; // Key type and public ID, e.g. "ska_live_3f9a0c1b2d4e5f60"
+	key_id?: string | null; // Public ID used to look the key up; null for legacy keys not used since
 	key_hash: string;
 	scopes: string[];
-	rate_limit: number;
+	rate_limit: number; // Requests per hour
+	rate_limit_per_minute?: number | null; // Per-window limits, null for the server default
+	rate_limit_per_day?: number | null;
+	token_limit_per_minute?: number | null;
 	usage_count: number;
 	last_used_at?: string;
 	expires_at?: string;
 	is_active: boolean;
+	fallback_models?: string[] | null; // Default model fallback chain for requests made with this key
+	daily_budget_usd?: number | null; // Hard spending limits in USD, null for no limit
+	monthly_budget_usd?: number | null;
+	budget_soft_limit_percent?: number;
+	rotated_to?: string | null; // Successor key, set once this key has been rotated
+	rotated_at?: string | null;
+	allowed_ips?: string[] | null; // Usage restrictions, null for none
+	allowed_origins?: string[] | null;
+	allowed_models?: string[] | null;
 	created_at: string;
 	updated_at: string;
 }
@@ -22,67 +48,150 @@ export interface CreateApiKeyRequest {
 	name: string;
 	scopes?: string[];
 	rate_limit?: number;
+	rate_limit_per_minute?: number | null;
+	rate_limit_per_day?: number | null;
+	token_limit_per_minute?: number | null;
 	expires_at?: string;
+	fallback_models?: string[];
+	daily_budget_usd?: number | null;
+	monthly_budget_usd?: number | null;
+	budget_soft_limit_percent?: number;
+	allowed_ips?: string[] | null;
+	allowed_origins?: string[] | null;
+	allowed_models?: string[] | null;
 }
 
 export interface ApiKeyAuthResult {
 	success: boolean;
 	user_id?: string;
+	org_id?: string | null;
+	org_role?: OrgRole | null; // The key creator's current role in the key's organization
 	api_key_id?: string;
 	scopes?: string[];
 	rate_limit?: number;
+	rate_limits?: RateLimits;
+	fallback_models?: string[];
+	rotation?: ApiKeyRotation | null;
+	restrictions?: KeyRestrictions;
 	error?: string;
+	retry_after?: number; // Seconds until a throttled attempt can be retried; the key may be valid
 }
 
 /**
- * Generate a secure API key
+ * Set on a key that has been rotated and is in its grace period
  */
-function generateApiKey(prefix: string = 'ska_live_'): { key: string; hash: string } {
-	// Generate 32 random bytes and convert to hex
-	const randomBytes = crypto.randomBytes(32);
-	const keyPart = randomBytes.toString('hex');
-	const fullKey = prefix + keyPart;
-	
-	// Hash the key for storage
-	const hash = bcrypt.hashSync(fullKey, 12);
-	
-	return { key: fullKey, hash };
+export interface ApiKeyRotation {
+	successor_id: string;
+	rotated_at: string;
+	expires_at: string; // End of the grace period
+}
+
+const DEFAULT_AUTH_CACHE_TTL_MS = 60 * 1000;
+const MAX_AUTH_CACHE_ENTRIES = 1000;
+const LEGACY_MISS_TTL_MS = 10 * 60 * 1000;
+const MAX_LEGACY_SCANS_PER_MINUTE = 30;
+const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+export const MAX_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60;
+
+// Columns returned to key owners; never includes the hash
+const KEY_COLUMNS =
+	'id, user_id, org_id, name, key_prefix, scopes, rate_limit, rate_limit_per_minute, rate_limit_per_day, token_limit_per_minute, usage_count, last_used_at, expires_at, is_active, fallback_models, daily_budget_usd, monthly_budget_usd, budget_soft_limit_percent, rotated_to, rotated_at, allowed_ips, allowed_origins, allowed_models, created_at, updated_at';
+
+// Columns announced in `key.revoked` webhooks
+const REVOKED_KEY_COLUMNS = 'id, user_id, org_id, name, key_prefix';
+
+const AUTH_COLUMNS =
+	'id, user_id, org_id, key_id, key_hash, scopes, rate_limit, rate_limit_per_minute, rate_limit_per_day, token_limit_per_minute, expires_at, is_active, fallback_models, rotated_to, rotated_at, allowed_ips, allowed_origins, allowed_models';
+
+// Keys are "<type prefix><key ID>_<secret>". Legacy keys have no key ID and are
+// "<type prefix><64 hex>".
+const API_KEY_PATTERN = /^(ska_live_|ska_test_)(?:([0-9a-f]{16})_([0-9a-f]{64})|([0-9a-f]{64}))$/;
+
+/**
+ * SHA-256 of a key. Keys carry 256 bits of randomness, so a fast hash is enough.
+ */
+function hashApiKey(key: string): string {
+	return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a secure API key with an embedded public key ID
+ */
+function generateApiKey(prefix: string = 'ska_live_'): {
+	key: string;
+	keyId: string;
+	hash: string;
+} {
+	const keyId = crypto.randomBytes(8).toString('hex');
+	const secret = crypto.randomBytes(32).toString('hex');
+	const fullKey = `${prefix}${keyId}_${secret}`;
+
+	return { key: fullKey, keyId, hash: hashApiKey(fullKey) };
+}
+
+/**
+ * Split a key into its type prefix and key ID. Legacy keys get an ID derived
+ * from the key itself, which is stored once they have been upgraded.
+ */
+export function parseApiKey(key: string): { prefix: string; key_id: string; legacy: boolean } | null {
+	const match = API_KEY_PATTERN.exec(key);
+	if (!match) return null;
+
+	return match[2]
+		? { prefix: match[1], key_id: match[2], legacy: false }
+		: { prefix: match[1], key_id: hashApiKey(key).slice(0, 32), legacy: true };
 }
 
 /**
  * Validate API key format
  */
 export function validateApiKeyFormat(key: string): boolean {
-	// Check if key starts with valid prefix and has correct length
-	const validPrefixes = ['ska_live_', 'ska_test_'];
-	const hasValidPrefix = validPrefixes.some(prefix => key.startsWith(prefix));
-	
-	if (!hasValidPrefix) return false;
-	
-	// Check total length (prefix + 64 hex characters)
-	const expectedLength = key.startsWith('ska_live_') ? 73 : 73; // Both prefixes are 9 chars + 64 hex
-	return key.length === expectedLength;
+	return parseApiKey(key) !== null;
+}
+
+/**
+ * Validate an optional fallback model chain (up to 5 non-empty model IDs)
+ */
+export function isValidModelList(models: unknown): boolean {
+	if (models === undefined) return true;
+
+	return (
+		Array.isArray(models) &&
+		models.length <= 5 &&
+		models.every((model) => typeof model === 'string' && model.trim().length > 0)
+	);
 }
 
 /**
- * Create a new API key for a user
+ * Create a new API key for a user or organization
  */
 export async function createApiKey(
-	userId: string,
+	owner: Owner,
 	request: CreateApiKeyRequest,
 	isTest: boolean = false
 ): Promise<{ apiKey: ApiKey & { key: string } }> {
 	const prefix = isTest ? 'ska_test_' : 'ska_live_';
-	const { key, hash } = generateApiKey(prefix);
+	const { key, keyId, hash } = generateApiKey(prefix);
 	
 	const keyData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		name: request.name,
-		key_prefix: prefix,
+		key_prefix: prefix + keyId,
+		key_id: keyId,
 		key_hash: hash,
 		scopes: request.scopes || ['read', 'write'],
 		rate_limit: request.rate_limit || 100,
-		expires_at: request.expires_at || null
+		rate_limit_per_minute: request.rate_limit_per_minute ?? null,
+		rate_limit_per_day: request.rate_limit_per_day ?? null,
+		token_limit_per_minute: request.token_limit_per_minute ?? null,
+		expires_at: request.expires_at || null,
+		fallback_models: request.fallback_models?.length ? request.fallback_models : null,
+		daily_budget_usd: request.daily_budget_usd ?? null,
+		monthly_budget_usd: request.monthly_budget_usd ?? null,
+		budget_soft_limit_percent: request.budget_soft_limit_percent ?? 80,
+		allowed_ips: normalizeRestrictionList(request.allowed_ips),
+		allowed_origins: normalizeRestrictionList(request.allowed_origins),
+		allowed_models: normalizeRestrictionList(request.allowed_models)
 	};
 
 	const { data, error } = await supabaseAdmin
@@ -101,13 +210,13 @@ export async function createApiKey(
 }
 
 /**
- * List API keys for a user (without revealing the actual keys)
+ * List API keys for a user or organization (without revealing the actual keys)
  */
-export async function listApiKeys(userId: string): Promise<Omit<ApiKey, 'key_hash'>[]> {
+export async function listApiKeys(owner: Owner): Promise<Omit<ApiKey, 'key_hash'>[]> {
 	const { data, error } = await supabaseAdmin
 		.from('api_keys')
-		.select('id, user_id, name, key_prefix, scopes, rate_limit, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
-		.eq('user_id', userId)
+		.select(KEY_COLUMNS)
+		.or(ownerFilter(owner))
 		.eq('is_active', true)
 		.order('created_at', { ascending: false });
 
@@ -121,12 +230,12 @@ export async function listApiKeys(userId: string): Promise<Omit<ApiKey, 'key_has
 /**
  * Get API key by ID
  */
-export async function getApiKey(userId: string, keyId: string): Promise<Omit<ApiKey, 'key_hash'> | null> {
+export async function getApiKey(owner: Owner, keyId: string): Promise<Omit<ApiKey, 'key_hash'> | null> {
 	const { data, error } = await supabaseAdmin
 		.from('api_keys')
-		.select('id, user_id, name, key_prefix, scopes, rate_limit, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+		.select(KEY_COLUMNS)
 		.eq('id', keyId)
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.single();
 
 	if (error) {
@@ -141,10 +250,35 @@ export async function getApiKey(userId: string, keyId: string): Promise<Omit<Api
  * Update API key
  */
 export async function updateApiKey(
-	userId: string,
+	owner: Owner,
 	keyId: string,
-	updates: Partial<Pick<ApiKey, 'name' | 'scopes' | 'rate_limit' | 'expires_at' | 'is_active'>>
+	updates: Partial<
+		Pick<
+			ApiKey,
+			| 'name'
+			| 'scopes'
+			| 'rate_limit'
+			| 'rate_limit_per_minute'
+			| 'rate_limit_per_day'
+			| 'token_limit_per_minute'
+			| 'expires_at'
+			| 'is_active'
+			| 'fallback_models'
+			| 'daily_budget_usd'
+			| 'monthly_budget_usd'
+			| 'budget_soft_limit_percent'
+			| 'allowed_ips'
+			| 'allowed_origins'
+			| 'allowed_models'
+		>
+	>
 ): Promise<Omit<ApiKey, 'key_hash'>> {
+	for (const field of ['allowed_ips', 'allowed_origins', 'allowed_models'] as const) {
+		if (updates[field] !== undefined) {
+			updates = { ...updates, [field]: normalizeRestrictionList(updates[field]) };
+		}
+	}
+
 	const { data, error } = await supabaseAdmin
 		.from('api_keys')
 		.update({
@@ -152,159 +286,494 @@ export async function updateApiKey(
 			updated_at: new Date().toISOString()
 		})
 		.eq('id', keyId)
-		.eq('user_id', userId)
-		.select('id, user_id, name, key_prefix, scopes, rate_limit, usage_count, last_used_at, expires_at, is_active, created_at, updated_at')
+		.or(ownerFilter(owner))
+		.select(KEY_COLUMNS)
 		.single();
 
 	if (error) {
 		throw new Error(`Failed to update API key: ${error.message}`);
 	}
 
+	forgetApiKey(keyId);
+
 	return data;
 }
 
+/**
+ * Grace period for rotated keys, from `API_KEY_ROTATION_GRACE_SECONDS`
+ */
+export function defaultRotationGracePeriod(): number {
+	const parsed = parseInt(env.API_KEY_ROTATION_GRACE_SECONDS || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 && parsed <= MAX_ROTATION_GRACE_SECONDS
+		? parsed
+		: DEFAULT_ROTATION_GRACE_SECONDS;
+}
+
+/**
+ * Rotate an API key: issue a successor with the same name, scopes, limits,
+ * budgets and restrictions, and keep the old key working for
+ * `gracePeriodSeconds` (or until it would have expired anyway, if sooner).
+ * Throws 409 if the key was rotated in the meantime.
+ */
+export async function rotateApiKey(
+	owner: Owner,
+	apiKey: Omit<ApiKey, 'key_hash'>,
+	gracePeriodSeconds: number = defaultRotationGracePeriod()
+): Promise<{ apiKey: ApiKey & { key: string }; previous: Omit<ApiKey, 'key_hash'> }> {
+	const { apiKey: successor } = await createApiKey(
+		owner,
+		{
+			name: apiKey.name,
+			scopes: apiKey.scopes,
+			rate_limit: apiKey.rate_limit,
+			rate_limit_per_minute: apiKey.rate_limit_per_minute,
+			rate_limit_per_day: apiKey.rate_limit_per_day,
+			token_limit_per_minute: apiKey.token_limit_per_minute,
+			expires_at: apiKey.expires_at,
+			fallback_models: apiKey.fallback_models || undefined,
+			daily_budget_usd: apiKey.daily_budget_usd,
+			monthly_budget_usd: apiKey.monthly_budget_usd,
+			budget_soft_limit_percent: apiKey.budget_soft_limit_percent,
+			allowed_ips: apiKey.allowed_ips,
+			allowed_origins: apiKey.allowed_origins,
+			allowed_models: apiKey.allowed_models
+		},
+		apiKey.key_prefix.startsWith('ska_test_')
+	);
+
+	const now = new Date();
+	const graceEnd = new Date(now.getTime() + gracePeriodSeconds * 1000);
+	const expiresAt =
+		apiKey.expires_at && new Date(apiKey.expires_at) < graceEnd
+			? apiKey.expires_at
+			: graceEnd.toISOString();
+
+	// Only a key not rotated yet, so concurrent rotations can't both succeed
+	const { data, error: dbError } = await supabaseAdmin
+		.from('api_keys')
+		.update({
+			rotated_to: successor.id,
+			rotated_at: now.toISOString(),
+			expires_at: expiresAt,
+			updated_at: now.toISOString()
+		})
+		.eq('id', apiKey.id)
+		.is('rotated_to', null)
+		.or(ownerFilter(owner))
+		.select(KEY_COLUMNS)
+		.single();
+
+	if (dbError) {
+		// Don't leave a second live key behind
+		await deleteApiKey(owner, successor.id).catch(() => {});
+		if (dbError.code === 'PGRST116') {
+			error(409, 'API key has already been rotated');
+		}
+		throw new Error(`Failed to rotate API key: ${dbError.message}`);
+	}
+
+	forgetApiKey(apiKey.id);
+
+	return { apiKey: successor, previous: data };
+}
+
+/**
+ * Send `key.revoked` webhooks for keys that were just deactivated, to their
+ * workspace's endpoints and to endpoints tied to the key itself
+ */
+async function announceRevokedKeys(
+	keys: Pick<ApiKey, 'id' | 'user_id' | 'org_id' | 'name' | 'key_prefix'>[]
+): Promise<void> {
+	for (const key of keys) {
+		await dispatchWebhookEvent(
+			{ user_id: key.user_id, org_id: key.org_id ?? null, api_key_id: key.id },
+			'key.revoked',
+			{ key_id: key.id, name: key.name, key_prefix: key.key_prefix }
+		);
+	}
+}
+
 /**
  * Revoke (deactivate) an API key
  */
-export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
-	const { error } = await supabaseAdmin
+export async function revokeApiKey(owner: Owner, keyId: string): Promise<boolean> {
+	const { data, error } = await supabaseAdmin
 		.from('api_keys')
 		.update({
 			is_active: false,
 			updated_at: new Date().toISOString()
 		})
 		.eq('id', keyId)
-		.eq('user_id', userId);
+		.or(ownerFilter(owner))
+		.select(REVOKED_KEY_COLUMNS);
 
 	if (error) {
 		throw new Error(`Failed to revoke API key: ${error.message}`);
 	}
 
+	forgetApiKey(keyId);
+	await announceRevokedKeys(data || []);
+
 	return true;
 }
 
 /**
  * Delete an API key permanently
  */
-export async function deleteApiKey(userId: string, keyId: string): Promise<boolean> {
+export async function deleteApiKey(owner: Owner, keyId: string): Promise<boolean> {
 	const { error } = await supabaseAdmin
 		.from('api_keys')
 		.delete()
 		.eq('id', keyId)
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	if (error) {
 		throw new Error(`Failed to delete API key: ${error.message}`);
 	}
 
+	forgetApiKey(keyId);
+
 	return true;
 }
 
 /**
- * Authenticate an API key and return user information
+ * List every key a user created, in any workspace and including inactive
+ * ones. For the admin console.
  */
-export async function authenticateApiKey(key: string): Promise<ApiKeyAuthResult> {
-	if (!validateApiKeyFormat(key)) {
-		return { success: false, error: 'Invalid API key format' };
+export async function listApiKeysByCreator(userId: string): Promise<Omit<ApiKey, 'key_hash'>[]> {
+	const { data, error } = await supabaseAdmin
+		.from('api_keys')
+		.select(KEY_COLUMNS)
+		.eq('user_id', userId)
+		.order('created_at', { ascending: false });
+
+	if (error) {
+		throw new Error(`Failed to list API keys: ${error.message}`);
 	}
 
-	// Get all active API keys to check against
-	const { data: apiKeys, error } = await supabaseAdmin
+	return data || [];
+}
+
+/**
+ * Enable or disable one key, or every key a user created, whoever owns them.
+ * For the admin console. Returns the IDs of the keys that changed.
+ */
+export async function setApiKeysActive(
+	filter: { id: string } | { user_id: string },
+	isActive: boolean
+): Promise<string[]> {
+	const [column, value] = 'id' in filter ? ['id', filter.id] : ['user_id', filter.user_id];
+
+	const { data, error } = await supabaseAdmin
 		.from('api_keys')
-		.select('id, user_id, key_hash, scopes, rate_limit, expires_at, is_active')
-		.eq('is_active', true);
+		.update({
+			is_active: isActive,
+			updated_at: new Date().toISOString()
+		})
+		.eq(column, value)
+		.eq('is_active', !isActive)
+		.select(REVOKED_KEY_COLUMNS);
 
 	if (error) {
-		return { success: false, error: 'Database error' };
+		throw new Error(`Failed to update API keys: ${error.message}`);
 	}
 
-	if (!apiKeys) {
-		return { success: false, error: 'No API keys found' };
+	const ids = (data || []).map((row) => row.id);
+	ids.forEach(forgetApiKey);
+	if (!isActive) {
+		await announceRevokedKeys(data || []);
 	}
 
-	// Check each API key hash
-	for (const apiKey of apiKeys) {
-		if (bcrypt.compareSync(key, apiKey.key_hash)) {
-			// Check expiration
-			if (apiKey.expires_at && new Date(apiKey.expires_at) < new Date()) {
-				return { success: false, error: 'API key has expired' };
-			}
+	return ids;
+}
 
-			// Update last used timestamp and usage count
-			await supabaseAdmin
-				.from('api_keys')
-				.update({
-					last_used_at: new Date().toISOString(),
-					usage_count: supabaseAdmin.rpc('increment_usage_count', { key_id: apiKey.id })
-				})
-				.eq('id', apiKey.id);
-
-			return {
-				success: true,
-				user_id: apiKey.user_id,
-				api_key_id: apiKey.id,
-				scopes: apiKey.scopes,
-				rate_limit: apiKey.rate_limit
-			};
-		}
+type ApiKeyAuthRow = Pick<
+	ApiKey,
+	| 'id'
+	| 'user_id'
+	| 'org_id'
+	| 'key_id'
+	| 'key_hash'
+	| 'scopes'
+	| 'rate_limit'
+	| 'rate_limit_per_minute'
+	| 'rate_limit_per_day'
+	| 'token_limit_per_minute'
+	| 'expires_at'
+	| 'is_active'
+	| 'fallback_models'
+	| 'rotated_to'
+	| 'rotated_at'
+	| 'allowed_ips'
+	| 'allowed_origins'
+	| 'allowed_models'
+>;
+
+// Recently verified keys, by the SHA-256 of the key
+const verifiedKeys = new Map<string, { result: ApiKeyAuthResult; expiresAt: number }>();
+
+// Legacy-format keys that matched no legacy key, by the SHA-256 of the key,
+// with when the entry expires
+const rejectedLegacyKeys = new Map<string, number>();
+
+// Legacy key scans run on this instance in the current minute, by client IP
+const legacyScans = new Map<string, { windowStart: number; count: number }>();
+
+function authCacheTtl(): number {
+	const parsed = parseInt(env.API_KEY_CACHE_TTL_MS || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_AUTH_CACHE_TTL_MS;
+}
+
+/**
+ * Drop a key from the verified key cache, so changes to it apply straight away
+ * on this instance. Other instances pick them up once their cache entry expires.
+ */
+export function forgetApiKey(apiKeyId: string): void {
+	for (const [hash, entry] of verifiedKeys) {
+		if (entry.result.api_key_id === apiKeyId) verifiedKeys.delete(hash);
+	}
+}
+
+/**
+ * Empty the verified key cache
+ */
+export function clearApiKeyCache(): void {
+	verifiedKeys.clear();
+	rejectedLegacyKeys.clear();
+	legacyScans.clear();
+}
+
+function cacheVerifiedKey(hash: string, result: ApiKeyAuthResult, expiresAt?: string): void {
+	const ttl = authCacheTtl();
+	if (ttl === 0) return;
+
+	if (verifiedKeys.size >= MAX_AUTH_CACHE_ENTRIES) {
+		// Maps keep insertion order, so this is the oldest entry
+		verifiedKeys.delete(verifiedKeys.keys().next().value!);
 	}
 
-	return { success: false, error: 'Invalid API key' };
+	verifiedKeys.set(hash, {
+		result,
+		expiresAt: Math.min(Date.now() + ttl, expiresAt ? new Date(expiresAt).getTime() : Infinity)
+	});
 }
 
 /**
- * Check rate limit for an API key
+ * Check a key against its stored hash in constant time. Legacy keys that
+ * haven't been upgraded yet are stored as bcrypt hashes.
  */
-export async function checkRateLimit(apiKeyId: string, windowHours: number = 1): Promise<{
-	allowed: boolean;
-	current_usage: number;
-	limit: number;
-	reset_time: Date;
-}> {
-	// Get API key rate limit
-	const { data: apiKey, error: keyError } = await supabaseAdmin
+function verifyKeyHash(key: string, storedHash: string): boolean {
+	if (storedHash.startsWith('$2')) {
+		return bcrypt.compareSync(key, storedHash);
+	}
+
+	const expected = Buffer.from(storedHash, 'hex');
+	const actual = Buffer.from(hashApiKey(key), 'hex');
+	return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function isRejectedLegacyKey(hash: string): boolean {
+	const expiresAt = rejectedLegacyKeys.get(hash);
+	if (expiresAt === undefined) return false;
+	if (expiresAt > Date.now()) return true;
+	rejectedLegacyKeys.delete(hash);
+	return false;
+}
+
+function rejectLegacyKey(hash: string): void {
+	if (rejectedLegacyKeys.size >= MAX_AUTH_CACHE_ENTRIES) {
+		rejectedLegacyKeys.delete(rejectedLegacyKeys.keys().next().value!);
+	}
+	rejectedLegacyKeys.set(hash, Date.now() + LEGACY_MISS_TTL_MS);
+}
+
+/**
+ * Take one of this minute's legacy key scans for a client. Each scan runs
+ * bcrypt against every legacy key, so they are capped per client IP, so one
+ * client sending made-up keys can't lock out everyone else. Returns 0 when the
+ * scan was taken, or the seconds until the client's window resets.
+ */
+function takeLegacyScan(client: string): number {
+	const now = Date.now();
+	let window = legacyScans.get(client);
+	if (!window || now - window.windowStart >= 60 * 1000) {
+		if (!window && legacyScans.size >= MAX_AUTH_CACHE_ENTRIES) {
+			legacyScans.delete(legacyScans.keys().next().value!);
+		}
+		window = { windowStart: now, count: 0 };
+		legacyScans.set(client, window);
+	}
+	if (window.count >= MAX_LEGACY_SCANS_PER_MINUTE) {
+		return Math.max(Math.ceil((window.windowStart + 60 * 1000 - now) / 1000), 1);
+	}
+	window.count++;
+	return 0;
+}
+
+/**
+ * Find a legacy key created before keys carried an ID, by checking it against
+ * each legacy key not yet upgraded. On a match the key is upgraded to a key ID
+ * and SHA-256 hash, so it is found with one lookup from then on.
+ */
+async function findLegacyApiKey(key: string, keyId: string): Promise<ApiKeyAuthRow | null> {
+	const { data: legacyKeys, error } = await supabaseAdmin
 		.from('api_keys')
-		.select('rate_limit')
-		.eq('id', apiKeyId)
-		.single();
+		.select(AUTH_COLUMNS)
+		.is('key_id', null)
+		.eq('is_active', true);
 
-	if (keyError) {
-		throw new Error('Failed to get API key rate limit');
+	if (error) {
+		throw new Error(`Failed to get legacy API keys: ${error.message}`);
 	}
 
-	const limit = apiKey.rate_limit;
-	const windowStart = new Date();
-	windowStart.setHours(windowStart.getHours() - windowHours);
+	const apiKey = (legacyKeys || []).find((row) => bcrypt.compareSync(key, row.key_hash));
+	if (!apiKey) return null;
 
-	// Count API usage in the current window
-	const { count, error: countError } = await supabaseAdmin
-		.from('api_usage')
-		.select('*', { count: 'exact', head: true })
-		.eq('api_key_id', apiKeyId)
-		.gte('created_at', windowStart.toISOString());
+	const keyHash = hashApiKey(key);
+	const { error: upgradeError } = await supabaseAdmin
+		.from('api_keys')
+		.update({ key_id: keyId, key_hash: keyHash })
+		.eq('id', apiKey.id);
 
-	if (countError) {
-		throw new Error('Failed to check rate limit');
+	if (upgradeError) {
+		// The key still works; the upgrade is retried on its next use
+		console.error('Failed to upgrade legacy API key:', upgradeError);
+		return apiKey;
 	}
 
-	const currentUsage = count || 0;
-	const resetTime = new Date();
-	resetTime.setHours(resetTime.getHours() + 1);
+	return { ...apiKey, key_id: keyId, key_hash: keyHash };
+}
 
-	return {
-		allowed: currentUsage < limit,
-		current_usage: currentUsage,
-		limit,
-		reset_time: resetTime
+/**
+ * Authenticate an API key and return user information.
+ *
+ * The key ID embedded in the key finds its row with one indexed query, then the
+ * secret is checked against the stored hash. Verified keys are cached in
+ * process for `API_KEY_CACHE_TTL_MS` (default 60 seconds). Legacy keys without
+ * an ID fall back to a bcrypt scan, capped per minute for each client IP; keys
+ * that match nothing are remembered for 10 minutes so they don't scan again.
+ */
+export async function authenticateApiKey(
+	key: string,
+	clientIp?: string | null
+): Promise<ApiKeyAuthResult> {
+	const parsed = parseApiKey(key);
+	if (!parsed) {
+		return { success: false, error: 'Invalid API key format' };
+	}
+
+	const hash = hashApiKey(key);
+	const cached = verifiedKeys.get(hash);
+	if (cached) {
+		if (cached.expiresAt > Date.now()) return cached.result;
+		verifiedKeys.delete(hash);
+	}
+
+	let apiKey: ApiKeyAuthRow | null;
+	try {
+		const { data, error } = await supabaseAdmin
+			.from('api_keys')
+			.select(AUTH_COLUMNS)
+			.eq('key_id', parsed.key_id)
+			.eq('is_active', true)
+			.single();
+
+		if (error && error.code !== 'PGRST116') {
+			return { success: false, error: 'Database error' };
+		}
+
+		apiKey = data;
+		if (!apiKey && parsed.legacy) {
+			// Keys that missed recently aren't scanned again until their entry expires
+			if (isRejectedLegacyKey(hash)) {
+				return { success: false, error: 'Invalid API key' };
+			}
+			const retryAfter = takeLegacyScan(clientIp || 'unknown');
+			if (retryAfter > 0) {
+				return {
+					success: false,
+					error: `Too many legacy API key attempts from this address; try again in ${retryAfter} seconds`,
+					retry_after: retryAfter
+				};
+			}
+			apiKey = await findLegacyApiKey(key, parsed.key_id);
+			if (!apiKey) rejectLegacyKey(hash);
+		}
+	} catch (err) {
+		console.error('API key lookup failed:', err);
+		return { success: false, error: 'Database error' };
+	}
+
+	if (!apiKey || !verifyKeyHash(key, apiKey.key_hash)) {
+		return { success: false, error: 'Invalid API key' };
+	}
+
+	// Check expiration
+	if (apiKey.expires_at && new Date(apiKey.expires_at) < new Date()) {
+		return { success: false, error: 'API key has expired' };
+	}
+
+	// Org keys act with their creator's role, and stop working if they leave
+	let orgRole: OrgRole | null = null;
+	if (apiKey.org_id) {
+		try {
+			orgRole = await getMemberRole(apiKey.org_id, apiKey.user_id);
+		} catch (err) {
+			console.error('Organization membership lookup failed:', err);
+			return { success: false, error: 'Database error' };
+		}
+
+		if (!orgRole) {
+			return { success: false, error: 'API key creator is no longer a member of its organization' };
+		}
+	}
+
+	// Update last used timestamp and usage count
+	await supabaseAdmin
+		.from('api_keys')
+		.update({
+			last_used_at: new Date().toISOString(),
+			usage_count: supabaseAdmin.rpc('increment_usage_count', { key_id: apiKey.id })
+		})
+		.eq('id', apiKey.id);
+
+	const result: ApiKeyAuthResult = {
+		success: true,
+		user_id: apiKey.user_id,
+		org_id: apiKey.org_id || null,
+		org_role: orgRole,
+		api_key_id: apiKey.id,
+		scopes: apiKey.scopes,
+		rate_limit: apiKey.rate_limit,
+		rate_limits: resolveRateLimits(apiKey),
+		fallback_models: apiKey.fallback_models || [],
+		rotation:
+			apiKey.rotated_to && apiKey.expires_at
+				? {
+						successor_id: apiKey.rotated_to,
+						rotated_at: apiKey.rotated_at || apiKey.expires_at,
+						expires_at: apiKey.expires_at
+					}
+				: null,
+		restrictions: {
+			allowed_ips: apiKey.allowed_ips || null,
+			allowed_origins: apiKey.allowed_origins || null,
+			allowed_models: apiKey.allowed_models || null
+		}
 	};
+
+	cacheVerifiedKey(hash, result, apiKey.expires_at);
+
+	return result;
 }
 
 /**
- * Record API usage for analytics and rate limiting
+ * Record API usage for analytics
  */
 export async function recordApiUsage(data: {
 	api_key_id: string;
 	user_id: string;
+	org_id?: string | null; // Organization billed for the request
 	endpoint: string;
 	method: string;
 	model?: string;
@@ -312,6 +781,7 @@ export async function recordApiUsage(data: {
 	response_time?: number;
 	status_code: number;
 	error_message?: string;
+	error_code?: string; // Machine-readable reason for a rejected request
 }): Promise<void> {
 	const { error } = await supabaseAdmin
 		.from('api_usage')
@@ -327,9 +797,9 @@ export async function recordApiUsage(data: {
 }
 
 /**
- * Get API usage statistics for a user
+ * Get API usage statistics for a user's or organization's keys
  */
-export async function getApiUsageStats(userId: string, days: number = 30): Promise<{
+export async function getApiUsageStats(owner: Owner, days: number = 30): Promise<{
 	total_requests: number;
 	total_tokens: number;
 	requests_by_key: Record<string, number>;
@@ -339,11 +809,11 @@ export async function getApiUsageStats(userId: string, days: number = 30): Promi
 	const startDate = new Date();
 	startDate.setDate(startDate.getDate() - days);
 
-	// Get API keys for this user
+	// Get API keys for this owner
 	const { data: apiKeys } = await supabaseAdmin
 		.from('api_keys')
 		.select('id, name')
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	const apiKeyIds = apiKeys?.map(k => k.id) || [];
 
@@ -1,16 +1,78 @@
 import type { RequestEvent } from '@sveltejs/kit';
 import { json, error } from '@sveltejs/kit';
-import { authenticateApiKey, checkRateLimit, recordApiUsage } from './api-keys.js';
+import { authenticateApiKey, recordApiUsage, type ApiKeyRotation } from './api-keys.js';
+import {
+	consumeRateLimit,
+	rateLimitHeaders,
+	type RateLimitResult,
+	type RateLimits
+} from './rate-limiter.js';
+import { missingScopes } from './scopes.js';
+import { limitScopesForRole, type OrgRole, type ResourceOwner } from './organizations.js';
+import { isUserSuspended } from './suspensions.js';
+import {
+	checkModelRestrictions,
+	checkRequestRestrictions,
+	RESTRICTION_ERROR_CODES,
+	type KeyRestrictions,
+	type RestrictionRejection
+} from './key-restrictions.js';
+import {
+	beginIdempotentRequest,
+	completeIdempotentRequest,
+	releaseIdempotentRequest,
+	type IdempotencyClaim
+} from './idempotency.js';
+import { validateRequest, type RequestInput } from './validation.js';
+import type { HttpMethod, RouteDefinition } from './openapi.js';
 
 export interface ApiAuthResult {
 	user_id: string;
+	org_id: string | null; // Set for organization keys, which act on and bill to the org
+	org_role: OrgRole | null; // The key creator's role in the org
 	api_key_id: string;
-	scopes: string[];
+	scopes: string[]; // Narrowed to what the creator's org role allows
 	rate_limit: number;
+	rate_limits: RateLimits; // Per-window request and token limits
+	fallback_models: string[]; // The key's default model fallback chain
+	rotation: ApiKeyRotation | null; // Set while a rotated key is in its grace period
+	restrictions: KeyRestrictions; // IP, origin and model restrictions
+}
+
+function clientAddress(event: RequestEvent): string | null {
+	try {
+		return event.getClientAddress();
+	} catch {
+		return null;
+	}
 }
 
 /**
- * API Authentication middleware
+ * Record a request a key's restrictions turned away, then reject it with 403
+ */
+async function rejectRestrictedRequest(
+	event: RequestEvent,
+	auth: { user_id: string; org_id: string | null; api_key_id: string },
+	rejection: RestrictionRejection
+): Promise<never> {
+	await recordApiUsage({
+		api_key_id: auth.api_key_id,
+		user_id: auth.user_id,
+		org_id: auth.org_id,
+		endpoint: event.url.pathname,
+		method: event.request.method,
+		status_code: 403,
+		error_message: rejection.message,
+		error_code: rejection.code
+	});
+
+	error(403, { message: rejection.message, code: rejection.code });
+}
+
+/**
+ * API Authentication middleware. Also enforces the key's IP and origin
+ * restrictions; model restrictions are checked with `requireAllowedModels` once
+ * the request's models are known.
  */
 export async function authenticateApiRequest(event: RequestEvent): Promise<ApiAuthResult> {
 	const authHeader = event.request.headers.get('authorization');
@@ -27,55 +89,166 @@ export async function authenticateApiRequest(event: RequestEvent): Promise<ApiAu
 	}
 
 	// Authenticate the API key
-	const authResult = await authenticateApiKey(token);
-	
+	const authResult = await authenticateApiKey(token, clientAddress(event));
+
+	// The key may still be valid, so the client is told to retry rather than that it's wrong
+	if (!authResult.success && authResult.retry_after) {
+		event.setHeaders({ 'Retry-After': String(authResult.retry_after) });
+		error(429, { message: authResult.error!, code: 'AUTH_RATE_LIMITED' });
+	}
+
 	if (!authResult.success) {
 		error(401, authResult.error || 'Invalid API key');
 	}
 
+	if (await isUserSuspended(authResult.user_id!)) {
+		error(403, {
+			message: 'The account this API key belongs to is suspended',
+			code: 'ACCOUNT_SUSPENDED'
+		});
+	}
+
+	const restrictions = authResult.restrictions || {
+		allowed_ips: null,
+		allowed_origins: null,
+		allowed_models: null
+	};
+	const rejection = checkRequestRestrictions(restrictions, {
+		ip: clientAddress(event),
+		origin: event.request.headers.get('origin'),
+		referer: event.request.headers.get('referer')
+	});
+	if (rejection) {
+		await rejectRestrictedRequest(
+			event,
+			{
+				user_id: authResult.user_id!,
+				org_id: authResult.org_id || null,
+				api_key_id: authResult.api_key_id!
+			},
+			rejection
+		);
+	}
+
+	const orgRole = authResult.org_role || null;
+
 	return {
 		user_id: authResult.user_id!,
+		org_id: authResult.org_id || null,
+		org_role: orgRole,
 		api_key_id: authResult.api_key_id!,
-		scopes: authResult.scopes!,
-		rate_limit: authResult.rate_limit!
+		scopes: limitScopesForRole(authResult.scopes!, orgRole),
+		rate_limit: authResult.rate_limit!,
+		rate_limits: authResult.rate_limits!,
+		fallback_models: authResult.fallback_models || [],
+		rotation: authResult.rotation || null,
+		restrictions
 	};
 }
 
 /**
- * Check if user has required scope
+ * Who owns the resources an API request works on: the key's organization, or
+ * the key creator's personal workspace
  */
-export function requireScope(scopes: string[], requiredScope: string): void {
-	if (!scopes.includes(requiredScope) && !scopes.includes('*')) {
-		error(403, `Insufficient permissions. Required scope: ${requiredScope}`);
+export function apiOwner(auth: ApiAuthResult): ResourceOwner {
+	return { user_id: auth.user_id, org_id: auth.org_id };
+}
+
+/**
+ * Check the models a request would use, including its fallback chain, against
+ * the key's model restrictions
+ */
+export async function requireAllowedModels(
+	event: RequestEvent,
+	auth: ApiAuthResult,
+	models: (string | undefined)[]
+): Promise<void> {
+	const rejection = checkModelRestrictions(
+		auth.restrictions,
+		models.filter((model): model is string => !!model)
+	);
+	if (rejection) {
+		await rejectRestrictedRequest(event, auth, rejection);
 	}
 }
 
 /**
- * Rate limiting middleware
+ * Check the key holds every required scope, allowing wildcards and legacy scopes
  */
-export async function checkApiRateLimit(apiKeyId: string, rateLimit: number): Promise<void> {
-	const rateLimitCheck = await checkRateLimit(apiKeyId);
-	
-	if (!rateLimitCheck.allowed) {
-		error(429, 'Rate limit exceeded');
+export function requireScope(scopes: string[], requiredScope: string | string[]): void {
+	const missing = missingScopes(scopes, requiredScope);
+	if (missing.length > 0) {
+		error(403, `Insufficient permissions. Required scope: ${missing.join(', ')}`);
+	}
+}
+
+/**
+ * Headers telling clients of a rotated key to switch to its successor before
+ * the grace period ends
+ */
+export function deprecationHeaders(auth: ApiAuthResult): Record<string, string> {
+	if (!auth.rotation) return {};
+
+	return {
+		Deprecation: `@${Math.floor(new Date(auth.rotation.rotated_at).getTime() / 1000)}`,
+		Sunset: new Date(auth.rotation.expires_at).toUTCString(),
+		Link: `</api/v1/auth/keys/${auth.rotation.successor_id}>; rel="successor-version"`
+	};
+}
+
+/**
+ * Rate limiting middleware. Counts the request against the key's limits; check
+ * `allowed` and reply with `rateLimitResponse` when it is false.
+ */
+export async function checkApiRateLimit(auth: ApiAuthResult): Promise<RateLimitResult> {
+	try {
+		return await consumeRateLimit(auth.api_key_id, auth.rate_limits);
+	} catch (err) {
+		// Don't take the API down with the rate limit store
+		console.error('Rate limit check failed:', err);
+		return { allowed: true, requests: null, tokens: null };
 	}
 }
 
 /**
- * Comprehensive API request handler
+ * 429 response for a request the rate limiter rejected
  */
-export function createApiHandler<T = any>(
-	handler: (event: RequestEvent, auth: ApiAuthResult) => Promise<T>,
+export function rateLimitResponse(result: RateLimitResult): Response {
+	const window =
+		result.requests && result.requests.retry_after_ms > 0 ? result.requests : result.tokens;
+	const message =
+		window?.window === 'tokens_per_minute'
+			? 'Rate limit exceeded: tokens per minute'
+			: `Rate limit exceeded: requests per ${window?.window || 'hour'}`;
+
+	return json({ message }, { status: 429, headers: rateLimitHeaders(result) });
+}
+
+/**
+ * Comprehensive API request handler. Mutating requests with an Idempotency-Key
+ * header are carried out once; retries get the stored response. With `input`,
+ * the request is validated against the route's definition and the handler
+ * receives it typed. A handler can return a `Response`, such as a stream, to
+ * send it instead of JSON; it isn't stored for idempotent replay.
+ */
+export function createApiHandler<
+	T = any,
+	R extends RouteDefinition = never,
+	M extends HttpMethod & keyof R['operations'] = never
+>(
+	handler: (event: RequestEvent, auth: ApiAuthResult, input: RequestInput<R, M>) => Promise<T>,
 	options: {
-		required_scope?: string;
+		required_scope?: string | string[]; // Every listed scope is required
 		rate_limit_check?: boolean;
 		track_usage?: boolean;
 		method?: string;
+		input?: { route: R; method: M }; // The operation, from the route's schema.ts
 	} = {}
 ) {
 	return async (event: RequestEvent) => {
 		const startTime = Date.now();
 		let auth: ApiAuthResult | null = null;
+		let idempotency: IdempotencyClaim | null = null;
 		let statusCode = 200;
 		let errorMessage: string | undefined;
 
@@ -89,18 +262,52 @@ export function createApiHandler<T = any>(
 			}
 
 			// Check rate limit
+			let rateLimit: RateLimitResult | null = null;
 			if (options.rate_limit_check !== false) {
-				await checkApiRateLimit(auth.api_key_id, auth.rate_limit);
+				rateLimit = await checkApiRateLimit(auth);
+
+				if (!rateLimit.allowed) {
+					const response = rateLimitResponse(rateLimit);
+					for (const [name, value] of Object.entries(deprecationHeaders(auth))) {
+						response.headers.set(name, value);
+					}
+					if (options.track_usage !== false) {
+						await recordApiUsage({
+							api_key_id: auth.api_key_id,
+							user_id: auth.user_id,
+							org_id: auth.org_id,
+							endpoint: event.url.pathname,
+							method: options.method || event.request.method,
+							response_time: Date.now() - startTime,
+							status_code: 429,
+							error_message: 'Rate limit exceeded'
+						});
+					}
+					return response;
+				}
 			}
 
+			// Reject invalid requests before they claim an Idempotency-Key
+			const input = options.input
+				? await validateRequest(event, options.input.route, options.input.method)
+				: (undefined as unknown as RequestInput<R, M>);
+
+			// Replay the response to an earlier request with the same Idempotency-Key
+			const claim = await beginIdempotentRequest(event, auth.user_id);
+			if (claim instanceof Response) {
+				return claim;
+			}
+			idempotency = claim;
+
 			// Call the actual handler
-			const result = await handler(event, auth);
+			const result = await handler(event, auth, input);
 
 			// Track successful usage
 			if (options.track_usage !== false && auth) {
 				await recordApiUsage({
 					api_key_id: auth.api_key_id,
 					user_id: auth.user_id,
+					org_id: auth.org_id,
 					endpoint: event.url.pathname,
 					method: options.method || event.request.method,
 					response_time: Date.now() - startTime,
@@ -108,18 +315,46 @@ export function createApiHandler<T = any>(
 				});
 			}
 
-			// Return JSON response
-			return json(result);
+			// Return JSON response with the rate limit and key deprecation headers
+			const headers = {
+				...(rateLimit ? rateLimitHeaders(rateLimit) : {}),
+				...deprecationHeaders(auth)
+			};
+			if (result instanceof Response) {
+				for (const [name, value] of Object.entries(headers)) {
+					result.headers.set(name, value);
+				}
+				if (idempotency) {
+					await releaseIdempotentRequest(idempotency);
+				}
+				return result;
+			}
+
+			const response = json(result, { headers });
+			if (idempotency) {
+				await completeIdempotentRequest(idempotency, response);
+			}
+			return response;
 
 		} catch (err: any) {
 			statusCode = err.status || 500;
 			errorMessage = err.body?.message || err.message || 'Internal server error';
 
-			// Track failed usage
-			if (options.track_usage !== false && auth) {
+			// Failed requests can be retried with the same key
+			if (idempotency) {
+				await releaseIdempotentRequest(idempotency);
+			}
+
+			// Track failed usage. Restriction rejections are recorded when they happen.
+			if (
+				options.track_usage !== false &&
+				auth &&
+				!RESTRICTION_ERROR_CODES.includes(err.body?.code)
+			) {
 				await recordApiUsage({
 					api_key_id: auth.api_key_id,
 					user_id: auth.user_id,
+					org_id: auth.org_id,
 					endpoint: event.url.pathname,
 					method: options.method || event.request.method,
 					response_time: Date.now() - startTime,
@@ -135,65 +370,17 @@ export function createApiHandler<T = any>(
 }
 
 /**
- * Validate request body against schema
- */
-export function validateRequestBody(body: any, requiredFields: string[]): void {
-	if (!body || typeof body !== 'object') {
-		error(400, 'Request body must be a valid JSON object');
-	}
-
-	const missingFields = requiredFields.filter(field => !(field in body));
-	if (missingFields.length > 0) {
-		error(400, `Missing required fields: ${missingFields.join(', ')}`);
-	}
-}
-
-/**
- * Validate query parameters
+ * Resolve pagination parameters, validated against `paginationQuery`, to a
+ * limit and offset
  */
-export function validateQueryParams(url: URL, allowedParams: string[]): void {
-	const invalidParams = Array.from(url.searchParams.keys()).filter(
-		param => !allowedParams.includes(param)
-	);
-
-	if (invalidParams.length > 0) {
-		error(400, `Invalid query parameters: ${invalidParams.join(', ')}`);
-	}
-}
-
-/**
- * Parse pagination parameters
- */
-export function parsePagination(url: URL): { limit: number; offset: number } {
-	const limitParam = url.searchParams.get('limit');
-	const offsetParam = url.searchParams.get('offset');
-	const pageParam = url.searchParams.get('page');
-
-	let limit = 10; // Default limit
-	let offset = 0; // Default offset
-
-	if (limitParam) {
-		const parsedLimit = parseInt(limitParam, 10);
-		if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
-			error(400, 'Limit must be a number between 1 and 100');
-		}
-		limit = parsedLimit;
-	}
-
-	if (offsetParam) {
-		const parsedOffset = parseInt(offsetParam, 10);
-		if (isNaN(parsedOffset) || parsedOffset < 0) {
-			error(400, 'Offset must be a non-negative number');
-		}
-		offset = parsedOffset;
-	} else if (pageParam) {
-		// Support page-based pagination (page=1 means offset=0)
-		const parsedPage = parseInt(pageParam, 10);
-		if (isNaN(parsedPage) || parsedPage < 1) {
-			error(400, 'Page must be a positive number starting from 1');
-		}
-		offset = (parsedPage - 1) * limit;
-	}
+export function parsePagination(
+	query: { limit?: number; offset?: number; page?: number },
+	defaultLimit = 10
+): { limit: number; offset: number } {
+	const limit = query.limit ?? defaultLimit;
+
+	// Support page-based pagination (page=1 means offset=0)
+	const offset = query.offset ?? (query.page ? (query.page - 1) * limit : 0);
 
 	return { limit, offset };
 }
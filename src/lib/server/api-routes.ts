@@ -0,0 +1,110 @@
+import {
+	buildOpenApiDocument,
+	exampleValue,
+	routePath,
+	HTTP_METHODS,
+	type HttpMethod,
+	type JsonSchema,
+	type ObjectSchema,
+	type OpenApiOptions,
+	type OperationAuth,
+	type RouteDefinition
+} from './openapi.js';
+
+/**
+ * A path or query parameter, as the API explorer shows it
+ */
+export interface ApiParameter {
+	name: string;
+	required: boolean;
+	description: string | null;
+	type: string; // JSON Schema type, e.g. "integer"
+	options: string[] | null; // Allowed values of enum parameters
+}
+
+/**
+ * An operation, as the API explorer shows it
+ */
+export interface ApiOperation {
+	id: string; // "<method> <path>"
+	method: HttpMethod;
+	path: string;
+	tag: string;
+	summary: string;
+	description: string | null;
+	auth: OperationAuth;
+	scopes: string[];
+	params: ApiParameter[];
+	query: ApiParameter[];
+	body: { multipart: boolean; fields: ApiParameter[]; example: unknown } | null;
+	stream: boolean;
+}
+
+// Every v1 route's definition, from the schema.ts beside its +server.ts
+const modules = import.meta.glob<{ route: RouteDefinition }>('/src/routes/api/v1/**/schema.ts', {
+	eager: true
+});
+
+/**
+ * Route definitions keyed by API path, e.g. `/api/v1/prompts/{id}`
+ */
+export const API_ROUTES: Record<string, RouteDefinition> = Object.fromEntries(
+	Object.entries(modules).map(([file, module]) => [routePath(file), module.route])
+);
+
+function describeParameters(params: ObjectSchema | undefined): ApiParameter[] {
+	const required = (params?.required as string[] | undefined) ?? [];
+
+	return Object.entries(params?.properties ?? {}).map(([name, value]) => {
+		const schema = value as JsonSchema;
+		return {
+			name,
+			required: required.includes(name),
+			description: (schema.description as string | undefined) ?? null,
+			type: (schema.type as string | undefined) ?? 'string',
+			options: (schema.enum as string[] | undefined) ?? null
+		};
+	});
+}
+
+/**
+ * Every v1 operation, ordered by tag and path
+ */
+export function listApiOperations(): ApiOperation[] {
+	return Object.entries(API_ROUTES)
+		.flatMap(([path, route]) =>
+			HTTP_METHODS.filter((method) => route.operations[method]).map((method) => {
+				const operation = route.operations[method]!;
+				return {
+					id: `${method} ${path}`,
+					method,
+					path,
+					tag: route.tag,
+					summary: operation.summary,
+					description: operation.description ?? null,
+					auth: operation.auth ?? 'key_or_session',
+					scopes: operation.scopes ?? [],
+					params: describeParameters(route.params),
+					query: describeParameters(operation.query),
+					body: operation.body
+						? {
+								multipart: !!operation.multipart,
+								fields: operation.multipart
+									? describeParameters(operation.body as ObjectSchema)
+									: [],
+								example: exampleValue(operation.body)
+							}
+						: null,
+					stream: !!operation.stream
+				};
+			})
+		)
+		.sort((a, b) => a.tag.localeCompare(b.tag) || a.path.localeCompare(b.path));
+}
+
+/**
+ * The OpenAPI document for the v1 API
+ */
+export function getOpenApiDocument(options: OpenApiOptions = {}) {
+	return buildOpenApiDocument(API_ROUTES, options);
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { supabaseAdmin } from './supabase.js';
+import type { AuthSession } from './auth.js';
+import type { ApiAuthResult } from './api-middleware.js';
+import { apiActor, diffRecords, recordAuditEvent, sessionActor } from './audit.js';
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: { from: vi.fn() }
+}));
+
+/**
+ * An unsigned JWT carrying the given claims
+ */
+function accessToken(claims: Record<string, unknown>): string {
+	const payload = btoa(JSON.stringify(claims)).replace(/=+$/, '');
+	return `eyJhbGciOiJIUzI1NiJ9.${payload}.signature`;
+}
+
+const session = {
+	user: { id: 'user-1' },
+	session: { access_token: accessToken({ sub: 'user-1', session_id: 'session-1' }) }
+} as unknown as AuthSession;
+
+const event = { getClientAddress: () => '203.0.113.7' } as unknown as RequestEvent;
+
+describe('Audit Log', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('diffRecords', () => {
+		it('should list only the fields that changed', () => {
+			expect(
+				diffRecords(
+					{ name: 'Old', is_public: false, tags: ['a'] },
+					{ name: 'New', is_public: false, tags: ['a'] }
+				)
+			).toEqual({ name: { before: 'Old', after: 'New' } });
+		});
+
+		it('should treat a missing record as every field being null', () => {
+			expect(diffRecords(null, { name: 'New' })).toEqual({
+				name: { before: null, after: 'New' }
+			});
+			expect(diffRecords({ name: 'Old' }, undefined)).toEqual({
+				name: { before: 'Old', after: null }
+			});
+		});
+
+		it('should leave out secrets and timestamps', () => {
+			expect(
+				diffRecords(
+					{ key_hash: 'a', updated_at: '2024-01-01' },
+					{ key: 'ska_live_x', key_hash: 'b', updated_at: '2024-01-02' }
+				)
+			).toEqual({});
+		});
+
+		it('should cut long text short', () => {
+			const changes = diffRecords({ content: 'x'.repeat(5000) }, null);
+
+			expect(changes.content.before).toBe(`${'x'.repeat(2000)}… (5000 characters)`);
+		});
+	});
+
+	describe('Actors', () => {
+		it('should record the session and workspace of a signed-in user', () => {
+			expect(sessionActor(session)).toEqual({
+				user_id: 'user-1',
+				org_id: null,
+				api_key_id: null,
+				session_id: 'session-1'
+			});
+			expect(sessionActor(session, { user_id: 'user-1', org_id: 'org-1' }).org_id).toBe('org-1');
+		});
+
+		it('should record the key behind an API request', () => {
+			const auth = { user_id: 'user-1', org_id: 'org-1', api_key_id: 'key-1' } as ApiAuthResult;
+
+			expect(apiActor(auth)).toEqual({
+				user_id: 'user-1',
+				org_id: 'org-1',
+				api_key_id: 'key-1',
+				session_id: null
+			});
+		});
+	});
+
+	describe('recordAuditEvent', () => {
+		it('should write the actor, diff and client address', async () => {
+			const insert = vi.fn().mockResolvedValue({ error: null });
+			vi.mocked(supabaseAdmin.from).mockReturnValue({ insert } as never);
+
+			await recordAuditEvent(event, {
+				actor: sessionActor(session),
+				action: 'system_prompt.updated',
+				target_type: 'system_prompt',
+				target_id: 'prompt-1',
+				before: { content: 'Old' },
+				after: { content: 'New' }
+			});
+
+			expect(supabaseAdmin.from).toHaveBeenCalledWith('audit_log');
+			expect(insert).toHaveBeenCalledWith({
+				actor_id: 'user-1',
+				org_id: null,
+				api_key_id: null,
+				session_id: 'session-1',
+				action: 'system_prompt.updated',
+				target_type: 'system_prompt',
+				target_id: 'prompt-1',
+				changes: { content: { before: 'Old', after: 'New' } },
+				metadata: {},
+				ip_address: '203.0.113.7'
+			});
+		});
+
+		it('should throw when the entry cannot be written', async () => {
+			const insert = vi.fn().mockResolvedValue({ error: { message: 'Connection refused' } });
+			vi.mocked(supabaseAdmin.from).mockReturnValue({ insert } as never);
+
+			await expect(
+				recordAuditEvent(event, { actor: null, action: 'user.suspended' })
+			).rejects.toThrow('Failed to write audit log: Connection refused');
+		});
+	});
+});
@@ -0,0 +1,254 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { supabaseAdmin } from './supabase.js';
+import type { AuthSession } from './auth.js';
+import type { ApiAuthResult } from './api-middleware.js';
+import { toOwner, type Owner, type ResourceOwner } from './organizations.js';
+
+/**
+ * Who did something, in which workspace, and how they signed in. An actor is
+ * also a resource owner, so it can be passed wherever an owner is expected.
+ */
+export interface AuditActor extends ResourceOwner {
+	api_key_id: string | null; // Set when the action was made with an API key
+	session_id: string | null; // Set when it was made from a signed-in session
+}
+
+/**
+ * Field-by-field differences between a record before and after a change
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * An entry in the audit trail: who did what to which record. Entries are
+ * append-only and hash-chained: `hash` covers the entry and `prev_hash`, the
+ * hash of the entry before it.
+ */
+export interface AuditEvent {
+	id: string;
+	seq: number;
+	actor_id: string | null;
+	org_id: string | null;
+	api_key_id: string | null;
+	session_id: string | null;
+	action: string; // e.g. "api_key.revoked" or "user.suspended"
+	target_type: string | null;
+	target_id: string | null;
+	changes: AuditChanges;
+	metadata: Record<string, unknown>;
+	ip_address: string | null;
+	prev_hash: string | null;
+	hash: string;
+	created_at: string;
+}
+
+export interface AuditEventInput {
+	actor: AuditActor | null; // Null for actions the system took on its own
+	action: string;
+	target_type?: string;
+	target_id?: string;
+	before?: object | null; // The target before the change, for the diff
+	after?: object | null; // The target after it
+	metadata?: Record<string, unknown>;
+}
+
+export interface AuditChainStatus {
+	valid: boolean;
+	checked: number; // Entries whose hashes were recomputed
+	first_invalid_seq: number | null; // The first entry that was edited or follows a removed one
+}
+
+// Secrets never written to the audit log
+const REDACTED_FIELDS = new Set(['key', 'key_hash', 'secret']);
+
+// Bookkeeping that changes with every write
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+// Longer text, such as a file's extracted content, is cut short in diffs
+const MAX_TEXT_LENGTH = 2000;
+
+function clientAddress(event: RequestEvent): string | null {
+	try {
+		return event.getClientAddress();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The Supabase session ID from an access token's claims
+ */
+function sessionId(accessToken: string): string | null {
+	try {
+		const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+		const claims = JSON.parse(atob(payload));
+		return typeof claims.session_id === 'string' ? claims.session_id : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The actor for a signed-in user, working in `owner`'s workspace (their
+ * personal one by default)
+ */
+export function sessionActor(session: AuthSession, owner?: Owner): AuditActor {
+	return {
+		user_id: session.user.id,
+		org_id: owner ? toOwner(owner).org_id : null,
+		api_key_id: null,
+		session_id: sessionId(session.session.access_token)
+	};
+}
+
+/**
+ * The actor for a request authenticated with an API key
+ */
+export function apiActor(auth: ApiAuthResult): AuditActor {
+	return {
+		user_id: auth.user_id,
+		org_id: auth.org_id,
+		api_key_id: auth.api_key_id,
+		session_id: null
+	};
+}
+
+function shorten(value: unknown): unknown {
+	return typeof value === 'string' && value.length > MAX_TEXT_LENGTH
+		? `${value.slice(0, MAX_TEXT_LENGTH)}… (${value.length} characters)`
+		: value;
+}
+
+/**
+ * The fields that differ between two versions of a record. A missing record
+ * (before a create, after a delete) counts as every field being null.
+ */
+export function diffRecords(before: object | null | undefined, after: object | null | undefined) {
+	const from = (before ?? {}) as Record<string, unknown>;
+	const to = (after ?? {}) as Record<string, unknown>;
+	const changes: AuditChanges = {};
+
+	for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+		if (REDACTED_FIELDS.has(field) || IGNORED_FIELDS.has(field)) continue;
+
+		const previous = from[field] ?? null;
+		const next = to[field] ?? null;
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			changes[field] = { before: shorten(previous), after: shorten(next) };
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Write an entry to the audit trail. Throws if it can't be written, so actions
+ * that must be audited fail rather than go unrecorded.
+ */
+export async function recordAuditEvent(event: RequestEvent, entry: AuditEventInput): Promise<void> {
+	// seq, prev_hash, hash and created_at are set by the database as the entry
+	// joins the chain
+	const { error: dbError } = await supabaseAdmin.from('audit_log').insert({
+		actor_id: entry.actor?.user_id ?? null,
+		org_id: entry.actor?.org_id ?? null,
+		api_key_id: entry.actor?.api_key_id ?? null,
+		session_id: entry.actor?.session_id ?? null,
+		action: entry.action,
+		target_type: entry.target_type ?? null,
+		target_id: entry.target_id ?? null,
+		changes: diffRecords(entry.before, entry.after),
+		metadata: entry.metadata ?? {},
+		ip_address: clientAddress(event)
+	});
+
+	if (dbError) {
+		throw new Error(`Failed to write audit log: ${dbError.message}`);
+	}
+}
+
+/**
+ * List audit entries, newest first. With an `owner`, only the entries from
+ * that workspace: everything in an organization, or what the user did in
+ * their personal workspace.
+ */
+export async function listAuditEvents(
+	filters: {
+		owner?: Owner;
+		actor_id?: string;
+		action?: string; // Exact action, or a prefix ending in "." such as "user."
+		target_type?: string;
+		target_id?: string;
+		since?: string; // ISO timestamps
+		until?: string;
+		limit?: number;
+		offset?: number;
+	} = {}
+): Promise<{ events: AuditEvent[]; total: number }> {
+	const limit = filters.limit ?? 50;
+	const offset = filters.offset ?? 0;
+
+	let query = supabaseAdmin
+		.from('audit_log')
+		.select('*', { count: 'exact' })
+		.order('seq', { ascending: false })
+		.range(offset, offset + limit - 1);
+
+	if (filters.owner) {
+		const { user_id, org_id } = toOwner(filters.owner);
+		query = org_id ? query.eq('org_id', org_id) : query.eq('actor_id', user_id).is('org_id', null);
+	}
+
+	if (filters.actor_id) {
+		query = query.eq('actor_id', filters.actor_id);
+	}
+
+	if (filters.action) {
+		query = filters.action.endsWith('.')
+			? query.like('action', `${filters.action}%`)
+			: query.eq('action', filters.action);
+	}
+
+	if (filters.target_type) {
+		query = query.eq('target_type', filters.target_type);
+	}
+
+	if (filters.target_id) {
+		query = query.eq('target_id', filters.target_id);
+	}
+
+	if (filters.since) {
+		query = query.gte('created_at', filters.since);
+	}
+
+	if (filters.until) {
+		query = query.lt('created_at', filters.until);
+	}
+
+	const { data, count, error: dbError } = await query;
+
+	if (dbError) {
+		throw new Error(`Failed to list audit log: ${dbError.message}`);
+	}
+
+	return { events: data || [], total: count || 0 };
+}
+
+/**
+ * Recompute the hash chain, or its last `maxEntries` entries, to detect
+ * entries that were edited or removed behind the application's back
+ */
+export async function verifyAuditChain(maxEntries?: number): Promise<AuditChainStatus> {
+	const { data, error: dbError } = await supabaseAdmin.rpc('verify_audit_chain', {
+		max_entries: maxEntries ?? null
+	});
+
+	if (dbError) {
+		throw new Error(`Failed to verify audit log: ${dbError.message}`);
+	}
+
+	const result = (data as { checked: number; first_invalid_seq: number | null }[] | null)?.[0];
+	return {
+		valid: !result || result.first_invalid_seq === null,
+		checked: Number(result?.checked ?? 0),
+		first_invalid_seq: result?.first_invalid_seq ?? null
+	};
+}
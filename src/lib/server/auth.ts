@@ -1,5 +1,7 @@
 import { supabase, supabaseAdmin, type Database } from './supabase.js';
-import { redirect, type RequestEvent } from '@sveltejs/kit';
+import { permissionsAllow, resolvePermissions, type PermissionSubject } from './permissions.js';
+import { isUserSuspended } from './suspensions.js';
+import { error, redirect, type RequestEvent } from '@sveltejs/kit';
 import type { User, Session } from '@supabase/supabase-js';
 
 export type AuthSession = {
@@ -32,7 +34,7 @@ export async function getSession(event: RequestEvent): Promise<AuthSession | nul
 		refresh_token: refreshToken
 	});
 
-	if (error || !session) {
+	if (error || !session || (await isUserSuspended(session.user.id))) {
 		// Clear invalid cookies
 		cookies.delete('sb-access-token', { path: '/' });
 		cookies.delete('sb-refresh-token', { path: '/' });
@@ -226,20 +228,27 @@ export async function updatePassword(password: string) {
 }
 
 /**
- * Check if user has specific role or permission
+ * Check if a user has a platform permission through their roles. Bootstrap
+ * admins (`BOOTSTRAP_ADMIN_EMAILS`) have every permission.
  */
-export async function hasPermission(userId: string, permission: string): Promise<boolean> {
-	// This is a placeholder - implement your permission system here
-	// You might have a roles table or permissions in the user metadata
-
-	const profile = await getUserProfile(userId);
-	if (!profile) return false;
+export async function hasPermission(user: PermissionSubject, permission: string): Promise<boolean> {
+	const { permissions } = await resolvePermissions(user);
+	return permissionsAllow(permissions, permission);
+}
 
-	// Example: check if user is admin
-	if (permission === 'admin') {
-		// This could be stored in profile metadata or a separate roles table
-		return false; // Implement your logic here
+/**
+ * Require a platform permission - redirect to login if not authenticated,
+ * 403 if the user lacks it
+ */
+export async function requirePermission(
+	event: RequestEvent,
+	permission: string
+): Promise<AuthSession> {
+	const session = await requireAuth(event);
+
+	if (!(await hasPermission(session.user, permission))) {
+		error(403, `This requires the ${permission} permission`);
 	}
 
-	return false;
+	return session;
 }
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+	budgetHeaders,
+	calculateUsageCost,
+	enforceBudget,
+	evaluateBudgets,
+	getBudgetPeriod,
+	validateBudgetSettings
+} from './budgets.js';
+
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn(),
+		rpc: vi.fn()
+	}
+}));
+
+vi.mock('./model-catalog.js', () => ({
+	getModelCatalog: vi.fn(async () => [
+		{ id: 'openai/gpt-4o', pricing: { prompt: '0.0000025', completion: '0.00001' } },
+		{ id: 'openrouter/auto', pricing: { prompt: '-1', completion: '-1' } }
+	])
+}));
+
+/**
+ * Chainable stand-in for a Supabase query that resolves to `result`
+ */
+function query(result: { data: unknown; error: unknown }) {
+	const builder: any = {
+		select: () => builder,
+		eq: () => builder,
+		is: () => builder,
+		gte: () => builder,
+		not: () => builder,
+		single: async () => result,
+		then: (resolve: (value: unknown) => void) => resolve(result)
+	};
+	return builder;
+}
+
+/**
+ * Stand-in for the `budget_spend` function, summing usage rows like the database
+ */
+function spendFrom(rows: { cost: number; created_at: string }[]) {
+	const since = (start: string) =>
+		rows.filter((row) => row.created_at >= start).reduce((sum, row) => sum + row.cost, 0);
+
+	return (async (_name: string, args: Record<string, string>) => ({
+		data: [{ daily: since(args.day_start), monthly: String(since(args.month_start)) }],
+		error: null
+	})) as never;
+}
+
+const now = new Date('2025-03-15T12:00:00.000Z');
+const settings = { daily_budget_usd: 1, monthly_budget_usd: 10, budget_soft_limit_percent: 80 };
+
+describe('Budgets', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('should use UTC days and months as budget periods', () => {
+		expect(getBudgetPeriod('daily', now)).toEqual({
+			start: new Date('2025-03-15T00:00:00.000Z'),
+			resetsAt: new Date('2025-03-16T00:00:00.000Z')
+		});
+		expect(getBudgetPeriod('monthly', now).resetsAt).toEqual(new Date('2025-04-01T00:00:00.000Z'));
+	});
+
+	it('should flag soft and hard limits per period', () => {
+		const [daily, monthly] = evaluateBudgets('user', settings, { daily: 0.9, monthly: 8.9 }, now);
+
+		expect(daily).toMatchObject({ period: 'daily', spent_usd: 0.9, status: 'warning' });
+		expect(monthly).toMatchObject({
+			period: 'monthly',
+			spent_usd: 8.9,
+			remaining_usd: 1.1,
+			status: 'warning'
+		});
+
+		const [overDaily] = evaluateBudgets('api_key', settings, { daily: 1, monthly: 9 }, now);
+		expect(overDaily.status).toBe('exceeded');
+	});
+
+	it('should skip periods without a limit', () => {
+		const budgets = evaluateBudgets(
+			'user',
+			{ ...settings, daily_budget_usd: null },
+			{ daily: 1, monthly: 1 },
+			now
+		);
+
+		expect(budgets.map((budget) => budget.period)).toEqual(['monthly']);
+		expect(budgets[0].status).toBe('ok');
+	});
+
+	it('should reject requests with a 402 once a hard limit is hit', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		vi.mocked(supabaseAdmin.from).mockImplementation(
+			() =>
+				query({
+					data: { daily_budget_usd: 5, monthly_budget_usd: null },
+					error: null
+				}) as any
+		);
+		vi.mocked(supabaseAdmin.rpc).mockImplementation(
+			spendFrom([{ cost: 5, created_at: new Date().toISOString() }])
+		);
+
+		await expect(enforceBudget('user-1')).rejects.toMatchObject({
+			status: 402,
+			body: { message: expect.stringContaining('Daily account budget of $5.00 exceeded') }
+		});
+	});
+
+	it('should bill organization keys against the organization budget', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		vi.mocked(supabaseAdmin.from).mockImplementation(
+			(table: string) =>
+				(table === 'organizations'
+					? query({ data: { daily_budget_usd: null, monthly_budget_usd: 10 }, error: null })
+					: query({ data: null, error: { code: 'PGRST116', message: 'Not found' } })) as any
+		);
+		vi.mocked(supabaseAdmin.rpc).mockImplementation(
+			spendFrom([{ cost: 12, created_at: new Date().toISOString() }])
+		);
+
+		await expect(enforceBudget('user-1', 'key-1', 'org-1')).rejects.toMatchObject({
+			status: 402,
+			body: { message: expect.stringContaining('Monthly organization budget of $10.00') }
+		});
+		expect(supabaseAdmin.from).not.toHaveBeenCalledWith('profiles');
+		expect(supabaseAdmin.rpc).toHaveBeenCalledWith(
+			'budget_spend',
+			expect.objectContaining({ scope_column: 'org_id', scope_id: 'org-1' })
+		);
+	});
+
+	it('should count every usage row, not just the first page', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		const today = new Date().toISOString();
+		const rows = Array.from({ length: 1500 }, () => ({ cost: 0.001, created_at: today }));
+		vi.mocked(supabaseAdmin.from).mockImplementation(
+			(table: string) =>
+				(table === 'api_usage'
+					? query({ data: rows.slice(0, 1000), error: null })
+					: query({
+							data: { daily_budget_usd: 1.2, monthly_budget_usd: null },
+							error: null
+						})) as never
+		);
+		vi.mocked(supabaseAdmin.rpc).mockImplementation(spendFrom(rows));
+
+		await expect(enforceBudget('user-1')).rejects.toMatchObject({ status: 402 });
+		expect(supabaseAdmin.from).not.toHaveBeenCalledWith('api_usage');
+	});
+
+	it('should not query spend when no budgets are set', async () => {
+		const { supabaseAdmin } = await import('./supabase.js');
+		vi.mocked(supabaseAdmin.from).mockImplementation(
+			() => query({ data: null, error: { code: 'PGRST116', message: 'Not found' } }) as any
+		);
+
+		const status = await enforceBudget('user-1', 'key-1');
+
+		expect(status).toEqual({ budgets: [], exceeded: null, warnings: [] });
+		expect(supabaseAdmin.rpc).not.toHaveBeenCalled();
+		expect(budgetHeaders(status)).toEqual({});
+	});
+
+	it('should describe the tightest budget and any warnings in headers', () => {
+		const budgets = evaluateBudgets('api_key', settings, { daily: 0.85, monthly: 0.85 }, now);
+
+		const headers = budgetHeaders({ budgets, exceeded: null, warnings: [budgets[0]] });
+
+		expect(headers).toMatchObject({
+			'X-Budget-Scope': 'api_key',
+			'X-Budget-Period': 'daily',
+			'X-Budget-Limit': '1.00',
+			'X-Budget-Remaining': '0.150000',
+			'X-Budget-Warning': 'Daily API key budget is 85% used'
+		});
+	});
+
+	it('should price usage from the model catalog', async () => {
+		const usage = { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 };
+
+		expect(await calculateUsageCost('openai/gpt-4o', usage)).toBe(0.0075);
+		expect(await calculateUsageCost('openrouter/auto', { ...usage, estimated_cost: 0.002 })).toBe(
+			0.002
+		);
+		expect(await calculateUsageCost('unknown/model', usage)).toBe(0.09);
+		expect(await calculateUsageCost('mock/echo', { ...usage, estimated_cost: 0 })).toBe(0);
+		expect(await calculateUsageCost('openai/gpt-4o', undefined)).toBe(0);
+	});
+
+	it('should validate budget settings', () => {
+		expect(validateBudgetSettings({ daily_budget_usd: 5, monthly_budget_usd: null })).toBeNull();
+		expect(validateBudgetSettings({ daily_budget_usd: -1 })).toContain('daily_budget_usd');
+		expect(validateBudgetSettings({ monthly_budget_usd: NaN })).toContain('monthly_budget_usd');
+		expect(validateBudgetSettings({ budget_soft_limit_percent: 0 })).toContain('between 1 and 100');
+	});
+});
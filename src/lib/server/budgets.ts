@@ -0,0 +1,413 @@
+import { error } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { supabaseAdmin } from './supabase.js';
+import { trackApiUsage } from './analytics.js';
+import { getModelCatalog } from './model-catalog.js';
+import { calculateEstimatedCost, type CompletionUsage } from './llm.js';
+
+const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+// USD per 1K tokens charged for models without a known price, so they still
+// count against budgets
+const DEFAULT_UNKNOWN_PRICE_PER_1K = 0.06;
+
+export type BudgetScope = 'user' | 'organization' | 'api_key';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * Spending limits stored on a profile, an organization or an API key. Budgets
+ * are hard limits in USD; `null` means no limit.
+ */
+export interface BudgetSettings {
+	daily_budget_usd: number | null;
+	monthly_budget_usd: number | null;
+	budget_soft_limit_percent: number; // Share of a budget spent before warnings start
+}
+
+/**
+ * Spend against one budget in its current period
+ */
+export interface BudgetUsage {
+	scope: BudgetScope;
+	period: BudgetPeriod;
+	limit_usd: number;
+	soft_limit_usd: number;
+	spent_usd: number;
+	remaining_usd: number;
+	resets_at: string;
+	status: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface BudgetStatus {
+	budgets: BudgetUsage[];
+	exceeded: BudgetUsage | null; // First budget over its hard limit
+	warnings: BudgetUsage[]; // Budgets past their soft limit
+}
+
+/**
+ * Spend in USD since the start of the current UTC day and month
+ */
+export interface PeriodSpend {
+	daily: number;
+	monthly: number;
+}
+
+/**
+ * Start of the current UTC day or month, and when it ends
+ */
+export function getBudgetPeriod(
+	period: BudgetPeriod,
+	now: Date = new Date()
+): { start: Date; resetsAt: Date } {
+	const year = now.getUTCFullYear();
+	const month = now.getUTCMonth();
+
+	if (period === 'daily') {
+		const day = now.getUTCDate();
+		return {
+			start: new Date(Date.UTC(year, month, day)),
+			resetsAt: new Date(Date.UTC(year, month, day + 1))
+		};
+	}
+
+	return {
+		start: new Date(Date.UTC(year, month, 1)),
+		resetsAt: new Date(Date.UTC(year, month + 1, 1))
+	};
+}
+
+function toNumber(value: unknown): number | null {
+	if (value === null || value === undefined || value === '') return null;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toSettings(row: Record<string, unknown> | null): BudgetSettings {
+	return {
+		daily_budget_usd: toNumber(row?.daily_budget_usd),
+		monthly_budget_usd: toNumber(row?.monthly_budget_usd),
+		budget_soft_limit_percent:
+			toNumber(row?.budget_soft_limit_percent) ?? DEFAULT_SOFT_LIMIT_PERCENT
+	};
+}
+
+function roundUsd(amount: number): number {
+	return Math.round(amount * 1e6) / 1e6;
+}
+
+function unknownPricePer1k(): number {
+	const parsed = parseFloat(env.LLM_UNKNOWN_PRICE_PER_1K || '');
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_UNKNOWN_PRICE_PER_1K;
+}
+
+/**
+ * Work out the spend against each of a scope's budgets
+ */
+export function evaluateBudgets(
+	scope: BudgetScope,
+	settings: BudgetSettings,
+	spend: PeriodSpend,
+	now: Date = new Date()
+): BudgetUsage[] {
+	const limits: [BudgetPeriod, number | null][] = [
+		['daily', settings.daily_budget_usd],
+		['monthly', settings.monthly_budget_usd]
+	];
+
+	return limits
+		.filter((entry): entry is [BudgetPeriod, number] => entry[1] !== null)
+		.map(([period, limit]) => {
+			const { resetsAt } = getBudgetPeriod(period, now);
+			const spent = roundUsd(spend[period]);
+			const softLimit = roundUsd((limit * settings.budget_soft_limit_percent) / 100);
+
+			return {
+				scope,
+				period,
+				limit_usd: limit,
+				soft_limit_usd: softLimit,
+				spent_usd: spent,
+				remaining_usd: roundUsd(Math.max(limit - spent, 0)),
+				resets_at: resetsAt.toISOString(),
+				status: spent >= limit ? 'exceeded' : spent >= softLimit ? 'warning' : 'ok'
+			};
+		});
+}
+
+/**
+ * Get the budget settings on a user's profile
+ */
+export async function getUserBudgetSettings(userId: string): Promise<BudgetSettings> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('profiles')
+		.select('daily_budget_usd, monthly_budget_usd, budget_soft_limit_percent')
+		.eq('id', userId)
+		.single();
+
+	if (dbError && dbError.code !== 'PGRST116') {
+		throw new Error(`Failed to get budget settings: ${dbError.message}`);
+	}
+
+	return toSettings(data);
+}
+
+/**
+ * Update the budget settings on a user's profile
+ */
+export async function updateUserBudgetSettings(
+	userId: string,
+	settings: Partial<BudgetSettings>
+): Promise<BudgetSettings> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('profiles')
+		.update({ ...settings, updated_at: new Date().toISOString() })
+		.eq('id', userId)
+		.select('daily_budget_usd, monthly_budget_usd, budget_soft_limit_percent')
+		.single();
+
+	if (dbError) {
+		throw new Error(`Failed to update budget settings: ${dbError.message}`);
+	}
+
+	return toSettings(data);
+}
+
+async function getApiKeyBudgetSettings(apiKeyId: string): Promise<BudgetSettings> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('api_keys')
+		.select('daily_budget_usd, monthly_budget_usd, budget_soft_limit_percent')
+		.eq('id', apiKeyId)
+		.single();
+
+	if (dbError && dbError.code !== 'PGRST116') {
+		throw new Error(`Failed to get API key budget: ${dbError.message}`);
+	}
+
+	return toSettings(data);
+}
+
+async function getOrgBudgetSettings(orgId: string): Promise<BudgetSettings> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organizations')
+		.select('daily_budget_usd, monthly_budget_usd, budget_soft_limit_percent')
+		.eq('id', orgId)
+		.single();
+
+	if (dbError && dbError.code !== 'PGRST116') {
+		throw new Error(`Failed to get organization budget: ${dbError.message}`);
+	}
+
+	return toSettings(data);
+}
+
+type SpendColumn = 'user_id' | 'org_id' | 'api_key_id';
+
+/**
+ * Sum the spend for the current day and month in the database; fetching the
+ * usage rows would stop at the API's row limit. Usage billed to an
+ * organization doesn't count against the user's own budget.
+ */
+async function getSpend(column: SpendColumn, id: string, now: Date): Promise<PeriodSpend> {
+	const { data, error: dbError } = await supabaseAdmin.rpc('budget_spend', {
+		scope_column: column,
+		scope_id: id,
+		day_start: getBudgetPeriod('daily', now).start.toISOString(),
+		month_start: getBudgetPeriod('monthly', now).start.toISOString()
+	});
+
+	if (dbError) {
+		throw new Error(`Failed to get spend: ${dbError.message}`);
+	}
+
+	const [row] = (data || []) as Record<string, unknown>[];
+	return { daily: toNumber(row?.daily) ?? 0, monthly: toNumber(row?.monthly) ?? 0 };
+}
+
+/**
+ * Get the spend against the user's budgets and, for API requests, the key's.
+ * Requests made with an organization's key are billed to the organization, so
+ * its budgets apply instead of the user's. `pendingUsd` is spend not recorded
+ * yet, such as a request's earlier model calls.
+ */
+export async function getBudgetStatus(
+	userId: string,
+	apiKeyId?: string,
+	orgId?: string | null,
+	pendingUsd: number = 0
+): Promise<BudgetStatus> {
+	const scopes: [BudgetScope, SpendColumn, string, Promise<BudgetSettings>][] = [
+		orgId
+			? ['organization', 'org_id', orgId, getOrgBudgetSettings(orgId)]
+			: ['user', 'user_id', userId, getUserBudgetSettings(userId)]
+	];
+	if (apiKeyId) {
+		scopes.push(['api_key', 'api_key_id', apiKeyId, getApiKeyBudgetSettings(apiKeyId)]);
+	}
+
+	const now = new Date();
+	const budgets = (
+		await Promise.all(
+			scopes.map(async ([scope, column, id, settingsPromise]) => {
+				const settings = await settingsPromise;
+				if (settings.daily_budget_usd === null && settings.monthly_budget_usd === null) {
+					return [];
+				}
+				const spend = await getSpend(column, id, now);
+				return evaluateBudgets(
+					scope,
+					settings,
+					{ daily: spend.daily + pendingUsd, monthly: spend.monthly + pendingUsd },
+					now
+				);
+			})
+		)
+	).flat();
+
+	return {
+		budgets,
+		exceeded: budgets.find((budget) => budget.status === 'exceeded') || null,
+		warnings: budgets.filter((budget) => budget.status === 'warning')
+	};
+}
+
+function describeBudget(budget: BudgetUsage): string {
+	const period = budget.period === 'daily' ? 'Daily' : 'Monthly';
+	const owner = { user: 'account', organization: 'organization', api_key: 'API key' }[budget.scope];
+	return `${period} ${owner} budget`;
+}
+
+/**
+ * Reject the request with a 402 when a hard limit has been reached
+ */
+export async function enforceBudget(
+	userId: string,
+	apiKeyId?: string,
+	orgId?: string | null,
+	pendingUsd: number = 0
+): Promise<BudgetStatus> {
+	const status = await getBudgetStatus(userId, apiKeyId, orgId, pendingUsd);
+
+	if (status.exceeded) {
+		const budget = status.exceeded;
+		error(
+			402,
+			`${describeBudget(budget)} of $${budget.limit_usd.toFixed(2)} exceeded ($${budget.spent_usd.toFixed(2)} spent). It resets at ${budget.resets_at}.`
+		);
+	}
+
+	return status;
+}
+
+/**
+ * Response headers describing the budget closest to its limit, plus a warning
+ * for each budget past its soft limit
+ */
+export function budgetHeaders(status: BudgetStatus): Record<string, string> {
+	if (status.budgets.length === 0) return {};
+
+	const share = (budget: BudgetUsage) =>
+		budget.limit_usd > 0 ? budget.remaining_usd / budget.limit_usd : 0;
+	const tightest = status.budgets.reduce((a, b) => (share(b) < share(a) ? b : a));
+
+	return {
+		'X-Budget-Scope': tightest.scope,
+		'X-Budget-Period': tightest.period,
+		'X-Budget-Limit': tightest.limit_usd.toFixed(2),
+		'X-Budget-Remaining': tightest.remaining_usd.toFixed(6),
+		'X-Budget-Reset': tightest.resets_at,
+		...(status.warnings.length > 0 && {
+			'X-Budget-Warning': status.warnings
+				.map(
+					(budget) =>
+						`${describeBudget(budget)} is ${Math.floor((budget.spent_usd / budget.limit_usd) * 100)}% used`
+				)
+				.join('; ')
+		})
+	};
+}
+
+/**
+ * Work out what a completion cost from its token usage and the model's
+ * catalog pricing, falling back to the provider's own estimate and then to the
+ * `LLM_UNKNOWN_PRICE_PER_1K` rate
+ */
+export async function calculateUsageCost(
+	model: string,
+	usage: CompletionUsage | undefined
+): Promise<number> {
+	if (!usage) return 0;
+
+	try {
+		const pricing = (await getModelCatalog()).find((entry) => entry.id === model)?.pricing;
+		// Variable-priced routers list a negative price
+		if (
+			pricing &&
+			parseFloat(pricing.prompt ?? '') >= 0 &&
+			parseFloat(pricing.completion ?? '') >= 0
+		) {
+			return roundUsd(calculateEstimatedCost(usage, pricing));
+		}
+	} catch (err) {
+		console.warn('Failed to load model pricing:', err);
+	}
+
+	return usage.estimated_cost ?? roundUsd((usage.total_tokens * unknownPricePer1k()) / 1000);
+}
+
+/**
+ * Record the cost of a completion against the user's or organization's (and
+ * key's) budgets
+ */
+export async function recordCompletionCost(entry: {
+	user_id: string;
+	org_id?: string | null;
+	api_key_id?: string;
+	endpoint: string;
+	method?: string;
+	model: string;
+	usage: CompletionUsage | undefined;
+	response_time?: number;
+}): Promise<number> {
+	const cost = await calculateUsageCost(entry.model, entry.usage);
+
+	await trackApiUsage({
+		user_id: entry.user_id,
+		org_id: entry.org_id || undefined,
+		api_key_id: entry.api_key_id,
+		endpoint: entry.endpoint,
+		method: entry.method || 'LLM',
+		model: entry.model,
+		tokens_used: entry.usage?.total_tokens,
+		cost,
+		response_time: entry.response_time,
+		status_code: 200
+	});
+
+	return cost;
+}
+
+/**
+ * Check budget settings from a request body. Returns an error message, or null
+ * when they are valid.
+ */
+export function validateBudgetSettings(settings: Record<string, unknown>): string | null {
+	for (const field of ['daily_budget_usd', 'monthly_budget_usd'] as const) {
+		const value = settings[field];
+		if (
+			value !== undefined &&
+			value !== null &&
+			(typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+		) {
+			return `${field} must be a non-negative number or null`;
+		}
+	}
+
+	const percent = settings.budget_soft_limit_percent;
+	if (
+		percent !== undefined &&
+		(typeof percent !== 'number' || !Number.isInteger(percent) || percent < 1 || percent > 100)
+	) {
+		return 'budget_soft_limit_percent must be an integer between 1 and 100';
+	}
+
+	return null;
+}
@@ -1,5 +1,13 @@
 import { supabaseAdmin } from './supabase.js';
 import type { Database } from './database.types.js';
+import type { ToolCall } from './llm.js';
+import {
+	activePath,
+	latestLeaf,
+	pathTo,
+	withBranches,
+	type BranchedMessage
+} from './message-tree.js';
 
 export type Chat = Database['public']['Tables']['chats']['Row'];
 export type ChatInsert = Database['public']['Tables']['chats']['Insert'];
@@ -114,23 +122,36 @@ export async function deleteChat(chatId: string, userId: string): Promise<void>
 }
 
 /**
- * Add a message to a chat
+ * Add a message to a chat. It follows the chat's active message unless
+ * `parentId` says otherwise, and becomes the new end of the active branch.
  */
 export async function addMessage(
 	chatId: string,
-	role: 'user' | 'assistant' | 'system',
+	role: 'user' | 'assistant' | 'system' | 'tool',
 	content: string,
 	model?: string,
 	tokenCount?: number,
 	systemPromptId?: string,
 	systemPromptVersion?: number,
 	structuredOutputId?: string,
-	structuredOutputVersion?: number
+	structuredOutputVersion?: number,
+	tools?: { toolCalls?: ToolCall[]; toolCallId?: string },
+	parentId?: string | null
 ): Promise<Message> {
+	if (parentId === undefined) {
+		const { data: chat } = await supabaseAdmin
+			.from('chats')
+			.select('active_message_id')
+			.eq('id', chatId)
+			.single();
+		parentId = chat?.active_message_id ?? null;
+	}
+
 	const { data, error } = await supabaseAdmin
 		.from('messages')
 		.insert({
 			chat_id: chatId,
+			parent_id: parentId,
 			role,
 			content,
 			model,
@@ -138,7 +159,9 @@ export async function addMessage(
 			system_prompt_id: systemPromptId,
 			system_prompt_version: systemPromptVersion,
 			structured_output_id: structuredOutputId,
-			structured_output_version: structuredOutputVersion
+			structured_output_version: structuredOutputVersion,
+			tool_calls: tools?.toolCalls?.length ? tools.toolCalls : null,
+			tool_call_id: tools?.toolCallId
 		})
 		.select()
 		.single();
@@ -147,19 +170,26 @@ export async function addMessage(
 		throw new Error(`Failed to add message: ${error.message}`);
 	}
 
+	await setActiveMessage(chatId, data.id);
+
 	return data;
 }
 
 /**
- * Get all messages for a chat
+ * Point a chat at the last message of the branch to show and continue
  */
-export async function getChatMessages(chatId: string, userId: string): Promise<Message[]> {
-	// First verify the user owns this chat
-	const chat = await getChat(chatId, userId);
-	if (!chat) {
-		throw new Error('Chat not found or access denied');
+async function setActiveMessage(chatId: string, messageId: string | null): Promise<void> {
+	const { error } = await supabaseAdmin
+		.from('chats')
+		.update({ active_message_id: messageId })
+		.eq('id', chatId);
+
+	if (error) {
+		throw new Error(`Failed to update active branch: ${error.message}`);
 	}
+}
 
+async function fetchMessages(chatId: string): Promise<Message[]> {
 	const { data, error } = await supabaseAdmin
 		.from('messages')
 		.select('*')
@@ -173,6 +203,98 @@ export async function getChatMessages(chatId: string, userId: string): Promise<M
 	return data || [];
 }
 
+/**
+ * Get all messages for a chat, across every branch
+ */
+export async function getChatMessages(chatId: string, userId: string): Promise<Message[]> {
+	// First verify the user owns this chat
+	const chat = await getChat(chatId, userId);
+	if (!chat) {
+		throw new Error('Chat not found or access denied');
+	}
+
+	return fetchMessages(chatId);
+}
+
+/**
+ * Get the messages of a chat's active branch, each with its place among the
+ * alternatives for its turn
+ */
+export async function getActiveChatMessages(
+	chatId: string,
+	userId: string
+): Promise<BranchedMessage<Message>[]> {
+	const chat = await getChat(chatId, userId);
+	if (!chat) {
+		throw new Error('Chat not found or access denied');
+	}
+
+	const messages = await fetchMessages(chatId);
+	return withBranches(messages, activePath(messages, chat.active_message_id));
+}
+
+/**
+ * Show the branch holding a message, continuing to its newest reply.
+ * Returns the new active branch, or null if the message isn't in the chat.
+ */
+export async function switchChatBranch(
+	chatId: string,
+	userId: string,
+	messageId: string
+): Promise<BranchedMessage<Message>[] | null> {
+	const chat = await getChat(chatId, userId);
+	if (!chat) {
+		throw new Error('Chat not found or access denied');
+	}
+
+	const messages = await fetchMessages(chatId);
+	const leaf = latestLeaf(messages, messageId);
+	if (!leaf) {
+		return null;
+	}
+
+	await setActiveMessage(chatId, leaf.id);
+	return withBranches(messages, pathTo(messages, leaf.id));
+}
+
+/**
+ * Rewind a chat's active branch to where a turn starts, so the next message
+ * saved becomes an alternative to it: before an edited user message, or after
+ * the user message that a regenerated reply answers. Returns the user
+ * message, or null if the chat has no such message.
+ */
+export async function branchChat(
+	chatId: string,
+	userId: string,
+	messageId: string,
+	action: 'edit' | 'regenerate'
+): Promise<Message | null> {
+	const chat = await getChat(chatId, userId);
+	if (!chat) {
+		throw new Error('Chat not found or access denied');
+	}
+
+	const messages = await fetchMessages(chatId);
+	const path = pathTo(messages, messageId);
+	const message = path.at(-1);
+
+	if (action === 'edit') {
+		if (message?.role !== 'user') {
+			return null;
+		}
+		await setActiveMessage(chatId, message.parent_id);
+		return message;
+	}
+
+	// A reply may follow tool-call turns; the branch starts after its user message
+	const userMessage = path.findLast((m) => m.role === 'user');
+	if (!message || message.role === 'user' || !userMessage) {
+		return null;
+	}
+	await setActiveMessage(chatId, userMessage.id);
+	return userMessage;
+}
+
 /**
  * Generate a title for a chat based on the first message
  */
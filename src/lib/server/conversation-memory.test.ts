@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+	applyConversationMemory,
+	getConversationMemory,
+	getMemoryStrategy,
+	type ConversationMemory,
+	type HistoryMessage
+} from './conversation-memory.js';
+import { getMockRequests, queueMockResponses, resetMockProvider } from './llm-mock-provider.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: { LLM_RETRY_BASE_DELAY_MS: '0' }
+}));
+
+global.fetch = vi.fn();
+
+function turn(index: number): HistoryMessage[] {
+	return [
+		{
+			message: { role: 'user', content: `Question ${index}: ${'tell me more '.repeat(20)}` },
+			created_at: `2025-01-01T00:${String(index).padStart(2, '0')}:00.000Z`
+		},
+		{
+			message: { role: 'assistant', content: `Answer ${index}: ${'here is more '.repeat(20)}` },
+			created_at: `2025-01-01T00:${String(index).padStart(2, '0')}:30.000Z`
+		}
+	];
+}
+
+const history = [1, 2, 3, 4, 5, 6].flatMap(turn);
+const current = { role: 'user' as const, content: 'And finally?' };
+
+describe('Conversation Memory', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+	});
+
+	it('should read the strategy and summary from metadata', () => {
+		expect(getMemoryStrategy({ memory_strategy: 'summarize' })).toBe('summarize');
+		expect(getMemoryStrategy({})).toBe('truncate');
+		expect(getMemoryStrategy(null)).toBe('truncate');
+		expect(getConversationMemory({ memory_summary: { summary: '' } })).toBeNull();
+	});
+
+	it('should send the full history when it fits', async () => {
+		const result = await applyConversationMemory({
+			systemPrompt: 'Be brief.',
+			history,
+			current,
+			memory: null,
+			model: 'mock/echo',
+			promptBudget: 50000
+		});
+
+		expect(result.updated).toBe(false);
+		expect(result.messages).toHaveLength(history.length + 2);
+		expect(getMockRequests()).toHaveLength(0);
+	});
+
+	it('should fold the oldest turns into a summary when over budget', async () => {
+		queueMockResponses({ content: 'The user asked six questions about details.' });
+
+		const result = await applyConversationMemory({
+			systemPrompt: 'Be brief.',
+			history,
+			current,
+			memory: null,
+			model: 'mock/echo',
+			promptBudget: 500
+		});
+
+		expect(result.updated).toBe(true);
+		expect(result.memory?.summary).toBe('The user asked six questions about details.');
+		expect(result.usage?.total_tokens).toBeGreaterThan(0);
+		expect(result.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+		expect(result.messages[1].content).toContain('The user asked six questions');
+		expect(result.messages[result.messages.length - 1]).toEqual(current);
+
+		// Everything up to the summarized point is left out of the prompt
+		const folded = result.memory!.summarized_messages;
+		expect(folded).toBeGreaterThan(0);
+		expect(result.memory!.summarized_until).toBe(history[folded - 1].created_at);
+		expect(result.messages).toHaveLength(2 + history.length - folded + 1);
+
+		const summaryRequest = getMockRequests()[0];
+		expect(summaryRequest.messages[1].content).toContain('Existing summary:\n(none)');
+		expect(summaryRequest.messages[1].content).toContain('User: Question 1');
+	});
+
+	it('should extend the previous summary incrementally', async () => {
+		queueMockResponses({ content: 'Updated summary.' });
+		const memory: ConversationMemory = {
+			summary: 'Earlier, the user introduced themselves.',
+			summarized_until: '2024-12-31T23:59:00.000Z',
+			summarized_messages: 4,
+			summary_tokens: 8,
+			model: 'mock/echo',
+			updated_at: '2024-12-31T23:59:00.000Z'
+		};
+
+		const result = await applyConversationMemory({
+			history,
+			current,
+			memory,
+			model: 'mock/echo',
+			promptBudget: 500
+		});
+
+		expect(result.memory?.summary).toBe('Updated summary.');
+		expect(result.memory!.summarized_messages).toBeGreaterThan(4);
+		expect(getMockRequests()[0].messages[1].content).toContain(
+			'Existing summary:\nEarlier, the user introduced themselves.'
+		);
+	});
+
+	it('should fall back to truncation when summarizing fails', async () => {
+		queueMockResponses({ error: { status: 400 } });
+
+		const result = await applyConversationMemory({
+			history,
+			current,
+			memory: null,
+			model: 'mock/echo',
+			promptBudget: 500
+		});
+
+		expect(result.updated).toBe(false);
+		expect(result.memory).toBeNull();
+		expect(result.messages.length).toBeLessThan(history.length + 1);
+		expect(result.messages[result.messages.length - 1]).toEqual(current);
+	});
+
+	it('should keep the summary when the oldest turns are truncated', async () => {
+		queueMockResponses({ error: { status: 400 } });
+		const memory: ConversationMemory = {
+			summary: 'The user is planning a trip to Lisbon.',
+			summarized_until: '2024-12-31T23:59:00.000Z',
+			summarized_messages: 4,
+			summary_tokens: 9,
+			model: 'mock/echo',
+			updated_at: '2024-12-31T23:59:00.000Z'
+		};
+
+		const result = await applyConversationMemory({
+			systemPrompt: 'Be brief.',
+			history,
+			current,
+			memory,
+			model: 'mock/echo',
+			promptBudget: 500
+		});
+
+		expect(result.messages.length).toBeLessThan(history.length + 3);
+		expect(result.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+		expect(result.messages[1].content).toContain('The user is planning a trip to Lisbon.');
+		expect(result.messages[result.messages.length - 1]).toEqual(current);
+	});
+});
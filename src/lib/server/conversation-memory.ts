@@ -0,0 +1,229 @@
+import { env } from '$env/dynamic/private';
+import {
+	createCompletion,
+	truncateMessages,
+	type ChatMessage,
+	type CompletionUsage
+} from './llm.js';
+import { countMessageTokens, countTokens } from './tokenizer.js';
+
+/**
+ * How a conversation handles history that no longer fits the context window:
+ * `truncate` drops the oldest turns, `summarize` folds them into a running summary
+ */
+export type MemoryStrategy = 'truncate' | 'summarize';
+
+/**
+ * Running summary of the turns that no longer fit, stored in the conversation's
+ * `metadata.memory_summary`
+ */
+export interface ConversationMemory {
+	summary: string;
+	summarized_until: string; // created_at of the newest message folded into the summary
+	summarized_messages: number;
+	summary_tokens: number;
+	model: string;
+	updated_at: string;
+}
+
+export interface HistoryMessage {
+	message: ChatMessage;
+	created_at: string;
+}
+
+export interface MemoryContext {
+	systemPrompt?: string | null;
+	history: HistoryMessage[]; // Messages newer than the summary, oldest first
+	current: ChatMessage;
+	memory: ConversationMemory | null;
+	model: string;
+	promptBudget: number; // Prompt tokens available once the completion is reserved
+	apiKey?: string;
+}
+
+export interface MemoryResult {
+	messages: ChatMessage[];
+	memory: ConversationMemory | null;
+	updated: boolean; // The summary was regenerated and should be saved
+	usage?: CompletionUsage; // Usage of the summarization call, to be billed
+}
+
+// After summarizing, keep this share of the budget for recent turns so the
+// summary isn't regenerated on every message
+const RETAIN_RATIO = 0.5;
+const SUMMARY_MAX_TOKENS = 512;
+
+const SUMMARY_INSTRUCTIONS = `You maintain a running summary of a conversation between a user and an assistant.
+Update the existing summary with the new messages. Keep facts, decisions, names, numbers and open questions; drop small talk.
+Write in the third person, in plain prose, in under 300 words. Respond with the summary only.`;
+
+/**
+ * Get the memory strategy stored in a conversation's metadata
+ */
+export function getMemoryStrategy(metadata: Record<string, unknown> | null): MemoryStrategy {
+	return metadata?.memory_strategy === 'summarize' ? 'summarize' : 'truncate';
+}
+
+/**
+ * Get the stored running summary from a conversation's metadata
+ */
+export function getConversationMemory(
+	metadata: Record<string, unknown> | null
+): ConversationMemory | null {
+	const memory = metadata?.memory_summary as ConversationMemory | undefined;
+	return memory?.summary ? memory : null;
+}
+
+/**
+ * Build the system message that carries the summary into the prompt
+ */
+export function summaryMessage(summary: string): ChatMessage {
+	return { role: 'system', content: `Summary of the earlier conversation:\n${summary}` };
+}
+
+function formatTranscript(messages: ChatMessage[]): string {
+	return messages
+		.map((message) => {
+			const content = typeof message.content === 'string' ? message.content : '';
+			if (message.role === 'tool') return `Tool result: ${content}`;
+
+			const calls = (message.tool_calls || [])
+				.map((call) => `[called ${call.function.name}(${call.function.arguments})]`)
+				.join(' ');
+			const speaker = message.role === 'user' ? 'User' : 'Assistant';
+			return `${speaker}: ${[content, calls].filter(Boolean).join(' ')}`;
+		})
+		.join('\n');
+}
+
+/**
+ * Fold messages into the previous summary with one model call
+ */
+export async function summarizeMessages(
+	previousSummary: string | null,
+	messages: ChatMessage[],
+	model: string,
+	apiKey?: string
+): Promise<{ summary: string; model: string; usage?: CompletionUsage }> {
+	const completion = await createCompletion({
+		model: env.CONVERSATION_SUMMARY_MODEL || model,
+		messages: [
+			{ role: 'system', content: SUMMARY_INSTRUCTIONS },
+			{
+				role: 'user',
+				content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${formatTranscript(messages)}`
+			}
+		],
+		temperature: 0,
+		max_tokens: SUMMARY_MAX_TOKENS,
+		apiKey
+	});
+
+	const content = completion.choices[0]?.message?.content;
+	const summary = typeof content === 'string' ? content.trim() : '';
+	if (!summary) {
+		throw new Error('Summarization returned an empty summary');
+	}
+
+	return { summary, model: completion.model, usage: completion.usage };
+}
+
+/**
+ * Build the prompt for the next turn, folding the oldest history into the
+ * running summary when it no longer fits.
+ *
+ * Only turns newer than the stored summary are summarized, so each call costs
+ * at most one summarization of the turns that just fell out of the window. If
+ * summarizing fails the oldest turns are dropped instead.
+ */
+export async function applyConversationMemory(context: MemoryContext): Promise<MemoryResult> {
+	const { systemPrompt, history, current, model, promptBudget } = context;
+	const system: ChatMessage[] = systemPrompt ? [{ role: 'system', content: systemPrompt }] : [];
+
+	const build = (memory: ConversationMemory | null, recent: HistoryMessage[]) => [
+		...system,
+		...(memory ? [summaryMessage(memory.summary)] : []),
+		...recent.map((entry) => entry.message),
+		current
+	];
+
+	const fixedTokens = [...system, current].reduce(
+		(sum, message) => sum + countMessageTokens(message, model),
+		0
+	);
+	const summaryTokens = context.memory
+		? countMessageTokens(summaryMessage(context.memory.summary), model)
+		: 0;
+	const historyTokens = history.map((entry) => countMessageTokens(entry.message, model));
+	const totalHistory = historyTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+	if (fixedTokens + summaryTokens + totalHistory <= promptBudget) {
+		return { messages: build(context.memory, history), memory: context.memory, updated: false };
+	}
+
+	// Keep the most recent turns that fit in the retained share of the budget
+	const retainBudget = Math.max(
+		(promptBudget - fixedTokens - SUMMARY_MAX_TOKENS) * RETAIN_RATIO,
+		0
+	);
+	let split = history.length;
+	let kept = 0;
+	while (split > 0 && kept + historyTokens[split - 1] <= retainBudget) {
+		kept += historyTokens[split - 1];
+		split--;
+	}
+
+	// A tool result must stay with the assistant message that requested it
+	while (split < history.length && history[split].message.role === 'tool') {
+		split++;
+	}
+
+	const folded = history.slice(0, split);
+	const recent = history.slice(split);
+
+	if (folded.length === 0) {
+		return {
+			messages: truncateMessages(build(context.memory, history), promptBudget, model),
+			memory: context.memory,
+			updated: false
+		};
+	}
+
+	try {
+		const {
+			summary,
+			model: summaryModel,
+			usage
+		} = await summarizeMessages(
+			context.memory?.summary || null,
+			folded.map((entry) => entry.message),
+			model,
+			context.apiKey
+		);
+
+		const memory: ConversationMemory = {
+			summary,
+			summarized_until: folded[folded.length - 1].created_at,
+			summarized_messages: (context.memory?.summarized_messages || 0) + folded.length,
+			summary_tokens: countTokens(summary, model),
+			model: summaryModel,
+			updated_at: new Date().toISOString()
+		};
+
+		// Guard against a summary longer than expected
+		return {
+			messages: truncateMessages(build(memory, recent), promptBudget, model),
+			memory,
+			updated: true,
+			usage
+		};
+	} catch (error) {
+		console.warn('Failed to summarize conversation history, truncating instead:', error);
+
+		return {
+			messages: truncateMessages(build(context.memory, history), promptBudget, model),
+			memory: context.memory,
+			updated: false
+		};
+	}
+}
@@ -0,0 +1,117 @@
+import { error, type RequestEvent } from '@sveltejs/kit';
+import { apiOwner, requireAllowedModels, type ApiAuthResult } from './api-middleware.js';
+import {
+	getApiConversation,
+	getApiConversationMessage,
+	sendMessage,
+	streamMessage,
+	type SendMessageResponse,
+	type TurnRequest
+} from './api-conversations.js';
+import { budgetHeaders, enforceBudget, recordCompletionCost } from './budgets.js';
+import { recordTokenUsage } from './rate-limiter.js';
+import type { CompletionUsage } from './llm.js';
+import { validationError } from './validation.js';
+
+/**
+ * Answer a message, edit or regeneration sent to a conversation through the
+ * v1 API: checks the model, budget and edited or regenerated message, records
+ * usage, and replies with JSON or, with `stream`, server-sent events
+ */
+export async function respondToTurn(
+	event: RequestEvent,
+	auth: ApiAuthResult,
+	conversationId: string,
+	{ stream, ...turn }: TurnRequest & { stream?: boolean }
+): Promise<SendMessageResponse | Response> {
+	const startTime = Date.now();
+
+	if (stream && turn.server_tools) {
+		validationError([
+			{ path: 'body.stream', code: 'invalid_value', message: "can't be used with server_tools" }
+		]);
+	}
+
+	// A stream can't be stored for replay
+	if (stream && event.request.headers.has('idempotency-key')) {
+		error(400, {
+			message: 'Idempotency-Key is not supported for streaming requests',
+			code: 'IDEMPOTENCY_NOT_SUPPORTED'
+		});
+	}
+
+	const owner = apiOwner(auth);
+	const conversation = await getApiConversation(owner, conversationId);
+	if (!conversation) {
+		error(404, { message: 'Conversation not found', code: 'CONVERSATION_NOT_FOUND' });
+	}
+
+	// Only user turns can be edited and only assistant replies regenerated
+	const [targetId, role] =
+		'regenerate_message_id' in turn
+			? [turn.regenerate_message_id, 'assistant']
+			: [turn.edit_message_id, 'user'];
+	if (targetId) {
+		const target = await getApiConversationMessage(owner, conversationId, targetId);
+		if (!target) {
+			error(404, { message: 'Message not found', code: 'MESSAGE_NOT_FOUND' });
+		}
+		if (target.role !== role) {
+			validationError([
+				{
+					path: 'params.messageId',
+					code: 'invalid_value',
+					message: `must be a message from the ${role}`
+				}
+			]);
+		}
+	}
+
+	await requireAllowedModels(event, auth, [conversation.model, ...auth.fallback_models]);
+	const budget = await enforceBudget(auth.user_id, auth.api_key_id, auth.org_id);
+
+	const request: TurnRequest = {
+		...turn,
+		fallback_models: auth.fallback_models,
+		apiKey: event.request.headers.get('x-openrouter-api-key') || undefined,
+		api_key_id: auth.api_key_id
+	};
+
+	const recordUsage = async (model: string, usage: CompletionUsage | undefined) => {
+		await recordCompletionCost({
+			user_id: auth.user_id,
+			org_id: auth.org_id,
+			api_key_id: auth.api_key_id,
+			endpoint: event.url.pathname,
+			model,
+			usage,
+			response_time: Date.now() - startTime
+		});
+		await recordTokenUsage(auth.api_key_id, auth.rate_limits, usage?.total_tokens);
+	};
+
+	if (stream) {
+		const { stream: events, completed } = await streamMessage(owner, conversationId, request);
+
+		// Generation finishes even if the client disconnects. On Cloudflare the
+		// worker is kept alive for it, so the reply and its usage are recorded.
+		const recorded = completed
+			.then(({ message, usage }) => recordUsage(message.model || conversation.model, usage))
+			.catch((err) => console.error('Conversation message stream failed:', err));
+		event.platform?.ctx?.waitUntil(recorded);
+
+		return new Response(events, {
+			headers: {
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache',
+				Connection: 'keep-alive',
+				...budgetHeaders(budget)
+			}
+		});
+	}
+
+	const response = await sendMessage(owner, conversationId, request);
+	await recordUsage(response.assistant_message.model || conversation.model, response.usage);
+
+	return response;
+}
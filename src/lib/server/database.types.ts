@@ -11,6 +11,7 @@ export type Database = {
 					default_structured_output_id: string | null;
 					message_count: number;
 					is_pinned: boolean;
+					active_message_id: string | null;
 					created_at: string;
 					updated_at: string;
 				};
@@ -23,6 +24,7 @@ export type Database = {
 					default_structured_output_id?: string | null;
 					message_count?: number;
 					is_pinned?: boolean;
+					active_message_id?: string | null;
 					created_at?: string;
 					updated_at?: string;
 				};
@@ -35,6 +37,7 @@ export type Database = {
 					default_structured_output_id?: string | null;
 					message_count?: number;
 					is_pinned?: boolean;
+					active_message_id?: string | null;
 					created_at?: string;
 					updated_at?: string;
 				};
@@ -43,7 +46,7 @@ export type Database = {
 				Row: {
 					id: string;
 					chat_id: string;
-					role: 'user' | 'assistant' | 'system';
+					role: 'user' | 'assistant' | 'system' | 'tool';
 					content: string;
 					model: string | null;
 					system_prompt_id: string | null;
@@ -51,12 +54,15 @@ export type Database = {
 					structured_output_id: string | null;
 					structured_output_version: number | null;
 					token_count: number | null;
+					tool_calls: any | null;
+					tool_call_id: string | null;
+					parent_id: string | null;
 					created_at: string;
 				};
 				Insert: {
 					id?: string;
 					chat_id: string;
-					role: 'user' | 'assistant' | 'system';
+					role: 'user' | 'assistant' | 'system' | 'tool';
 					content: string;
 					model?: string | null;
 					system_prompt_id?: string | null;
@@ -64,12 +70,15 @@ export type Database = {
 					structured_output_id?: string | null;
 					structured_output_version?: number | null;
 					token_count?: number | null;
+					tool_calls?: any | null;
+					tool_call_id?: string | null;
+					parent_id?: string | null;
 					created_at?: string;
 				};
 				Update: {
 					id?: string;
 					chat_id?: string;
-					role?: 'user' | 'assistant' | 'system';
+					role?: 'user' | 'assistant' | 'system' | 'tool';
 					content?: string;
 					model?: string | null;
 					system_prompt_id?: string | null;
@@ -77,6 +86,9 @@ export type Database = {
 					structured_output_id?: string | null;
 					structured_output_version?: number | null;
 					token_count?: number | null;
+					tool_calls?: any | null;
+					tool_call_id?: string | null;
+					parent_id?: string | null;
 					created_at?: string;
 				};
 			};
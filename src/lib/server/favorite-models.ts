@@ -217,4 +217,35 @@ export async function bulkToggleFavorites(
 			throw new Error(`Failed to remove favorite models: ${error.message}`);
 		}
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Get the LLM provider the user prefers for models without a provider prefix
+ */
+export async function getUserLlmProvider(userId: string): Promise<string | null> {
+	const { data, error } = await supabaseAdmin
+		.from('profiles')
+		.select('llm_provider')
+		.eq('id', userId)
+		.single();
+
+	if (error && error.code !== 'PGRST116') {
+		throw new Error(`Failed to fetch LLM provider preference: ${error.message}`);
+	}
+
+	return data?.llm_provider || null;
+}
+
+/**
+ * Set (or clear) the user's preferred LLM provider
+ */
+export async function setUserLlmProvider(userId: string, provider: string | null): Promise<void> {
+	const { error } = await supabaseAdmin
+		.from('profiles')
+		.update({ llm_provider: provider })
+		.eq('id', userId);
+
+	if (error) {
+		throw new Error(`Failed to update LLM provider preference: ${error.message}`);
+	}
+}
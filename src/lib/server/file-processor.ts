@@ -1,9 +1,12 @@
 import { supabaseAdmin } from './supabase.js';
+import { ownerColumns, ownerFilter, type Owner } from './organizations.js';
 import { createCompletion, type ChatMessage } from './llm.js';
+import { dispatchWebhookEvent } from './webhooks.js';
 
 export interface FileUpload {
 	id: string;
-	user_id: string;
+	user_id: string; // Uploader
+	org_id?: string | null; // Owning organization, null for personal files
 	original_name: string;
 	file_path: string;
 	mime_type: string;
@@ -38,13 +41,13 @@ export interface ProcessingResult {
  * Save file upload record to database
  */
 export async function createFileUpload(
-	userId: string,
+	owner: Owner,
 	file: File,
 	filePath: string,
 	fileType: 'pdf' | 'image' | 'audio'
 ): Promise<FileUpload> {
 	const uploadData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		original_name: file.name,
 		file_path: filePath,
 		mime_type: file.type,
@@ -71,7 +74,7 @@ export async function createFileUpload(
  * Get file upload by ID
  */
 export async function getFileUpload(
-	userId: string,
+	owner: Owner,
 	fileId: string,
 	allowPublic: boolean = true
 ): Promise<FileUpload | null> {
@@ -81,9 +84,9 @@ export async function getFileUpload(
 		.eq('id', fileId);
 
 	if (allowPublic) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	const { data, error } = await query.single();
@@ -100,7 +103,7 @@ export async function getFileUpload(
  * List file uploads for a user
  */
 export async function listFileUploads(
-	userId: string,
+	owner: Owner,
 	options?: {
 		file_type?: 'pdf' | 'image' | 'audio';
 		processing_status?: string;
@@ -116,9 +119,9 @@ export async function listFileUploads(
 
 	// Filter by ownership or public
 	if (options?.include_public !== false) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	// Filter by file type
@@ -182,12 +185,12 @@ export async function updateFileProcessing(
 /**
  * Delete file upload
  */
-export async function deleteFileUpload(userId: string, fileId: string): Promise<boolean> {
+export async function deleteFileUpload(owner: Owner, fileId: string): Promise<boolean> {
 	const { error } = await supabaseAdmin
 		.from('file_uploads')
 		.delete()
 		.eq('id', fileId)
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	if (error) {
 		throw new Error(`Failed to delete file upload: ${error.message}`);
@@ -426,11 +429,13 @@ export async function processAudio(
 }
 
 /**
- * Main file processing function
+ * Main file processing function. Sends a `file.processed` or `file.failed`
+ * webhook when done; `apiKeyId` is the key that asked for the processing.
  */
 export async function processFile(
 	fileId: string,
-	options: ProcessingOptions = {}
+	options: ProcessingOptions = {},
+	apiKeyId: string | null = null
 ): Promise<ProcessingResult> {
 	// Get file info from database
 	const { data: fileInfo, error } = await supabaseAdmin
@@ -447,16 +452,34 @@ export async function processFile(
 	// For now, we'll create a mock buffer
 	const mockBuffer = Buffer.from('mock file content');
 
+	let result: ProcessingResult;
 	switch (fileInfo.file_type) {
 		case 'pdf':
-			return processPDF(fileId, mockBuffer, options);
+			result = await processPDF(fileId, mockBuffer, options);
+			break;
 		case 'image':
-			return processImage(fileId, mockBuffer, options);
+			result = await processImage(fileId, mockBuffer, options);
+			break;
 		case 'audio':
-			return processAudio(fileId, mockBuffer, options);
+			result = await processAudio(fileId, mockBuffer, options);
+			break;
 		default:
 			return { success: false, error: `Unsupported file type: ${fileInfo.file_type}` };
 	}
+
+	await dispatchWebhookEvent(
+		{ user_id: fileInfo.user_id, org_id: fileInfo.org_id ?? null, api_key_id: apiKeyId },
+		result.success ? 'file.processed' : 'file.failed',
+		{
+			file_id: fileId,
+			original_name: fileInfo.original_name,
+			file_type: fileInfo.file_type,
+			processing_status: result.success ? 'completed' : 'failed',
+			...(result.error && { error: result.error })
+		}
+	);
+
+	return result;
 }
 
 /**
@@ -490,7 +513,7 @@ export async function batchProcessFiles(
 /**
  * Get file processing statistics
  */
-export async function getProcessingStats(userId: string): Promise<{
+export async function getProcessingStats(owner: Owner): Promise<{
 	total_files: number;
 	by_type: Record<string, number>;
 	by_status: Record<string, number>;
@@ -500,7 +523,7 @@ export async function getProcessingStats(userId: string): Promise<{
 	const { data: files, error } = await supabaseAdmin
 		.from('file_uploads')
 		.select('file_type, processing_status, file_size')
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	if (error) {
 		throw new Error(`Failed to get processing stats: ${error.message}`);
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { supabaseAdmin } from './supabase.js';
+import {
+	beginIdempotentRequest,
+	completeIdempotentRequest,
+	fingerprintRequest,
+	releaseIdempotentRequest
+} from './idempotency.js';
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: { from: vi.fn() }
+}));
+
+/**
+ * A chainable query builder that resolves to `result`
+ */
+function query(result: unknown) {
+	const builder: Record<string, unknown> = {};
+	for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'single']) {
+		builder[method] = vi.fn(() => builder);
+	}
+	builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+		Promise.resolve(result).then(resolve, reject);
+	return builder as Record<string, ReturnType<typeof vi.fn>>;
+}
+
+function requestEvent(init: RequestInit & { key?: string } = {}): RequestEvent {
+	const { key, ...requestInit } = init;
+	const url = 'https://api.example.com/api/v1/prompts';
+	const request = new Request(url, {
+		method: 'POST',
+		body: JSON.stringify({ name: 'Support agent' }),
+		...requestInit,
+		headers: {
+			'Content-Type': 'application/json',
+			...(key !== undefined && { 'Idempotency-Key': key })
+		}
+	});
+	return { request, url: new URL(url) } as unknown as RequestEvent;
+}
+
+const taken = { data: null, error: { code: '23505', message: 'duplicate key value' } };
+
+async function storedRecord(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'idem-1',
+		method: 'POST',
+		path: '/api/v1/prompts',
+		request_hash: await fingerprintRequest(requestEvent().request),
+		status: 'completed',
+		response_status: 200,
+		response_body: '{"id":"prompt-1"}',
+		response_content_type: 'application/json',
+		locked_at: new Date().toISOString(),
+		expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+		...overrides
+	};
+}
+
+describe('Idempotency', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('fingerprintRequest', () => {
+		it('should tell different bodies apart', async () => {
+			const first = await fingerprintRequest(requestEvent().request);
+			const second = await fingerprintRequest(
+				requestEvent({ body: JSON.stringify({ name: 'Sales agent' }) }).request
+			);
+
+			expect(first).toBe(await fingerprintRequest(requestEvent().request));
+			expect(first).not.toBe(second);
+		});
+
+		it('should hash multipart bodies by their fields', async () => {
+			function upload(content: string) {
+				const body = new FormData();
+				body.append('process', 'true');
+				body.append('file', new Blob([content], { type: 'text/plain' }), 'notes.txt');
+				return new Request('https://api.example.com/api/v1/files/upload', {
+					method: 'POST',
+					body
+				});
+			}
+
+			const first = upload('hello');
+			const retry = upload('hello');
+
+			// Each request gets its own boundary
+			expect(first.headers.get('content-type')).not.toBe(retry.headers.get('content-type'));
+			expect(await fingerprintRequest(first)).toBe(await fingerprintRequest(retry));
+			expect(await fingerprintRequest(first)).not.toBe(await fingerprintRequest(upload('bye')));
+		});
+
+		it('should leave the request body readable', async () => {
+			const { request } = requestEvent();
+			await fingerprintRequest(request);
+
+			expect(await request.json()).toEqual({ name: 'Support agent' });
+		});
+	});
+
+	describe('beginIdempotentRequest', () => {
+		it('should do nothing without a key or for safe methods', async () => {
+			expect(await beginIdempotentRequest(requestEvent(), 'user-1')).toBeNull();
+			expect(
+				await beginIdempotentRequest(
+					requestEvent({ method: 'GET', body: null, key: 'a' }),
+					'user-1'
+				)
+			).toBeNull();
+			expect(supabaseAdmin.from).not.toHaveBeenCalled();
+		});
+
+		it('should reject empty and overlong keys', async () => {
+			await expect(
+				beginIdempotentRequest(requestEvent({ key: ' ' }), 'user-1')
+			).rejects.toMatchObject({
+				status: 400
+			});
+			await expect(
+				beginIdempotentRequest(requestEvent({ key: 'k'.repeat(256) }), 'user-1')
+			).rejects.toMatchObject({ status: 400 });
+		});
+
+		it('should claim a new key', async () => {
+			const insert = query({
+				data: { id: 'idem-1', locked_at: '2024-01-01T12:00:00Z' },
+				error: null
+			});
+			vi.mocked(supabaseAdmin.from).mockReturnValue(insert as never);
+
+			const claim = await beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1');
+
+			expect(claim).toEqual({ id: 'idem-1', locked_at: '2024-01-01T12:00:00Z' });
+			expect(insert.insert).toHaveBeenCalledWith([
+				expect.objectContaining({
+					user_id: 'user-1',
+					key: 'key-1',
+					method: 'POST',
+					path: '/api/v1/prompts',
+					request_hash: await fingerprintRequest(requestEvent().request)
+				})
+			]);
+		});
+
+		it('should replay the stored response to a repeated request', async () => {
+			vi.mocked(supabaseAdmin.from)
+				.mockReturnValueOnce(query(taken) as never)
+				.mockReturnValueOnce(query({ data: await storedRecord(), error: null }) as never);
+
+			const response = await beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1');
+
+			expect(response).toBeInstanceOf(Response);
+			expect((response as Response).headers.get('Idempotent-Replayed')).toBe('true');
+			expect(await (response as Response).json()).toEqual({ id: 'prompt-1' });
+		});
+
+		it('should reject a key reused for a different request', async () => {
+			vi.mocked(supabaseAdmin.from)
+				.mockReturnValueOnce(query(taken) as never)
+				.mockReturnValueOnce(
+					query({ data: await storedRecord({ request_hash: 'other' }), error: null }) as never
+				);
+
+			await expect(
+				beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1')
+			).rejects.toMatchObject({ status: 409, body: { code: 'IDEMPOTENCY_KEY_MISMATCH' } });
+		});
+
+		it('should reject a retry while the first request is running', async () => {
+			vi.mocked(supabaseAdmin.from)
+				.mockReturnValueOnce(query(taken) as never)
+				.mockReturnValueOnce(
+					query({ data: await storedRecord({ status: 'processing' }), error: null }) as never
+				);
+
+			await expect(
+				beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1')
+			).rejects.toMatchObject({ status: 409, body: { code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS' } });
+		});
+
+		it('should take over a claim whose request died', async () => {
+			const lockedAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+			const update = query({ data: [{ id: 'idem-1', locked_at: 'now' }], error: null });
+			vi.mocked(supabaseAdmin.from)
+				.mockReturnValueOnce(query(taken) as never)
+				.mockReturnValueOnce(
+					query({
+						data: await storedRecord({ status: 'processing', locked_at: lockedAt }),
+						error: null
+					}) as never
+				)
+				.mockReturnValueOnce(update as never);
+
+			const claim = await beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1');
+
+			expect(claim).toEqual({ id: 'idem-1', locked_at: 'now' });
+			expect(update.eq).toHaveBeenCalledWith('locked_at', lockedAt);
+		});
+
+		it('should reuse an expired key for a new request', async () => {
+			const update = query({ data: [{ id: 'idem-1', locked_at: 'now' }], error: null });
+			vi.mocked(supabaseAdmin.from)
+				.mockReturnValueOnce(query(taken) as never)
+				.mockReturnValueOnce(
+					query({
+						data: await storedRecord({
+							request_hash: 'other',
+							expires_at: new Date(Date.now() - 1000).toISOString()
+						}),
+						error: null
+					}) as never
+				)
+				.mockReturnValueOnce(update as never);
+
+			expect(await beginIdempotentRequest(requestEvent({ key: 'key-1' }), 'user-1')).toEqual({
+				id: 'idem-1',
+				locked_at: 'now'
+			});
+			expect(update.update).toHaveBeenCalledWith(
+				expect.objectContaining({ status: 'processing', response_body: null })
+			);
+		});
+	});
+
+	describe('completing and releasing', () => {
+		const claim = { id: 'idem-1', locked_at: '2024-01-01T12:00:00Z' };
+
+		it('should store the response and leave it readable', async () => {
+			const update = query({ error: null });
+			vi.mocked(supabaseAdmin.from).mockReturnValue(update as never);
+			const response = new Response('{"id":"prompt-1"}', {
+				status: 200,
+				headers: { 'Content-Type': 'application/json' }
+			});
+
+			await completeIdempotentRequest(claim, response);
+
+			expect(update.update).toHaveBeenCalledWith({
+				status: 'completed',
+				response_status: 200,
+				response_body: '{"id":"prompt-1"}',
+				response_content_type: 'application/json'
+			});
+			expect(await response.json()).toEqual({ id: 'prompt-1' });
+		});
+
+		it('should delete the claim of a failed request', async () => {
+			const remove = query({ error: null });
+			vi.mocked(supabaseAdmin.from).mockReturnValue(remove as never);
+
+			await releaseIdempotentRequest(claim);
+
+			expect(remove.delete).toHaveBeenCalled();
+			expect(remove.eq).toHaveBeenCalledWith('id', 'idem-1');
+		});
+	});
+});
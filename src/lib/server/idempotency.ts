@@ -0,0 +1,235 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { error } from '@sveltejs/kit';
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase.js';
+
+/**
+ * A request that holds its Idempotency-Key until it finishes
+ */
+export interface IdempotencyClaim {
+	id: string;
+	locked_at: string;
+}
+
+interface IdempotencyRecord extends IdempotencyClaim {
+	method: string;
+	path: string;
+	request_hash: string;
+	status: 'processing' | 'completed';
+	response_status: number | null;
+	response_body: string | null;
+	response_content_type: string | null;
+	expires_at: string;
+}
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// How long a claim holds off retries. Longer than any request can run, so a
+// claim this old belongs to a request that died before storing its response.
+const LOCK_MS = 5 * 60 * 1000;
+
+// Safe methods are idempotent already
+const IGNORED_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function sha256(data: string | Uint8Array): string {
+	return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Hash a request's method, path and body. Multipart bodies are hashed by their
+ * fields, since clients pick a new boundary for every attempt.
+ */
+export async function fingerprintRequest(request: Request): Promise<string> {
+	const url = new URL(request.url);
+	const parts = [request.method, url.pathname + url.search];
+	const copy = request.clone();
+
+	if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+		for (const [name, value] of await copy.formData()) {
+			parts.push(
+				typeof value === 'string'
+					? `${name}=${value}`
+					: `${name}=file:${value.name}:${value.type}:${sha256(new Uint8Array(await value.arrayBuffer()))}`
+			);
+		}
+	} else {
+		parts.push(sha256(new Uint8Array(await copy.arrayBuffer())));
+	}
+
+	return sha256(parts.join('\n'));
+}
+
+function replayResponse(record: IdempotencyRecord): Response {
+	return new Response(record.response_body, {
+		status: record.response_status ?? 200,
+		headers: {
+			'Content-Type': record.response_content_type || 'application/json',
+			'Idempotent-Replayed': 'true'
+		}
+	});
+}
+
+/**
+ * Take over a key whose claim went stale or whose response expired. Fails if
+ * another retry got there first.
+ */
+async function reclaim(
+	record: IdempotencyRecord,
+	fields: Record<string, string>
+): Promise<IdempotencyClaim | null> {
+	const now = new Date();
+	const { data, error: updateError } = await supabaseAdmin
+		.from('idempotency_keys')
+		.update({
+			...fields,
+			status: 'processing',
+			response_status: null,
+			response_body: null,
+			response_content_type: null,
+			locked_at: now.toISOString(),
+			expires_at: new Date(now.getTime() + KEY_TTL_MS).toISOString()
+		})
+		.eq('id', record.id)
+		.eq('locked_at', record.locked_at)
+		.select('id, locked_at');
+
+	if (updateError) {
+		throw new Error(`Failed to claim idempotency key: ${updateError.message}`);
+	}
+
+	return data?.[0] ?? null;
+}
+
+/**
+ * Honor the request's Idempotency-Key header. Returns null when there is none,
+ * the stored response when the request was already carried out, or a claim the
+ * caller must pass to `completeIdempotentRequest` or `releaseIdempotentRequest`.
+ * Throws 409 if the key was used for a different request or its first request
+ * is still running.
+ */
+export async function beginIdempotentRequest(
+	event: RequestEvent,
+	userId: string
+): Promise<IdempotencyClaim | Response | null> {
+	const key = event.request.headers.get(IDEMPOTENCY_HEADER);
+	if (key === null || IGNORED_METHODS.includes(event.request.method)) {
+		return null;
+	}
+
+	if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+		error(400, {
+			message: `${IDEMPOTENCY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters`,
+			code: 'INVALID_IDEMPOTENCY_KEY'
+		});
+	}
+
+	const fields = {
+		method: event.request.method,
+		path: event.url.pathname,
+		request_hash: await fingerprintRequest(event.request)
+	};
+
+	const now = new Date();
+	const { data: claim, error: insertError } = await supabaseAdmin
+		.from('idempotency_keys')
+		.insert([
+			{
+				user_id: userId,
+				key,
+				...fields,
+				locked_at: now.toISOString(),
+				expires_at: new Date(now.getTime() + KEY_TTL_MS).toISOString()
+			}
+		])
+		.select('id, locked_at')
+		.single();
+
+	if (!insertError) return claim;
+	if (insertError.code !== '23505') {
+		// Anything but the key being taken
+		throw new Error(`Failed to store idempotency key: ${insertError.message}`);
+	}
+
+	const { data: record, error: fetchError } = await supabaseAdmin
+		.from('idempotency_keys')
+		.select('*')
+		.eq('user_id', userId)
+		.eq('key', key)
+		.single();
+
+	if (fetchError) {
+		throw new Error(`Failed to get idempotency key: ${fetchError.message}`);
+	}
+
+	const existing = record as IdempotencyRecord;
+	const expired = new Date(existing.expires_at) < now;
+
+	if (!expired && existing.request_hash !== fields.request_hash) {
+		error(409, {
+			message: `${IDEMPOTENCY_HEADER} was already used for a different request`,
+			code: 'IDEMPOTENCY_KEY_MISMATCH'
+		});
+	}
+
+	if (!expired && existing.status === 'completed') {
+		return replayResponse(existing);
+	}
+
+	const stale = expired || new Date(existing.locked_at).getTime() + LOCK_MS < now.getTime();
+	const reclaimed = stale ? await reclaim(existing, fields) : null;
+	if (!reclaimed) {
+		error(409, {
+			message: `A request with this ${IDEMPOTENCY_HEADER} is still being processed`,
+			code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+		});
+	}
+
+	return reclaimed;
+}
+
+/**
+ * Store the response to a claimed request so retries get it too. Storing is
+ * best effort: the response has been produced either way.
+ */
+export async function completeIdempotentRequest(
+	claim: IdempotencyClaim,
+	response: Response
+): Promise<void> {
+	try {
+		const { error: updateError } = await supabaseAdmin
+			.from('idempotency_keys')
+			.update({
+				status: 'completed',
+				response_status: response.status,
+				response_body: await response.clone().text(),
+				response_content_type: response.headers.get('content-type')
+			})
+			.eq('id', claim.id)
+			.eq('locked_at', claim.locked_at);
+
+		if (updateError) {
+			throw new Error(updateError.message);
+		}
+	} catch (err) {
+		console.error('Failed to store idempotent response:', err);
+	}
+}
+
+/**
+ * Give a key back after its request failed, so the request can be retried
+ * with the same key
+ */
+export async function releaseIdempotentRequest(claim: IdempotencyClaim): Promise<void> {
+	const { error: deleteError } = await supabaseAdmin
+		.from('idempotency_keys')
+		.delete()
+		.eq('id', claim.id)
+		.eq('locked_at', claim.locked_at);
+
+	if (deleteError) {
+		console.error('Failed to release idempotency key:', deleteError);
+	}
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+	checkModelRestrictions,
+	checkRequestRestrictions,
+	findLooserRestrictions,
+	hostMatchesOrigin,
+	ipMatchesRange,
+	modelMatchesPattern,
+	normalizeRestrictionList,
+	validateKeyRestrictions,
+	type KeyRestrictions
+} from './key-restrictions.js';
+
+const none: KeyRestrictions = { allowed_ips: null, allowed_origins: null, allowed_models: null };
+
+describe('Key Restrictions', () => {
+	it('should match IPv4 and IPv6 addresses against CIDR ranges', () => {
+		expect(ipMatchesRange('198.51.100.42', '198.51.100.0/24')).toBe(true);
+		expect(ipMatchesRange('198.51.101.1', '198.51.100.0/24')).toBe(false);
+		expect(ipMatchesRange('203.0.113.7', '203.0.113.7')).toBe(true);
+		expect(ipMatchesRange('10.1.2.3', '0.0.0.0/0')).toBe(true);
+		expect(ipMatchesRange('2001:db8::1', '2001:db8::/32')).toBe(true);
+		expect(ipMatchesRange('2001:db9::1', '2001:db8::/32')).toBe(false);
+		expect(ipMatchesRange('::ffff:198.51.100.42', '198.51.100.0/24')).toBe(true);
+		expect(ipMatchesRange('198.51.100.42', '2001:db8::/32')).toBe(false);
+		expect(ipMatchesRange('not-an-ip', '0.0.0.0/0')).toBe(false);
+	});
+
+	it('should match hosts against allowed origins', () => {
+		expect(hostMatchesOrigin('app.example.com', 'app.example.com')).toBe(true);
+		expect(hostMatchesOrigin('app.example.com', 'https://app.example.com/')).toBe(true);
+		expect(hostMatchesOrigin('api.example.com', '*.example.com')).toBe(true);
+		expect(hostMatchesOrigin('example.com', '*.example.com')).toBe(false);
+		expect(hostMatchesOrigin('evilexample.com', '*.example.com')).toBe(false);
+		expect(hostMatchesOrigin('localhost:5173', 'localhost')).toBe(true);
+		expect(hostMatchesOrigin('localhost:3000', 'localhost:5173')).toBe(false);
+	});
+
+	it('should match models against wildcard patterns', () => {
+		expect(modelMatchesPattern('openai/gpt-4o', 'openai/*')).toBe(true);
+		expect(modelMatchesPattern('anthropic/claude-3.5-sonnet', 'openai/*')).toBe(false);
+		expect(modelMatchesPattern('moonshotai/kimi-k2:free', '*:free')).toBe(true);
+		expect(modelMatchesPattern('openai/gpt-4o', 'openai/gpt.4o')).toBe(false);
+	});
+
+	it('should reject requests from outside the allowed IPs and origins', () => {
+		const restrictions = {
+			...none,
+			allowed_ips: ['198.51.100.0/24'],
+			allowed_origins: ['*.example.com']
+		};
+
+		expect(
+			checkRequestRestrictions(restrictions, {
+				ip: '198.51.100.7',
+				origin: 'https://app.example.com',
+				referer: null
+			})
+		).toBeNull();
+		expect(
+			checkRequestRestrictions(restrictions, {
+				ip: '192.0.2.1',
+				origin: 'https://app.example.com',
+				referer: null
+			})?.code
+		).toBe('IP_NOT_ALLOWED');
+		expect(
+			checkRequestRestrictions(restrictions, {
+				ip: '198.51.100.7',
+				origin: null,
+				referer: 'https://app.example.com/page'
+			})
+		).toBeNull();
+		expect(
+			checkRequestRestrictions(restrictions, { ip: '198.51.100.7', origin: null, referer: null })
+				?.code
+		).toBe('ORIGIN_NOT_ALLOWED');
+		expect(checkRequestRestrictions(none, { ip: null, origin: null, referer: null })).toBeNull();
+	});
+
+	it('should reject models outside the allowlist, naming them', () => {
+		const restrictions = { ...none, allowed_models: ['openai/*'] };
+
+		expect(
+			checkModelRestrictions(restrictions, ['openai/gpt-4o', 'openai/gpt-4o-mini'])
+		).toBeNull();
+		expect(checkModelRestrictions(restrictions, ['openai/gpt-4o', 'x-ai/grok-2'])).toEqual({
+			code: 'MODEL_NOT_ALLOWED',
+			message: 'Model not allowed for this API key: x-ai/grok-2'
+		});
+	});
+
+	it('should validate and tidy restriction settings', () => {
+		expect(
+			validateKeyRestrictions({
+				allowed_ips: ['203.0.113.7', '2001:db8::/48'],
+				allowed_origins: ['https://app.example.com', '*.example.com', 'localhost:5173'],
+				allowed_models: null
+			})
+		).toBeNull();
+		expect(validateKeyRestrictions({ allowed_ips: ['198.51.100.0/33'] })).toContain('allowed_ips');
+		expect(validateKeyRestrictions({ allowed_origins: ['exa mple.com'] })).toContain(
+			'allowed_origins'
+		);
+		expect(validateKeyRestrictions({ allowed_models: 'openai/*' })).toContain('must be an array');
+
+		expect(normalizeRestrictionList([' openai/* ', '', 'openai/*'])).toEqual(['openai/*']);
+		expect(normalizeRestrictionList([])).toBeNull();
+	});
+
+	it('should find restrictions looser than a limit', () => {
+		const limit: KeyRestrictions = {
+			allowed_ips: ['198.51.100.0/24'],
+			allowed_origins: ['*.example.com'],
+			allowed_models: ['openai/*']
+		};
+
+		expect(findLooserRestrictions(none, none)).toEqual([]);
+		expect(
+			findLooserRestrictions(limit, {
+				allowed_ips: ['198.51.100.7', '198.51.100.128/25'],
+				allowed_origins: ['app.example.com', 'https://*.api.example.com:8443'],
+				allowed_models: ['openai/gpt-4o*']
+			})
+		).toEqual([]);
+		expect(findLooserRestrictions(limit, none)).toEqual([
+			'allowed_ips',
+			'allowed_origins',
+			'allowed_models'
+		]);
+		expect(
+			findLooserRestrictions(limit, {
+				allowed_ips: ['198.51.0.0/16'],
+				allowed_origins: ['example.com'],
+				allowed_models: ['*']
+			})
+		).toEqual(['allowed_ips', 'allowed_origins', 'allowed_models']);
+		expect(findLooserRestrictions(limit, { ...limit, allowed_ips: [] })).toEqual(['allowed_ips']);
+	});
+});
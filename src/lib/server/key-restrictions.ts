@@ -0,0 +1,297 @@
+const MAX_RESTRICTION_ENTRIES = 100;
+
+/**
+ * Optional limits on where and how an API key can be used. `null` (or an empty
+ * list) means no restriction.
+ */
+export interface KeyRestrictions {
+	allowed_ips: string[] | null; // IP addresses or CIDR ranges, e.g. "203.0.113.0/24"
+	allowed_origins: string[] | null; // Hosts requests must come from, e.g. "app.example.com" or "*.example.com"
+	allowed_models: string[] | null; // Model ID patterns, e.g. "openai/*"
+}
+
+export type RestrictionErrorCode = 'IP_NOT_ALLOWED' | 'ORIGIN_NOT_ALLOWED' | 'MODEL_NOT_ALLOWED';
+
+export interface RestrictionRejection {
+	code: RestrictionErrorCode;
+	message: string;
+}
+
+export const RESTRICTION_ERROR_CODES: RestrictionErrorCode[] = [
+	'IP_NOT_ALLOWED',
+	'ORIGIN_NOT_ALLOWED',
+	'MODEL_NOT_ALLOWED'
+];
+
+interface ParsedIp {
+	version: 4 | 6;
+	value: bigint;
+}
+
+function parseIpv4(address: string): bigint | null {
+	const parts = address.split('.');
+	if (parts.length !== 4) return null;
+
+	let value = 0n;
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+		value = (value << 8n) | BigInt(part);
+	}
+	return value;
+}
+
+function parseIpv6(address: string): bigint | null {
+	let groups = address.split('::');
+	if (groups.length > 2) return null;
+
+	const toWords = (part: string): string[] | null => {
+		if (part === '') return [];
+		const words = part.split(':');
+		const last = words[words.length - 1];
+
+		// An embedded IPv4 address, e.g. "::ffff:192.0.2.1"
+		if (last.includes('.')) {
+			const ipv4 = parseIpv4(last);
+			if (ipv4 === null) return null;
+			words.splice(-1, 1, (ipv4 >> 16n).toString(16), (ipv4 & 0xffffn).toString(16));
+		}
+		return words.every((word) => /^[0-9a-f]{1,4}$/i.test(word)) ? words : null;
+	};
+
+	const head = toWords(groups[0]);
+	const tail = groups.length === 2 ? toWords(groups[1]) : [];
+	if (!head || !tail) return null;
+
+	const missing = 8 - head.length - tail.length;
+	if (groups.length === 2 ? missing < 1 : missing !== 0) return null;
+	groups = [...head, ...Array(groups.length === 2 ? missing : 0).fill('0'), ...tail];
+
+	return groups.reduce((value, word) => (value << 16n) | BigInt(parseInt(word, 16)), 0n);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+export function parseIp(address: string): ParsedIp | null {
+	const trimmed = address
+		.trim()
+		.replace(/^\[|\]$/g, '')
+		.split('%')[0];
+
+	const ipv4 = parseIpv4(trimmed);
+	if (ipv4 !== null) return { version: 4, value: ipv4 };
+
+	const ipv6 = parseIpv6(trimmed);
+	if (ipv6 === null) return null;
+	if (ipv6 >> 32n === 0xffffn) return { version: 4, value: ipv6 & 0xffffffffn };
+	return { version: 6, value: ipv6 };
+}
+
+function parseCidr(range: string): { network: ParsedIp; prefix: number } | null {
+	const [address, prefixText, ...rest] = range.trim().split('/');
+	if (rest.length > 0) return null;
+
+	const network = parseIp(address);
+	if (!network) return null;
+
+	const bits = network.version === 4 ? 32 : 128;
+	if (prefixText === undefined) return { network, prefix: bits };
+	if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) return null;
+
+	return { network, prefix: Number(prefixText) };
+}
+
+/**
+ * Check an address against an IP address or CIDR range
+ */
+export function ipMatchesRange(address: string, range: string): boolean {
+	const ip = parseIp(address);
+	const cidr = parseCidr(range);
+	if (!ip || !cidr || ip.version !== cidr.network.version) return false;
+
+	const shift = BigInt((ip.version === 4 ? 32 : 128) - cidr.prefix);
+	return ip.value >> shift === cidr.network.value >> shift;
+}
+
+/**
+ * Reduce an allowed origin to the host pattern it stands for, so both
+ * "https://app.example.com" and "app.example.com" are accepted
+ */
+function toHostPattern(origin: string): string {
+	return origin
+		.trim()
+		.toLowerCase()
+		.replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+		.replace(/\/.*$/, '');
+}
+
+const HOST_PATTERN = /^(\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+(:\d{1,5})?$/;
+
+/**
+ * Check a request's host against an allowed origin. "*.example.com" matches
+ * subdomains of example.com; a pattern without a port matches any port.
+ */
+export function hostMatchesOrigin(host: string, origin: string): boolean {
+	const pattern = toHostPattern(origin);
+	const [patternName, patternPort] = pattern.split(':');
+	const [hostName, hostPort] = host.toLowerCase().split(':');
+
+	if (patternPort !== undefined && patternPort !== (hostPort ?? '')) return false;
+
+	return patternName.startsWith('*.')
+		? hostName.endsWith(patternName.slice(1))
+		: hostName === patternName;
+}
+
+/**
+ * Match a model ID against a pattern where `*` matches any run of characters,
+ * e.g. "openai/*" or "*:free"
+ */
+export function modelMatchesPattern(model: string, pattern: string): boolean {
+	const regex = pattern
+		.trim()
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${regex}$`).test(model);
+}
+
+function hostOf(url: string | null): string | null {
+	if (!url) return null;
+	try {
+		return new URL(url).host || null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check where a request comes from against a key's IP and origin restrictions.
+ * The origin is taken from the `Origin` header, or else the `Referer` header.
+ */
+export function checkRequestRestrictions(
+	restrictions: KeyRestrictions,
+	request: { ip: string | null; origin: string | null; referer: string | null }
+): RestrictionRejection | null {
+	if (restrictions.allowed_ips?.length) {
+		const { ip } = request;
+		if (!ip || !restrictions.allowed_ips.some((range) => ipMatchesRange(ip, range))) {
+			return {
+				code: 'IP_NOT_ALLOWED',
+				message: `Requests from ${ip || 'this address'} are not allowed for this API key`
+			};
+		}
+	}
+
+	if (restrictions.allowed_origins?.length) {
+		const host = hostOf(request.origin) ?? hostOf(request.referer);
+		if (!host || !restrictions.allowed_origins.some((origin) => hostMatchesOrigin(host, origin))) {
+			return {
+				code: 'ORIGIN_NOT_ALLOWED',
+				message: host
+					? `Requests from origin ${host} are not allowed for this API key`
+					: 'This API key only accepts requests with an allowed Origin or Referer'
+			};
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check the models a request would use against a key's model restrictions
+ */
+export function checkModelRestrictions(
+	restrictions: KeyRestrictions,
+	models: string[]
+): RestrictionRejection | null {
+	if (!restrictions.allowed_models?.length) return null;
+
+	const patterns = restrictions.allowed_models;
+	const denied = models.filter(
+		(model) => !patterns.some((pattern) => modelMatchesPattern(model, pattern))
+	);
+	if (denied.length === 0) return null;
+
+	return {
+		code: 'MODEL_NOT_ALLOWED',
+		message: `Model not allowed for this API key: ${denied.join(', ')}`
+	};
+}
+
+/**
+ * Check restriction settings from a request body. Returns an error message, or
+ * null when they are valid.
+ */
+export function validateKeyRestrictions(settings: Record<string, unknown>): string | null {
+	const validators: Record<keyof KeyRestrictions, [(entry: string) => boolean, string]> = {
+		allowed_ips: [(entry) => parseCidr(entry) !== null, 'an IP address or CIDR range'],
+		allowed_origins: [(entry) => HOST_PATTERN.test(toHostPattern(entry)), 'a host name'],
+		allowed_models: [(entry) => entry.trim().length > 0, 'a model ID pattern']
+	};
+
+	for (const [field, [isValid, description]] of Object.entries(validators)) {
+		const value = settings[field];
+		if (value === undefined || value === null) continue;
+
+		if (!Array.isArray(value) || value.length > MAX_RESTRICTION_ENTRIES) {
+			return `${field} must be an array of up to ${MAX_RESTRICTION_ENTRIES} entries or null`;
+		}
+
+		const invalid = value.find((entry) => typeof entry !== 'string' || !isValid(entry));
+		if (invalid !== undefined) {
+			return `${field} entry ${JSON.stringify(invalid)} is not ${description}`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check that an allow-list entry only allows what one of `allowed` does: an IP
+ * range inside an allowed range, an origin an allowed origin matches, or a
+ * model pattern an allowed pattern matches
+ */
+const ENTRY_COVERED: Record<keyof KeyRestrictions, (entry: string, allowed: string) => boolean> = {
+	allowed_ips: (entry, allowed) => {
+		const inner = parseCidr(entry);
+		const outer = parseCidr(allowed);
+		return (
+			!!inner &&
+			!!outer &&
+			inner.prefix >= outer.prefix &&
+			ipMatchesRange(entry.split('/')[0], allowed)
+		);
+	},
+	allowed_origins: (entry, allowed) => hostMatchesOrigin(toHostPattern(entry), allowed),
+	allowed_models: (entry, allowed) => modelMatchesPattern(entry.trim(), allowed)
+};
+
+/**
+ * Restrictions in `requested` that are looser than `limit`'s, so a key can't
+ * make a key, itself included, usable where it isn't: an unrestricted list
+ * where `limit` has one, or entries `limit`'s list doesn't cover
+ */
+export function findLooserRestrictions(
+	limit: KeyRestrictions,
+	requested: KeyRestrictions
+): (keyof KeyRestrictions)[] {
+	return (Object.keys(ENTRY_COVERED) as (keyof KeyRestrictions)[]).filter((field) => {
+		const allowed = limit[field];
+		if (!allowed?.length) return false;
+
+		const entries = requested[field];
+		return (
+			!entries?.length ||
+			!entries.every((entry) => allowed.some((range) => ENTRY_COVERED[field](entry, range)))
+		);
+	});
+}
+
+/**
+ * Tidy a restriction list for storage. Empty lists become null (no restriction).
+ */
+export function normalizeRestrictionList(list: string[] | null | undefined): string[] | null {
+	const entries = (list || []).map((entry) => entry.trim()).filter(Boolean);
+	return entries.length > 0 ? [...new Set(entries)] : null;
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+	backoffDelay,
+	buildModelChain,
+	callWithFallback,
+	classifyError,
+	getCircuitState,
+	isUpstreamFailure,
+	resetCircuits,
+	resolveRetryPolicy
+} from './llm-fallback.js';
+import { getMockRequests, queueMockResponses, resetMockProvider } from './llm-mock-provider.js';
+import { createCompletion, createRoutedCompletionStream } from './llm.js';
+import { getProvider, providerApiError } from './llm-providers.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: {
+		LLM_RETRY_BASE_DELAY_MS: '0',
+		LLM_CIRCUIT_FAILURE_THRESHOLD: '3',
+		LLM_CIRCUIT_COOLDOWN_MS: '60000'
+	}
+}));
+
+global.fetch = vi.fn();
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('LLM Fallback', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+		resetCircuits();
+	});
+
+	it('should report the first model when it answers', async () => {
+		const response = await createCompletion({
+			model: 'mock/echo',
+			fallback_models: ['mock/json'],
+			messages
+		});
+
+		expect(response.choices[0].message.content).toBe('Hello');
+		expect(response.routing).toMatchObject({
+			model_used: 'mock/echo',
+			attempts: 1,
+			fallback_used: false
+		});
+	});
+
+	it('should retry transient errors and then fall back to the next model', async () => {
+		const response = await createCompletion({
+			model: 'mock/error-503',
+			fallback_models: ['mock/echo'],
+			max_retries: 1,
+			messages
+		});
+
+		expect(response.choices[0].message.content).toBe('Hello');
+		expect(response.routing?.model_used).toBe('mock/echo');
+		expect(response.routing?.fallback_used).toBe(true);
+		expect(response.routing?.attempts).toBe(3);
+		expect(response.routing?.attempted.map((a) => [a.model, a.status])).toEqual([
+			['mock/error-503', 503],
+			['mock/error-503', 503],
+			['mock/echo', undefined]
+		]);
+	});
+
+	it('should not try other models after a client error', async () => {
+		queueMockResponses({ error: { status: 400 } });
+
+		await expect(
+			createCompletion({ model: 'mock/echo', fallback_models: ['mock/json'], messages })
+		).rejects.toThrow('Mock API error: 400');
+		expect(getMockRequests()).toHaveLength(1);
+	});
+
+	it('should throw the last error when every model fails', async () => {
+		await expect(
+			createCompletion({
+				model: 'mock/error-500',
+				fallback_models: ['mock/rate-limit'],
+				max_retries: 0,
+				messages
+			})
+		).rejects.toThrow('Mock API error: 429');
+	});
+
+	it('should open the circuit after repeated failures and skip the model', async () => {
+		await createCompletion({
+			model: 'mock/error-502',
+			fallback_models: ['mock/echo'],
+			max_retries: 2,
+			messages
+		});
+		expect(getCircuitState('mock/error-502')).toBe('open');
+
+		const response = await createCompletion({
+			model: 'mock/error-502',
+			fallback_models: ['mock/echo'],
+			messages
+		});
+
+		expect(response.routing?.attempted[0]).toMatchObject({
+			model: 'mock/error-502',
+			skipped: true
+		});
+		expect(response.routing?.attempts).toBe(1);
+		expect(getMockRequests()).toHaveLength(5);
+	});
+
+	it('should only count upstream failures against the circuit', async () => {
+		const mock = getProvider('mock')!;
+		for (const status of [429, 404]) {
+			const failing = vi.fn().mockRejectedValue(providerApiError(mock, status, ''));
+			await callWithFallback(['model-c'], failing, { maxRetries: 3 }).catch(() => {});
+		}
+		await callWithFallback(['model-c'], async () => {
+			throw new Error('No API key provided');
+		}).catch(() => {});
+
+		expect(getCircuitState('model-c')).toBe('closed');
+	});
+
+	it("should leave circuits alone for requests made with the caller's key", async () => {
+		const failing = vi.fn().mockRejectedValue(providerApiError(getProvider('mock')!, 503, ''));
+		await callWithFallback(['model-d'], failing, { maxRetries: 3, circuit: false }).catch(() => {});
+		expect(getCircuitState('model-d')).toBe('closed');
+
+		await callWithFallback(['model-d'], failing, { maxRetries: 3 }).catch(() => {});
+		expect(getCircuitState('model-d')).toBe('open');
+
+		const { routing } = await callWithFallback(['model-d'], async () => 'ok', { circuit: false });
+		expect(routing.model_used).toBe('model-d');
+		expect(getCircuitState('model-d')).toBe('open');
+	});
+
+	it('should let one trial through once the cooldown has passed', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		try {
+			const failing = vi
+				.fn()
+				.mockRejectedValue(providerApiError(getProvider('mock')!, 503, 'Unavailable'));
+			await expect(callWithFallback(['model-a'], failing, { maxRetries: 2 })).rejects.toThrow();
+			expect(getCircuitState('model-a')).toBe('open');
+
+			vi.advanceTimersByTime(60000);
+			expect(getCircuitState('model-a')).toBe('half_open');
+
+			const { routing } = await callWithFallback(['model-a'], async () => 'ok');
+			expect(routing.model_used).toBe('model-a');
+			expect(getCircuitState('model-a')).toBe('closed');
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('should fail with a 503 when every model is skipped', async () => {
+		const failing = vi.fn().mockRejectedValue(providerApiError(getProvider('mock')!, 500, 'Down'));
+		await callWithFallback(['model-b'], failing, { maxRetries: 2 }).catch(() => {});
+
+		await expect(callWithFallback(['model-b'], async () => 'ok')).rejects.toMatchObject({
+			status: 503
+		});
+	});
+
+	it('should route streams through the fallback chain', async () => {
+		const { routing } = await createRoutedCompletionStream({
+			model: 'mock/error-404',
+			fallback_models: ['mock/echo'],
+			messages
+		});
+
+		expect(routing.model_used).toBe('mock/echo');
+		expect(routing.attempts).toBe(2);
+	});
+
+	it('should classify errors', () => {
+		const mock = getProvider('mock')!;
+
+		expect(classifyError(providerApiError(mock, 429, ''))).toBe('retry');
+		expect(classifyError(providerApiError(mock, 529, ''))).toBe('retry');
+		expect(classifyError(providerApiError(mock, 404, ''))).toBe('fallback');
+		expect(classifyError(providerApiError(mock, 401, ''))).toBe('fatal');
+		expect(classifyError(new TypeError('fetch failed'))).toBe('retry');
+		expect(classifyError(new Error('No API key provided'))).toBe('fallback');
+
+		expect(isUpstreamFailure(providerApiError(mock, 502, ''))).toBe(true);
+		expect(isUpstreamFailure(providerApiError(mock, 429, ''))).toBe(false);
+		expect(isUpstreamFailure(new TypeError('fetch failed'))).toBe(true);
+		expect(isUpstreamFailure(new Error('No API key provided'))).toBe(false);
+	});
+
+	it('should parse Retry-After into the error', () => {
+		const error = providerApiError(getProvider('mock')!, 429, '', '2');
+		expect(error.retryAfterMs).toBe(2000);
+	});
+
+	it('should grow the backoff delay exponentially up to the maximum', () => {
+		const policy = { maxRetries: 5, baseDelayMs: 500, maxDelayMs: 8000 };
+		const maxJitter = () => 0.999999;
+
+		expect(backoffDelay(1, policy, maxJitter)).toBe(499);
+		expect(backoffDelay(3, policy, maxJitter)).toBe(1999);
+		expect(backoffDelay(10, policy, maxJitter)).toBe(7999);
+		expect(backoffDelay(3, policy, () => 0)).toBe(0);
+	});
+
+	it('should build a de-duplicated model chain and cap retries', () => {
+		expect(buildModelChain('a', ['b', 'a', '', 'c'])).toEqual(['a', 'b', 'c']);
+		expect(resolveRetryPolicy().maxRetries).toBe(2);
+		expect(resolveRetryPolicy(50).maxRetries).toBe(5);
+	});
+});
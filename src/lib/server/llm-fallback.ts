@@ -0,0 +1,285 @@
+import { env } from '$env/dynamic/private';
+import { isProviderApiError, type ProviderApiError } from './llm-providers.js';
+
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_RETRIES_LIMIT = 5;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+/**
+ * One call made while routing a request through its fallback chain
+ */
+export interface RoutingAttempt {
+	model: string;
+	attempt: number; // Attempt number for this model, starting at 1
+	status?: number; // Upstream status code when the call failed
+	error?: string;
+	skipped?: boolean; // The model's circuit was open, so no call was made
+	duration_ms: number;
+}
+
+/**
+ * Which model answered a request and how it got there
+ */
+export interface RoutingInfo {
+	model_used: string;
+	attempts: number; // Calls made across all models, including the successful one
+	fallback_used: boolean;
+	attempted: RoutingAttempt[];
+}
+
+export interface RetryPolicy {
+	maxRetries: number; // Retries per model, on top of the first call
+	baseDelayMs: number;
+	maxDelayMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+	failures: number; // Consecutive failures
+	openedAt: number | null;
+	trialInFlight: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+
+function envInt(value: string | undefined, fallback: number): number {
+	const parsed = parseInt(value || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Resolve the retry policy, falling back to the `LLM_MAX_RETRIES` and
+ * `LLM_RETRY_*` environment variables
+ */
+export function resolveRetryPolicy(maxRetries?: number): RetryPolicy {
+	const retries =
+		maxRetries !== undefined && maxRetries >= 0
+			? maxRetries
+			: envInt(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES);
+
+	return {
+		maxRetries: Math.min(Math.floor(retries), MAX_RETRIES_LIMIT),
+		baseDelayMs: envInt(env.LLM_RETRY_BASE_DELAY_MS, DEFAULT_BASE_DELAY_MS),
+		maxDelayMs: envInt(env.LLM_RETRY_MAX_DELAY_MS, DEFAULT_MAX_DELAY_MS)
+	};
+}
+
+/**
+ * Delay before retry number `retry` (starting at 1), using exponential backoff
+ * with full jitter
+ */
+export function backoffDelay(
+	retry: number,
+	policy: RetryPolicy,
+	random: () => number = Math.random
+): number {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+	return Math.floor(random() * ceiling);
+}
+
+/**
+ * Decide what to do after a failed call:
+ * - `retry` transient failures (rate limits, overload, 5xx, network errors) on the same model
+ * - `fallback` to the next model when this one can't serve the request (e.g. unknown model)
+ * - `fatal` when no model would do better (bad request, invalid credentials, out of credits)
+ */
+export function classifyError(err: unknown): 'retry' | 'fallback' | 'fatal' {
+	if (isProviderApiError(err)) {
+		const status = err.status;
+		if (status === 408 || status === 409 || status === 429 || status >= 500) return 'retry';
+		if (status === 404) return 'fallback';
+		return 'fatal';
+	}
+
+	// fetch rejects with a TypeError when the connection fails
+	if (err instanceof TypeError) return 'retry';
+
+	return 'fallback';
+}
+
+/**
+ * Whether a failure says the model is unhealthy: an upstream 5xx, a timeout or
+ * a network error. Rate limits, unknown models and the request's own errors
+ * don't count against the circuit.
+ */
+export function isUpstreamFailure(err: unknown): boolean {
+	if (isProviderApiError(err)) return err.status === 408 || err.status >= 500;
+
+	return (
+		err instanceof TypeError ||
+		(err instanceof Error && (err.name === 'TimeoutError' || err.name === 'AbortError'))
+	);
+}
+
+function circuitSettings() {
+	return {
+		threshold: envInt(env.LLM_CIRCUIT_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD) || 1,
+		cooldownMs: envInt(env.LLM_CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS)
+	};
+}
+
+/**
+ * Get the circuit breaker state for a model.
+ *
+ * A circuit opens after `LLM_CIRCUIT_FAILURE_THRESHOLD` consecutive failures and
+ * skips the model until `LLM_CIRCUIT_COOLDOWN_MS` has passed. It then lets one
+ * trial request through: success closes it, failure opens it again.
+ */
+export function getCircuitState(model: string): CircuitState {
+	const circuit = circuits.get(model);
+	if (!circuit || circuit.openedAt === null) return 'closed';
+
+	const { cooldownMs } = circuitSettings();
+	return Date.now() - circuit.openedAt >= cooldownMs ? 'half_open' : 'open';
+}
+
+/**
+ * Check whether a call to the model may go ahead, claiming the trial slot of a
+ * half-open circuit
+ */
+function acquireCircuit(model: string): boolean {
+	const state = getCircuitState(model);
+	if (state === 'closed') return true;
+	if (state === 'open') return false;
+
+	const circuit = circuits.get(model)!;
+	if (circuit.trialInFlight) return false;
+
+	circuit.trialInFlight = true;
+	return true;
+}
+
+/**
+ * Record a successful call, closing the model's circuit
+ */
+export function recordModelSuccess(model: string): void {
+	circuits.delete(model);
+}
+
+/**
+ * Let the next trial through after a call that said nothing about the model's health
+ */
+function releaseCircuit(model: string): void {
+	const circuit = circuits.get(model);
+	if (circuit) circuit.trialInFlight = false;
+}
+
+/**
+ * Record a failed call, opening the model's circuit once the threshold is reached
+ */
+export function recordModelFailure(model: string): void {
+	const circuit = circuits.get(model) || { failures: 0, openedAt: null, trialInFlight: false };
+	const wasTrial = circuit.trialInFlight;
+
+	circuit.failures++;
+	circuit.trialInFlight = false;
+	if (wasTrial || circuit.failures >= circuitSettings().threshold) {
+		circuit.openedAt = Date.now();
+	}
+
+	circuits.set(model, circuit);
+}
+
+/**
+ * Close every circuit. Intended for tests.
+ */
+export function resetCircuits(): void {
+	circuits.clear();
+}
+
+/**
+ * Build the ordered, de-duplicated list of models to try
+ */
+export function buildModelChain(model: string, fallbackModels: string[] = []): string[] {
+	return [...new Set([model, ...fallbackModels].filter(Boolean))];
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function allModelsUnavailable(models: string[]): ProviderApiError {
+	return Object.assign(
+		new Error(`Fallback API error: 503 All models are unavailable (${models.join(', ')})`),
+		{ status: 503, provider: 'fallback' }
+	);
+}
+
+/**
+ * Call each model in the chain until one succeeds, retrying transient failures
+ * with backoff and skipping models whose circuit is open.
+ *
+ * Circuits are shared by every request on the platform's keys, so set
+ * `circuit: false` for requests made with the caller's own key: they neither
+ * open circuits nor are held back by them.
+ *
+ * Fatal errors are thrown straight away. When every model fails, the last error
+ * is thrown; when every model was skipped, a 503 provider error is thrown.
+ */
+export async function callWithFallback<T>(
+	models: string[],
+	call: (model: string) => Promise<T>,
+	options: { maxRetries?: number; circuit?: boolean } = {}
+): Promise<{ result: T; routing: RoutingInfo }> {
+	const policy = resolveRetryPolicy(options.maxRetries);
+	const useCircuit = options.circuit !== false;
+	const attempted: RoutingAttempt[] = [];
+	let lastError: unknown;
+
+	for (const model of models) {
+		for (let attempt = 1; attempt <= policy.maxRetries + 1; attempt++) {
+			if (useCircuit && !acquireCircuit(model)) {
+				attempted.push({ model, attempt, skipped: true, duration_ms: 0 });
+				break;
+			}
+
+			const startTime = Date.now();
+			try {
+				const result = await call(model);
+				if (useCircuit) recordModelSuccess(model);
+				attempted.push({ model, attempt, duration_ms: Date.now() - startTime });
+
+				return {
+					result,
+					routing: {
+						model_used: model,
+						attempts: attempted.filter((a) => !a.skipped).length,
+						fallback_used: model !== models[0],
+						attempted
+					}
+				};
+			} catch (err) {
+				lastError = err;
+				const action = classifyError(err);
+				attempted.push({
+					model,
+					attempt,
+					status: isProviderApiError(err) ? err.status : undefined,
+					error: err instanceof Error ? err.message : String(err),
+					duration_ms: Date.now() - startTime
+				});
+
+				// A fatal error means the model answered and the request was at fault
+				if (useCircuit) {
+					if (isUpstreamFailure(err)) recordModelFailure(model);
+					else if (action === 'fatal') recordModelSuccess(model);
+					else releaseCircuit(model);
+				}
+
+				if (action === 'fatal') throw err;
+				if (action === 'fallback' || attempt > policy.maxRetries) break;
+
+				const retryAfter = isProviderApiError(err) ? err.retryAfterMs : undefined;
+				if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) break;
+
+				await sleep(Math.max(retryAfter ?? 0, backoffDelay(attempt, policy)));
+			}
+		}
+	}
+
+	throw lastError ?? allModelsUnavailable(models);
+}
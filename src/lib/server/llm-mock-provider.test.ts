@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+	getMockRequests,
+	queueMockResponses,
+	resetMockProvider,
+	sampleFromSchema
+} from './llm-mock-provider.js';
+import {
+	accumulateToolCalls,
+	createCompletion,
+	createCompletionStream,
+	parseStreamResponse,
+	type ToolCall
+} from './llm.js';
+import { isProviderApiError } from './llm-providers.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: { LLM_RETRY_BASE_DELAY_MS: '0' }
+}));
+
+global.fetch = vi.fn();
+
+describe('Mock LLM Provider', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockProvider();
+	});
+
+	it('should echo the last user message without calling fetch', async () => {
+		const response = await createCompletion({
+			model: 'mock/echo',
+			messages: [
+				{ role: 'system', content: 'Be helpful.' },
+				{ role: 'user', content: 'Hello there' }
+			]
+		});
+
+		expect(fetch).not.toHaveBeenCalled();
+		expect(response.provider).toBe('mock');
+		expect(response.choices[0].message.content).toBe('Hello there');
+		expect(response.usage.prompt_tokens).toBeGreaterThan(0);
+		expect(response.usage.total_tokens).toBe(
+			response.usage.prompt_tokens + response.usage.completion_tokens
+		);
+		expect(getMockRequests()).toHaveLength(1);
+	});
+
+	it('should return scripted responses in order', async () => {
+		queueMockResponses({ content: 'First' }, { content: 'Second', finish_reason: 'length' });
+
+		const messages = [{ role: 'user' as const, content: 'Hi' }];
+		const first = await createCompletion({ model: 'mock/echo', messages });
+		const second = await createCompletion({ model: 'mock/echo', messages });
+		const third = await createCompletion({ model: 'mock/echo', messages });
+
+		expect(first.choices[0].message.content).toBe('First');
+		expect(second.choices[0].finish_reason).toBe('length');
+		expect(third.choices[0].message.content).toBe('Hi');
+	});
+
+	it('should stream word deltas followed by a usage chunk', async () => {
+		const stream = await createCompletionStream({
+			model: 'mock/echo',
+			messages: [{ role: 'user', content: 'one two three' }]
+		});
+
+		const chunks = [];
+		for await (const chunk of parseStreamResponse(stream)) {
+			chunks.push(chunk);
+		}
+
+		const text = chunks.map((c) => c.choices[0].delta.content || '').join('');
+		const last = chunks[chunks.length - 1];
+
+		expect(chunks[0].choices[0].delta.role).toBe('assistant');
+		expect(text).toBe('one two three');
+		expect(chunks.length).toBe(5);
+		expect(last.choices[0].finish_reason).toBe('stop');
+		expect(last.usage?.completion_tokens).toBeGreaterThan(0);
+	});
+
+	it('should simulate upstream errors and rate limits', async () => {
+		const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+		await expect(createCompletion({ model: 'mock/error-503', messages })).rejects.toThrow(
+			'Mock API error: 503'
+		);
+		await expect(createCompletion({ model: 'mock/rate-limit', messages })).rejects.toThrow(
+			'Mock API error: 429'
+		);
+
+		queueMockResponses({ error: { status: 500 } });
+		const promise = createCompletion({ model: 'mock/echo', messages, max_retries: 0 });
+		await expect(promise).rejects.toThrow('Mock API error: 500');
+		await promise.catch((err) => expect(isProviderApiError(err)).toBe(true));
+	});
+
+	it('should stream scripted tool calls', async () => {
+		queueMockResponses({ tool_calls: [{ name: 'calculator', arguments: { expression: '2*3' } }] });
+
+		const stream = await createCompletionStream({
+			model: 'mock/echo',
+			messages: [{ role: 'user', content: 'What is 2*3?' }]
+		});
+
+		const toolCalls: ToolCall[] = [];
+		let finishReason: string | null = null;
+		for await (const chunk of parseStreamResponse(stream)) {
+			accumulateToolCalls(toolCalls, chunk.choices[0].delta.tool_calls);
+			finishReason = chunk.choices[0].finish_reason || finishReason;
+		}
+
+		expect(finishReason).toBe('tool_calls');
+		expect(toolCalls).toEqual([
+			{
+				id: 'call_mock_1_0',
+				type: 'function',
+				function: { name: 'calculator', arguments: '{"expression":"2*3"}' }
+			}
+		]);
+	});
+
+	it('should answer schema instructions with matching JSON', async () => {
+		const schema = {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				age: { type: 'integer', minimum: 18 },
+				tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } }
+			},
+			required: ['name', 'age']
+		};
+
+		const response = await createCompletion({
+			model: 'mock/echo',
+			messages: [
+				{
+					role: 'system',
+					content: `You must respond with valid JSON that matches the following schema:\n\n${JSON.stringify(schema, null, 2)}\n\nIMPORTANT: Respond only with JSON.`
+				},
+				{ role: 'user', content: 'Describe someone' }
+			]
+		});
+
+		expect(JSON.parse(response.choices[0].message.content as string)).toEqual({
+			name: 'sample',
+			age: 18,
+			tags: ['a']
+		});
+	});
+
+	it('should generate values that respect formats and constraints', () => {
+		expect(sampleFromSchema({ type: 'string', format: 'email' })).toBe('user@example.com');
+		expect(sampleFromSchema({ type: 'string', minLength: 10 })).toHaveLength(10);
+		expect(sampleFromSchema({ type: 'string', maxLength: 3 })).toBe('sam');
+		expect(sampleFromSchema({ anyOf: [{ type: 'boolean' }, { type: 'string' }] })).toBe(false);
+		expect(sampleFromSchema({ type: 'array', items: { type: 'number' }, minItems: 2 })).toEqual([
+			0, 0
+		]);
+	});
+});
@@ -0,0 +1,419 @@
+import { env } from '$env/dynamic/private';
+import { dev } from '$app/environment';
+import {
+	providerApiError,
+	registerProvider,
+	toSSEStream,
+	type LLMProvider
+} from './llm-providers.js';
+import type {
+	ChatMessage,
+	CompletionRequest,
+	CompletionResponse,
+	CompletionUsage,
+	ModelMetadata,
+	StreamChunk,
+	ToolCall
+} from './llm.js';
+
+/**
+ * A scripted reply for the mock provider. Scripted replies are consumed in
+ * order before falling back to the behaviour selected by the model ID.
+ */
+export interface MockResponse {
+	content?: string;
+	tool_calls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+	error?: { status: number; message?: string };
+	latency_ms?: number;
+	finish_reason?: string;
+}
+
+/**
+ * Behaviours selected by the model ID, e.g. `mock/echo` or `mock/error-503`
+ */
+const MOCK_MODELS: Array<{ id: string; name: string; description: string }> = [
+	{ id: 'echo', name: 'Mock Echo', description: 'Echoes the last user message back' },
+	{ id: 'json', name: 'Mock JSON', description: 'Returns sample JSON matching the schema' },
+	{ id: 'slow', name: 'Mock Slow', description: 'Echoes with simulated network latency' },
+	{ id: 'error', name: 'Mock Error', description: 'Fails with a 500 error (use error-<status>)' },
+	{ id: 'rate-limit', name: 'Mock Rate Limit', description: 'Fails with a 429 error' }
+];
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonSchema = Record<string, any>;
+
+const SLOW_LATENCY_MS = 1500;
+const STREAM_CHUNK_DELAY_MS = 20;
+
+const scriptedResponses: MockResponse[] = [];
+const recordedRequests: CompletionRequest[] = [];
+let completionCounter = 0;
+
+/**
+ * Queue scripted replies, consumed one per completion
+ */
+export function queueMockResponses(...responses: MockResponse[]): void {
+	scriptedResponses.push(...responses);
+}
+
+/**
+ * Get every request the mock provider has received since the last reset
+ */
+export function getMockRequests(): CompletionRequest[] {
+	return [...recordedRequests];
+}
+
+/**
+ * Clear scripted replies and recorded requests
+ */
+export function resetMockProvider(): void {
+	scriptedResponses.length = 0;
+	recordedRequests.length = 0;
+	completionCounter = 0;
+}
+
+/**
+ * Check whether every completion should be served by the mock provider
+ */
+export function isMockMode(): boolean {
+	return env.LLM_MOCK === 'true';
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function countTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function contentToText(content: ChatMessage['content']): string {
+	if (typeof content === 'string' || content === null) {
+		return content || '';
+	}
+
+	return content
+		.filter((part) => part.type === 'text' && part.text)
+		.map((part) => part.text)
+		.join('\n');
+}
+
+/**
+ * Find the first balanced JSON object in `text` at or after `fromIndex`
+ */
+function extractJsonObject(text: string, fromIndex: number = 0): unknown {
+	const start = text.indexOf('{', fromIndex);
+	if (start === -1) return undefined;
+
+	let depth = 0;
+	let inString = false;
+
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+
+		if (inString) {
+			if (char === '\\') i++;
+			else if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === '{') {
+			depth++;
+		} else if (char === '}' && --depth === 0) {
+			try {
+				return JSON.parse(text.slice(start, i + 1));
+			} catch {
+				return undefined;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Find the JSON schema a request expects, either from `response_format` or from
+ * the schema instructions that structured outputs put in the system message
+ */
+function findRequestedSchema(request: CompletionRequest): JsonSchema | undefined {
+	if (request.response_format?.json_schema?.schema) {
+		return request.response_format.json_schema.schema;
+	}
+
+	const marker = 'matches the following schema:';
+	for (const message of request.messages) {
+		if (message.role !== 'system') continue;
+
+		const text = contentToText(message.content);
+		const index = text.indexOf(marker);
+		if (index !== -1) {
+			const schema = extractJsonObject(text, index + marker.length);
+			if (schema && typeof schema === 'object') {
+				return schema as JsonSchema;
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Generate a deterministic value that satisfies a JSON schema
+ */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+	if ('const' in schema) return schema.const;
+	if (Array.isArray(schema.enum)) return schema.enum[0];
+	if (Array.isArray(schema.anyOf)) return sampleFromSchema(schema.anyOf[0]);
+	if (Array.isArray(schema.oneOf)) return sampleFromSchema(schema.oneOf[0]);
+	if ('default' in schema) return schema.default;
+
+	const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+	switch (type) {
+		case 'object': {
+			const result: Record<string, unknown> = {};
+			for (const [key, property] of Object.entries(schema.properties || {})) {
+				result[key] = sampleFromSchema(property as JsonSchema);
+			}
+			return result;
+		}
+		case 'array': {
+			const count = Math.max(schema.minItems || 1, 1);
+			return Array.from({ length: count }, () => sampleFromSchema(schema.items || {}));
+		}
+		case 'string':
+			switch (schema.format) {
+				case 'date-time':
+					return '2024-01-01T00:00:00Z';
+				case 'date':
+					return '2024-01-01';
+				case 'email':
+					return 'user@example.com';
+				case 'uri':
+					return 'https://example.com';
+				case 'uuid':
+					return '00000000-0000-4000-8000-000000000000';
+				default:
+					return 'sample'.padEnd(schema.minLength || 0, '_').slice(0, schema.maxLength ?? Infinity);
+			}
+		case 'integer':
+		case 'number':
+			return (
+				schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0)
+			);
+		case 'boolean':
+			return false;
+		case 'null':
+			return null;
+		default:
+			return schema.properties ? sampleFromSchema({ ...schema, type: 'object' }) : null;
+	}
+}
+
+/**
+ * Work out what the mock should reply with for a request
+ */
+function planResponse(
+	request: CompletionRequest
+): Required<Pick<MockResponse, 'latency_ms'>> & MockResponse {
+	const baseLatency = parseInt(env.LLM_MOCK_LATENCY_MS || '0', 10) || 0;
+	const scripted = scriptedResponses.shift();
+
+	if (scripted) {
+		return { ...scripted, latency_ms: scripted.latency_ms ?? baseLatency };
+	}
+
+	const behaviour = (request.model || 'echo').toLowerCase();
+	const errorMatch = behaviour.match(/^error(?:-(\d{3}))?$/);
+
+	if (errorMatch) {
+		const status = errorMatch[1] ? parseInt(errorMatch[1], 10) : 500;
+		return { error: { status, message: 'Simulated upstream failure' }, latency_ms: baseLatency };
+	}
+
+	if (behaviour === 'rate-limit') {
+		return {
+			error: { status: 429, message: 'Rate limit exceeded (simulated)' },
+			latency_ms: baseLatency
+		};
+	}
+
+	const schema = findRequestedSchema(request);
+	if (schema || behaviour === 'json' || request.response_format?.type === 'json_object') {
+		const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+		const content = JSON.stringify(
+			schema
+				? sampleFromSchema(schema)
+				: { response: lastUser ? contentToText(lastUser.content) : '' }
+		);
+		return { content, latency_ms: baseLatency };
+	}
+
+	const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+
+	return {
+		content: lastUser ? contentToText(lastUser.content) : 'Hello from the mock provider.',
+		latency_ms: behaviour === 'slow' ? Math.max(baseLatency, SLOW_LATENCY_MS) : baseLatency
+	};
+}
+
+/**
+ * Split text into word-sized deltas, keeping whitespace attached
+ */
+function splitIntoDeltas(text: string): string[] {
+	return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function buildUsage(request: CompletionRequest, content: string): CompletionUsage {
+	const promptTokens = request.messages.reduce(
+		(sum, message) => sum + countTokens(contentToText(message.content)),
+		0
+	);
+	const completionTokens = countTokens(content);
+
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: promptTokens + completionTokens,
+		estimated_cost: 0
+	};
+}
+
+/**
+ * Create a provider that answers locally and deterministically, for offline
+ * development and tests
+ */
+export function createMockProvider(): LLMProvider {
+	async function prepare(request: CompletionRequest) {
+		recordedRequests.push(request);
+		const plan = planResponse(request);
+
+		if (plan.latency_ms > 0) {
+			await sleep(plan.latency_ms);
+		}
+
+		if (plan.error) {
+			throw providerApiError(
+				provider,
+				plan.error.status,
+				JSON.stringify({ error: { message: plan.error.message || 'Simulated error' } })
+			);
+		}
+
+		completionCounter++;
+
+		const toolCalls: ToolCall[] = (plan.tool_calls || []).map((call, index) => ({
+			id: `call_mock_${completionCounter}_${index}`,
+			type: 'function',
+			function: { name: call.name, arguments: JSON.stringify(call.arguments || {}) }
+		}));
+
+		return {
+			id: `mock-${completionCounter}`,
+			created: Math.floor(Date.now() / 1000),
+			model: `mock/${request.model || 'echo'}`,
+			content: plan.content || '',
+			tool_calls: toolCalls,
+			finish_reason: plan.finish_reason || (toolCalls.length ? 'tool_calls' : 'stop')
+		};
+	}
+
+	async function* streamChunks(
+		request: CompletionRequest,
+		reply: Awaited<ReturnType<typeof prepare>>
+	): AsyncGenerator<StreamChunk> {
+		const chunk = (
+			delta: StreamChunk['choices'][0]['delta'],
+			finishReason: string | null
+		): StreamChunk => ({
+			id: reply.id,
+			object: 'chat.completion.chunk',
+			created: reply.created,
+			model: reply.model,
+			choices: [{ index: 0, delta, finish_reason: finishReason }]
+		});
+
+		yield chunk({ role: 'assistant', content: '' }, null);
+
+		for (const delta of splitIntoDeltas(reply.content)) {
+			await sleep(STREAM_CHUNK_DELAY_MS);
+			yield chunk({ content: delta }, null);
+		}
+
+		for (const [index, call] of reply.tool_calls.entries()) {
+			await sleep(STREAM_CHUNK_DELAY_MS);
+			yield chunk(
+				{
+					tool_calls: [
+						{ index, id: call.id, type: 'function', function: { name: call.function.name } }
+					]
+				},
+				null
+			);
+			yield chunk(
+				{ tool_calls: [{ index, function: { arguments: call.function.arguments } }] },
+				null
+			);
+		}
+
+		yield { ...chunk({}, reply.finish_reason), usage: buildUsage(request, reply.content) };
+	}
+
+	const provider: LLMProvider = {
+		id: 'mock',
+		name: 'Mock',
+		prefixes: ['mock/', 'mock:'],
+
+		isConfigured() {
+			return isMockMode() || dev;
+		},
+
+		async createCompletion(request): Promise<CompletionResponse> {
+			const reply = await prepare(request);
+
+			return {
+				id: reply.id,
+				object: 'chat.completion',
+				created: reply.created,
+				model: reply.model,
+				provider: 'mock',
+				choices: [
+					{
+						index: 0,
+						message: {
+							role: 'assistant',
+							content: reply.tool_calls.length && !reply.content ? null : reply.content,
+							...(reply.tool_calls.length && { tool_calls: reply.tool_calls })
+						},
+						finish_reason: reply.finish_reason
+					}
+				],
+				usage: buildUsage(request, reply.content)
+			};
+		},
+
+		async createCompletionStream(request) {
+			// Fail before the stream opens, as an HTTP provider would
+			const reply = await prepare(request);
+			return toSSEStream(streamChunks(request, reply));
+		},
+
+		async listModels(): Promise<ModelMetadata[]> {
+			return MOCK_MODELS.map((model) => ({
+				id: model.id,
+				name: model.name,
+				description: model.description,
+				pricing: { prompt: '0', completion: '0' },
+				capabilities: {
+					input_modalities: ['text'],
+					output_modalities: ['text'],
+					context_length: 128000,
+					multimodal: false
+				}
+			}));
+		}
+	};
+
+	return provider;
+}
+
+registerProvider(createMockProvider());
@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { env } from '$env/dynamic/private';
+import { resolveProvider, getProvider, isProviderApiError } from './llm-providers.js';
+import { parseStreamResponse } from './llm.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: {
+		ANTHROPIC_API_KEY: 'test-anthropic-key',
+		OPENAI_API_KEY: 'test-openai-key',
+		LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1'
+	} as Record<string, string | undefined>
+}));
+
+vi.mock('$app/environment', () => ({ dev: false }));
+
+// Mock fetch for API calls
+global.fetch = vi.fn();
+
+function sseBody(events: Array<{ event: string; data: unknown }>): ReadableStream {
+	const text = events
+		.map(({ event, data }) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+		.join('');
+
+	return new ReadableStream({
+		start(controller) {
+			controller.enqueue(new TextEncoder().encode(text));
+			controller.close();
+		}
+	});
+}
+
+describe('LLM Providers', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe('resolveProvider', () => {
+		it('should route unprefixed model IDs to OpenRouter by default', () => {
+			const { provider, model } = resolveProvider('anthropic/claude-3.5-sonnet');
+			expect(provider.id).toBe('openrouter');
+			expect(model).toBe('anthropic/claude-3.5-sonnet');
+		});
+
+		it('should strip the provider prefix from the model ID', () => {
+			expect(resolveProvider('anthropic:claude-3-5-sonnet-latest')).toMatchObject({
+				provider: { id: 'anthropic' },
+				model: 'claude-3-5-sonnet-latest'
+			});
+			expect(resolveProvider('ollama:llama3.1')).toMatchObject({
+				provider: { id: 'local' },
+				model: 'llama3.1'
+			});
+		});
+
+		it('should use the preferred provider when the model has no prefix', () => {
+			const { provider } = resolveProvider('gpt-4o', 'openai');
+			expect(provider.id).toBe('openai');
+		});
+
+		it('should not route to the mock provider outside development and mock mode', () => {
+			expect(resolveProvider('mock/echo')).toMatchObject({
+				provider: { id: 'openrouter' },
+				model: 'mock/echo'
+			});
+			expect(resolveProvider('echo', 'mock').provider.id).toBe('openrouter');
+		});
+
+		it('should let a prefix override the preferred provider', () => {
+			const { provider } = resolveProvider('openrouter:openai/gpt-4o', 'openai');
+			expect(provider.id).toBe('openrouter');
+		});
+
+		it('should refuse a prefix whose provider is not configured', () => {
+			const baseUrl = env.LOCAL_LLM_BASE_URL;
+			delete env.LOCAL_LLM_BASE_URL;
+			try {
+				expect(() => resolveProvider('ollama:llama3.1')).toThrow(
+					expect.objectContaining({
+						status: 400,
+						body: expect.objectContaining({ code: 'PROVIDER_NOT_CONFIGURED' })
+					})
+				);
+				expect(resolveProvider('llama3.1', 'local').provider.id).toBe('openrouter');
+			} finally {
+				env.LOCAL_LLM_BASE_URL = baseUrl;
+			}
+		});
+	});
+
+	describe('caller API keys', () => {
+		it("should send the caller's key to OpenRouter only", async () => {
+			vi.mocked(fetch)
+				.mockResolvedValueOnce(new Response(JSON.stringify({ choices: [] })))
+				.mockResolvedValueOnce(new Response(JSON.stringify({ choices: [] })))
+				.mockResolvedValueOnce(
+					new Response(
+						JSON.stringify({ content: [], usage: { input_tokens: 1, output_tokens: 1 } })
+					)
+				);
+			const request = {
+				model: 'model',
+				messages: [{ role: 'user' as const, content: 'Hi' }],
+				apiKey: 'caller-key'
+			};
+
+			await getProvider('openrouter')!.createCompletion(request);
+			await getProvider('openai')!.createCompletion(request);
+			await getProvider('anthropic')!.createCompletion(request);
+
+			const headers = vi
+				.mocked(fetch)
+				.mock.calls.map(([, init]) => init!.headers as Record<string, string>);
+			expect(headers[0].Authorization).toBe('Bearer caller-key');
+			expect(headers[1].Authorization).toBe('Bearer test-openai-key');
+			expect(headers[2]['x-api-key']).toBe('test-anthropic-key');
+		});
+	});
+
+	describe('anthropic provider', () => {
+		const anthropic = getProvider('anthropic')!;
+
+		it('should convert Messages API responses to completion responses', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					id: 'msg_123',
+					model: 'claude-3-5-sonnet-latest',
+					content: [{ type: 'text', text: 'Hello!' }],
+					stop_reason: 'end_turn',
+					usage: { input_tokens: 10, output_tokens: 3 }
+				})
+			} as any);
+
+			const response = await anthropic.createCompletion({
+				model: 'claude-3-5-sonnet-latest',
+				messages: [
+					{ role: 'system', content: 'Be brief.' },
+					{ role: 'user', content: 'Hi' }
+				]
+			});
+
+			const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+			expect(body.system).toBe('Be brief.');
+			expect(body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+
+			expect(response.provider).toBe('anthropic');
+			expect(response.choices[0].message.content).toBe('Hello!');
+			expect(response.choices[0].finish_reason).toBe('stop');
+			expect(response.usage.total_tokens).toBe(13);
+		});
+
+		it('should translate stream events into OpenAI-style chunks', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce({
+				ok: true,
+				body: sseBody([
+					{
+						event: 'message_start',
+						data: { type: 'message_start', message: { id: 'msg_1', model: 'claude' } }
+					},
+					{
+						event: 'content_block_delta',
+						data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } }
+					},
+					{
+						event: 'content_block_delta',
+						data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } }
+					},
+					{
+						event: 'message_delta',
+						data: { type: 'message_delta', delta: { stop_reason: 'max_tokens' } }
+					}
+				])
+			} as any);
+
+			const stream = await anthropic.createCompletionStream({
+				model: 'claude',
+				messages: [{ role: 'user', content: 'Hi' }]
+			});
+
+			const chunks = [];
+			for await (const chunk of parseStreamResponse(stream)) {
+				chunks.push(chunk);
+			}
+
+			const text = chunks.map((c) => c.choices[0].delta.content || '').join('');
+			expect(text).toBe('Hello');
+			expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('length');
+		});
+
+		it('should translate tools and tool messages to the Messages API', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					id: 'msg_456',
+					model: 'claude',
+					content: [{ type: 'tool_use', id: 'toolu_1', name: 'get_time', input: { tz: 'UTC' } }],
+					stop_reason: 'tool_use',
+					usage: { input_tokens: 20, output_tokens: 5 }
+				})
+			} as any);
+
+			const response = await anthropic.createCompletion({
+				model: 'claude',
+				messages: [
+					{ role: 'user', content: 'What time is it?' },
+					{
+						role: 'assistant',
+						content: null,
+						tool_calls: [
+							{ id: 'toolu_0', type: 'function', function: { name: 'get_time', arguments: '{}' } }
+						]
+					},
+					{ role: 'tool', tool_call_id: 'toolu_0', content: 'unknown timezone' }
+				],
+				tools: [
+					{
+						type: 'function',
+						function: { name: 'get_time', parameters: { type: 'object', properties: {} } }
+					}
+				],
+				tool_choice: 'required'
+			});
+
+			const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+			expect(body.tools).toEqual([
+				{ name: 'get_time', input_schema: { type: 'object', properties: {} } }
+			]);
+			expect(body.tool_choice).toEqual({ type: 'any' });
+			expect(body.messages[1].content).toEqual([
+				{ type: 'tool_use', id: 'toolu_0', name: 'get_time', input: {} }
+			]);
+			expect(body.messages[2]).toEqual({
+				role: 'user',
+				content: [{ type: 'tool_result', tool_use_id: 'toolu_0', content: 'unknown timezone' }]
+			});
+
+			expect(response.choices[0].finish_reason).toBe('tool_calls');
+			expect(response.choices[0].message.tool_calls).toEqual([
+				{
+					id: 'toolu_1',
+					type: 'function',
+					function: { name: 'get_time', arguments: '{"tz":"UTC"}' }
+				}
+			]);
+		});
+
+		it('should throw a provider API error on failure', async () => {
+			vi.mocked(fetch).mockResolvedValueOnce({
+				ok: false,
+				status: 529,
+				text: async () => 'Overloaded'
+			} as any);
+
+			const promise = anthropic.createCompletion({
+				model: 'claude',
+				messages: [{ role: 'user', content: 'Hi' }]
+			});
+
+			await expect(promise).rejects.toThrow('Anthropic API error: 529');
+			await promise.catch((err) => expect(isProviderApiError(err)).toBe(true));
+		});
+	});
+});
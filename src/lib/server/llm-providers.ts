@@ -0,0 +1,824 @@
+import { error } from '@sveltejs/kit';
+import { OPENROUTER_API_KEY } from '$env/static/private';
+import { env } from '$env/dynamic/private';
+import type {
+	ChatMessage,
+	CompletionRequest,
+	CompletionResponse,
+	ModelMetadata,
+	StreamChunk,
+	ToolCall,
+	ToolChoice
+} from './llm.js';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * A backend capable of serving chat completions.
+ *
+ * Providers receive the request with the routing prefix already stripped from
+ * `model` and must answer in the OpenAI-style `CompletionResponse` shape. Streams
+ * must be SSE byte streams that `parseStreamResponse` can read.
+ */
+export interface LLMProvider {
+	id: string;
+	name: string;
+	prefixes: string[]; // Model ID prefixes routed to this provider, e.g. "anthropic:"
+	isConfigured(): boolean;
+	createCompletion(request: CompletionRequest): Promise<CompletionResponse>;
+	createCompletionStream(request: CompletionRequest): Promise<ReadableStream>;
+	listModels(apiKey?: string): Promise<ModelMetadata[]>;
+}
+
+export interface ResolvedProvider {
+	provider: LLMProvider;
+	model: string; // Model ID as the provider expects it
+}
+
+const providers = new Map<string, LLMProvider>();
+
+/**
+ * Register (or replace) a provider
+ */
+export function registerProvider(provider: LLMProvider): void {
+	providers.set(provider.id, provider);
+}
+
+/**
+ * Get a registered provider by ID
+ */
+export function getProvider(id: string): LLMProvider | undefined {
+	return providers.get(id);
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviders(): LLMProvider[] {
+	return Array.from(providers.values());
+}
+
+/**
+ * Get the provider used when neither the model ID nor the user picks one
+ */
+export function getDefaultProvider(): LLMProvider {
+	if (env.LLM_MOCK === 'true' && providers.has('mock')) {
+		return providers.get('mock')!;
+	}
+
+	const configured = env.LLM_DEFAULT_PROVIDER && providers.get(env.LLM_DEFAULT_PROVIDER);
+	return configured || providers.get('openrouter')!;
+}
+
+/**
+ * Pick the provider for a model ID.
+ *
+ * An explicit prefix on the model ID wins, then the caller's preferred provider
+ * (e.g. a per-user setting), then the configured default. With `LLM_MOCK=true`
+ * every request is served by the mock provider.
+ *
+ * Throws 400 for a prefix whose provider isn't configured. The mock provider
+ * answers for free, so outside development and mock mode its prefixes and a
+ * preference for it are ignored instead.
+ */
+export function resolveProvider(
+	model: string,
+	preferredProvider?: string | null
+): ResolvedProvider {
+	const mockMode = env.LLM_MOCK === 'true';
+
+	for (const provider of providers.values()) {
+		const prefix = provider.prefixes.find((p) => model.startsWith(p));
+		if (!prefix || (provider.id === 'mock' && !provider.isConfigured())) continue;
+
+		if (mockMode) {
+			return { provider: getDefaultProvider(), model: model.slice(prefix.length) };
+		}
+		if (!provider.isConfigured()) {
+			error(400, {
+				message: `The ${provider.name} provider is not configured`,
+				code: 'PROVIDER_NOT_CONFIGURED'
+			});
+		}
+		return { provider, model: model.slice(prefix.length) };
+	}
+
+	if (mockMode) {
+		return { provider: getDefaultProvider(), model };
+	}
+
+	const preferred = preferredProvider ? providers.get(preferredProvider) : undefined;
+
+	return {
+		provider: preferred?.isConfigured() ? preferred : getDefaultProvider(),
+		model
+	};
+}
+
+/**
+ * Error thrown when a provider responds with a non-2xx status
+ */
+export interface ProviderApiError extends Error {
+	status: number;
+	provider: string;
+	retryAfterMs?: number; // From the Retry-After header, when the provider sent one
+}
+
+/**
+ * Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Build the error thrown when a provider responds with a non-2xx status
+ */
+export function providerApiError(
+	provider: LLMProvider,
+	status: number,
+	body: string,
+	retryAfter?: string | null
+): ProviderApiError {
+	return Object.assign(new Error(`${provider.name} API error: ${status} ${body}`), {
+		status,
+		provider: provider.id,
+		retryAfterMs: parseRetryAfter(retryAfter)
+	});
+}
+
+/**
+ * Check whether an error came from an upstream provider rather than our own code
+ */
+export function isProviderApiError(err: unknown): err is ProviderApiError {
+	return err instanceof Error && / API error: \d{3}/.test(err.message);
+}
+
+/**
+ * Wrap a stream of chunks as an OpenAI-style SSE byte stream
+ */
+export function toSSEStream(chunks: AsyncIterable<StreamChunk>): ReadableStream {
+	const encoder = new TextEncoder();
+
+	return new ReadableStream({
+		async start(controller) {
+			try {
+				for await (const chunk of chunks) {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+				}
+				controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+				controller.close();
+			} catch (err) {
+				controller.error(err);
+			}
+		}
+	});
+}
+
+/**
+ * Split a stream into SSE events, yielding `{ event, data }` pairs
+ */
+async function* readSSEEvents(
+	stream: ReadableStream
+): AsyncGenerator<{ event?: string; data: string }> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let event: string | undefined;
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+
+			for (const line of lines) {
+				const trimmed = line.trim();
+
+				if (trimmed === '') {
+					event = undefined;
+				} else if (trimmed.startsWith('event: ')) {
+					event = trimmed.slice(7);
+				} else if (trimmed.startsWith('data: ')) {
+					yield { event, data: trimmed.slice(6) };
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+interface RawModel {
+	id: string;
+	name?: string;
+	display_name?: string;
+	description?: string;
+	created?: number;
+	created_at?: string;
+	context_length?: number;
+	architecture?: {
+		input_modalities?: string[];
+		output_modalities?: string[];
+		context_length?: number;
+	};
+	pricing?: Partial<ModelMetadata['pricing']>;
+	top_provider?: ModelMetadata['top_provider'];
+}
+
+/**
+ * Map a raw `/models` entry from an OpenAI-compatible API to our metadata format
+ */
+function toModelMetadata(model: RawModel): ModelMetadata {
+	const inputModalities = model.architecture?.input_modalities || ['text'];
+	const outputModalities = model.architecture?.output_modalities || ['text'];
+
+	return {
+		id: model.id,
+		name: model.name || model.display_name || model.id,
+		description: model.description,
+		created: model.created,
+		pricing: {
+			// Left unset rather than '0' so unpriced models aren't listed as free
+			prompt: model.pricing?.prompt,
+			completion: model.pricing?.completion,
+			image: model.pricing?.image,
+			request: model.pricing?.request
+		},
+		capabilities: {
+			input_modalities: inputModalities,
+			output_modalities: outputModalities,
+			context_length: model.context_length || model.architecture?.context_length || 4096,
+			max_completion_tokens: model.top_provider?.max_completion_tokens,
+			multimodal: inputModalities.length > 1 || inputModalities.includes('image')
+		},
+		top_provider: model.top_provider
+	};
+}
+
+interface OpenAICompatibleOptions {
+	id: string;
+	name: string;
+	prefixes: string[];
+	baseUrl: () => string;
+	apiKey: () => string | undefined;
+	requiresApiKey?: boolean;
+	acceptsRequestApiKey?: boolean; // Use the caller's own key (`request.apiKey`) when given
+	isConfigured?: () => boolean;
+	headers?: () => Record<string, string>;
+}
+
+/**
+ * Create a provider for any API that speaks the OpenAI chat completions protocol
+ * (OpenRouter, OpenAI, Together, vLLM, Ollama, llama.cpp server, ...)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+	const requiresApiKey = options.requiresApiKey !== false;
+
+	function buildHeaders(apiKey?: string): Record<string, string> {
+		return {
+			...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+			'Content-Type': 'application/json',
+			...options.headers?.()
+		};
+	}
+
+	function getApiKey(request: CompletionRequest): string | undefined {
+		// The caller's key is only sent to the provider it was issued for
+		const apiKey = (options.acceptsRequestApiKey && request.apiKey) || options.apiKey();
+
+		if (!apiKey && requiresApiKey) {
+			throw new Error(
+				`No API key provided for ${options.name}. Configure it on the server or provide an API key in the request.`
+			);
+		}
+
+		return apiKey;
+	}
+
+	async function post(request: CompletionRequest, stream: boolean): Promise<Response> {
+		const apiKey = getApiKey(request);
+
+		// Remove routing fields from the request object to avoid sending them in the body
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const { apiKey: _, provider: __, ...requestBody } = request;
+
+		const response = await fetch(`${options.baseUrl()}/chat/completions`, {
+			method: 'POST',
+			headers: buildHeaders(apiKey),
+			body: JSON.stringify({ ...requestBody, stream })
+		});
+
+		if (!response.ok) {
+			const error = await response.text();
+			throw providerApiError(
+				provider,
+				response.status,
+				error,
+				response.headers?.get('retry-after')
+			);
+		}
+
+		return response;
+	}
+
+	const provider: LLMProvider = {
+		id: options.id,
+		name: options.name,
+		prefixes: options.prefixes,
+
+		isConfigured() {
+			return options.isConfigured ? options.isConfigured() : !!options.apiKey();
+		},
+
+		async createCompletion(request) {
+			const response = await post(request, false);
+			const completion: CompletionResponse = await response.json();
+
+			return { ...completion, provider: completion.provider || options.id };
+		},
+
+		async createCompletionStream(request) {
+			const response = await post(request, true);
+
+			if (!response.body) {
+				throw new Error('No response body received');
+			}
+
+			return response.body;
+		},
+
+		async listModels(apiKey) {
+			const key = (options.acceptsRequestApiKey && apiKey) || options.apiKey();
+			const response = await fetch(`${options.baseUrl()}/models`, {
+				headers: buildHeaders(key)
+			});
+
+			if (!response.ok) {
+				throw new Error(`Failed to fetch models: ${response.status}`);
+			}
+
+			const data = await response.json();
+
+			return (data.data || []).map(toModelMetadata);
+		}
+	};
+
+	return provider;
+}
+
+type AnthropicContentBlock =
+	| { type: 'text'; text: string }
+	| {
+			type: 'image';
+			source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+	  }
+	| { type: 'tool_use'; id: string; name: string; input: unknown }
+	| { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+	id: string;
+	model: string;
+	content?: Array<{ type: string; text?: string; id?: string; name?: string; input?: unknown }>;
+	stop_reason?: string | null;
+	usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface AnthropicStreamEvent {
+	type: string;
+	index?: number;
+	message?: { id?: string; model?: string };
+	content_block?: { type: string; id?: string; name?: string };
+	delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+	error?: { message?: string };
+}
+
+/**
+ * Convert OpenAI-style message content to Anthropic content blocks
+ */
+function toAnthropicContent(content: ChatMessage['content']): string | AnthropicContentBlock[] {
+	if (typeof content === 'string' || content === null) {
+		return content || '';
+	}
+
+	const blocks: AnthropicContentBlock[] = [];
+
+	for (const part of content) {
+		if (part.type === 'text' && part.text) {
+			blocks.push({ type: 'text', text: part.text });
+		} else if (part.type === 'image_url' && part.image_url) {
+			const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+			blocks.push({
+				type: 'image',
+				source: match
+					? { type: 'base64', media_type: match[1], data: match[2] }
+					: { type: 'url', url: part.image_url.url }
+			});
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Extract plain text from OpenAI-style message content
+ */
+function contentToText(content: ChatMessage['content']): string {
+	if (typeof content === 'string' || content === null) {
+		return content || '';
+	}
+
+	return content
+		.filter((part) => part.type === 'text' && part.text)
+		.map((part) => part.text)
+		.join('\n');
+}
+
+/**
+ * Map Anthropic stop reasons to OpenAI finish reasons
+ */
+function toFinishReason(stopReason: string | null | undefined): string {
+	switch (stopReason) {
+		case 'max_tokens':
+			return 'length';
+		case 'tool_use':
+			return 'tool_calls';
+		default:
+			return 'stop';
+	}
+}
+
+/**
+ * Parse the JSON-encoded arguments of a tool call, falling back to an empty object
+ */
+function parseToolArguments(args: string): unknown {
+	try {
+		return args ? JSON.parse(args) : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Convert OpenAI-style messages to Anthropic messages.
+ *
+ * Assistant tool calls become `tool_use` blocks and tool messages become
+ * `tool_result` blocks on a user turn; consecutive results share one turn.
+ */
+function toAnthropicMessages(messages: ChatMessage[]) {
+	const result: Array<{ role: 'user' | 'assistant'; content: string | AnthropicContentBlock[] }> =
+		[];
+
+	for (const message of messages) {
+		if (message.role === 'system') continue;
+
+		if (message.role === 'tool') {
+			const block: AnthropicContentBlock = {
+				type: 'tool_result',
+				tool_use_id: message.tool_call_id || '',
+				content: contentToText(message.content)
+			};
+			const previous = result[result.length - 1];
+
+			if (
+				previous?.role === 'user' &&
+				Array.isArray(previous.content) &&
+				previous.content.every((b) => b.type === 'tool_result')
+			) {
+				previous.content.push(block);
+			} else {
+				result.push({ role: 'user', content: [block] });
+			}
+			continue;
+		}
+
+		if (message.role === 'assistant' && message.tool_calls?.length) {
+			const text = contentToText(message.content);
+			result.push({
+				role: 'assistant',
+				content: [
+					...(text ? [{ type: 'text' as const, text }] : []),
+					...message.tool_calls.map((call) => ({
+						type: 'tool_use' as const,
+						id: call.id,
+						name: call.function.name,
+						input: parseToolArguments(call.function.arguments)
+					}))
+				]
+			});
+			continue;
+		}
+
+		result.push({ role: message.role, content: toAnthropicContent(message.content) });
+	}
+
+	return result;
+}
+
+/**
+ * Map an OpenAI-style tool choice to Anthropic's format
+ */
+function toAnthropicToolChoice(choice: ToolChoice) {
+	if (typeof choice === 'object') {
+		return { type: 'tool', name: choice.function.name };
+	}
+
+	switch (choice) {
+		case 'required':
+			return { type: 'any' };
+		case 'none':
+			return { type: 'none' };
+		default:
+			return { type: 'auto' };
+	}
+}
+
+/**
+ * Build an Anthropic Messages API request body from a completion request
+ */
+function toAnthropicRequest(request: CompletionRequest, stream: boolean) {
+	const system = request.messages
+		.filter((m) => m.role === 'system')
+		.map((m) => contentToText(m.content))
+		.join('\n\n');
+
+	return {
+		model: request.model,
+		...(system && { system }),
+		messages: toAnthropicMessages(request.messages),
+		...(request.tools?.length && {
+			tools: request.tools.map((tool) => ({
+				name: tool.function.name,
+				description: tool.function.description,
+				input_schema: tool.function.parameters || { type: 'object', properties: {} }
+			}))
+		}),
+		...(request.tool_choice && { tool_choice: toAnthropicToolChoice(request.tool_choice) }),
+		max_tokens: request.max_completion_tokens || request.max_tokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+		...(request.temperature !== undefined && { temperature: request.temperature }),
+		...(request.top_p !== undefined && { top_p: request.top_p }),
+		stream
+	};
+}
+
+/**
+ * Create the provider for Anthropic's native Messages API
+ */
+export function createAnthropicProvider(): LLMProvider {
+	const baseUrl = () => env.ANTHROPIC_BASE_URL || ANTHROPIC_BASE_URL;
+
+	function buildHeaders(apiKey: string): Record<string, string> {
+		return {
+			'x-api-key': apiKey,
+			'anthropic-version': ANTHROPIC_VERSION,
+			'Content-Type': 'application/json'
+		};
+	}
+
+	function getApiKey(): string {
+		// The caller's key is for OpenRouter, so it's never sent here
+		const apiKey = env.ANTHROPIC_API_KEY;
+
+		if (!apiKey) {
+			throw new Error('No API key provided for Anthropic. Set ANTHROPIC_API_KEY on the server.');
+		}
+
+		return apiKey;
+	}
+
+	async function post(request: CompletionRequest, stream: boolean): Promise<Response> {
+		const response = await fetch(`${baseUrl()}/messages`, {
+			method: 'POST',
+			headers: buildHeaders(getApiKey()),
+			body: JSON.stringify(toAnthropicRequest(request, stream))
+		});
+
+		if (!response.ok) {
+			const error = await response.text();
+			throw providerApiError(
+				provider,
+				response.status,
+				error,
+				response.headers?.get('retry-after')
+			);
+		}
+
+		return response;
+	}
+
+	/**
+	 * Translate Anthropic stream events into OpenAI-style chunks
+	 */
+	async function* translateStream(body: ReadableStream): AsyncGenerator<StreamChunk> {
+		let id = '';
+		let model = '';
+		const created = Math.floor(Date.now() / 1000);
+		// Anthropic numbers content blocks across text and tool use; OpenAI numbers tool calls only
+		const toolCallIndexes = new Map<number, number>();
+
+		const chunk = (delta: StreamChunk['choices'][0]['delta'], finishReason: string | null) => ({
+			id,
+			object: 'chat.completion.chunk',
+			created,
+			model,
+			choices: [{ index: 0, delta, finish_reason: finishReason }]
+		});
+
+		for await (const { data } of readSSEEvents(body)) {
+			let payload: AnthropicStreamEvent;
+			try {
+				payload = JSON.parse(data);
+			} catch (e) {
+				console.warn('Failed to parse Anthropic SSE data:', data, e);
+				continue;
+			}
+
+			switch (payload.type) {
+				case 'message_start':
+					id = payload.message?.id || '';
+					model = payload.message?.model || '';
+					yield chunk({ role: 'assistant', content: '' }, null);
+					break;
+				case 'content_block_start':
+					if (payload.content_block?.type === 'tool_use') {
+						const index = toolCallIndexes.size;
+						toolCallIndexes.set(payload.index ?? 0, index);
+						yield chunk(
+							{
+								tool_calls: [
+									{
+										index,
+										id: payload.content_block.id,
+										type: 'function',
+										function: { name: payload.content_block.name, arguments: '' }
+									}
+								]
+							},
+							null
+						);
+					}
+					break;
+				case 'content_block_delta':
+					if (payload.delta?.type === 'text_delta') {
+						yield chunk({ content: payload.delta.text }, null);
+					} else if (payload.delta?.type === 'input_json_delta') {
+						const index = toolCallIndexes.get(payload.index ?? 0) ?? 0;
+						yield chunk(
+							{ tool_calls: [{ index, function: { arguments: payload.delta.partial_json } }] },
+							null
+						);
+					}
+					break;
+				case 'message_delta':
+					if (payload.delta?.stop_reason) {
+						yield chunk({}, toFinishReason(payload.delta.stop_reason));
+					}
+					break;
+				case 'error':
+					throw new Error(`Anthropic stream error: ${payload.error?.message || 'unknown'}`);
+			}
+		}
+	}
+
+	const provider: LLMProvider = {
+		id: 'anthropic',
+		name: 'Anthropic',
+		prefixes: ['anthropic:'],
+
+		isConfigured() {
+			return !!env.ANTHROPIC_API_KEY;
+		},
+
+		async createCompletion(request) {
+			const response = await post(request, false);
+			const message: AnthropicMessage = await response.json();
+
+			const text = (message.content || [])
+				.filter((block) => block.type === 'text')
+				.map((block) => block.text)
+				.join('');
+			const toolCalls: ToolCall[] = (message.content || [])
+				.filter((block) => block.type === 'tool_use')
+				.map((block) => ({
+					id: block.id || '',
+					type: 'function',
+					function: { name: block.name || '', arguments: JSON.stringify(block.input ?? {}) }
+				}));
+			const promptTokens = message.usage?.input_tokens || 0;
+			const completionTokens = message.usage?.output_tokens || 0;
+
+			return {
+				id: message.id,
+				object: 'chat.completion',
+				created: Math.floor(Date.now() / 1000),
+				model: message.model,
+				provider: 'anthropic',
+				choices: [
+					{
+						index: 0,
+						message: {
+							role: 'assistant',
+							content: text || (toolCalls.length ? null : ''),
+							...(toolCalls.length && { tool_calls: toolCalls })
+						},
+						finish_reason: toFinishReason(message.stop_reason)
+					}
+				],
+				usage: {
+					prompt_tokens: promptTokens,
+					completion_tokens: completionTokens,
+					total_tokens: promptTokens + completionTokens
+				}
+			};
+		},
+
+		async createCompletionStream(request) {
+			const response = await post(request, true);
+
+			if (!response.body) {
+				throw new Error('No response body received');
+			}
+
+			return toSSEStream(translateStream(response.body));
+		},
+
+		async listModels() {
+			const key = env.ANTHROPIC_API_KEY;
+			if (!key) return [];
+
+			const response = await fetch(`${baseUrl()}/models`, { headers: buildHeaders(key) });
+
+			if (!response.ok) {
+				throw new Error(`Failed to fetch models: ${response.status}`);
+			}
+
+			const data = await response.json();
+
+			return (data.data || []).map((model: RawModel) =>
+				toModelMetadata({
+					...model,
+					created: model.created_at ? Date.parse(model.created_at) / 1000 : undefined,
+					context_length: 200000,
+					architecture: { input_modalities: ['text', 'image'] }
+				})
+			);
+		}
+	};
+
+	return provider;
+}
+
+registerProvider(
+	createOpenAICompatibleProvider({
+		id: 'openrouter',
+		name: 'OpenRouter',
+		prefixes: ['openrouter:'],
+		baseUrl: () => OPENROUTER_BASE_URL,
+		apiKey: () => OPENROUTER_API_KEY,
+		acceptsRequestApiKey: true,
+		headers: () => ({
+			'HTTP-Referer': process.env.PUBLIC_APP_URL || 'http://localhost:5173',
+			'X-Title': 'SvelteKit Accelerator'
+		})
+	})
+);
+
+registerProvider(
+	createOpenAICompatibleProvider({
+		id: 'openai',
+		name: 'OpenAI',
+		prefixes: ['openai:'],
+		baseUrl: () => env.OPENAI_BASE_URL || OPENAI_BASE_URL,
+		apiKey: () => env.OPENAI_API_KEY
+	})
+);
+
+registerProvider(createAnthropicProvider());
+
+registerProvider(
+	createOpenAICompatibleProvider({
+		id: 'local',
+		name: 'Local LLM',
+		prefixes: ['ollama:', 'local:'],
+		baseUrl: () => env.LOCAL_LLM_BASE_URL || LOCAL_BASE_URL,
+		apiKey: () => env.LOCAL_LLM_API_KEY,
+		requiresApiKey: false,
+		isConfigured: () => !!env.LOCAL_LLM_BASE_URL
+	})
+);
@@ -1,6 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { estimateTokenCount, truncateMessages, generateText } from './llm.js';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import {
+	estimateTokenCount,
+	truncateMessages,
+	truncateMessagesForModel,
+	generateText,
+	accumulateToolCalls,
+	validateChatMessage,
+	chatMessageIssues
+} from './llm.js';
 import type { ChatMessage } from './llm.js';
+import { loadTokenizer } from './tokenizer.js';
 
 // Mock environment variables
 vi.mock('$env/static/private', () => ({
@@ -12,15 +21,20 @@ vi.mock('$env/static/private', () => ({
 global.fetch = vi.fn();
 
 describe('LLM Utilities', () => {
+	beforeAll(async () => {
+		await loadTokenizer();
+	});
+
 	beforeEach(() => {
 		vi.clearAllMocks();
 	});
 
 	describe('estimateTokenCount', () => {
-		it('should estimate token count correctly', () => {
-			expect(estimateTokenCount('Hello world')).toBe(3); // 11 chars / 4 ≈ 3
+		it('should count tokens with the BPE tokenizer', () => {
+			expect(estimateTokenCount('Hello world')).toBe(2);
 			expect(estimateTokenCount('')).toBe(0);
-			expect(estimateTokenCount('A'.repeat(100))).toBe(25); // 100 chars / 4 = 25
+			expect(estimateTokenCount('A'.repeat(100))).toBe(13);
+			expect(estimateTokenCount(null)).toBe(0);
 		});
 	});
 
@@ -45,11 +59,46 @@ describe('LLM Utilities', () => {
 			expect(result[0].role).toBe('system'); // System message preserved
 		});
 
+		it('should keep every leading system message', () => {
+			const withSummary: ChatMessage[] = [
+				messages[0],
+				{ role: 'system', content: 'Summary of the earlier conversation:\nThe user said hello.' },
+				...messages.slice(1)
+			];
+
+			const result = truncateMessages(withSummary, 40);
+			expect(result.length).toBeLessThan(withSummary.length);
+			expect(result.slice(0, 2)).toEqual(withSummary.slice(0, 2));
+			expect(result.at(-1)).toEqual(withSummary.at(-1));
+		});
+
 		it('should return all messages when under token limit', () => {
 			const result = truncateMessages(messages, 1000);
 			expect(result.length).toBe(messages.length);
 		});
 
+		it('should not start with a tool result cut off from its tool call', () => {
+			const withTools: ChatMessage[] = [
+				{ role: 'user', content: 'What is 2*3? '.repeat(50) },
+				{
+					role: 'assistant',
+					content: null,
+					tool_calls: [
+						{
+							id: 'call_1',
+							type: 'function',
+							function: { name: 'calculator', arguments: '{"expression":"2*3"}' }
+						}
+					]
+				},
+				{ role: 'tool', tool_call_id: 'call_1', content: '6' },
+				{ role: 'assistant', content: 'It is 6.' }
+			];
+
+			const result = truncateMessages(withTools, 15);
+			expect(result).toEqual([{ role: 'assistant', content: 'It is 6.' }]);
+		});
+
 		it('should handle messages without system prompt', () => {
 			const messagesWithoutSystem = messages.slice(1);
 			const result = truncateMessages(messagesWithoutSystem, 100);
@@ -57,6 +106,29 @@ describe('LLM Utilities', () => {
 		});
 	});
 
+	describe('truncateMessagesForModel', () => {
+		it("should fit messages to the model's context window minus the completion budget", async () => {
+			vi.mocked(fetch).mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({ data: [{ id: 'tiny/model', context_length: 60 }] })
+			} as any);
+
+			const messages: ChatMessage[] = [
+				{ role: 'system', content: 'You are a helpful assistant.' },
+				{ role: 'user', content: 'Tell me a long story about dragons and castles.' },
+				{ role: 'assistant', content: 'Once upon a time, a dragon lived in a castle.' },
+				{ role: 'user', content: 'Shorter please.' }
+			];
+
+			const result = await truncateMessagesForModel(messages, 'tiny/model', 30);
+
+			expect(result.map((m) => m.content)).toEqual([
+				'You are a helpful assistant.',
+				'Shorter please.'
+			]);
+		});
+	});
+
 	describe('generateText', () => {
 		it('should generate text successfully', async () => {
 			const mockResponse = {
@@ -88,9 +160,11 @@ describe('LLM Utilities', () => {
 				text: async () => 'API Error'
 			};
 
-			vi.mocked(fetch).mockResolvedValueOnce(mockResponse as any);
+			vi.mocked(fetch).mockResolvedValue(mockResponse as any);
 
 			await expect(generateText('Hello')).rejects.toThrow('OpenRouter API error');
+			expect(fetch).toHaveBeenCalledTimes(3); // First call plus two retries
+			vi.mocked(fetch).mockReset();
 		});
 
 		it('should handle empty response', async () => {
@@ -107,4 +181,77 @@ describe('LLM Utilities', () => {
 			expect(result).toBe('');
 		});
 	});
+
+	describe('accumulateToolCalls', () => {
+		it('should merge streamed deltas into complete tool calls', () => {
+			const toolCalls = accumulateToolCalls(
+				[],
+				[
+					{
+						index: 0,
+						id: 'call_1',
+						type: 'function',
+						function: { name: 'get_time', arguments: '' }
+					},
+					{
+						index: 1,
+						id: 'call_2',
+						type: 'function',
+						function: { name: 'calculator', arguments: '' }
+					}
+				]
+			);
+			accumulateToolCalls(toolCalls, [{ index: 1, function: { arguments: '{"expression":' } }]);
+			accumulateToolCalls(toolCalls, [{ index: 1, function: { arguments: '"1+1"}' } }]);
+
+			expect(toolCalls).toEqual([
+				{ id: 'call_1', type: 'function', function: { name: 'get_time', arguments: '' } },
+				{
+					id: 'call_2',
+					type: 'function',
+					function: { name: 'calculator', arguments: '{"expression":"1+1"}' }
+				}
+			]);
+		});
+	});
+
+	describe('validateChatMessage', () => {
+		it('should accept tool calls and tool results', () => {
+			expect(
+				validateChatMessage({
+					role: 'assistant',
+					content: null,
+					tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'f', arguments: '{}' } }]
+				})
+			).toBeNull();
+			expect(validateChatMessage({ role: 'tool', tool_call_id: 'call_1', content: '' })).toBeNull();
+		});
+
+		it('should reject malformed messages', () => {
+			expect(validateChatMessage({ role: 'tool', content: '42' })).toBe(
+				'Tool messages must include tool_call_id'
+			);
+			expect(validateChatMessage({ role: 'assistant', content: null })).toBe(
+				'Each message must have role and content'
+			);
+			expect(validateChatMessage({ role: 'robot' as any, content: 'Hi' })).toBe(
+				'Invalid message role'
+			);
+		});
+
+		it('should give the path of each invalid message', () => {
+			expect(
+				chatMessageIssues([
+					{ role: 'user', content: 'Hi' },
+					{ role: 'assistant', content: null }
+				])
+			).toEqual([
+				{
+					path: 'body.messages[1]',
+					code: 'invalid_value',
+					message: 'Each message must have role and content'
+				}
+			]);
+		});
+	});
 });
@@ -1,16 +1,67 @@
 import { OPENROUTER_API_KEY, OPENROUTER_DEFAULT_MODEL } from '$env/static/private';
+import { resolveProvider } from './llm-providers.js';
+import { buildModelChain, callWithFallback, type RoutingInfo } from './llm-fallback.js';
+import {
+	countContentTokens,
+	countMessageTokens,
+	countPromptTokens,
+	loadTokenizer
+} from './tokenizer.js';
+import { getModelCatalog, type CatalogModel } from './model-catalog.js';
+import type { ValidationIssue } from './validation.js';
+import './llm-mock-provider.js';
+
+export { isProviderApiError } from './llm-providers.js';
+export type { RoutingInfo } from './llm-fallback.js';
 
 // OPENROUTER_API_KEY is now optional since users can provide their own
 if (!OPENROUTER_API_KEY) {
 	console.warn('OPENROUTER_API_KEY not configured - users must provide their own API keys');
 }
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
 const DEFAULT_MODEL = OPENROUTER_DEFAULT_MODEL || 'openai/gpt-3.5-turbo';
 
+export interface ToolDefinition {
+	type: 'function';
+	function: {
+		name: string;
+		description?: string;
+		parameters?: Record<string, unknown>; // JSON Schema for the arguments
+		strict?: boolean;
+	};
+}
+
+export type ToolChoice =
+	| 'none'
+	| 'auto'
+	| 'required'
+	| { type: 'function'; function: { name: string } };
+
+export interface ToolCall {
+	id: string;
+	type: 'function';
+	function: {
+		name: string;
+		arguments: string; // JSON-encoded arguments, as produced by the model
+	};
+}
+
+export interface ToolCallDelta {
+	index: number;
+	id?: string;
+	type?: 'function';
+	function?: {
+		name?: string;
+		arguments?: string;
+	};
+}
+
 export interface ChatMessage {
-	role: 'system' | 'user' | 'assistant';
-	content: string | Array<{
+	role: 'system' | 'user' | 'assistant' | 'tool';
+	tool_calls?: ToolCall[]; // Assistant messages only
+	tool_call_id?: string; // Tool messages only: the call this message answers
+	name?: string;
+	content: null | string | Array<{
 		type: 'text' | 'image_url';
 		text?: string;
 		image_url?: {
@@ -21,8 +72,8 @@ export interface ChatMessage {
 }
 
 export interface ModelPricing {
-	prompt: string; // Cost per token as string (e.g., "0.000001")
-	completion: string; // Cost per token as string
+	prompt?: string; // Cost per token as string (e.g., "0.000001"), unset when the provider doesn't list one
+	completion?: string; // Cost per token as string
 	image?: string; // Cost per image
 	request?: string; // Base cost per request
 }
@@ -66,7 +117,13 @@ export interface CompletionRequest {
 			schema: any;
 		};
 	};
-	apiKey?: string; // Allow custom API key
+	tools?: ToolDefinition[];
+	tool_choice?: ToolChoice;
+	parallel_tool_calls?: boolean;
+	apiKey?: string; // Caller's own OpenRouter key, used only by the OpenRouter provider
+	provider?: string | null; // Preferred provider ID when the model ID has no provider prefix
+	fallback_models?: string[]; // Models to try in order when `model` fails
+	max_retries?: number; // Retries per model for transient failures
 }
 
 export interface CompletionUsage {
@@ -89,6 +146,7 @@ export interface CompletionResponse {
 	}[];
 	usage: CompletionUsage;
 	system_fingerprint?: string;
+	routing?: RoutingInfo; // Which model in the fallback chain answered
 }
 
 export interface StreamChunk {
@@ -100,98 +158,68 @@ export interface StreamChunk {
 		index: number;
 		delta: {
 			role?: string;
-			content?: string;
+			content?: string | null;
+			tool_calls?: ToolCallDelta[];
 		};
 		finish_reason: string | null;
 	}[];
+	usage?: CompletionUsage;
 }
 
 /**
- * Create a completion using OpenRouter API
+ * Create a completion using the provider selected for the model, falling back
+ * through `fallback_models` when it fails
  */
 export async function createCompletion(request: CompletionRequest): Promise<CompletionResponse> {
-	// Use custom API key if provided, otherwise fall back to server API key
-	const apiKey = request.apiKey || OPENROUTER_API_KEY;
-	
-	if (!apiKey) {
-		throw new Error('No API key provided. Please set OPENROUTER_API_KEY environment variable or provide an API key in the request.');
-	}
-	
-	// Remove apiKey from request object to avoid sending it in the body
-	const { apiKey: _, ...requestBody } = request;
-	
-	// Prepare the request body
-	const completionRequest = {
-		...requestBody,
-		model: request.model || DEFAULT_MODEL,
-		stream: false
-	};
-
-	const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-			'Content-Type': 'application/json',
-			'HTTP-Referer': process.env.PUBLIC_APP_URL || 'http://localhost:5173',
-			'X-Title': 'SvelteKit Accelerator'
+	const { fallback_models, max_retries, ...providerRequest } = request;
+	const models = buildModelChain(request.model || DEFAULT_MODEL, fallback_models);
+
+	const { result, routing } = await callWithFallback(
+		models,
+		(modelId) => {
+			const { provider, model } = resolveProvider(modelId, request.provider);
+			return provider.createCompletion({ ...providerRequest, model, stream: false });
 		},
-		body: JSON.stringify(completionRequest)
-	});
+		{ maxRetries: max_retries, circuit: !request.apiKey }
+	);
 
-	if (!response.ok) {
-		const error = await response.text();
-		throw new Error(`OpenRouter API error: ${response.status} ${error}`);
-	}
-
-	return await response.json();
+	return { ...result, routing };
 }
 
 /**
- * Create a streaming completion using OpenRouter API
+ * Create a streaming completion, falling back through `fallback_models` and
+ * reporting which model answered.
+ *
+ * Only opening the stream is retried; a stream that fails part-way is not.
  */
-export async function createCompletionStream(request: CompletionRequest): Promise<ReadableStream> {
-	// Use custom API key if provided, otherwise fall back to server API key
-	const apiKey = request.apiKey || OPENROUTER_API_KEY;
-	
-	if (!apiKey) {
-		throw new Error('No API key provided. Please set OPENROUTER_API_KEY environment variable or provide an API key in the request.');
-	}
-	
-	// Remove apiKey from request object to avoid sending it in the body
-	const { apiKey: _, ...requestBody } = request;
-	
-	// Prepare the request body
-	const completionRequest = {
-		...requestBody,
-		model: request.model || DEFAULT_MODEL,
-		stream: true
-	};
-	
-	const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-			'Content-Type': 'application/json',
-			'HTTP-Referer': process.env.PUBLIC_APP_URL || 'http://localhost:5173',
-			'X-Title': 'SvelteKit Accelerator'
+export async function createRoutedCompletionStream(
+	request: CompletionRequest
+): Promise<{ stream: ReadableStream; routing: RoutingInfo }> {
+	const { fallback_models, max_retries, ...providerRequest } = request;
+	const models = buildModelChain(request.model || DEFAULT_MODEL, fallback_models);
+
+	const { result, routing } = await callWithFallback(
+		models,
+		(modelId) => {
+			const { provider, model } = resolveProvider(modelId, request.provider);
+			return provider.createCompletionStream({ ...providerRequest, model, stream: true });
 		},
-		body: JSON.stringify(completionRequest)
-	});
+		{ maxRetries: max_retries, circuit: !request.apiKey }
+	);
 
-	if (!response.ok) {
-		const error = await response.text();
-		throw new Error(`OpenRouter API error: ${response.status} ${error}`);
-	}
-
-	if (!response.body) {
-		throw new Error('No response body received');
-	}
+	return { stream: result, routing };
+}
 
-	return response.body;
+/**
+ * Create a streaming completion using the provider selected for the model
+ */
+export async function createCompletionStream(request: CompletionRequest): Promise<ReadableStream> {
+	const { stream } = await createRoutedCompletionStream(request);
+	return stream;
 }
 
 /**
- * Parse SSE (Server-Sent Events) stream from OpenRouter
+ * Parse SSE (Server-Sent Events) stream from a provider
  */
 export async function* parseStreamResponse(stream: ReadableStream): AsyncGenerator<StreamChunk> {
 	const reader = stream.getReader();
@@ -217,7 +245,7 @@ export async function* parseStreamResponse(stream: ReadableStream): AsyncGenerat
 
 				try {
 					const data = JSON.parse(trimmed.slice(6));
-					yield data as StreamChunk;
+					yield normalizeToolCallDeltas(data as StreamChunk);
 				} catch (e) {
 					console.warn('Failed to parse SSE data:', trimmed, e);
 				}
@@ -228,6 +256,89 @@ export async function* parseStreamResponse(stream: ReadableStream): AsyncGenerat
 	}
 }
 
+/**
+ * Check an incoming chat message, returning an error message if it is invalid
+ */
+export function validateChatMessage(message: ChatMessage): string | null {
+	if (!message.role || !['system', 'user', 'assistant', 'tool'].includes(message.role)) {
+		return message.role ? 'Invalid message role' : 'Each message must have role and content';
+	}
+
+	if (message.tool_calls !== undefined && message.role !== 'assistant') {
+		return 'Only assistant messages can include tool_calls';
+	}
+
+	if (message.role === 'tool') {
+		if (!message.tool_call_id) {
+			return 'Tool messages must include tool_call_id';
+		}
+		return typeof message.content === 'string' ? null : 'Tool messages must have string content';
+	}
+
+	if (!message.content && !(Array.isArray(message.tool_calls) && message.tool_calls.length > 0)) {
+		return 'Each message must have role and content';
+	}
+
+	return null;
+}
+
+/**
+ * Check the messages of a request body, listing each invalid one by its path
+ */
+export function chatMessageIssues(messages: ChatMessage[]): ValidationIssue[] {
+	return messages.flatMap((message, index) => {
+		const messageError = validateChatMessage(message);
+		return messageError
+			? [{ path: `body.messages[${index}]`, code: 'invalid_value' as const, message: messageError }]
+			: [];
+	});
+}
+
+/**
+ * Fill in tool call delta indexes that some providers omit
+ */
+function normalizeToolCallDeltas(chunk: StreamChunk): StreamChunk {
+	for (const choice of chunk.choices || []) {
+		choice.delta?.tool_calls?.forEach((call, position) => {
+			if (typeof call.index !== 'number') {
+				call.index = position;
+			}
+		});
+	}
+
+	return chunk;
+}
+
+/**
+ * Merge streamed tool call deltas into complete tool calls.
+ *
+ * The first delta for an index carries the call ID and function name; later
+ * deltas append fragments of the JSON arguments.
+ */
+export function accumulateToolCalls(toolCalls: ToolCall[], deltas: ToolCallDelta[] = []): ToolCall[] {
+	for (const delta of deltas) {
+		const existing = toolCalls[delta.index];
+
+		if (!existing) {
+			toolCalls[delta.index] = {
+				id: delta.id || '',
+				type: 'function',
+				function: {
+					name: delta.function?.name || '',
+					arguments: delta.function?.arguments || ''
+				}
+			};
+			continue;
+		}
+
+		if (delta.id) existing.id = delta.id;
+		if (delta.function?.name) existing.function.name += delta.function.name;
+		if (delta.function?.arguments) existing.function.arguments += delta.function.arguments;
+	}
+
+	return toolCalls;
+}
+
 /**
  * Simple completion helper that returns just the text content
  */
@@ -277,114 +388,142 @@ export async function createChatCompletion(
 }
 
 /**
- * Get available models from OpenRouter
+ * Get available models from the cached model catalog.
+ *
+ * `apiKey` is the caller's own provider key, used to fetch the catalog when the
+ * server has no key configured.
  */
-export async function getAvailableModels(): Promise<ModelMetadata[]> {
-	const response = await fetch(`${OPENROUTER_BASE_URL}/models`, {
-		headers: {
-			Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-			'Content-Type': 'application/json'
-		}
-	});
-
-	if (!response.ok) {
-		throw new Error(`Failed to fetch models: ${response.status}`);
-	}
-
-	const data = await response.json();
-	const rawModels = data.data || [];
-
-	// Transform raw OpenRouter model data to our enhanced format
-	return rawModels.map((model: any): ModelMetadata => {
-		const inputModalities = model.architecture?.input_modalities || ['text'];
-		const outputModalities = model.architecture?.output_modalities || ['text'];
-		
-		return {
-			id: model.id,
-			name: model.name,
-			description: model.description,
-			created: model.created,
-			pricing: {
-				prompt: model.pricing?.prompt || '0',
-				completion: model.pricing?.completion || '0',
-				image: model.pricing?.image,
-				request: model.pricing?.request
-			},
-			capabilities: {
-				input_modalities: inputModalities,
-				output_modalities: outputModalities,
-				context_length: model.context_length || model.architecture?.context_length || 4096,
-				max_completion_tokens: model.top_provider?.max_completion_tokens,
-				multimodal: inputModalities.length > 1 || inputModalities.includes('image')
-			},
-			top_provider: model.top_provider
-		};
-	});
+export async function getAvailableModels(apiKey?: string): Promise<CatalogModel[]> {
+	return getModelCatalog(apiKey);
 }
 
 /**
  * Calculate estimated cost based on token usage and model pricing
  */
 export function calculateEstimatedCost(usage: CompletionUsage, pricing: ModelPricing): number {
-	const promptCost = parseFloat(pricing.prompt) * usage.prompt_tokens;
-	const completionCost = parseFloat(pricing.completion) * usage.completion_tokens;
+	const promptCost = parseFloat(pricing.prompt ?? '') * usage.prompt_tokens;
+	const completionCost = parseFloat(pricing.completion ?? '') * usage.completion_tokens;
 	const baseCost = pricing.request ? parseFloat(pricing.request) : 0;
 	
 	return promptCost + completionCost + baseCost;
 }
 
 /**
- * Estimate token count (rough approximation)
+ * Count the tokens in message content with the model's tokenizer
  */
-export function estimateTokenCount(content: string | Array<any>): number {
-	if (typeof content === 'string') {
-		// Rough approximation: 1 token ≈ 4 characters for English text
-		return Math.ceil(content.length / 4);
-	}
-	
-	// For multimodal content, estimate based on text parts only
-	if (Array.isArray(content)) {
-		let totalChars = 0;
-		for (const item of content) {
-			if (item.type === 'text' && item.text) {
-				totalChars += item.text.length;
-			}
-			// Add base tokens for image content
-			if (item.type === 'image_url') {
-				totalChars += 100; // Rough estimate for image processing tokens
-			}
-		}
-		return Math.ceil(totalChars / 4);
-	}
-	
-	return 0;
+export function estimateTokenCount(
+	content: string | Array<any> | null,
+	model?: string | null
+): number {
+	return countContentTokens(content, model);
 }
 
 /**
- * Truncate messages to fit within token limit
+ * Estimate token usage for a streamed reply when the provider doesn't report it
  */
-export function truncateMessages(messages: ChatMessage[], maxTokens: number = 4000): ChatMessage[] {
-	let totalTokens = 0;
-	const truncated: ChatMessage[] = [];
-
-	// Always include system message if present
-	if (messages[0]?.role === 'system') {
-		truncated.push(messages[0]);
-		totalTokens += estimateTokenCount(messages[0].content);
-	}
+export function estimateUsage(
+	messages: ChatMessage[],
+	reply: string,
+	model?: string | null
+): CompletionUsage {
+	const promptTokens = countPromptTokens(messages, model);
+	const completionTokens = countContentTokens(reply, model);
+
+	return {
+		prompt_tokens: promptTokens,
+		completion_tokens: completionTokens,
+		total_tokens: promptTokens + completionTokens
+	};
+}
+
+/**
+ * Truncate messages to fit within a token limit, keeping the leading system
+ * messages (the system prompt and any conversation summary) and as many of the
+ * most recent messages as fit
+ */
+export function truncateMessages(
+	messages: ChatMessage[],
+	maxTokens: number = 4000,
+	model?: string | null
+): ChatMessage[] {
+	let systemCount = 0;
+	while (messages[systemCount]?.role === 'system') systemCount++;
+
+	const system = messages.slice(0, systemCount);
+	let totalTokens = system.reduce((sum, message) => sum + countMessageTokens(message, model), 0);
+	const recent: ChatMessage[] = [];
 
 	// Add messages from the end (most recent first)
-	for (let i = messages.length - 1; i >= (messages[0]?.role === 'system' ? 1 : 0); i--) {
+	for (let i = messages.length - 1; i >= systemCount; i--) {
 		const message = messages[i];
-		const tokens = estimateTokenCount(message.content);
+		const tokens = countMessageTokens(message, model);
 
 		if (totalTokens + tokens > maxTokens) {
 			break;
 		}
 
-		truncated.unshift(message);
+		recent.unshift(message);
 		totalTokens += tokens;
 	}
 
-	return truncated;
+	// A tool result can't be sent without the assistant message that requested it
+	while (recent[0]?.role === 'tool') {
+		recent.shift();
+	}
+
+	return [...system, ...recent];
+}
+
+const DEFAULT_CONTEXT_LENGTH = 8192;
+const DEFAULT_COMPLETION_BUDGET = 1024;
+
+/**
+ * Look up a model's context window, falling back to a conservative default for
+ * models the catalog doesn't know
+ */
+export async function getModelContextWindow(
+	model: string
+): Promise<{ context_length: number; max_completion_tokens?: number }> {
+	let metadata: ModelMetadata | undefined;
+	try {
+		metadata = (await getModelCatalog()).find((m) => m.id === model);
+	} catch (error) {
+		console.warn('Failed to load model context windows:', error);
+	}
+
+	return {
+		context_length: metadata?.capabilities.context_length || DEFAULT_CONTEXT_LENGTH,
+		max_completion_tokens:
+			metadata?.capabilities.max_completion_tokens ||
+			metadata?.top_provider?.max_completion_tokens
+	};
+}
+
+/**
+ * Work out how many prompt tokens fit in the model's context window, leaving
+ * room for the completion.
+ *
+ * `completionTokens` is the requested completion budget (`max_tokens`); without
+ * one, a default budget capped at the model's completion limit is reserved.
+ */
+export async function getPromptBudget(model: string, completionTokens?: number): Promise<number> {
+	// The prompt is counted against the budget next, so have its tokenizer ready
+	const [contextWindow] = await Promise.all([getModelContextWindow(model), loadTokenizer(model)]);
+	const reserved =
+		completionTokens ||
+		Math.min(DEFAULT_COMPLETION_BUDGET, contextWindow.max_completion_tokens || Infinity);
+
+	return Math.max(contextWindow.context_length - reserved, 0);
+}
+
+/**
+ * Truncate messages to fit the model's context window, leaving room for the
+ * completion
+ */
+export async function truncateMessagesForModel(
+	messages: ChatMessage[],
+	model: string,
+	completionTokens?: number
+): Promise<ChatMessage[]> {
+	return truncateMessages(messages, await getPromptBudget(model, completionTokens), model);
 }
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+	activePath,
+	childrenOf,
+	latestLeaf,
+	pathTo,
+	withBranches,
+	type TreeMessage
+} from './message-tree.js';
+
+function message(id: string, parent_id: string | null, minute: number): TreeMessage {
+	return { id, parent_id, created_at: `2025-01-01T00:${String(minute).padStart(2, '0')}:00.000Z` };
+}
+
+// u1 → a1 → u2 → a2, with u2 edited into u2b (answered by a2b and, regenerated, a2c)
+const messages = [
+	message('u1', null, 0),
+	message('a1', 'u1', 1),
+	message('u2', 'a1', 2),
+	message('a2', 'u2', 3),
+	message('u2b', 'a1', 4),
+	message('a2b', 'u2b', 5),
+	message('a2c', 'u2b', 6)
+];
+
+const ids = (list: TreeMessage[]) => list.map((m) => m.id);
+
+describe('Message Tree', () => {
+	it('should list the replies to a message, oldest first', () => {
+		expect(ids(childrenOf(messages, 'a1'))).toEqual(['u2', 'u2b']);
+		expect(ids(childrenOf(messages, null))).toEqual(['u1']);
+	});
+
+	it('should follow parents back to the first turn', () => {
+		expect(ids(pathTo(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+		expect(ids(pathTo(messages, 'a2c'))).toEqual(['u1', 'a1', 'u2b', 'a2c']);
+		expect(pathTo(messages, null)).toEqual([]);
+	});
+
+	it('should use the active message, or the newest one without it', () => {
+		expect(ids(activePath(messages, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+		expect(ids(activePath(messages, null))).toEqual(['u1', 'a1', 'u2b', 'a2c']);
+		expect(ids(activePath(messages, 'deleted'))).toEqual(['u1', 'a1', 'u2b', 'a2c']);
+		expect(activePath([], null)).toEqual([]);
+	});
+
+	it('should find the end of a branch through the newest replies', () => {
+		expect(latestLeaf(messages, 'u2b')?.id).toBe('a2c');
+		expect(latestLeaf(messages, 'u2')?.id).toBe('a2');
+		expect(latestLeaf(messages, 'u1')?.id).toBe('a2c');
+		expect(latestLeaf(messages, 'missing')).toBeUndefined();
+	});
+
+	it('should give each message on the path its place among its siblings', () => {
+		const path = withBranches(messages, pathTo(messages, 'a2b'));
+
+		expect(path.map((m) => [m.id, m.branch.index, m.branch.count])).toEqual([
+			['u1', 0, 1],
+			['a1', 0, 1],
+			['u2b', 1, 2],
+			['a2b', 0, 2]
+		]);
+		expect(path[2].branch.sibling_ids).toEqual(['u2', 'u2b']);
+	});
+});
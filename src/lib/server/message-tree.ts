@@ -0,0 +1,122 @@
+/**
+ * Chat and API conversation messages form a tree: each message points at the
+ * one it follows, so editing a user turn or regenerating a reply adds a
+ * sibling branch instead of overwriting it. A conversation remembers the last
+ * message of its active branch, and its history is the path from the first
+ * message to that one.
+ */
+
+export interface TreeMessage {
+	id: string;
+	parent_id?: string | null;
+	created_at: string;
+}
+
+/**
+ * Where a message sits among the alternatives for its turn
+ */
+export interface BranchInfo {
+	index: number; // Position among its siblings, oldest first
+	count: number;
+	sibling_ids: string[];
+}
+
+export type BranchedMessage<T> = T & { branch: BranchInfo };
+
+function byCreation(a: TreeMessage, b: TreeMessage): number {
+	return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+/**
+ * The messages following a message, oldest first; `null` for the first turns
+ */
+export function childrenOf<T extends TreeMessage>(messages: T[], parentId: string | null): T[] {
+	return messages.filter((m) => (m.parent_id ?? null) === parentId).sort(byCreation);
+}
+
+/**
+ * Every message's replies, oldest first, keyed by the message they follow
+ */
+function childrenByParent<T extends TreeMessage>(messages: T[]): Map<string | null, T[]> {
+	const children = new Map<string | null, T[]>();
+	for (const message of [...messages].sort(byCreation)) {
+		const parentId = message.parent_id ?? null;
+		const siblings = children.get(parentId);
+		if (siblings) siblings.push(message);
+		else children.set(parentId, [message]);
+	}
+	return children;
+}
+
+/**
+ * The messages from the first turn to a message, oldest first. Empty for
+ * `null`, the point before the first turn.
+ */
+export function pathTo<T extends TreeMessage>(messages: T[], messageId: string | null): T[] {
+	const byId = new Map(messages.map((m) => [m.id, m]));
+	const path: T[] = [];
+	const seen = new Set<string>();
+
+	let current = messageId ? byId.get(messageId) : undefined;
+	while (current && !seen.has(current.id)) {
+		seen.add(current.id);
+		path.push(current);
+		current = current.parent_id ? byId.get(current.parent_id) : undefined;
+	}
+
+	return path.reverse();
+}
+
+/**
+ * The active branch, ending at the conversation's active message. Falls back
+ * to the branch of the newest message for conversations without one.
+ */
+export function activePath<T extends TreeMessage>(messages: T[], activeId?: string | null): T[] {
+	const active =
+		(activeId && messages.find((m) => m.id === activeId)) || [...messages].sort(byCreation).at(-1);
+
+	return active ? pathTo(messages, active.id) : [];
+}
+
+/**
+ * The last message of a branch, following the newest reply at every turn
+ */
+export function latestLeaf<T extends TreeMessage>(messages: T[], messageId: string): T | undefined {
+	const children = childrenByParent(messages);
+	const seen = new Set<string>();
+	let current = messages.find((m) => m.id === messageId);
+
+	while (current && !seen.has(current.id)) {
+		seen.add(current.id);
+		const next = children.get(current.id)?.at(-1);
+		if (!next) break;
+		current = next;
+	}
+
+	return current;
+}
+
+/**
+ * Annotate a path with each message's position among its siblings
+ */
+export function withBranches<T extends TreeMessage>(
+	messages: T[],
+	path: T[]
+): BranchedMessage<T>[] {
+	const children = childrenByParent(messages);
+	return path.map((message) => {
+		const siblingIds = (children.get(message.parent_id ?? null) ?? []).map((m) => m.id);
+		return { ...message, branch: branchInfo(message.id, siblingIds) };
+	});
+}
+
+/**
+ * A message's place among its siblings, given their IDs oldest first
+ */
+export function branchInfo(messageId: string, siblingIds: string[]): BranchInfo {
+	return {
+		index: siblingIds.indexOf(messageId),
+		count: siblingIds.length,
+		sibling_ids: siblingIds
+	};
+}
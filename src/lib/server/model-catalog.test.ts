@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	clearModelCatalog,
+	filterModels,
+	getCatalogStatus,
+	getModelCatalog,
+	toCatalogModel
+} from './model-catalog.js';
+
+// No server key, so requests can fall back to the user's own key
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: '',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({
+	env: { MODEL_CATALOG_TTL_MS: '1000', MODEL_CATALOG_STALE_MS: '5000' }
+}));
+
+global.fetch = vi.fn();
+
+const rawModels = [
+	{
+		id: 'openai/gpt-4o',
+		name: 'GPT-4o',
+		pricing: { prompt: '0.0000025', completion: '0.00001' },
+		context_length: 128000,
+		architecture: { input_modalities: ['text', 'image'] }
+	},
+	{
+		id: 'meta-llama/llama-3.1-8b-instruct:free',
+		name: 'Llama 3.1 8B (free)',
+		pricing: { prompt: '0', completion: '0' },
+		context_length: 8192
+	},
+	{
+		id: 'openrouter/auto',
+		name: 'Auto Router',
+		pricing: { prompt: '-1', completion: '-1' },
+		context_length: 2000000
+	}
+];
+
+function mockModelsResponse(models: unknown[] = rawModels) {
+	vi.mocked(fetch).mockResolvedValueOnce({
+		ok: true,
+		json: async () => ({ data: models })
+	} as any);
+}
+
+describe('Model Catalog', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ toFake: ['Date'] });
+		clearModelCatalog();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should compute cost per 1K tokens, vendor and free flag', async () => {
+		mockModelsResponse();
+		const [gpt, llama, auto] = await getModelCatalog();
+
+		expect(gpt).toMatchObject({
+			provider: 'openrouter',
+			vendor: 'openai',
+			cost_per_1k: { prompt: 0.0025, completion: 0.01 },
+			is_free: false
+		});
+		expect(llama.is_free).toBe(true);
+		expect(auto.cost_per_1k).toEqual({ prompt: null, completion: null });
+		expect(auto.is_free).toBe(false);
+	});
+
+	it('should not list models without a price as free', async () => {
+		mockModelsResponse([{ id: 'gpt-4o-mini', name: 'GPT-4o mini' }]);
+		const catalog = await getModelCatalog();
+
+		expect(catalog[0].pricing.prompt).toBeUndefined();
+		expect(catalog[0].cost_per_1k).toEqual({ prompt: null, completion: null });
+		expect(catalog[0].is_free).toBe(false);
+		expect(filterModels(catalog, { free_only: true })).toEqual([]);
+		expect(filterModels(catalog, { max_price: 1 })).toEqual([]);
+	});
+
+	it("should use the caller's key when the server has none", async () => {
+		mockModelsResponse();
+		await getModelCatalog('user-key');
+
+		const [, init] = vi.mocked(fetch).mock.calls[0];
+		expect((init as RequestInit).headers).toMatchObject({ Authorization: 'Bearer user-key' });
+	});
+
+	it('should cache the catalog for the TTL', async () => {
+		mockModelsResponse();
+		await getModelCatalog();
+		await getModelCatalog();
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(getCatalogStatus()).toMatchObject({ stale: false, model_count: 3 });
+	});
+
+	it('should serve the stale catalog while refreshing in the background', async () => {
+		mockModelsResponse();
+		await getModelCatalog();
+
+		vi.advanceTimersByTime(2000);
+		mockModelsResponse([rawModels[0]]);
+
+		// The stale copy is returned straight away
+		expect(await getModelCatalog()).toHaveLength(3);
+		expect(fetch).toHaveBeenCalledTimes(2);
+
+		await vi.waitFor(async () => expect(await getModelCatalog()).toHaveLength(1));
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should wait for a refresh once past the stale window, keeping the old copy on failure', async () => {
+		mockModelsResponse();
+		await getModelCatalog();
+
+		vi.advanceTimersByTime(10000);
+		vi.mocked(fetch).mockRejectedValueOnce(new TypeError('fetch failed'));
+
+		expect(await getModelCatalog()).toHaveLength(3);
+
+		// Failed refreshes aren't retried on every call
+		expect(await getModelCatalog()).toHaveLength(3);
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should throw when there is no catalog to fall back to', async () => {
+		vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 500 } as any);
+
+		await expect(getModelCatalog()).rejects.toThrow('Failed to fetch models: 500');
+	});
+
+	describe('filterModels', () => {
+		const catalog = rawModels.map((model) =>
+			toCatalogModel(
+				{
+					id: model.id,
+					name: model.name,
+					pricing: model.pricing,
+					capabilities: {
+						input_modalities: model.architecture?.input_modalities || ['text'],
+						output_modalities: ['text'],
+						context_length: model.context_length,
+						multimodal: false
+					}
+				},
+				'openrouter'
+			)
+		);
+		const ids = (filters: Parameters<typeof filterModels>[1]) =>
+			filterModels(catalog, filters).map((model) => model.id);
+
+		it('should filter by modality, context length and provider', () => {
+			expect(ids({ modality: 'image' })).toEqual(['openai/gpt-4o']);
+			expect(ids({ min_context_length: 100000 })).toEqual(['openai/gpt-4o', 'openrouter/auto']);
+			expect(ids({ provider: 'meta-llama' })).toEqual(['meta-llama/llama-3.1-8b-instruct:free']);
+			expect(ids({ provider: 'openrouter' })).toHaveLength(3);
+		});
+
+		it('should filter by price, skipping models without a known price', () => {
+			expect(ids({ free_only: true })).toEqual(['meta-llama/llama-3.1-8b-instruct:free']);
+			expect(ids({ max_price: 0.005 })).toEqual(['meta-llama/llama-3.1-8b-instruct:free']);
+			expect(ids({ max_price: 0.01 })).toEqual([
+				'openai/gpt-4o',
+				'meta-llama/llama-3.1-8b-instruct:free'
+			]);
+		});
+
+		it('should search and sort', () => {
+			expect(ids({ search: 'LLAMA' })).toEqual(['meta-llama/llama-3.1-8b-instruct:free']);
+			expect(ids({ sort: 'price' })).toEqual([
+				'meta-llama/llama-3.1-8b-instruct:free',
+				'openai/gpt-4o',
+				'openrouter/auto'
+			]);
+			expect(ids({ sort: 'context_length' })[0]).toBe('openrouter/auto');
+		});
+	});
+});
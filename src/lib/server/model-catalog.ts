@@ -0,0 +1,268 @@
+import { env } from '$env/dynamic/private';
+import { getDefaultProvider, listProviders, type LLMProvider } from './llm-providers.js';
+import type { ModelMetadata } from './llm.js';
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_STALE_MS = 24 * 60 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+
+/**
+ * A model in the catalog, with fields computed from its metadata
+ */
+export interface CatalogModel extends ModelMetadata {
+	provider: string; // Routing provider the model is served through, e.g. "openrouter"
+	vendor: string; // Model author from the ID, e.g. "anthropic" for "anthropic/claude-3-opus"
+	cost_per_1k: {
+		prompt: number | null; // USD per 1K prompt tokens, null when the provider doesn't say
+		completion: number | null;
+	};
+	is_free: boolean;
+}
+
+export type ModelSort = 'name' | 'price' | 'context_length' | 'created';
+
+export interface ModelFilters {
+	modality?: string; // Required input modality, e.g. "image"
+	min_context_length?: number;
+	max_price?: number; // Max USD per 1K tokens, for both prompt and completion
+	free_only?: boolean;
+	provider?: string; // Matches the routing provider or the vendor
+	search?: string;
+	sort?: ModelSort;
+}
+
+export interface CatalogStatus {
+	fetched_at: string | null;
+	stale: boolean;
+	model_count: number;
+}
+
+let cache: { models: CatalogModel[]; fetchedAt: number } | null = null;
+let refreshing: Promise<CatalogModel[]> | null = null;
+let retryAfter = 0;
+
+function envInt(value: string | undefined, fallback: number): number {
+	const parsed = parseInt(value || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function catalogTtl(): number {
+	return envInt(env.MODEL_CATALOG_TTL_MS, DEFAULT_TTL_MS);
+}
+
+function staleWindow(): number {
+	return envInt(env.MODEL_CATALOG_STALE_MS, DEFAULT_STALE_MS);
+}
+
+function costPer1k(price: string | undefined): number | null {
+	const perToken = parseFloat(price ?? '');
+	// OpenRouter lists variable-priced routers (e.g. openrouter/auto) at -1
+	if (!Number.isFinite(perToken) || perToken < 0) return null;
+	return Math.round(perToken * 1000 * 1e9) / 1e9;
+}
+
+/**
+ * Add the computed catalog fields to a model from a provider
+ */
+export function toCatalogModel(model: ModelMetadata, provider: string): CatalogModel {
+	const localId = model.id.replace(/^[a-z]+:/, '');
+	const prompt = costPer1k(model.pricing.prompt);
+	const completion = costPer1k(model.pricing.completion);
+
+	return {
+		...model,
+		provider,
+		vendor: localId.includes('/') ? localId.split('/')[0] : provider,
+		cost_per_1k: { prompt, completion },
+		is_free: prompt === 0 && completion === 0
+	};
+}
+
+async function listProviderModels(
+	provider: LLMProvider,
+	apiKey?: string
+): Promise<ModelMetadata[]> {
+	// Only fall back to the caller's key when the server has none, so the
+	// shared catalog never depends on one user's account
+	return provider.listModels(provider.isConfigured() ? undefined : apiKey);
+}
+
+/**
+ * Fetch models from the default provider plus any other configured providers.
+ * Models from non-default providers are listed with their routing prefix.
+ */
+async function fetchCatalog(apiKey?: string): Promise<CatalogModel[]> {
+	const defaultProvider = getDefaultProvider();
+	const otherProviders = listProviders().filter(
+		(provider) => provider !== defaultProvider && provider.isConfigured()
+	);
+
+	const [models, ...otherResults] = await Promise.all([
+		listProviderModels(defaultProvider, apiKey),
+		...otherProviders.map((provider) =>
+			provider.listModels().catch((error) => {
+				console.warn(`Failed to fetch models from ${provider.name}:`, error);
+				return [] as ModelMetadata[];
+			})
+		)
+	]);
+
+	const catalog = models.map((model) => toCatalogModel(model, defaultProvider.id));
+
+	otherResults.forEach((providerModels, index) => {
+		const provider = otherProviders[index];
+		const prefix = provider.prefixes[0] || '';
+		catalog.push(
+			...providerModels.map((model) =>
+				toCatalogModel({ ...model, id: prefix + model.id }, provider.id)
+			)
+		);
+	});
+
+	return catalog;
+}
+
+/**
+ * Refresh the catalog now. Concurrent callers share one in-flight fetch.
+ */
+export function refreshModelCatalog(apiKey?: string): Promise<CatalogModel[]> {
+	if (!refreshing) {
+		refreshing = fetchCatalog(apiKey)
+			.then((models) => {
+				cache = { models, fetchedAt: Date.now() };
+				retryAfter = 0;
+				return models;
+			})
+			.catch((error) => {
+				retryAfter = Date.now() + REFRESH_RETRY_MS;
+				throw error;
+			})
+			.finally(() => {
+				refreshing = null;
+			});
+	}
+
+	return refreshing;
+}
+
+/**
+ * Get the model catalog, cached for `MODEL_CATALOG_TTL_MS`.
+ *
+ * Once the TTL has passed, the stale catalog is still served for up to
+ * `MODEL_CATALOG_STALE_MS` while a refresh runs in the background. Past that,
+ * callers wait for the refresh, and only get the stale copy if it fails.
+ *
+ * `apiKey` is the caller's own provider key, used only when the server has no
+ * key configured for the default provider.
+ */
+export async function getModelCatalog(apiKey?: string): Promise<CatalogModel[]> {
+	const age = cache ? Date.now() - cache.fetchedAt : Infinity;
+
+	if (cache && age < catalogTtl()) {
+		return cache.models;
+	}
+
+	if (cache && (age < catalogTtl() + staleWindow() || Date.now() < retryAfter)) {
+		if (Date.now() >= retryAfter) {
+			refreshModelCatalog(apiKey).catch((error) => {
+				console.warn('Failed to refresh model catalog:', error);
+			});
+		}
+		return cache.models;
+	}
+
+	try {
+		return await refreshModelCatalog(apiKey);
+	} catch (error) {
+		if (cache) {
+			console.warn('Failed to refresh model catalog, serving stale copy:', error);
+			return cache.models;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Describe the cached catalog, for response metadata
+ */
+export function getCatalogStatus(): CatalogStatus {
+	return {
+		fetched_at: cache ? new Date(cache.fetchedAt).toISOString() : null,
+		stale: cache ? Date.now() - cache.fetchedAt >= catalogTtl() : false,
+		model_count: cache?.models.length ?? 0
+	};
+}
+
+/**
+ * Drop the cached catalog so the next call fetches it again
+ */
+export function clearModelCatalog(): void {
+	cache = null;
+	refreshing = null;
+	retryAfter = 0;
+}
+
+function compareModels(sort: ModelSort): (a: CatalogModel, b: CatalogModel) => number {
+	switch (sort) {
+		case 'price': {
+			// Unknown prices sort last
+			const price = (model: CatalogModel) =>
+				(model.cost_per_1k.prompt ?? Infinity) + (model.cost_per_1k.completion ?? Infinity);
+			return (a, b) => price(a) - price(b) || a.id.localeCompare(b.id);
+		}
+		case 'context_length':
+			return (a, b) =>
+				b.capabilities.context_length - a.capabilities.context_length || a.id.localeCompare(b.id);
+		case 'created':
+			return (a, b) => (b.created ?? 0) - (a.created ?? 0) || a.id.localeCompare(b.id);
+		default:
+			return (a, b) => (a.name || a.id).localeCompare(b.name || b.id);
+	}
+}
+
+/**
+ * Filter and sort catalog models. Without a sort, the provider's order is kept.
+ */
+export function filterModels(models: CatalogModel[], filters: ModelFilters): CatalogModel[] {
+	const search = filters.search?.trim().toLowerCase();
+	const provider = filters.provider?.toLowerCase();
+
+	const filtered = models.filter((model) => {
+		if (filters.modality && !model.capabilities.input_modalities.includes(filters.modality)) {
+			return false;
+		}
+
+		if (
+			filters.min_context_length !== undefined &&
+			model.capabilities.context_length < filters.min_context_length
+		) {
+			return false;
+		}
+
+		if (filters.free_only && !model.is_free) {
+			return false;
+		}
+
+		if (filters.max_price !== undefined) {
+			const { prompt, completion } = model.cost_per_1k;
+			if (prompt === null || completion === null) return false;
+			if (prompt > filters.max_price || completion > filters.max_price) return false;
+		}
+
+		if (provider && model.provider !== provider && model.vendor.toLowerCase() !== provider) {
+			return false;
+		}
+
+		if (
+			search &&
+			!model.id.toLowerCase().includes(search) &&
+			!model.name?.toLowerCase().includes(search)
+		) {
+			return false;
+		}
+
+		return true;
+	});
+
+	return filters.sort ? filtered.sort(compareModels(filters.sort)) : filtered;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildOpenApiDocument, defineRoute, routePath, t, type HttpMethod } from './openapi.js';
+import { API_ROUTES, getOpenApiDocument } from './api-routes.js';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: { from: vi.fn() }
+}));
+
+// Every v1 handler's source, to check the definitions against
+const handlers = import.meta.glob<string>('/src/routes/api/v1/**/+server.ts', {
+	query: '?raw',
+	import: 'default',
+	eager: true
+});
+
+const Widget = t.component('Widget', t.object({ id: t.string(), size: t.optional(t.integer()) }));
+
+const widgets = defineRoute({
+	tag: 'Widgets',
+	params: t.object({ id: t.string({ format: 'uuid', description: 'The widget' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a widget',
+			auth: 'key',
+			scopes: ['widgets:read'],
+			query: t.object({ expand: t.optional(t.boolean()) }),
+			response: Widget
+		},
+		PUT: {
+			summary: 'Replace a widget',
+			auth: 'session',
+			body: t.object({ size: t.integer() }),
+			response: Widget,
+			status: 201
+		}
+	}
+});
+
+describe('OpenAPI', () => {
+	describe('t', () => {
+		it('should require every property that is not optional', () => {
+			const schema = t.object({ name: t.string(), tags: t.optional(t.array(t.string())) });
+
+			expect(schema.type).toBe('object');
+			expect(schema.properties.tags).toMatchObject({ type: 'array', items: { type: 'string' } });
+			expect(schema.required).toEqual(['name']);
+			expect(t.object({ tags: t.optional(t.string()) })).not.toHaveProperty('required');
+		});
+
+		it('should extend object schemas', () => {
+			const schema = t.extend(t.object({ id: t.string(), name: t.string() }), {
+				name: t.optional(t.string()),
+				count: t.integer()
+			});
+
+			expect(schema.required).toEqual(['id', 'count']);
+		});
+	});
+
+	describe('routePath', () => {
+		it('should turn route directories into API paths', () => {
+			expect(routePath('/src/routes/api/v1/prompts/[id]/schema.ts')).toBe('/api/v1/prompts/{id}');
+			expect(routePath('/src/routes/api/v1/orgs/[id]/members/[userId]/schema.ts')).toBe(
+				'/api/v1/orgs/{id}/members/{userId}'
+			);
+			expect(routePath('/src/routes/(app)/api/v1/scopes/schema.ts')).toBe('/api/v1/scopes');
+		});
+	});
+
+	describe('buildOpenApiDocument', () => {
+		const document = buildOpenApiDocument(
+			{ '/api/v1/widgets/{id}': widgets },
+			{ serverUrl: 'https://api.example.com' }
+		);
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		const path = document.paths['/api/v1/widgets/{id}'] as Record<string, any>;
+
+		it('should list named schemas once under components', () => {
+			expect(path.get.responses[200].content['application/json'].schema).toEqual({
+				$ref: '#/components/schemas/Widget'
+			});
+			expect(document.components.schemas.Widget).toEqual({
+				type: 'object',
+				properties: { id: { type: 'string' }, size: { type: 'integer' } },
+				required: ['id']
+			});
+		});
+
+		it('should describe parameters, bodies and auth', () => {
+			expect(path.get.operationId).toBe('getWidgetsById');
+			expect(path.get.parameters).toEqual([
+				{
+					name: 'id',
+					in: 'path',
+					required: true,
+					description: 'The widget',
+					schema: { type: 'string', format: 'uuid' }
+				},
+				{ name: 'expand', in: 'query', required: false, schema: { type: 'boolean' } }
+			]);
+			expect(path.get.security).toEqual([{ apiKey: ['widgets:read'] }]);
+			expect(path.get.responses).toHaveProperty('429');
+
+			expect(path.put.security).toEqual([{ session: [] }]);
+			expect(path.put.requestBody.required).toBe(true);
+			expect(path.put.responses[201].description).toBe('Created');
+			expect(path.put.responses).not.toHaveProperty('429');
+			expect(document.servers).toEqual([{ url: 'https://api.example.com' }]);
+		});
+
+		it('should reject two different schemas with the same name', () => {
+			const other = defineRoute({
+				tag: 'Widgets',
+				operations: {
+					GET: {
+						summary: 'List widgets',
+						response: t.array(t.component('Widget', t.object({ id: t.integer() })))
+					}
+				}
+			});
+
+			expect(() =>
+				buildOpenApiDocument({ '/api/v1/widgets/{id}': widgets, '/api/v1/widgets': other })
+			).toThrow(/Widget/);
+		});
+	});
+
+	describe('v1 routes', () => {
+		it('should define every method each handler exports', () => {
+			for (const [file, source] of Object.entries(handlers)) {
+				const path = routePath(file.replace('+server.ts', 'schema.ts'));
+				const methods = [...source.matchAll(/export const (GET|POST|PUT|PATCH|DELETE)\b/g)]
+					.map(([, method]) => method as HttpMethod)
+					.sort();
+
+				expect(API_ROUTES[path], `${path} has no schema.ts`).toBeDefined();
+				expect(Object.keys(API_ROUTES[path].operations).sort(), path).toEqual(methods);
+			}
+		});
+
+		it('should name every path parameter of the route', () => {
+			for (const [path, route] of Object.entries(API_ROUTES)) {
+				const names = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+
+				expect(Object.keys(route.params?.properties ?? {}), path).toEqual(names);
+			}
+		});
+
+		it('should build a document for the whole API', () => {
+			const document = getOpenApiDocument();
+
+			expect(document.openapi).toBe('3.1.0');
+			expect(Object.keys(document.paths)).toContain('/api/v1/chat/completions');
+			expect(document.components.schemas).toHaveProperty('SystemPrompt');
+		});
+	});
+});
@@ -0,0 +1,443 @@
+/**
+ * Typed request and response definitions for the v1 API. Each route keeps its
+ * definition in a `schema.ts` beside its `+server.ts`. Handlers validate their
+ * input against it with `validateRequest`, and the OpenAPI document served at
+ * /api/v1/openapi.json is built from it, so neither can drift from the other.
+ */
+
+import { VALIDATION_ISSUE_CODES } from './validation.js';
+
+const OPTIONAL: unique symbol = Symbol('optional');
+const COMPONENT: unique symbol = Symbol('component');
+
+// Carries a schema's TypeScript type; never set at runtime
+declare const TYPE: unique symbol;
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * A JSON Schema that knows the TypeScript type of the values it accepts
+ */
+export type Schema<T = unknown> = JsonSchema & { readonly [TYPE]: T };
+
+export type Infer<S extends Schema> = S[typeof TYPE];
+
+type Optional = { readonly [OPTIONAL]: true };
+
+type Properties = Record<string, Schema>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectType<P extends Properties> = Simplify<
+	{ [K in keyof P as P[K] extends Optional ? never : K]: Infer<P[K]> } & {
+		[K in keyof P as P[K] extends Optional ? K : never]?: Infer<P[K]>;
+	}
+>;
+
+export type ObjectSchema<P extends Properties = Properties> = Schema<ObjectType<P>> & {
+	properties: P;
+};
+
+// Annotations and validation keywords, e.g. description, example, minimum
+type Keywords = { description?: string; example?: unknown; default?: unknown } & JsonSchema;
+
+function schema<T>(keywords: JsonSchema): Schema<T> {
+	return keywords as Schema<T>;
+}
+
+function object<P extends Properties>(properties: P, keywords: Keywords = {}): ObjectSchema<P> {
+	const required = Object.keys(properties).filter((name) => !(OPTIONAL in properties[name]));
+
+	return {
+		type: 'object',
+		properties,
+		...(required.length > 0 && { required }),
+		...keywords
+	} as unknown as ObjectSchema<P>;
+}
+
+/**
+ * Schema builders
+ */
+export const t = {
+	string: (keywords: Keywords = {}) => schema<string>({ type: 'string', ...keywords }),
+	enum: <const V extends string>(values: readonly V[], keywords: Keywords = {}) =>
+		schema<V>({ type: 'string', enum: [...values], ...keywords }),
+	integer: (keywords: Keywords = {}) => schema<number>({ type: 'integer', ...keywords }),
+	number: (keywords: Keywords = {}) => schema<number>({ type: 'number', ...keywords }),
+	boolean: (keywords: Keywords = {}) => schema<boolean>({ type: 'boolean', ...keywords }),
+	// An uploaded file, in multipart bodies
+	file: (keywords: Keywords = {}) =>
+		schema<File>({ type: 'string', format: 'binary', ...keywords }),
+	// Any JSON value
+	unknown: (keywords: Keywords = {}) => schema<unknown>({ ...keywords }),
+	array: <S extends Schema>(items: S, keywords: Keywords = {}) =>
+		schema<Infer<S>[]>({ type: 'array', items, ...keywords }),
+	object,
+	// An object with arbitrary keys and values of one schema
+	record: <S extends Schema>(values: S, keywords: Keywords = {}) =>
+		schema<Record<string, Infer<S>>>({ type: 'object', additionalProperties: values, ...keywords }),
+	nullable: <S extends Schema>(inner: S) =>
+		schema<Infer<S> | null>({ anyOf: [inner, { type: 'null' }] }),
+	union: <S extends Schema[]>(...schemas: S) => schema<Infer<S[number]>>({ anyOf: schemas }),
+	// Marks an object property as optional
+	optional: <S extends Schema>(inner: S) => ({ ...inner, [OPTIONAL]: true }) as S & Optional,
+	// Names a schema so the document lists it once under components.schemas
+	component: <S extends Schema>(name: string, inner: S) => ({ ...inner, [COMPONENT]: name }) as S,
+	// An object schema with extra or replaced properties
+	extend: <P extends Properties, Q extends Properties>(
+		base: ObjectSchema<P>,
+		properties: Q,
+		keywords: Keywords = {}
+	) => object({ ...base.properties, ...properties } as Omit<P, keyof Q> & Q, keywords)
+};
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * How an operation authenticates: with an API key, the developer console's
+ * session, either of them, or not at all
+ */
+export type OperationAuth = 'key' | 'session' | 'key_or_session' | 'none';
+
+export interface Operation {
+	summary: string;
+	description?: string;
+	auth?: OperationAuth; // 'key_or_session' unless set
+	scopes?: string[]; // Every listed scope is required of API keys
+	query?: ObjectSchema;
+	body?: Schema;
+	multipart?: boolean; // The body is sent as multipart/form-data
+	response: Schema;
+	status?: number; // Success status, 200 unless set
+	stream?: string; // Describes the text/event-stream reply sent when the request asks to stream
+}
+
+export interface RouteDefinition {
+	tag: string;
+	params?: ObjectSchema; // Path parameters, named as in the route directory
+	operations: Partial<Record<HttpMethod, Operation>>;
+}
+
+export function defineRoute<R extends RouteDefinition>(route: R): R {
+	return route;
+}
+
+export const ErrorSchema = t.component(
+	'Error',
+	t.object({
+		message: t.string(),
+		code: t.optional(t.string({ description: 'Stable, machine-readable error code' }))
+	})
+);
+
+export const ValidationErrorSchema = t.component(
+	'ValidationError',
+	t.extend(ErrorSchema, {
+		code: t.enum(['VALIDATION_ERROR']),
+		errors: t.array(
+			t.object({
+				path: t.string({ example: 'body.messages[0].role' }),
+				code: t.enum(VALIDATION_ISSUE_CODES),
+				message: t.string()
+			}),
+			{ description: 'Every invalid field' }
+		)
+	})
+);
+
+export const PaginationSchema = t.component(
+	'Pagination',
+	t.object({
+		total: t.integer(),
+		limit: t.integer(),
+		offset: t.integer(),
+		page: t.integer(),
+		total_pages: t.integer(),
+		has_more: t.boolean()
+	})
+);
+
+// The `limit`, `offset` and `page` parameters read by `parsePagination`
+export const paginationQuery = {
+	limit: t.optional(t.integer({ minimum: 1, maximum: 100, default: 10 })),
+	offset: t.optional(t.integer({ minimum: 0, default: 0 })),
+	page: t.optional(t.integer({ minimum: 1, description: 'Alternative to offset, from 1' }))
+};
+
+/**
+ * The envelope `createApiResponse` wraps paginated lists in
+ */
+export function paginated<S extends Schema>(items: S) {
+	return t.object({
+		data: t.array(items),
+		metadata: t.object({
+			total: t.optional(t.integer()),
+			limit: t.optional(t.integer()),
+			offset: t.optional(t.integer()),
+			has_more: t.optional(t.boolean())
+		}),
+		pagination: t.optional(PaginationSchema)
+	});
+}
+
+/**
+ * A value that fits a schema, for request examples: its example or default, or
+ * the simplest value of its type. Optional properties are left out unless they
+ * have an example.
+ */
+export function exampleValue(value: JsonSchema): unknown {
+	if ('example' in value) return value.example;
+	if ('default' in value) return value.default;
+
+	const anyOf = value.anyOf as JsonSchema[] | undefined;
+	if (anyOf) {
+		return exampleValue(anyOf.find((option) => option.type !== 'null') ?? anyOf[0]);
+	}
+	if (Array.isArray(value.enum)) return value.enum[0];
+
+	switch (value.type) {
+		case 'object': {
+			const properties = (value.properties ?? {}) as Properties;
+			const required = (value.required as string[] | undefined) ?? [];
+			return Object.fromEntries(
+				Object.entries(properties)
+					.filter(([name, property]) => required.includes(name) || 'example' in property)
+					.map(([name, property]) => [name, exampleValue(property)])
+			);
+		}
+		case 'array':
+			return value.minItems ? [exampleValue(value.items as JsonSchema)] : [];
+		case 'string':
+			return value.format === 'uuid' ? '00000000-0000-0000-0000-000000000000' : '';
+		case 'integer':
+		case 'number':
+			return value.minimum ?? 0;
+		case 'boolean':
+			return false;
+		default:
+			return {};
+	}
+}
+
+/**
+ * The API path of a route's `schema.ts`, e.g.
+ * `/src/routes/api/v1/prompts/[id]/schema.ts` → `/api/v1/prompts/{id}`
+ */
+export function routePath(file: string): string {
+	const path = file
+		.replace(/^.*src\/routes/, '')
+		.replace(/\/schema\.ts$/, '')
+		.replace(/\/\([^/]+\)/g, '')
+		.replace(/\[(\w+)\]/g, '{$1}');
+
+	return path || '/';
+}
+
+function operationId(method: HttpMethod, path: string): string {
+	const words = path
+		.replace(/^\/api\/v1\//, '')
+		.split(/[/\-_.]/)
+		.filter(Boolean)
+		.map((word) => word.replace(/^\{(\w+)\}$/, 'by-$1'))
+		.flatMap((word) => word.split('-'));
+
+	return [method.toLowerCase(), ...words]
+		.map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1)))
+		.join('');
+}
+
+/**
+ * Copy a schema into the document, moving named schemas to `components`
+ */
+function toDocumentSchema(value: JsonSchema, components: Record<string, JsonSchema>): JsonSchema {
+	const name = (value as { [COMPONENT]?: string })[COMPONENT];
+	if (name) {
+		const definition = toDocumentSchema({ ...value, [COMPONENT]: undefined }, components);
+		if (components[name] && JSON.stringify(components[name]) !== JSON.stringify(definition)) {
+			throw new Error(`Schema component ${name} is defined twice`);
+		}
+		components[name] = definition;
+		return { $ref: `#/components/schemas/${name}` };
+	}
+
+	const convert = (inner: unknown) =>
+		inner && typeof inner === 'object' ? toDocumentSchema(inner as JsonSchema, components) : inner;
+
+	const result: JsonSchema = {};
+	for (const [keyword, inner] of Object.entries(value)) {
+		if (keyword === 'properties') {
+			result.properties = Object.fromEntries(
+				Object.entries(inner as Properties).map(([property, s]) => [property, convert(s)])
+			);
+		} else if (['anyOf', 'oneOf', 'allOf'].includes(keyword)) {
+			result[keyword] = (inner as JsonSchema[]).map(convert);
+		} else if (['items', 'additionalProperties', 'not'].includes(keyword)) {
+			result[keyword] = convert(inner);
+		} else {
+			result[keyword] = inner;
+		}
+	}
+	return result;
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+	400: 'The request is invalid',
+	401: 'Missing or invalid credentials',
+	403: 'The key lacks a required scope or is restricted from this request',
+	404: 'The resource does not exist or belongs to another workspace',
+	409: 'The Idempotency-Key is in use or was used for a different request',
+	422: 'A parameter or body field is invalid',
+	429: 'Rate limit exceeded'
+};
+
+function errorStatuses(route: RouteDefinition, method: HttpMethod, auth: OperationAuth): number[] {
+	const statuses = [400];
+	if (auth !== 'none') statuses.push(401, 403);
+	if (route.params) statuses.push(404);
+	if (auth !== 'none' && method !== 'GET') statuses.push(409);
+	statuses.push(422);
+	if (auth === 'key' || auth === 'key_or_session') statuses.push(429);
+	return statuses;
+}
+
+function security(operation: Operation, auth: OperationAuth) {
+	const key = { apiKey: operation.scopes ?? [] };
+	if (auth === 'key') return [key];
+	if (auth === 'session') return [{ session: [] }];
+	if (auth === 'none') return [];
+	return [key, { session: [] }];
+}
+
+function parameters(
+	location: 'path' | 'query',
+	params: ObjectSchema | undefined,
+	components: Record<string, JsonSchema>
+) {
+	const required = (params?.required as string[] | undefined) ?? [];
+
+	return Object.entries(params?.properties ?? {}).map(([name, value]) => {
+		const { description, ...rest } = toDocumentSchema(value, components);
+		return {
+			name,
+			in: location,
+			required: location === 'path' || required.includes(name),
+			...(description !== undefined && { description }),
+			schema: rest
+		};
+	});
+}
+
+export interface OpenApiOptions {
+	serverUrl?: string;
+}
+
+/**
+ * Build the OpenAPI 3.1 document for routes keyed by their path
+ */
+export function buildOpenApiDocument(
+	routes: Record<string, RouteDefinition>,
+	options: OpenApiOptions = {}
+) {
+	const components: Record<string, JsonSchema> = {};
+	const errorResponse = toDocumentSchema(ErrorSchema, components);
+	const validationErrorResponse = toDocumentSchema(ValidationErrorSchema, components);
+	const paths: Record<string, Record<string, unknown>> = {};
+	const tags = new Set<string>();
+
+	for (const path of Object.keys(routes).sort()) {
+		const route = routes[path];
+		tags.add(route.tag);
+
+		for (const method of HTTP_METHODS) {
+			const operation = route.operations[method];
+			if (!operation) continue;
+
+			const auth = operation.auth ?? 'key_or_session';
+			const status = operation.status ?? 200;
+			const content: Record<string, unknown> = {
+				'application/json': { schema: toDocumentSchema(operation.response, components) }
+			};
+			if (operation.stream) {
+				content['text/event-stream'] = {
+					schema: { type: 'string', description: operation.stream }
+				};
+			}
+
+			const responses: Record<string, unknown> = {
+				[status]: { description: status === 201 ? 'Created' : 'Success', content }
+			};
+			for (const errorStatus of errorStatuses(route, method, auth)) {
+				responses[errorStatus] = {
+					description: ERROR_DESCRIPTIONS[errorStatus],
+					content: {
+						'application/json': {
+							schema: errorStatus === 422 ? validationErrorResponse : errorResponse
+						}
+					}
+				};
+			}
+
+			paths[path] ??= {};
+			paths[path][method.toLowerCase()] = {
+				operationId: operationId(method, path),
+				summary: operation.summary,
+				...(operation.description && { description: operation.description }),
+				tags: [route.tag],
+				security: security(operation, auth),
+				...(operation.scopes && { 'x-required-scopes': operation.scopes }),
+				parameters: [
+					...parameters('path', route.params, components),
+					...parameters('query', operation.query, components)
+				],
+				...(operation.body && {
+					requestBody: {
+						required: ((operation.body.required as string[] | undefined) ?? []).length > 0,
+						content: {
+							[operation.multipart ? 'multipart/form-data' : 'application/json']: {
+								schema: toDocumentSchema(operation.body, components),
+								...(!operation.multipart && { example: exampleValue(operation.body) })
+							}
+						}
+					}
+				}),
+				responses
+			};
+		}
+	}
+
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'SvelteKit Accelerator API',
+			version: '1.0.0',
+			description:
+				'The v1 API. Authenticate with an API key sent as `Authorization: Bearer <key>`; each operation lists the scopes the key needs.'
+		},
+		...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+		tags: [...tags].sort().map((name) => ({ name })),
+		paths,
+		components: {
+			schemas: Object.fromEntries(
+				Object.entries(components).sort(([a], [b]) => a.localeCompare(b))
+			),
+			securitySchemes: {
+				apiKey: {
+					type: 'http',
+					scheme: 'bearer',
+					description: 'An API key from the developer console'
+				},
+				session: {
+					type: 'apiKey',
+					in: 'cookie',
+					name: 'sb-access-token',
+					description: 'The signed-in session of the developer console'
+				}
+			}
+		}
+	};
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
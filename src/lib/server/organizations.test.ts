@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn()
+	}
+}));
+
+import {
+	isOrgRole,
+	limitScopesForRole,
+	ownerColumns,
+	ownerFilter,
+	roleAllows,
+	slugify
+} from './organizations.js';
+
+describe('Organizations', () => {
+	it('should rank roles from viewer up to owner', () => {
+		expect(roleAllows('viewer', 'read')).toBe(true);
+		expect(roleAllows('viewer', 'write')).toBe(false);
+		expect(roleAllows('member', 'write')).toBe(true);
+		expect(roleAllows('member', 'manage')).toBe(false);
+		expect(roleAllows('admin', 'manage')).toBe(true);
+		expect(roleAllows('admin', 'own')).toBe(false);
+		expect(roleAllows('owner', 'own')).toBe(true);
+
+		expect(isOrgRole('admin')).toBe(true);
+		expect(isOrgRole('superuser')).toBe(false);
+		expect(isOrgRole(undefined)).toBe(false);
+	});
+
+	it('should keep personal and organization resources apart', () => {
+		expect(ownerFilter('user-1')).toBe('and(user_id.eq.user-1,org_id.is.null)');
+		expect(ownerFilter({ user_id: 'user-1', org_id: 'org-1' })).toBe('org_id.eq.org-1');
+
+		expect(ownerColumns('user-1')).toEqual({ user_id: 'user-1', org_id: null });
+		expect(ownerColumns({ user_id: 'user-1', org_id: 'org-1' })).toEqual({
+			user_id: 'user-1',
+			org_id: 'org-1'
+		});
+	});
+
+	it("should narrow an organization key's scopes to its creator's role", () => {
+		const scopes = ['prompts:*', 'keys:*', 'completions:create'];
+
+		expect(limitScopesForRole(scopes, null)).toBe(scopes);
+		expect(limitScopesForRole(scopes, 'admin')).toBe(scopes);
+		expect(limitScopesForRole(scopes, 'viewer')).toEqual(['prompts:read', 'keys:read']);
+
+		const memberScopes = limitScopesForRole(scopes, 'member');
+		expect(memberScopes).toContain('prompts:delete');
+		expect(memberScopes).toContain('completions:create');
+		expect(memberScopes).toContain('keys:read');
+		expect(memberScopes).not.toContain('keys:write');
+		expect(memberScopes).not.toContain('keys:delete');
+	});
+
+	it('should turn names into slugs', () => {
+		expect(slugify('  Acme Inc. ')).toBe('acme-inc');
+		expect(slugify('R&D -- Labs!')).toBe('r-d-labs');
+		expect(slugify('x'.repeat(60))).toHaveLength(48);
+	});
+});
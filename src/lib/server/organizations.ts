@@ -0,0 +1,452 @@
+import { error, type Cookies } from '@sveltejs/kit';
+import { supabaseAdmin } from './supabase.js';
+import { ALL_SCOPES, hasScope } from './scopes.js';
+
+export type OrgRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/**
+ * What a request needs to do in an organization. Each level needs the role
+ * listed in ACCESS_ROLES or higher.
+ */
+export type OrgAccess = 'read' | 'write' | 'manage' | 'own';
+
+export const ORG_ROLES: OrgRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+const ROLE_RANK: Record<OrgRole, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+
+const ACCESS_ROLES: Record<OrgAccess, OrgRole> = {
+	read: 'viewer', // See shared prompts, schemas, files and keys
+	write: 'member', // Create, change and delete shared resources
+	manage: 'admin', // Manage members, org API keys and budgets
+	own: 'owner' // Delete the organization
+};
+
+export const ACTIVE_ORG_COOKIE = 'active_org';
+
+export interface Organization {
+	id: string;
+	name: string;
+	slug: string;
+	created_by: string;
+	daily_budget_usd?: number | null; // Spending limits for usage billed to the org
+	monthly_budget_usd?: number | null;
+	budget_soft_limit_percent?: number;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface OrganizationMember {
+	org_id: string;
+	user_id: string;
+	role: OrgRole;
+	username?: string | null;
+	full_name?: string | null;
+	created_at: string;
+}
+
+export interface OrgMembership extends Organization {
+	role: OrgRole;
+}
+
+// Rows of organization_members with their joined organization or profile
+interface MembershipRow {
+	role: OrgRole;
+	organizations: Organization | null;
+}
+
+interface MemberRow extends Omit<OrganizationMember, 'username' | 'full_name'> {
+	profiles: { username: string | null; full_name: string | null } | null;
+}
+
+/**
+ * Who a resource belongs to: a user's personal workspace (`org_id` null) or an
+ * organization. `user_id` is the acting user, recorded as the creator.
+ */
+export interface ResourceOwner {
+	user_id: string;
+	org_id: string | null;
+}
+
+/**
+ * A resource owner, or a bare user ID for the user's personal workspace
+ */
+export type Owner = string | ResourceOwner;
+
+export function toOwner(owner: Owner): ResourceOwner {
+	return typeof owner === 'string' ? { user_id: owner, org_id: null } : owner;
+}
+
+/**
+ * PostgREST filter matching the resources an owner holds, for `.or()`.
+ * Personal workspaces don't include the user's org resources.
+ */
+export function ownerFilter(owner: Owner): string {
+	const { user_id, org_id } = toOwner(owner);
+	return org_id ? `org_id.eq.${org_id}` : `and(user_id.eq.${user_id},org_id.is.null)`;
+}
+
+/**
+ * Ownership columns for a new row
+ */
+export function ownerColumns(owner: Owner): { user_id: string; org_id: string | null } {
+	const { user_id, org_id } = toOwner(owner);
+	return { user_id, org_id };
+}
+
+export function roleAllows(role: OrgRole, access: OrgAccess): boolean {
+	return ROLE_RANK[role] >= ROLE_RANK[ACCESS_ROLES[access]];
+}
+
+export function isOrgRole(value: unknown): value is OrgRole {
+	return typeof value === 'string' && ORG_ROLES.includes(value as OrgRole);
+}
+
+/**
+ * Narrow an organization key's scopes to what its creator's role allows.
+ * Viewers only keep read access, and only admins and owners can manage keys.
+ */
+export function limitScopesForRole(scopes: string[], role: OrgRole | null): string[] {
+	if (role === null || roleAllows(role, 'manage')) return scopes;
+
+	return ALL_SCOPES.filter((scope) => {
+		if (!hasScope(scopes, scope)) return false;
+		if (role === 'viewer') return scope.endsWith(':read');
+		return scope !== 'keys:write' && scope !== 'keys:delete';
+	});
+}
+
+/**
+ * Turn a name into a URL-friendly slug
+ */
+export function slugify(name: string): string {
+	return name
+		.toLowerCase()
+		.trim()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 48);
+}
+
+/**
+ * Create an organization with the user as its owner
+ */
+export async function createOrganization(
+	userId: string,
+	request: { name: string; slug?: string }
+): Promise<OrgMembership> {
+	const slug =
+		request.slug || `${slugify(request.name) || 'org'}-${crypto.randomUUID().slice(0, 6)}`;
+
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organizations')
+		.insert([{ name: request.name.trim(), slug, created_by: userId }])
+		.select()
+		.single();
+
+	if (dbError) {
+		throw new Error(`Failed to create organization: ${dbError.message}`);
+	}
+
+	const { error: memberError } = await supabaseAdmin
+		.from('organization_members')
+		.insert([{ org_id: data.id, user_id: userId, role: 'owner' }]);
+
+	if (memberError) {
+		await supabaseAdmin.from('organizations').delete().eq('id', data.id);
+		throw new Error(`Failed to create organization: ${memberError.message}`);
+	}
+
+	return { ...data, role: 'owner' };
+}
+
+/**
+ * List the organizations a user belongs to, with their role in each
+ */
+export async function listOrganizations(userId: string): Promise<OrgMembership[]> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.select('role, organizations(*)')
+		.eq('user_id', userId)
+		.order('created_at', { ascending: true });
+
+	if (dbError) {
+		throw new Error(`Failed to list organizations: ${dbError.message}`);
+	}
+
+	return ((data || []) as unknown as MembershipRow[])
+		.filter((row) => row.organizations)
+		.map((row) => ({ ...row.organizations!, role: row.role }));
+}
+
+/**
+ * Get a user's role in an organization, or null if they aren't a member
+ */
+export async function getMemberRole(orgId: string, userId: string): Promise<OrgRole | null> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.select('role')
+		.eq('org_id', orgId)
+		.eq('user_id', userId)
+		.single();
+
+	if (dbError) {
+		if (dbError.code === 'PGRST116') return null;
+		throw new Error(`Failed to get organization membership: ${dbError.message}`);
+	}
+
+	return data.role;
+}
+
+/**
+ * Get an organization the user belongs to, rejecting the request with 404 when
+ * they aren't a member and 403 when their role doesn't allow `access`
+ */
+export async function requireOrgAccess(
+	userId: string,
+	orgId: string,
+	access: OrgAccess
+): Promise<OrgMembership> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.select('role, organizations(*)')
+		.eq('org_id', orgId)
+		.eq('user_id', userId)
+		.single();
+
+	if (dbError && dbError.code !== 'PGRST116') {
+		throw new Error(`Failed to get organization membership: ${dbError.message}`);
+	}
+
+	const row = data as unknown as MembershipRow | null;
+	if (!row?.organizations) {
+		error(404, 'Organization not found');
+	}
+
+	if (!roleAllows(row.role, access)) {
+		error(403, `This requires the ${ACCESS_ROLES[access]} role or higher in the organization`);
+	}
+
+	return { ...row.organizations, role: row.role };
+}
+
+/**
+ * Resolve who owns the resources a request works on. Without an org that's the
+ * user's personal workspace; with one, the user needs `access` in it.
+ */
+export async function resolveOwner(
+	userId: string,
+	orgId: string | null | undefined,
+	access: OrgAccess = 'read'
+): Promise<ResourceOwner> {
+	if (!orgId) return { user_id: userId, org_id: null };
+
+	await requireOrgAccess(userId, orgId, access);
+	return { user_id: userId, org_id: orgId };
+}
+
+/**
+ * The organization picked with the developer console's org switcher, if any
+ */
+export function getActiveOrgId(cookies: Cookies): string | null {
+	return cookies.get(ACTIVE_ORG_COOKIE) || null;
+}
+
+export function setActiveOrgId(cookies: Cookies, orgId: string | null): void {
+	if (orgId) {
+		cookies.set(ACTIVE_ORG_COOKIE, orgId, {
+			path: '/',
+			maxAge: 60 * 60 * 24 * 365,
+			httpOnly: true,
+			secure: true,
+			sameSite: 'lax'
+		});
+	} else {
+		cookies.delete(ACTIVE_ORG_COOKIE, { path: '/' });
+	}
+}
+
+/**
+ * Resolve the owner for a developer console request from the active org. A
+ * stale selection (the user has left the org) falls back to the personal
+ * workspace.
+ */
+export async function resolveSessionOwner(
+	event: { cookies: Cookies },
+	userId: string,
+	access: OrgAccess = 'read'
+): Promise<ResourceOwner> {
+	const orgId = getActiveOrgId(event.cookies);
+	if (orgId && !(await getMemberRole(orgId, userId))) {
+		setActiveOrgId(event.cookies, null);
+		return { user_id: userId, org_id: null };
+	}
+
+	return resolveOwner(userId, orgId, access);
+}
+
+/**
+ * List an organization's members with their profile names
+ */
+export async function listMembers(orgId: string): Promise<OrganizationMember[]> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.select('org_id, user_id, role, created_at, profiles(username, full_name)')
+		.eq('org_id', orgId)
+		.order('created_at', { ascending: true });
+
+	if (dbError) {
+		throw new Error(`Failed to list organization members: ${dbError.message}`);
+	}
+
+	return ((data || []) as unknown as MemberRow[]).map(({ profiles, ...member }) => ({
+		...member,
+		username: profiles?.username ?? null,
+		full_name: profiles?.full_name ?? null
+	}));
+}
+
+async function countOwners(orgId: string): Promise<number> {
+	const { count, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.select('user_id', { count: 'exact', head: true })
+		.eq('org_id', orgId)
+		.eq('role', 'owner');
+
+	if (dbError) {
+		throw new Error(`Failed to count organization owners: ${dbError.message}`);
+	}
+
+	return count || 0;
+}
+
+/**
+ * Add a user to an organization by their username
+ */
+export async function addMember(
+	orgId: string,
+	username: string,
+	role: OrgRole
+): Promise<OrganizationMember> {
+	const { data: profile, error: profileError } = await supabaseAdmin
+		.from('profiles')
+		.select('id')
+		.eq('username', username.trim())
+		.single();
+
+	if (profileError || !profile) {
+		error(404, `No user with the username ${username}`);
+	}
+
+	if (await getMemberRole(orgId, profile.id)) {
+		error(409, `${username} is already a member of this organization`);
+	}
+
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.insert([{ org_id: orgId, user_id: profile.id, role }])
+		.select()
+		.single();
+
+	if (dbError) {
+		throw new Error(`Failed to add organization member: ${dbError.message}`);
+	}
+
+	return { ...data, username };
+}
+
+/**
+ * Change a member's role. An organization always keeps at least one owner.
+ */
+export async function updateMemberRole(
+	orgId: string,
+	userId: string,
+	role: OrgRole
+): Promise<OrganizationMember> {
+	const current = await getMemberRole(orgId, userId);
+	if (!current) {
+		error(404, 'Member not found');
+	}
+
+	if (current === 'owner' && role !== 'owner' && (await countOwners(orgId)) <= 1) {
+		error(409, 'An organization needs at least one owner');
+	}
+
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.update({ role })
+		.eq('org_id', orgId)
+		.eq('user_id', userId)
+		.select()
+		.single();
+
+	if (dbError) {
+		throw new Error(`Failed to update organization member: ${dbError.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * Remove a member. The last owner can't leave; delete the organization instead.
+ */
+export async function removeMember(orgId: string, userId: string): Promise<boolean> {
+	const current = await getMemberRole(orgId, userId);
+	if (!current) {
+		error(404, 'Member not found');
+	}
+
+	if (current === 'owner' && (await countOwners(orgId)) <= 1) {
+		error(409, 'An organization needs at least one owner');
+	}
+
+	const { error: dbError } = await supabaseAdmin
+		.from('organization_members')
+		.delete()
+		.eq('org_id', orgId)
+		.eq('user_id', userId);
+
+	if (dbError) {
+		throw new Error(`Failed to remove organization member: ${dbError.message}`);
+	}
+
+	return true;
+}
+
+/**
+ * Update an organization's name and budgets
+ */
+export async function updateOrganization(
+	orgId: string,
+	updates: Partial<
+		Pick<
+			Organization,
+			'name' | 'daily_budget_usd' | 'monthly_budget_usd' | 'budget_soft_limit_percent'
+		>
+	>
+): Promise<Organization> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('organizations')
+		.update({ ...updates, updated_at: new Date().toISOString() })
+		.eq('id', orgId)
+		.select()
+		.single();
+
+	if (dbError) {
+		throw new Error(`Failed to update organization: ${dbError.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * Delete an organization. Its resources and API keys are deleted with it.
+ */
+export async function deleteOrganization(orgId: string): Promise<boolean> {
+	const { error: dbError } = await supabaseAdmin.from('organizations').delete().eq('id', orgId);
+
+	if (dbError) {
+		throw new Error(`Failed to delete organization: ${dbError.message}`);
+	}
+
+	return true;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { env } from '$env/dynamic/private';
+import { supabaseAdmin } from './supabase.js';
+import {
+	clearPermissionCache,
+	grantRole,
+	isBootstrapAdmin,
+	permissionsAllow,
+	resolvePermissions
+} from './permissions.js';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} as Record<string, string | undefined> }));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn()
+	}
+}));
+
+/**
+ * Answer every `from()` call with the given user_roles rows
+ */
+function mockRoles(rows: { role: string; permissions: string[] }[]) {
+	const result = {
+		data: rows.map(({ role, permissions }) => ({
+			role,
+			roles: { role_permissions: permissions.map((permission) => ({ permission })) }
+		})),
+		error: null
+	};
+	const builder = {
+		select: () => builder,
+		eq: () => builder,
+		upsert: () => builder,
+		then: (resolve: (value: unknown) => void) => resolve(result)
+	};
+	vi.mocked(supabaseAdmin.from).mockImplementation(() => builder as never);
+}
+
+const confirmedUser = {
+	id: 'user-1',
+	email: 'Admin@Example.com',
+	email_confirmed_at: '2024-01-01T00:00:00Z'
+};
+
+describe('Permissions', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		clearPermissionCache();
+		delete env.BOOTSTRAP_ADMIN_EMAILS;
+		delete env.PERMISSION_CACHE_TTL_MS;
+	});
+
+	it('should match permissions against granted patterns', () => {
+		expect(permissionsAllow(['*'], 'migrations:run')).toBe(true);
+		expect(permissionsAllow(['migrations:*'], 'migrations:run')).toBe(true);
+		expect(permissionsAllow(['migrations:read'], 'migrations:run')).toBe(false);
+		expect(permissionsAllow([], 'system:health')).toBe(false);
+	});
+
+	it('should only treat confirmed bootstrap emails as admins', () => {
+		env.BOOTSTRAP_ADMIN_EMAILS = 'ops@example.com, admin@example.com';
+
+		expect(isBootstrapAdmin(confirmedUser)).toBe(true);
+		expect(isBootstrapAdmin({ ...confirmedUser, email_confirmed_at: null })).toBe(false);
+		expect(isBootstrapAdmin({ ...confirmedUser, email: 'someone@example.com' })).toBe(false);
+
+		delete env.BOOTSTRAP_ADMIN_EMAILS;
+		expect(isBootstrapAdmin(confirmedUser)).toBe(false);
+	});
+
+	it('should collect the permissions of every granted role', async () => {
+		mockRoles([
+			{ role: 'operator', permissions: ['system:health', 'migrations:read'] },
+			{ role: 'auditor', permissions: ['migrations:read', 'users:read'] }
+		]);
+
+		expect(await resolvePermissions(confirmedUser)).toEqual({
+			roles: ['operator', 'auditor'],
+			permissions: ['system:health', 'migrations:read', 'users:read']
+		});
+	});
+
+	it('should give bootstrap admins every permission', async () => {
+		env.BOOTSTRAP_ADMIN_EMAILS = 'admin@example.com';
+		mockRoles([]);
+
+		expect(await resolvePermissions(confirmedUser)).toEqual({
+			roles: ['admin'],
+			permissions: ['*']
+		});
+	});
+
+	it('should cache lookups until a role changes', async () => {
+		mockRoles([{ role: 'operator', permissions: ['system:health'] }]);
+
+		await resolvePermissions(confirmedUser);
+		await resolvePermissions(confirmedUser);
+		expect(supabaseAdmin.from).toHaveBeenCalledTimes(1);
+
+		await grantRole('user-1', 'admin', 'user-2');
+		await resolvePermissions(confirmedUser);
+		expect(supabaseAdmin.from).toHaveBeenCalledTimes(3);
+	});
+});
@@ -0,0 +1,211 @@
+import { env } from '$env/dynamic/private';
+import { supabaseAdmin } from './supabase.js';
+import { matchesScope } from './scopes.js';
+
+/**
+ * Platform permissions, granted to users through roles. Unlike API key scopes
+ * and organization roles these cover the whole deployment, so they are only
+ * for operators. Roles can grant wildcards such as `migrations:*` or `*`.
+ */
+export const PERMISSIONS = {
+	'admin:access': 'Open the admin console',
+	'system:health': 'View system health metrics',
+	'migrations:read': 'Check migration status and validate the schema',
+	'migrations:run': 'Run migrations, seed the database and create backups',
+	'users:read': 'View users, their usage and their API keys',
+	'users:manage': 'Suspend users and disable their API keys',
+	'files:manage': 'Inspect and retry failed file processing',
+	'audit:read': 'View the audit trail',
+	'roles:manage': 'Grant and revoke roles'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+// Role given to bootstrap admins; it grants every permission
+export const ADMIN_ROLE = 'admin';
+
+const DEFAULT_PERMISSION_CACHE_TTL_MS = 60 * 1000;
+const MAX_PERMISSION_CACHE_ENTRIES = 1000;
+
+export interface UserPermissions {
+	roles: string[];
+	permissions: string[]; // Permission patterns granted by the roles
+}
+
+/**
+ * The parts of a Supabase user permission checks need
+ */
+export interface PermissionSubject {
+	id: string;
+	email?: string | null;
+	email_confirmed_at?: string | null;
+}
+
+interface UserRoleRow {
+	role: string;
+	roles: { role_permissions: { permission: string }[] } | null;
+}
+
+// Recently looked up permissions, by user ID
+const cachedPermissions = new Map<string, { value: UserPermissions; expiresAt: number }>();
+
+function permissionCacheTtl(): number {
+	const parsed = parseInt(env.PERMISSION_CACHE_TTL_MS || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_PERMISSION_CACHE_TTL_MS;
+}
+
+/**
+ * Drop a user's permissions from the cache, so role changes apply straight
+ * away on this instance. Other instances pick them up once their entry expires.
+ */
+export function forgetUserPermissions(userId: string): void {
+	cachedPermissions.delete(userId);
+}
+
+/**
+ * Empty the permission cache
+ */
+export function clearPermissionCache(): void {
+	cachedPermissions.clear();
+}
+
+/**
+ * Whether the user is one of the `BOOTSTRAP_ADMIN_EMAILS`, who are admins
+ * without a role in the database so they can hand out the first roles. Their
+ * email address has to be confirmed.
+ */
+export function isBootstrapAdmin(user: PermissionSubject): boolean {
+	if (!user.email || !user.email_confirmed_at) return false;
+
+	const email = user.email.toLowerCase();
+	return (env.BOOTSTRAP_ADMIN_EMAILS || '')
+		.split(',')
+		.some((entry) => entry.trim().toLowerCase() === email);
+}
+
+/**
+ * Get the roles granted to a user and the permissions they carry. Lookups are
+ * cached in process for `PERMISSION_CACHE_TTL_MS` (default 60 seconds).
+ */
+export async function getUserPermissions(userId: string): Promise<UserPermissions> {
+	const cached = cachedPermissions.get(userId);
+	if (cached) {
+		if (cached.expiresAt > Date.now()) return cached.value;
+		cachedPermissions.delete(userId);
+	}
+
+	const { data, error: dbError } = await supabaseAdmin
+		.from('user_roles')
+		.select('role, roles(role_permissions(permission))')
+		.eq('user_id', userId);
+
+	if (dbError) {
+		throw new Error(`Failed to get user roles: ${dbError.message}`);
+	}
+
+	const rows = (data || []) as unknown as UserRoleRow[];
+	const value: UserPermissions = {
+		roles: rows.map((row) => row.role),
+		permissions: [
+			...new Set(
+				rows.flatMap((row) => row.roles?.role_permissions.map((entry) => entry.permission) || [])
+			)
+		]
+	};
+
+	const ttl = permissionCacheTtl();
+	if (ttl > 0) {
+		if (cachedPermissions.size >= MAX_PERMISSION_CACHE_ENTRIES) {
+			// Maps keep insertion order, so this is the oldest entry
+			cachedPermissions.delete(cachedPermissions.keys().next().value!);
+		}
+		cachedPermissions.set(userId, { value, expiresAt: Date.now() + ttl });
+	}
+
+	return value;
+}
+
+/**
+ * Get a user's permissions, including the admin role of bootstrap admins
+ */
+export async function resolvePermissions(user: PermissionSubject): Promise<UserPermissions> {
+	const granted = await getUserPermissions(user.id);
+	if (!isBootstrapAdmin(user)) return granted;
+
+	return {
+		roles: granted.roles.includes(ADMIN_ROLE) ? granted.roles : [...granted.roles, ADMIN_ROLE],
+		permissions: ['*']
+	};
+}
+
+/**
+ * Check granted permission patterns against a permission
+ */
+export function permissionsAllow(granted: string[], permission: string): boolean {
+	return granted.some((pattern) => matchesScope(pattern, permission));
+}
+
+/**
+ * List the roles that can be granted, with their permissions
+ */
+export async function listRoles(): Promise<
+	{ name: string; description: string | null; permissions: string[] }[]
+> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('roles')
+		.select('name, description, role_permissions(permission)')
+		.order('name', { ascending: true });
+
+	if (dbError) {
+		throw new Error(`Failed to list roles: ${dbError.message}`);
+	}
+
+	return (data || []).map(
+		(role: {
+			name: string;
+			description: string | null;
+			role_permissions: { permission: string }[];
+		}) => ({
+			name: role.name,
+			description: role.description,
+			permissions: role.role_permissions.map((entry) => entry.permission)
+		})
+	);
+}
+
+/**
+ * Grant a role to a user
+ */
+export async function grantRole(userId: string, role: string, grantedBy: string): Promise<void> {
+	const { error: dbError } = await supabaseAdmin
+		.from('user_roles')
+		.upsert(
+			{ user_id: userId, role, granted_by: grantedBy },
+			{ onConflict: 'user_id,role', ignoreDuplicates: true }
+		);
+
+	if (dbError) {
+		throw new Error(`Failed to grant role: ${dbError.message}`);
+	}
+
+	forgetUserPermissions(userId);
+}
+
+/**
+ * Revoke a role from a user. Returns false if they didn't have it.
+ */
+export async function revokeRole(userId: string, role: string): Promise<boolean> {
+	const { data, error: dbError } = await supabaseAdmin
+		.from('user_roles')
+		.delete()
+		.eq('user_id', userId)
+		.eq('role', role)
+		.select('role');
+
+	if (dbError) {
+		throw new Error(`Failed to revoke role: ${dbError.message}`);
+	}
+
+	forgetUserPermissions(userId);
+	return (data || []).length > 0;
+}
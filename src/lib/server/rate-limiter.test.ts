@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	consumeRateLimit,
+	createMemoryStore,
+	createRedisRestStore,
+	rateLimitHeaders,
+	recordTokenUsage,
+	resolveRateLimits,
+	setRateLimitStore,
+	validateRateLimits,
+	type RateLimits
+} from './rate-limiter.js';
+
+vi.mock('$env/dynamic/private', () => ({
+	env: { RATE_LIMIT_PER_MINUTE: '30', TOKEN_LIMIT_PER_MINUTE: '' }
+}));
+
+global.fetch = vi.fn();
+
+const limits: RateLimits = {
+	requests_per_minute: 2,
+	requests_per_hour: 3,
+	requests_per_day: null,
+	tokens_per_minute: null
+};
+
+describe('Rate Limiter', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date('2025-03-15T12:00:00.000Z'));
+		setRateLimitStore(createMemoryStore());
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		setRateLimitStore(null);
+	});
+
+	it('should allow a burst up to the limit, then refill over the window', async () => {
+		expect((await consumeRateLimit('key-1', limits)).allowed).toBe(true);
+		expect((await consumeRateLimit('key-1', limits)).allowed).toBe(true);
+
+		const blocked = await consumeRateLimit('key-1', limits);
+		expect(blocked).toMatchObject({
+			allowed: false,
+			requests: { window: 'minute', remaining: 0, retry_after_ms: 30000 }
+		});
+
+		// One request refills every 30 seconds
+		vi.advanceTimersByTime(30000);
+		expect((await consumeRateLimit('key-1', limits)).allowed).toBe(true);
+	});
+
+	it('should not count rejected requests against the other windows', async () => {
+		const hourly = { ...limits, requests_per_minute: 3, requests_per_hour: 2 };
+		await consumeRateLimit('key-1', hourly);
+		await consumeRateLimit('key-1', hourly);
+
+		const blocked = await consumeRateLimit('key-1', hourly);
+		expect(blocked).toMatchObject({ allowed: false, requests: { window: 'hour' } });
+
+		// The rejected request was given back to the minute window
+		const perMinute = { ...hourly, requests_per_hour: null };
+		expect(await consumeRateLimit('key-1', perMinute)).toMatchObject({
+			allowed: true,
+			requests: { window: 'minute', remaining: 0 }
+		});
+	});
+
+	it('should hold back requests while the token bucket is in debt', async () => {
+		const tokenLimits = { ...limits, requests_per_minute: null, tokens_per_minute: 1000 };
+
+		expect((await consumeRateLimit('key-1', tokenLimits)).allowed).toBe(true);
+		await recordTokenUsage('key-1', tokenLimits, 1500);
+
+		const blocked = await consumeRateLimit('key-1', tokenLimits);
+		expect(blocked).toMatchObject({
+			allowed: false,
+			tokens: { window: 'tokens_per_minute', remaining: 0, retry_after_ms: 30000 }
+		});
+		expect(rateLimitHeaders(blocked)['Retry-After']).toBe('30');
+
+		vi.advanceTimersByTime(30000);
+		expect((await consumeRateLimit('key-1', tokenLimits)).allowed).toBe(true);
+	});
+
+	it('should keep keys separate', async () => {
+		await consumeRateLimit('key-1', limits);
+		await consumeRateLimit('key-1', limits);
+
+		expect((await consumeRateLimit('key-2', limits)).allowed).toBe(true);
+	});
+
+	it('should build the rate limit headers', async () => {
+		const result = await consumeRateLimit('key-1', { ...limits, tokens_per_minute: 1000 });
+
+		expect(rateLimitHeaders(result)).toEqual({
+			'X-RateLimit-Limit': '2',
+			'X-RateLimit-Remaining': '1',
+			'X-RateLimit-Reset': String(Date.parse('2025-03-15T12:00:30.000Z') / 1000),
+			'X-RateLimit-Limit-Tokens': '1000',
+			'X-RateLimit-Remaining-Tokens': '1000',
+			'X-RateLimit-Reset-Tokens': String(Date.parse('2025-03-15T12:00:00.000Z') / 1000)
+		});
+	});
+
+	it('should fall back to the default limits from the environment', () => {
+		expect(resolveRateLimits({ rate_limit: 100 })).toEqual({
+			requests_per_minute: 30,
+			requests_per_hour: 100,
+			requests_per_day: null,
+			tokens_per_minute: null
+		});
+		expect(
+			resolveRateLimits({ rate_limit: 100, rate_limit_per_minute: 5 }).requests_per_minute
+		).toBe(5);
+	});
+
+	it('should run the token bucket as one script on a Redis REST store', async () => {
+		vi.mocked(fetch).mockResolvedValueOnce({
+			ok: true,
+			json: async () => ({ result: [1, '4.5'] })
+		} as any);
+
+		const store = createRedisRestStore('https://redis.example.com', 'token');
+		const result = await store.take(
+			'ratelimit:key-1:minute',
+			{ capacity: 5, refill_per_ms: 0.001 },
+			1,
+			1000
+		);
+
+		expect(result).toEqual({ allowed: true, tokens: 4.5 });
+		const [url, init] = vi.mocked(fetch).mock.calls[0];
+		expect(url).toBe('https://redis.example.com');
+		expect((init as RequestInit).headers).toMatchObject({ Authorization: 'Bearer token' });
+		const command = JSON.parse((init as RequestInit).body as string);
+		expect(command[0]).toBe('EVAL');
+		expect(command.slice(2)).toEqual([
+			'1',
+			'ratelimit:key-1:minute',
+			'5',
+			'0.001',
+			'1',
+			'1000',
+			'0'
+		]);
+	});
+
+	it('should validate rate limit settings', () => {
+		expect(validateRateLimits({ rate_limit_per_minute: 10, rate_limit_per_day: null })).toBeNull();
+		expect(validateRateLimits({ rate_limit_per_day: 0 })).toContain('rate_limit_per_day');
+		expect(validateRateLimits({ token_limit_per_minute: 1.5 })).toContain('positive integer');
+	});
+});
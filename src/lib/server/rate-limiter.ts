@@ -0,0 +1,371 @@
+import { env } from '$env/dynamic/private';
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+export type RateLimitWindow = 'minute' | 'hour' | 'day' | 'tokens_per_minute';
+
+const WINDOW_MS: Record<RateLimitWindow, number> = {
+	minute: 60 * 1000,
+	hour: 60 * 60 * 1000,
+	day: 24 * 60 * 60 * 1000,
+	tokens_per_minute: 60 * 1000
+};
+
+/**
+ * Limits for one API key. `null` means no limit for that window.
+ */
+export interface RateLimits {
+	requests_per_minute: number | null;
+	requests_per_hour: number | null;
+	requests_per_day: number | null;
+	tokens_per_minute: number | null; // Model tokens (prompt + completion) per minute
+}
+
+/**
+ * A token bucket holds up to `capacity` tokens and refills continuously, so a
+ * limit of N per window allows bursts of N and a sustained rate of N per window
+ */
+export interface TokenBucket {
+	capacity: number;
+	refill_per_ms: number;
+}
+
+/**
+ * Where bucket state is kept. Implementations must apply `take` atomically so
+ * that concurrent requests can't overspend a bucket.
+ */
+export interface RateLimitStore {
+	/**
+	 * Refill the bucket up to `now`, then remove `cost` tokens if there are enough.
+	 * With `force`, the tokens are removed regardless and the balance can go
+	 * negative. Returns the balance afterwards.
+	 */
+	take(
+		key: string,
+		bucket: TokenBucket,
+		cost: number,
+		now: number,
+		force?: boolean
+	): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+/**
+ * The state of one window after a request
+ */
+export interface WindowResult {
+	window: RateLimitWindow;
+	limit: number;
+	remaining: number;
+	reset_at: number; // When the bucket will be full again, in ms since the epoch
+	retry_after_ms: number; // 0 unless the window rejected the request
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	requests: WindowResult | null; // The request window that blocked the request, or the one closest to its limit
+	tokens: WindowResult | null;
+}
+
+function refill(tokens: number, updatedAt: number, bucket: TokenBucket, now: number): number {
+	return Math.min(bucket.capacity, tokens + Math.max(now - updatedAt, 0) * bucket.refill_per_ms);
+}
+
+/**
+ * In-process store for development and single-instance deployments
+ */
+export function createMemoryStore(): RateLimitStore {
+	const buckets = new Map<string, { tokens: number; updated_at: number; full_at: number }>();
+
+	return {
+		async take(key, bucket, cost, now, force = false) {
+			const state = buckets.get(key);
+			let tokens = state ? refill(state.tokens, state.updated_at, bucket, now) : bucket.capacity;
+
+			const allowed = force || tokens >= cost;
+			if (allowed) tokens -= cost;
+
+			if (buckets.size >= MAX_MEMORY_BUCKETS && !state) {
+				// Full buckets carry no state, so they can be dropped
+				for (const [staleKey, entry] of buckets) {
+					if (entry.full_at <= now) buckets.delete(staleKey);
+				}
+			}
+
+			buckets.set(key, {
+				tokens,
+				updated_at: now,
+				full_at: now + Math.max(bucket.capacity - tokens, 0) / bucket.refill_per_ms
+			});
+
+			return { allowed, tokens };
+		}
+	};
+}
+
+// Refill and take in one step so concurrent requests see each other's spend.
+// Keys expire once their bucket would be full again.
+const TAKE_SCRIPT = `
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local tokens = tonumber(state[1]) or capacity
+local updated_at = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(now - updated_at, 0) * rate)
+local allowed = 0
+if ARGV[5] == '1' or tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', ARGV[4])
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - math.min(tokens, 0)) / rate) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Store backed by Redis over an Upstash-compatible REST API, shared by every
+ * instance of the app
+ */
+export function createRedisRestStore(url: string, token: string): RateLimitStore {
+	return {
+		async take(key, bucket, cost, now, force = false) {
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: {
+					Authorization: `Bearer ${token}`,
+					'Content-Type': 'application/json'
+				},
+				body: JSON.stringify([
+					'EVAL',
+					TAKE_SCRIPT,
+					'1',
+					key,
+					String(bucket.capacity),
+					String(bucket.refill_per_ms),
+					String(cost),
+					String(now),
+					force ? '1' : '0'
+				])
+			});
+
+			const body = await response.json().catch(() => null);
+			if (!response.ok || !Array.isArray(body?.result)) {
+				throw new Error(`Rate limit store request failed: ${body?.error || response.status}`);
+			}
+
+			const [allowed, tokens] = body.result;
+			return { allowed: allowed === 1, tokens: parseFloat(tokens) };
+		}
+	};
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the configured store: Redis when `RATE_LIMIT_REDIS_URL` is set, otherwise
+ * in memory
+ */
+export function getRateLimitStore(): RateLimitStore {
+	if (!store) {
+		store = env.RATE_LIMIT_REDIS_URL
+			? createRedisRestStore(env.RATE_LIMIT_REDIS_URL, env.RATE_LIMIT_REDIS_TOKEN || '')
+			: createMemoryStore();
+	}
+	return store;
+}
+
+/**
+ * Replace the store, e.g. with another KV backend. `null` goes back to the
+ * configured one.
+ */
+export function setRateLimitStore(custom: RateLimitStore | null): void {
+	store = custom;
+}
+
+function toLimit(value: unknown): number | null {
+	if (value === null || value === undefined || value === '') return null;
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Work out a key's limits. Windows the key doesn't set fall back to the
+ * `RATE_LIMIT_PER_MINUTE`, `RATE_LIMIT_PER_DAY` and `TOKEN_LIMIT_PER_MINUTE`
+ * defaults, if any. `rate_limit` is the key's hourly request limit.
+ */
+export function resolveRateLimits(key: {
+	rate_limit?: number | null;
+	rate_limit_per_minute?: number | null;
+	rate_limit_per_day?: number | null;
+	token_limit_per_minute?: number | null;
+}): RateLimits {
+	return {
+		requests_per_minute: toLimit(key.rate_limit_per_minute) ?? toLimit(env.RATE_LIMIT_PER_MINUTE),
+		requests_per_hour: toLimit(key.rate_limit),
+		requests_per_day: toLimit(key.rate_limit_per_day) ?? toLimit(env.RATE_LIMIT_PER_DAY),
+		tokens_per_minute: toLimit(key.token_limit_per_minute) ?? toLimit(env.TOKEN_LIMIT_PER_MINUTE)
+	};
+}
+
+function toBucket(window: RateLimitWindow, limit: number): TokenBucket {
+	return { capacity: limit, refill_per_ms: limit / WINDOW_MS[window] };
+}
+
+function bucketKey(apiKeyId: string, window: RateLimitWindow): string {
+	return `ratelimit:${apiKeyId}:${window}`;
+}
+
+async function takeFromWindow(
+	apiKeyId: string,
+	window: RateLimitWindow,
+	limit: number,
+	cost: number,
+	now: number,
+	force = false
+): Promise<WindowResult> {
+	const bucket = toBucket(window, limit);
+	const { allowed, tokens } = await getRateLimitStore().take(
+		bucketKey(apiKeyId, window),
+		bucket,
+		cost,
+		now,
+		force
+	);
+
+	return {
+		window,
+		limit,
+		remaining: Math.max(Math.floor(tokens), 0),
+		reset_at: Math.ceil(now + (limit - tokens) / bucket.refill_per_ms),
+		retry_after_ms: allowed ? 0 : Math.ceil((cost - tokens) / bucket.refill_per_ms)
+	};
+}
+
+/**
+ * Count a request against a key's request windows, and check its token window
+ * still has tokens left. A request that any window rejects isn't counted
+ * against the others.
+ */
+export async function consumeRateLimit(
+	apiKeyId: string,
+	limits: RateLimits
+): Promise<RateLimitResult> {
+	const now = Date.now();
+	const windows: [RateLimitWindow, number | null][] = [
+		['minute', limits.requests_per_minute],
+		['hour', limits.requests_per_hour],
+		['day', limits.requests_per_day]
+	];
+
+	const taken: WindowResult[] = [];
+	let blocked: WindowResult | null = null;
+
+	for (const [window, limit] of windows) {
+		if (limit === null) continue;
+		const result = await takeFromWindow(apiKeyId, window, limit, 1, now);
+		if (result.retry_after_ms > 0) {
+			blocked = result;
+			break;
+		}
+		taken.push(result);
+	}
+
+	// Token usage is only known once a completion finishes, so it is charged
+	// afterwards and this just checks the bucket isn't in debt
+	let tokens: WindowResult | null = null;
+	if (!blocked && limits.tokens_per_minute !== null) {
+		tokens = await takeFromWindow(apiKeyId, 'tokens_per_minute', limits.tokens_per_minute, 0, now);
+	}
+
+	const allowed = !blocked && !(tokens && tokens.retry_after_ms > 0);
+	if (!allowed) {
+		await Promise.all(
+			taken.map((result) => takeFromWindow(apiKeyId, result.window, result.limit, -1, now, true))
+		);
+	}
+
+	const share = (result: WindowResult) => result.remaining / result.limit;
+	const requests =
+		blocked ?? (taken.length > 0 ? taken.reduce((a, b) => (share(b) < share(a) ? b : a)) : null);
+
+	return { allowed, requests, tokens };
+}
+
+/**
+ * Charge the tokens a completion used to the key's token window. The bucket can
+ * go into debt, which holds back later requests until it refills.
+ */
+export async function recordTokenUsage(
+	apiKeyId: string,
+	limits: RateLimits,
+	tokens: number | undefined
+): Promise<void> {
+	if (limits.tokens_per_minute === null || !tokens || tokens <= 0) return;
+
+	try {
+		await takeFromWindow(
+			apiKeyId,
+			'tokens_per_minute',
+			limits.tokens_per_minute,
+			tokens,
+			Date.now(),
+			true
+		);
+	} catch (err) {
+		console.error('Failed to record token usage for rate limiting:', err);
+	}
+}
+
+/**
+ * Rate limit response headers. `X-RateLimit-Reset` is in seconds since the
+ * epoch; `Retry-After` (seconds) is only set on rejected requests.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+	const headers: Record<string, string> = {};
+
+	if (result.requests) {
+		headers['X-RateLimit-Limit'] = String(result.requests.limit);
+		headers['X-RateLimit-Remaining'] = String(result.requests.remaining);
+		headers['X-RateLimit-Reset'] = String(Math.ceil(result.requests.reset_at / 1000));
+	}
+
+	if (result.tokens) {
+		headers['X-RateLimit-Limit-Tokens'] = String(result.tokens.limit);
+		headers['X-RateLimit-Remaining-Tokens'] = String(result.tokens.remaining);
+		headers['X-RateLimit-Reset-Tokens'] = String(Math.ceil(result.tokens.reset_at / 1000));
+	}
+
+	if (!result.allowed) {
+		const retryAfterMs = Math.max(
+			result.requests?.retry_after_ms ?? 0,
+			result.tokens?.retry_after_ms ?? 0
+		);
+		headers['Retry-After'] = String(Math.max(Math.ceil(retryAfterMs / 1000), 1));
+	}
+
+	return headers;
+}
+
+/**
+ * Check rate limit settings from a request body. Returns an error message, or
+ * null when they are valid.
+ */
+export function validateRateLimits(settings: Record<string, unknown>): string | null {
+	for (const field of [
+		'rate_limit_per_minute',
+		'rate_limit_per_day',
+		'token_limit_per_minute'
+	] as const) {
+		const value = settings[field];
+		if (
+			value !== undefined &&
+			value !== null &&
+			(typeof value !== 'number' || !Number.isInteger(value) || value < 1)
+		) {
+			return `${field} must be a positive integer or null`;
+		}
+	}
+
+	return null;
+}
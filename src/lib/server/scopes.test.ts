@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+	ALL_SCOPES,
+	expandScopes,
+	findInvalidScopes,
+	findUngrantedScopes,
+	hasScope,
+	matchesScope,
+	missingScopes
+} from './scopes.js';
+
+describe('Scopes', () => {
+	it('should match exact scopes and wildcards', () => {
+		expect(matchesScope('prompts:read', 'prompts:read')).toBe(true);
+		expect(matchesScope('prompts:read', 'prompts:write')).toBe(false);
+		expect(matchesScope('schemas:*', 'schemas:delete')).toBe(true);
+		expect(matchesScope('schemas:*', 'prompts:delete')).toBe(false);
+		expect(matchesScope('*:read', 'files:read')).toBe(true);
+		expect(matchesScope('*', 'keys:delete')).toBe(true);
+		expect(matchesScope('schemas', 'schemas:read')).toBe(false);
+	});
+
+	it('should expand legacy scopes into the scopes they grant', () => {
+		expect(expandScopes(['system-prompts:write', 'usage:read'])).toEqual([
+			'prompts:write',
+			'prompts:delete',
+			'usage:read'
+		]);
+		expect(hasScope(['read'], 'schemas:read')).toBe(true);
+		expect(hasScope(['read'], 'completions:create')).toBe(true);
+		expect(hasScope(['read'], 'schemas:write')).toBe(false);
+		expect(hasScope(['write'], 'files:upload')).toBe(true);
+	});
+
+	it('should list the required scopes a key is missing', () => {
+		const granted = ['prompts:read', 'schemas:*'];
+
+		expect(missingScopes(granted, 'schemas:delete')).toEqual([]);
+		expect(missingScopes(granted, ['prompts:read', 'completions:create'])).toEqual([
+			'completions:create'
+		]);
+		expect(missingScopes([], 'usage:read')).toEqual(['usage:read']);
+	});
+
+	it('should find requested scopes the granted ones do not cover', () => {
+		expect(findUngrantedScopes(['read', 'write'], ['read', 'write', 'prompts:read'])).toEqual([]);
+		expect(findUngrantedScopes(['read', 'write'], ['*', 'delete', 'keys:*'])).toEqual([
+			'*',
+			'delete',
+			'keys:*'
+		]);
+		expect(findUngrantedScopes(['prompts:*'], ['prompts:delete', 'system-prompts:write'])).toEqual(
+			[]
+		);
+		expect(findUngrantedScopes(['keys:write'], ['api-keys:write', 'write'])).toEqual(['write']);
+		expect(findUngrantedScopes(['*'], ['*'])).toEqual([]);
+	});
+
+	it('should reject scopes that are not in the catalog', () => {
+		expect(findInvalidScopes(ALL_SCOPES)).toEqual([]);
+		expect(findInvalidScopes(['read', 'files:write', 'schemas:*', '*:read', '*'])).toEqual([]);
+		expect(findInvalidScopes(['prompts:execute', 'widgets:*', 'admin'])).toEqual([
+			'prompts:execute',
+			'widgets:*',
+			'admin'
+		]);
+	});
+});
@@ -0,0 +1,155 @@
+/**
+ * A permission an API key can be given, e.g. "prompts:read"
+ */
+export interface ScopeDefinition {
+	scope: string;
+	action: string;
+	description: string;
+}
+
+export interface ScopeResource {
+	resource: string;
+	label: string;
+	scopes: ScopeDefinition[];
+}
+
+function resource(name: string, label: string, actions: Record<string, string>): ScopeResource {
+	return {
+		resource: name,
+		label,
+		scopes: Object.entries(actions).map(([action, description]) => ({
+			scope: `${name}:${action}`,
+			action,
+			description
+		}))
+	};
+}
+
+/**
+ * Every scope a key can hold, grouped by resource. Published at /api/v1/scopes.
+ */
+export const SCOPE_CATALOG: ScopeResource[] = [
+	resource('prompts', 'System Prompts', {
+		read: 'List and read system prompts and their versions',
+		write: 'Create, update and restore system prompts',
+		delete: 'Delete system prompts'
+	}),
+	resource('schemas', 'Structured Output Schemas', {
+		read: 'List and read schemas and their versions',
+		write: 'Create, update and restore schemas',
+		delete: 'Delete schemas'
+	}),
+	resource('conversations', 'Conversations', {
+		read: 'List conversations and their stats',
+		write: 'Send messages to and delete conversations'
+	}),
+	resource('files', 'Files', {
+		read: 'List files and read their content',
+		upload: 'Upload files and extract their content',
+		delete: 'Delete files'
+	}),
+	resource('completions', 'Completions', {
+		create: 'Create chat and structured completions, and execute prompts'
+	}),
+	resource('models', 'Models', {
+		read: 'List models and count tokens'
+	}),
+	resource('usage', 'Usage', {
+		read: 'Read API usage statistics'
+	}),
+	resource('keys', 'API Keys', {
+		read: 'List API keys',
+		write: 'Create, update and rotate API keys',
+		delete: 'Revoke and delete API keys'
+	}),
+	resource('webhooks', 'Webhooks', {
+		read: 'List webhook endpoints and their deliveries',
+		write: 'Create, update and test webhook endpoints, and replay deliveries',
+		delete: 'Delete webhook endpoints'
+	}),
+	resource('audit', 'Audit Log', {
+		read: 'Read the audit log of changes in the workspace'
+	})
+];
+
+export const ALL_SCOPES: string[] = SCOPE_CATALOG.flatMap((entry) =>
+	entry.scopes.map((definition) => definition.scope)
+);
+
+/**
+ * Scopes from before resource-level scopes, and what they grant now. Keys
+ * holding them keep the access they had.
+ */
+export const LEGACY_SCOPES: Record<string, string[]> = {
+	read: ['*:read', 'completions:create'],
+	write: ['*:write', 'files:upload', 'completions:create'],
+	delete: ['*:delete'],
+	'system-prompts:read': ['prompts:read'],
+	'system-prompts:write': ['prompts:write', 'prompts:delete'],
+	'structured-outputs:read': ['schemas:read'],
+	'structured-outputs:write': ['schemas:write', 'schemas:delete'],
+	'api-keys:read': ['keys:read'],
+	'api-keys:write': ['keys:write'],
+	'files:write': ['files:upload', 'files:delete']
+};
+
+/**
+ * Match a scope against a granted pattern. `*` matches everything, and a `*`
+ * segment matches any resource or action, e.g. "schemas:*" or "*:read".
+ */
+export function matchesScope(pattern: string, scope: string): boolean {
+	if (pattern === '*' || pattern === scope) return true;
+
+	const patternParts = pattern.split(':');
+	const scopeParts = scope.split(':');
+	return (
+		patternParts.length === scopeParts.length &&
+		patternParts.every((part, index) => part === '*' || part === scopeParts[index])
+	);
+}
+
+/**
+ * Replace legacy scopes with the scopes they grant
+ */
+export function expandScopes(scopes: string[]): string[] {
+	return scopes.flatMap((scope) => LEGACY_SCOPES[scope] ?? [scope]);
+}
+
+/**
+ * Check whether granted scopes include a required one
+ */
+export function hasScope(granted: string[], required: string): boolean {
+	return expandScopes(granted).some((pattern) => matchesScope(pattern, required));
+}
+
+/**
+ * Required scopes the granted ones don't cover
+ */
+export function missingScopes(granted: string[], required: string | string[]): string[] {
+	return (Array.isArray(required) ? required : [required]).filter(
+		(scope) => !hasScope(granted, scope)
+	);
+}
+
+/**
+ * Requested scopes the granted ones don't fully cover, so a key can't give a
+ * key more access than it holds. Legacy scopes and wildcards are only covered
+ * when everything they grant is.
+ */
+export function findUngrantedScopes(granted: string[], requested: string[]): string[] {
+	return requested.filter(
+		(scope) => !expandScopes([scope]).every((required) => hasScope(granted, required))
+	);
+}
+
+/**
+ * Scopes that can't be granted: not in the catalog, not a legacy scope and not a
+ * wildcard that matches anything in the catalog
+ */
+export function findInvalidScopes(scopes: string[]): string[] {
+	return scopes.filter(
+		(scope) =>
+			typeof scope !== 'string' ||
+			(!(scope in LEGACY_SCOPES) && !ALL_SCOPES.some((known) => matchesScope(scope, known)))
+	);
+}
@@ -1,11 +1,13 @@
 import { supabaseAdmin } from './supabase.js';
+import { ownerColumns, ownerFilter, toOwner, type Owner } from './organizations.js';
 import Ajv, { type JSONSchemaType } from 'ajv';
 import addFormats from 'ajv-formats';
 import { createCompletion, createCompletionStream, type ChatMessage, type CompletionRequest } from './llm.js';
 
 export interface StructuredOutput {
 	id: string;
-	user_id: string;
+	user_id: string; // Creator
+	org_id?: string | null; // Owning organization, null for personal schemas
 	name: string;
 	description?: string;
 	json_schema: any; // JSON Schema object
@@ -78,7 +80,7 @@ addFormats(ajv);
  * Create a new structured output schema
  */
 export async function createStructuredOutput(
-	userId: string,
+	owner: Owner,
 	request: CreateStructuredOutputRequest
 ): Promise<StructuredOutput> {
 	// Validate the JSON schema itself
@@ -89,7 +91,7 @@ export async function createStructuredOutput(
 	}
 
 	const outputData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		name: request.name,
 		description: request.description || null,
 		json_schema: request.json_schema,
@@ -115,7 +117,7 @@ export async function createStructuredOutput(
  * List structured outputs for a user (including public ones)
  */
 export async function listStructuredOutputs(
-	userId: string,
+	owner: Owner,
 	options?: {
 		include_public?: boolean;
 		search?: string;
@@ -129,9 +131,9 @@ export async function listStructuredOutputs(
 
 	// Filter by ownership or public
 	if (options?.include_public !== false) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	// Search in name and description
@@ -162,7 +164,7 @@ export async function listStructuredOutputs(
  * Get structured output by ID
  */
 export async function getStructuredOutput(
-	userId: string,
+	owner: Owner,
 	outputId: string,
 	allowPublic: boolean = true
 ): Promise<StructuredOutput | null> {
@@ -172,9 +174,9 @@ export async function getStructuredOutput(
 		.eq('id', outputId);
 
 	if (allowPublic) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	const { data, error } = await query.single();
@@ -191,7 +193,7 @@ export async function getStructuredOutput(
  * Update structured output (creates a new version)
  */
 export async function updateStructuredOutput(
-	userId: string,
+	owner: Owner,
 	outputId: string,
 	updates: Partial<Pick<StructuredOutput, 'name' | 'description' | 'json_schema' | 'example_output' | 'is_public'>>,
 	changeSummary?: string
@@ -206,7 +208,7 @@ export async function updateStructuredOutput(
 	}
 
 	// Get the current output
-	const currentOutput = await getStructuredOutput(userId, outputId, false);
+	const currentOutput = await getStructuredOutput(owner, outputId, false);
 	if (!currentOutput) {
 		throw new Error('Structured output not found');
 	}
@@ -247,7 +249,7 @@ export async function updateStructuredOutput(
 			json_schema: currentOutput.json_schema,
 			example_output: currentOutput.example_output,
 			is_public: currentOutput.is_public,
-			changed_by: userId,
+			changed_by: toOwner(owner).user_id,
 			change_summary: changeSummary || 'Updated structured output'
 		};
 		
@@ -274,7 +276,7 @@ export async function updateStructuredOutput(
 			updated_at: new Date().toISOString()
 		})
 		.eq('id', outputId)
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.select()
 		.single();
 
@@ -288,12 +290,12 @@ export async function updateStructuredOutput(
 /**
  * Delete structured output
  */
-export async function deleteStructuredOutput(userId: string, outputId: string): Promise<boolean> {
+export async function deleteStructuredOutput(owner: Owner, outputId: string): Promise<boolean> {
 	const { error } = await supabaseAdmin
 		.from('structured_outputs')
 		.delete()
 		.eq('id', outputId)
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	if (error) {
 		throw new Error(`Failed to delete structured output: ${error.message}`);
@@ -361,13 +363,13 @@ function parseJsonResponse(response: string): { success: boolean; data?: any; er
  */
 export async function createStructuredCompletion(
 	request: StructuredCompletionRequest,
-	userId?: string
+	owner?: Owner
 ): Promise<StructuredCompletionResponse> {
 	let schema: any;
 
 	// Get schema from ID or use direct schema
-	if (request.schema_id && userId) {
-		const structuredOutput = await getStructuredOutput(userId, request.schema_id);
+	if (request.schema_id && owner) {
+		const structuredOutput = await getStructuredOutput(owner, request.schema_id);
 		if (!structuredOutput) {
 			throw new Error('Structured output schema not found');
 		}
@@ -532,19 +534,19 @@ export async function getTrendingStructuredOutputs(limit: number = 10): Promise<
  * Fork a structured output schema
  */
 export async function forkStructuredOutput(
-	userId: string,
+	owner: Owner,
 	outputId: string,
 	newName?: string
 ): Promise<StructuredOutput> {
 	// Get the original schema
-	const original = await getStructuredOutput(userId, outputId, true);
+	const original = await getStructuredOutput(owner, outputId, true);
 	if (!original) {
 		throw new Error('Structured output not found');
 	}
 
 	// Create new schema based on original
 	const forkData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		name: newName || `${original.name} (Copy)`,
 		description: `Forked from: ${original.name}`,
 		json_schema: original.json_schema,
@@ -696,11 +698,11 @@ export const EXAMPLE_SCHEMAS = {
  * Get version history for a structured output
  */
 export async function getOutputVersions(
-	userId: string,
+	owner: Owner,
 	outputId: string
 ): Promise<StructuredOutputVersion[]> {
 	// Verify user has access to this output
-	const output = await getStructuredOutput(userId, outputId, false);
+	const output = await getStructuredOutput(owner, outputId, false);
 	if (!output) {
 		throw new Error('Structured output not found');
 	}
@@ -722,7 +724,7 @@ export async function getOutputVersions(
  * Restore a structured output to a previous version
  */
 export async function restoreOutputVersion(
-	userId: string,
+	owner: Owner,
 	outputId: string,
 	version: number,
 	changeSummary?: string
@@ -740,14 +742,14 @@ export async function restoreOutputVersion(
 	}
 
 	// Verify user has access to this output
-	const currentOutput = await getStructuredOutput(userId, outputId, false);
+	const currentOutput = await getStructuredOutput(owner, outputId, false);
 	if (!currentOutput) {
 		throw new Error('Structured output not found');
 	}
 
 	// Create a new version with the restored content
 	return updateStructuredOutput(
-		userId,
+		owner,
 		outputId,
 		{
 			name: versionData.name,
@@ -764,7 +766,7 @@ export async function restoreOutputVersion(
  * Get version comparison data
  */
 export async function compareOutputVersions(
-	userId: string,
+	owner: Owner,
 	outputId: string,
 	version1: number,
 	version2: number
@@ -773,7 +775,7 @@ export async function compareOutputVersions(
 	version2: StructuredOutputVersion | StructuredOutput;
 }> {
 	// Verify user has access to this output
-	const output = await getStructuredOutput(userId, outputId, false);
+	const output = await getStructuredOutput(owner, outputId, false);
 	if (!output) {
 		throw new Error('Structured output not found');
 	}
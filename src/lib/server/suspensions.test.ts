@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { env } from '$env/dynamic/private';
+import { supabaseAdmin } from './supabase.js';
+import { clearSuspensionCache, isUserSuspended, suspendUser } from './suspensions.js';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} as Record<string, string | undefined> }));
+
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn(),
+		auth: { admin: { updateUserById: vi.fn() } }
+	}
+}));
+
+/**
+ * Answer every `from()` call with the given result
+ */
+function mockProfiles(result: { data: unknown; error: unknown }) {
+	const builder = {
+		select: () => builder,
+		update: () => builder,
+		eq: () => builder,
+		single: () => Promise.resolve(result),
+		then: (resolve: (value: unknown) => void) => resolve(result)
+	};
+	vi.mocked(supabaseAdmin.from).mockImplementation(() => builder as never);
+}
+
+describe('Suspensions', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		clearSuspensionCache();
+	});
+
+	it('should report suspended profiles and cache the answer', async () => {
+		mockProfiles({ data: { suspended_at: '2024-01-01T00:00:00Z' }, error: null });
+
+		expect(await isUserSuspended('user-1')).toBe(true);
+		expect(await isUserSuspended('user-1')).toBe(true);
+		expect(supabaseAdmin.from).toHaveBeenCalledTimes(1);
+	});
+
+	it('should cache the answer for SUSPENSION_CACHE_TTL_MS, not the permission TTL', async () => {
+		env.PERMISSION_CACHE_TTL_MS = '60000';
+		env.SUSPENSION_CACHE_TTL_MS = '0';
+		mockProfiles({ data: { suspended_at: null }, error: null });
+
+		expect(await isUserSuspended('user-1')).toBe(false);
+		mockProfiles({ data: { suspended_at: '2024-01-01T00:00:00Z' }, error: null });
+		expect(await isUserSuspended('user-1')).toBe(true);
+
+		delete env.PERMISSION_CACHE_TTL_MS;
+		delete env.SUSPENSION_CACHE_TTL_MS;
+	});
+
+	it('should treat users without a profile as not suspended', async () => {
+		mockProfiles({ data: null, error: { code: 'PGRST116', message: 'No rows' } });
+
+		expect(await isUserSuspended('user-1')).toBe(false);
+	});
+
+	it('should fail open when the lookup fails', async () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		mockProfiles({ data: null, error: { code: '500', message: 'Connection refused' } });
+
+		expect(await isUserSuspended('user-1')).toBe(false);
+		expect(consoleError).toHaveBeenCalled();
+		consoleError.mockRestore();
+	});
+
+	it('should ban the user and forget the cached answer on suspension', async () => {
+		mockProfiles({ data: { suspended_at: null }, error: null });
+		expect(await isUserSuspended('user-1')).toBe(false);
+
+		vi.mocked(supabaseAdmin.auth.admin.updateUserById).mockResolvedValue({
+			data: { user: null },
+			error: null
+		} as never);
+		await suspendUser('user-1', 'Abuse', 'admin-1');
+
+		expect(supabaseAdmin.auth.admin.updateUserById).toHaveBeenCalledWith('user-1', {
+			ban_duration: '876000h'
+		});
+
+		mockProfiles({ data: { suspended_at: '2024-01-01T00:00:00Z' }, error: null });
+		expect(await isUserSuspended('user-1')).toBe(true);
+	});
+});
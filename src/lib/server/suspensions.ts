@@ -0,0 +1,120 @@
+import { env } from '$env/dynamic/private';
+import { supabaseAdmin } from './supabase.js';
+
+// Short, since other instances only see a suspension once their entry expires
+const DEFAULT_SUSPENSION_CACHE_TTL_MS = 5 * 1000;
+const MAX_SUSPENSION_CACHE_ENTRIES = 1000;
+
+// Supabase bans last for a duration; this is long enough to mean "until lifted"
+const BAN_DURATION = '876000h';
+
+// Whether recently checked users are suspended, by user ID
+const cachedSuspensions = new Map<string, { suspended: boolean; expiresAt: number }>();
+
+function suspensionCacheTtl(): number {
+	const parsed = parseInt(env.SUSPENSION_CACHE_TTL_MS || '', 10);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_SUSPENSION_CACHE_TTL_MS;
+}
+
+/**
+ * Empty the suspension cache
+ */
+export function clearSuspensionCache(): void {
+	cachedSuspensions.clear();
+}
+
+/**
+ * Whether an admin has suspended the user. Suspended users are signed out and
+ * their API keys are rejected. Checks are cached in process for
+ * `SUSPENSION_CACHE_TTL_MS` (default 5 seconds); suspending or unsuspending a
+ * user clears their entry on this instance straight away.
+ */
+export async function isUserSuspended(userId: string): Promise<boolean> {
+	const cached = cachedSuspensions.get(userId);
+	if (cached) {
+		if (cached.expiresAt > Date.now()) return cached.suspended;
+		cachedSuspensions.delete(userId);
+	}
+
+	const { data, error: dbError } = await supabaseAdmin
+		.from('profiles')
+		.select('suspended_at')
+		.eq('id', userId)
+		.single();
+
+	if (dbError && dbError.code !== 'PGRST116') {
+		// Don't sign everyone out over a failed lookup
+		console.error('Failed to check suspension:', dbError);
+		return false;
+	}
+
+	const suspended = !!data?.suspended_at;
+
+	const ttl = suspensionCacheTtl();
+	if (ttl > 0) {
+		if (cachedSuspensions.size >= MAX_SUSPENSION_CACHE_ENTRIES) {
+			// Maps keep insertion order, so this is the oldest entry
+			cachedSuspensions.delete(cachedSuspensions.keys().next().value!);
+		}
+		cachedSuspensions.set(userId, { suspended, expiresAt: Date.now() + ttl });
+	}
+
+	return suspended;
+}
+
+/**
+ * Suspend a user: mark their profile and ban them in Supabase Auth so they
+ * can't sign in or refresh their session
+ */
+export async function suspendUser(
+	userId: string,
+	reason: string,
+	suspendedBy: string
+): Promise<void> {
+	const { error: dbError } = await supabaseAdmin
+		.from('profiles')
+		.update({
+			suspended_at: new Date().toISOString(),
+			suspended_reason: reason,
+			suspended_by: suspendedBy
+		})
+		.eq('id', userId);
+
+	if (dbError) {
+		throw new Error(`Failed to suspend user: ${dbError.message}`);
+	}
+
+	const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+		ban_duration: BAN_DURATION
+	});
+
+	if (authError) {
+		throw new Error(`Failed to ban user: ${authError.message}`);
+	}
+
+	cachedSuspensions.delete(userId);
+}
+
+/**
+ * Lift a user's suspension
+ */
+export async function unsuspendUser(userId: string): Promise<void> {
+	const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+		ban_duration: 'none'
+	});
+
+	if (authError) {
+		throw new Error(`Failed to lift ban: ${authError.message}`);
+	}
+
+	const { error: dbError } = await supabaseAdmin
+		.from('profiles')
+		.update({ suspended_at: null, suspended_reason: null, suspended_by: null })
+		.eq('id', userId);
+
+	if (dbError) {
+		throw new Error(`Failed to unsuspend user: ${dbError.message}`);
+	}
+
+	cachedSuspensions.delete(userId);
+}
@@ -1,8 +1,10 @@
 import { supabaseAdmin } from './supabase.js';
+import { ownerColumns, ownerFilter, toOwner, type Owner } from './organizations.js';
 
 export interface SystemPrompt {
 	id: string;
-	user_id: string;
+	user_id: string; // Creator
+	org_id?: string | null; // Owning organization, null for personal prompts
 	name: string;
 	description?: string;
 	content: string;
@@ -34,7 +36,7 @@ export interface SystemPromptVersion {
 
 export interface PromptVariable {
 	type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-	required: boolean;
+	required?: boolean;
 	default?: any;
 	description?: string;
 	validation?: {
@@ -85,11 +87,11 @@ const TEMPLATE_FUNCTIONS = {
  * Create a new system prompt
  */
 export async function createSystemPrompt(
-	userId: string,
+	owner: Owner,
 	request: CreateSystemPromptRequest
 ): Promise<SystemPrompt> {
 	const promptData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		name: request.name,
 		description: request.description || null,
 		content: request.content,
@@ -116,7 +118,7 @@ export async function createSystemPrompt(
  * List system prompts for a user (including public ones)
  */
 export async function listSystemPrompts(
-	userId: string,
+	owner: Owner,
 	options?: {
 		category?: string;
 		include_public?: boolean;
@@ -131,9 +133,9 @@ export async function listSystemPrompts(
 
 	// Filter by ownership or public
 	if (options?.include_public !== false) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	// Filter by category
@@ -169,7 +171,7 @@ export async function listSystemPrompts(
  * Get system prompt by ID
  */
 export async function getSystemPrompt(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	allowPublic: boolean = true
 ): Promise<SystemPrompt | null> {
@@ -179,9 +181,9 @@ export async function getSystemPrompt(
 		.eq('id', promptId);
 
 	if (allowPublic) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
-		query = query.eq('user_id', userId);
+		query = query.or(ownerFilter(owner));
 	}
 
 	const { data, error } = await query.single();
@@ -198,13 +200,13 @@ export async function getSystemPrompt(
  * Update system prompt (creates a new version)
  */
 export async function updateSystemPrompt(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	updates: Partial<Pick<SystemPrompt, 'name' | 'description' | 'content' | 'variables' | 'category' | 'is_public'>>,
 	changeSummary?: string
 ): Promise<SystemPrompt> {
 	// Get the current prompt
-	const currentPrompt = await getSystemPrompt(userId, promptId, false);
+	const currentPrompt = await getSystemPrompt(owner, promptId, false);
 	if (!currentPrompt) {
 		throw new Error('System prompt not found');
 	}
@@ -232,7 +234,7 @@ export async function updateSystemPrompt(
 			variables: currentPrompt.variables,
 			category: currentPrompt.category,
 			is_public: currentPrompt.is_public,
-			changed_by: userId,
+			changed_by: toOwner(owner).user_id,
 			change_summary: changeSummary || 'Updated prompt'
 		});
 
@@ -249,7 +251,7 @@ export async function updateSystemPrompt(
 			updated_at: new Date().toISOString()
 		})
 		.eq('id', promptId)
-		.eq('user_id', userId)
+		.or(ownerFilter(owner))
 		.select()
 		.single();
 
@@ -263,12 +265,12 @@ export async function updateSystemPrompt(
 /**
  * Delete system prompt
  */
-export async function deleteSystemPrompt(userId: string, promptId: string): Promise<boolean> {
+export async function deleteSystemPrompt(owner: Owner, promptId: string): Promise<boolean> {
 	const { error } = await supabaseAdmin
 		.from('system_prompts')
 		.delete()
 		.eq('id', promptId)
-		.eq('user_id', userId);
+		.or(ownerFilter(owner));
 
 	if (error) {
 		throw new Error(`Failed to delete system prompt: ${error.message}`);
@@ -436,12 +438,12 @@ export function renderTemplate(
  * Execute system prompt with variables
  */
 export async function executeSystemPrompt(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	request: ExecutePromptRequest
 ): Promise<ExecutePromptResult> {
 	// Get the prompt
-	const prompt = await getSystemPrompt(userId, promptId);
+	const prompt = await getSystemPrompt(owner, promptId);
 	if (!prompt) {
 		throw new Error('System prompt not found');
 	}
@@ -514,13 +516,13 @@ export async function getTrendingPrompts(limit: number = 10): Promise<SystemProm
 /**
  * Get prompt categories
  */
-export async function getPromptCategories(userId?: string): Promise<Array<{ category: string; count: number }>> {
+export async function getPromptCategories(owner?: Owner): Promise<Array<{ category: string; count: number }>> {
 	let query = supabaseAdmin
 		.from('system_prompts')
 		.select('category');
 
-	if (userId) {
-		query = query.or(`user_id.eq.${userId},is_public.eq.true`);
+	if (owner) {
+		query = query.or(`${ownerFilter(owner)},is_public.eq.true`);
 	} else {
 		query = query.eq('is_public', true);
 	}
@@ -548,19 +550,19 @@ export async function getPromptCategories(userId?: string): Promise<Array<{ cate
  * Duplicate/fork a prompt
  */
 export async function forkSystemPrompt(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	newName?: string
 ): Promise<SystemPrompt> {
 	// Get the original prompt
-	const original = await getSystemPrompt(userId, promptId, true);
+	const original = await getSystemPrompt(owner, promptId, true);
 	if (!original) {
 		throw new Error('System prompt not found');
 	}
 
 	// Create new prompt based on original
 	const forkData = {
-		user_id: userId,
+		...ownerColumns(owner),
 		name: newName || `${original.name} (Copy)`,
 		description: `Forked from: ${original.name}`,
 		content: original.content,
@@ -587,11 +589,11 @@ export async function forkSystemPrompt(
  * Get version history for a system prompt
  */
 export async function getPromptVersions(
-	userId: string,
+	owner: Owner,
 	promptId: string
 ): Promise<SystemPromptVersion[]> {
 	// Verify user has access to this prompt
-	const prompt = await getSystemPrompt(userId, promptId, false);
+	const prompt = await getSystemPrompt(owner, promptId, false);
 	if (!prompt) {
 		throw new Error('System prompt not found');
 	}
@@ -613,7 +615,7 @@ export async function getPromptVersions(
  * Restore a system prompt to a previous version
  */
 export async function restorePromptVersion(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	version: number,
 	changeSummary?: string
@@ -631,14 +633,14 @@ export async function restorePromptVersion(
 	}
 
 	// Verify user has access to this prompt
-	const currentPrompt = await getSystemPrompt(userId, promptId, false);
+	const currentPrompt = await getSystemPrompt(owner, promptId, false);
 	if (!currentPrompt) {
 		throw new Error('System prompt not found');
 	}
 
 	// Create a new version with the restored content
 	return updateSystemPrompt(
-		userId,
+		owner,
 		promptId,
 		{
 			name: versionData.name,
@@ -656,7 +658,7 @@ export async function restorePromptVersion(
  * Get version comparison data
  */
 export async function comparePromptVersions(
-	userId: string,
+	owner: Owner,
 	promptId: string,
 	version1: number,
 	version2: number
@@ -665,7 +667,7 @@ export async function comparePromptVersions(
 	version2: SystemPromptVersion | SystemPrompt;
 }> {
 	// Verify user has access to this prompt
-	const prompt = await getSystemPrompt(userId, promptId, false);
+	const prompt = await getSystemPrompt(owner, promptId, false);
 	if (!prompt) {
 		throw new Error('System prompt not found');
 	}
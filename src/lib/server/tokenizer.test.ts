@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+	countContentTokens,
+	countMessageTokens,
+	countPromptTokens,
+	countTokens,
+	getEncodingForModel,
+	isApproximateEncoding,
+	loadTokenizer
+} from './tokenizer.js';
+
+// Runs first, while no vocabulary has been loaded in this file
+describe('Tokenizer loading', () => {
+	it('should estimate until the vocabulary has loaded', async () => {
+		expect(countTokens('Hello world', 'openai/gpt-4o')).toBe(3);
+
+		await loadTokenizer('openai/gpt-4o');
+
+		expect(countTokens('Hello world', 'openai/gpt-4o')).toBe(2);
+	});
+});
+
+describe('Tokenizer', () => {
+	beforeAll(async () => {
+		await Promise.all([loadTokenizer('openai/gpt-4'), loadTokenizer('openai/gpt-4o')]);
+	});
+	describe('getEncodingForModel', () => {
+		it('should pick the encoding from the model ID', () => {
+			expect(getEncodingForModel('openai/gpt-4o')).toBe('o200k_base');
+			expect(getEncodingForModel('openai:gpt-4o-mini')).toBe('o200k_base');
+			expect(getEncodingForModel('openai/o3-mini')).toBe('o200k_base');
+			expect(getEncodingForModel('openai/gpt-4-turbo')).toBe('cl100k_base');
+			expect(getEncodingForModel('gpt-3.5-turbo')).toBe('cl100k_base');
+			expect(getEncodingForModel('meta-llama/llama-3.1-70b-instruct')).toBe('llama');
+			expect(getEncodingForModel('ollama:mistral')).toBe('llama');
+			expect(getEncodingForModel('anthropic/claude-3-opus')).toBe('cl100k_base');
+			expect(getEncodingForModel(undefined)).toBe('cl100k_base');
+		});
+
+		it('should flag the Llama encoding as approximate', () => {
+			expect(isApproximateEncoding('llama')).toBe(true);
+			expect(isApproximateEncoding('o200k_base')).toBe(false);
+		});
+	});
+
+	describe('countTokens', () => {
+		it('should count BPE tokens', () => {
+			expect(countTokens('Hello world', 'openai/gpt-4')).toBe(2);
+			expect(countTokens('You are a helpful assistant.', 'openai/gpt-4o')).toBe(6);
+			expect(countTokens('', 'openai/gpt-4o')).toBe(0);
+		});
+
+		it('should count special token text as plain text', () => {
+			expect(countTokens('<|endoftext|>', 'openai/gpt-4')).toBeGreaterThan(1);
+		});
+
+		it('should over-count for Llama models', () => {
+			const text = 'The quick brown fox jumps over the lazy dog.';
+			expect(countTokens(text, 'meta-llama/llama-2-13b')).toBeGreaterThan(
+				countTokens(text, 'openai/gpt-4')
+			);
+		});
+	});
+
+	describe('message counting', () => {
+		it('should count text and image parts of multimodal content', () => {
+			const tokens = countContentTokens(
+				[
+					{ type: 'text', text: 'Hello world' },
+					{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+				],
+				'openai/gpt-4o'
+			);
+
+			expect(tokens).toBe(2 + 85);
+		});
+
+		it('should add formatting overhead per message and for the reply', () => {
+			const messages = [
+				{ role: 'system' as const, content: 'You are a helpful assistant.' },
+				{ role: 'user' as const, content: 'Hello!' }
+			];
+
+			expect(countMessageTokens(messages[0], 'openai/gpt-4o')).toBe(9);
+			expect(countPromptTokens(messages, 'openai/gpt-4o')).toBe(17);
+			expect(countPromptTokens([], 'openai/gpt-4o')).toBe(0);
+		});
+
+		it('should count tool calls', () => {
+			const withCall = countMessageTokens(
+				{
+					role: 'assistant',
+					content: null,
+					tool_calls: [
+						{
+							id: 'call_1',
+							type: 'function',
+							function: { name: 'calculator', arguments: '{"expression":"2*3"}' }
+						}
+					]
+				},
+				'openai/gpt-4o'
+			);
+
+			expect(withCall).toBeGreaterThan(3);
+		});
+	});
+});
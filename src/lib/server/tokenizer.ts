@@ -0,0 +1,149 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { ChatMessage } from './llm.js';
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base' | 'llama';
+
+// Llama 2 and Mistral use 32k SentencePiece vocabularies, which split text into
+// roughly 10% more tokens than cl100k. Llama 3 is close to cl100k, so this errs
+// on the side of over-counting.
+const LLAMA_TOKEN_RATIO = 1.1;
+
+// Chat formatting adds a few tokens per message, plus a few to prime the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const TOKENS_PER_REPLY = 3;
+
+// Base cost of a low-detail image for OpenAI models; used for every provider
+const TOKENS_PER_IMAGE = 85;
+
+// Rough count used until the model's vocabulary has loaded
+const CHARS_PER_TOKEN = 4;
+
+const O200K_MODELS = /(^|[/:])(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/i;
+const LLAMA_MODELS = /(llama|mistral|mixtral|codestral|ministral)/i;
+
+type BpeEncoding = 'cl100k_base' | 'o200k_base';
+
+const encoders: Partial<Record<BpeEncoding, Tiktoken>> = {};
+const loading: Partial<Record<BpeEncoding, Promise<Tiktoken>>> = {};
+
+function bpeEncoding(encoding: TokenizerEncoding): BpeEncoding {
+	return encoding === 'o200k_base' ? 'o200k_base' : 'cl100k_base';
+}
+
+/**
+ * Load (once) the vocabulary a model is counted with. The rank tables are
+ * several MB each, so they're only imported when first needed rather than
+ * with the server bundle.
+ *
+ * Counting is synchronous: call this before counting on a request path, or
+ * counts fall back to a rough estimate until the vocabulary has loaded.
+ */
+export function loadTokenizer(model?: string | null): Promise<Tiktoken> {
+	const encoding = bpeEncoding(getEncodingForModel(model));
+
+	loading[encoding] ??= (
+		encoding === 'o200k_base'
+			? import('js-tiktoken/ranks/o200k_base')
+			: import('js-tiktoken/ranks/cl100k_base')
+	)
+		.then(({ default: ranks }) => (encoders[encoding] = new Tiktoken(ranks)))
+		.catch((error) => {
+			delete loading[encoding];
+			throw error;
+		});
+
+	return loading[encoding]!;
+}
+
+function encodedLength(text: string, model?: string | null): number {
+	const encoder = encoders[bpeEncoding(getEncodingForModel(model))];
+	if (!encoder) {
+		loadTokenizer(model).catch((error) => console.warn('Failed to load tokenizer:', error));
+		return Math.ceil(text.length / CHARS_PER_TOKEN);
+	}
+
+	return encoder.encode(text, [], []).length;
+}
+
+/**
+ * Pick the tokenizer for a model ID, with or without a provider prefix.
+ *
+ * Models without a public tokenizer (e.g. Claude, Gemini) are counted with
+ * cl100k, which is close enough for budgeting.
+ */
+export function getEncodingForModel(model?: string | null): TokenizerEncoding {
+	if (!model) return 'cl100k_base';
+	if (O200K_MODELS.test(model)) return 'o200k_base';
+	if (LLAMA_MODELS.test(model)) return 'llama';
+	return 'cl100k_base';
+}
+
+/**
+ * Whether counts for this encoding are an approximation rather than exact
+ */
+export function isApproximateEncoding(encoding: TokenizerEncoding): boolean {
+	return encoding === 'llama';
+}
+
+/**
+ * Count the tokens in a piece of text for a model
+ */
+export function countTokens(text: string, model?: string | null): number {
+	if (!text) return 0;
+
+	const tokens = encodedLength(text, model);
+	return getEncodingForModel(model) === 'llama' ? Math.ceil(tokens * LLAMA_TOKEN_RATIO) : tokens;
+}
+
+/**
+ * Count the tokens in message content, including multimodal parts
+ */
+export function countContentTokens(content: ChatMessage['content'], model?: string | null): number {
+	if (typeof content === 'string') {
+		return countTokens(content, model);
+	}
+
+	if (!Array.isArray(content)) return 0;
+
+	let tokens = 0;
+	for (const item of content) {
+		if (item.type === 'text' && item.text) {
+			tokens += countTokens(item.text, model);
+		}
+		if (item.type === 'image_url') {
+			tokens += TOKENS_PER_IMAGE;
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Count the tokens a single message takes up in the prompt, including tool
+ * calls and the chat formatting overhead
+ */
+export function countMessageTokens(message: ChatMessage, model?: string | null): number {
+	let tokens = TOKENS_PER_MESSAGE + countContentTokens(message.content, model);
+
+	if (message.name) {
+		tokens += TOKENS_PER_NAME + countTokens(message.name, model);
+	}
+
+	for (const call of message.tool_calls || []) {
+		tokens += countTokens(call.function.name, model) + countTokens(call.function.arguments, model);
+	}
+
+	return tokens;
+}
+
+/**
+ * Count the prompt tokens for a whole conversation
+ */
+export function countPromptTokens(messages: ChatMessage[], model?: string | null): number {
+	if (messages.length === 0) return 0;
+
+	return (
+		messages.reduce((sum, message) => sum + countMessageTokens(message, model), 0) +
+		TOKENS_PER_REPLY
+	);
+}
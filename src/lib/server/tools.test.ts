@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { evaluateExpression, executeToolCall, getToolDefinitions } from './tools.js';
+
+// Mock environment variables
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+// Mock Supabase
+vi.mock('./supabase.js', () => ({
+	supabaseAdmin: {
+		from: vi.fn()
+	}
+}));
+
+const context = { userId: 'test-user-id' };
+
+function toolCall(name: string, args: string) {
+	return { id: 'call_1', type: 'function' as const, function: { name, arguments: args } };
+}
+
+describe('Server Tools', () => {
+	describe('evaluateExpression', () => {
+		it('should respect operator precedence and parentheses', () => {
+			expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+			expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+			expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+			expect(evaluateExpression('-2 ** 2 + 10 % 4')).toBe(6);
+		});
+
+		it('should support functions and constants', () => {
+			expect(evaluateExpression('sqrt(16) + max(1, 7, 3)')).toBe(11);
+			expect(evaluateExpression('round(pi * 100)')).toBe(314);
+		});
+
+		it('should reject anything that is not arithmetic', () => {
+			expect(() => evaluateExpression('process.exit()')).toThrow();
+			expect(() => evaluateExpression('constructor(1)')).toThrow('Unknown function');
+			expect(() => evaluateExpression('1 / 0')).toThrow('finite');
+			expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+		});
+	});
+
+	describe('executeToolCall', () => {
+		it('should run the calculator tool', async () => {
+			const execution = await executeToolCall(
+				toolCall('calculator', '{"expression":"6*7"}'),
+				context
+			);
+
+			expect(execution.error).toBeUndefined();
+			expect(JSON.parse(execution.content)).toEqual({ expression: '6*7', value: 42 });
+		});
+
+		it('should report failures to the model instead of throwing', async () => {
+			const unknown = await executeToolCall(toolCall('rm_rf', '{}'), context);
+			expect(unknown.error).toBe('Unknown tool: rm_rf');
+			expect(JSON.parse(unknown.content)).toEqual({ error: 'Unknown tool: rm_rf' });
+
+			const badArgs = await executeToolCall(toolCall('calculator', '{expression'), context);
+			expect(badArgs.error).toBe('Tool arguments must be valid JSON');
+		});
+	});
+
+	describe('getToolDefinitions', () => {
+		it('should describe the requested tools for the model', () => {
+			const definitions = getToolDefinitions(['current_time', 'missing']);
+
+			expect(definitions).toHaveLength(1);
+			expect(definitions[0].function.name).toBe('current_time');
+			expect(getToolDefinitions().map((d) => d.function.name)).toEqual(
+				expect.arrayContaining(['calculator', 'search_chats', 'search_files', 'run_system_prompt'])
+			);
+		});
+	});
+});
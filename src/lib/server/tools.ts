@@ -0,0 +1,429 @@
+import { supabaseAdmin } from './supabase.js';
+import {
+	createCompletion,
+	type CompletionUsage,
+	type ToolCall,
+	type ToolDefinition
+} from './llm.js';
+import { executeSystemPrompt } from './system-prompts.js';
+import { listFileUploads } from './file-processor.js';
+import type { ResourceOwner } from './organizations.js';
+
+/**
+ * Who a tool runs on behalf of. Tools must only touch this user's data, or the
+ * organization's when the request belongs to one.
+ */
+export interface ToolContext {
+	userId: string;
+	orgId?: string | null;
+	apiKey?: string; // User-provided LLM API key, for tools that call a model
+	provider?: string | null;
+	model?: string; // Model of the surrounding conversation
+}
+
+export interface ToolOutput {
+	result: unknown;
+	model?: string;
+	usage?: CompletionUsage;
+}
+
+/**
+ * A tool the assistant can call that runs on our server
+ */
+export interface ServerTool {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>; // JSON Schema for the arguments
+	execute(args: Record<string, unknown>, context: ToolContext): Promise<ToolOutput>;
+}
+
+export interface ToolExecution {
+	tool_call_id: string;
+	name: string;
+	arguments: Record<string, unknown>;
+	content: string; // What is sent back to the model
+	error?: string;
+	model?: string;
+	usage?: CompletionUsage;
+	duration_ms: number;
+}
+
+const tools = new Map<string, ServerTool>();
+
+function toolOwner(context: ToolContext): ResourceOwner {
+	return { user_id: context.userId, org_id: context.orgId ?? null };
+}
+
+/**
+ * Register a server tool, replacing any existing tool with the same name
+ */
+export function registerTool(tool: ServerTool): void {
+	tools.set(tool.name, tool);
+}
+
+/**
+ * Get a registered tool by name
+ */
+export function getTool(name: string): ServerTool | undefined {
+	return tools.get(name);
+}
+
+/**
+ * List all registered tools
+ */
+export function listTools(): ServerTool[] {
+	return [...tools.values()];
+}
+
+/**
+ * Build the `tools` parameter for a completion request. Unknown names are ignored.
+ */
+export function getToolDefinitions(names?: string[]): ToolDefinition[] {
+	const selected = names ? names.map((name) => tools.get(name)).filter(Boolean) : listTools();
+
+	return (selected as ServerTool[]).map((tool) => ({
+		type: 'function',
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.parameters
+		}
+	}));
+}
+
+/**
+ * Run a tool call requested by the model.
+ *
+ * Failures are returned as an error result rather than thrown, so the model can
+ * see what went wrong and recover.
+ */
+export async function executeToolCall(
+	call: ToolCall,
+	context: ToolContext
+): Promise<ToolExecution> {
+	const startTime = Date.now();
+	const execution: ToolExecution = {
+		tool_call_id: call.id,
+		name: call.function.name,
+		arguments: {},
+		content: '',
+		duration_ms: 0
+	};
+
+	try {
+		const tool = tools.get(call.function.name);
+		if (!tool) {
+			throw new Error(`Unknown tool: ${call.function.name}`);
+		}
+
+		try {
+			execution.arguments = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+		} catch {
+			throw new Error('Tool arguments must be valid JSON');
+		}
+
+		const output = await tool.execute(execution.arguments, context);
+		execution.content =
+			typeof output.result === 'string' ? output.result : JSON.stringify(output.result);
+		execution.model = output.model;
+		execution.usage = output.usage;
+	} catch (error) {
+		execution.error = error instanceof Error ? error.message : 'Tool execution failed';
+		execution.content = JSON.stringify({ error: execution.error });
+	}
+
+	execution.duration_ms = Date.now() - startTime;
+	return execution;
+}
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+	sqrt: Math.sqrt,
+	abs: Math.abs,
+	round: Math.round,
+	floor: Math.floor,
+	ceil: Math.ceil,
+	log: Math.log10,
+	ln: Math.log,
+	exp: Math.exp,
+	sin: Math.sin,
+	cos: Math.cos,
+	tan: Math.tan,
+	min: Math.min,
+	max: Math.max,
+	pow: Math.pow
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluate an arithmetic expression without `eval`.
+ *
+ * Supports + - * / % ^, parentheses, unary minus and the functions and
+ * constants above.
+ */
+export function evaluateExpression(expression: string): number {
+	const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z_]+|\*\*|[-+*/%^(),]/gi);
+	if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) {
+		throw new Error('Expression contains unsupported characters');
+	}
+
+	let position = 0;
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (token: string) => {
+		if (next() !== token) throw new Error(`Expected "${token}"`);
+	};
+
+	function parseExpression(): number {
+		let value = parseTerm();
+		while (peek() === '+' || peek() === '-') {
+			value = next() === '+' ? value + parseTerm() : value - parseTerm();
+		}
+		return value;
+	}
+
+	function parseTerm(): number {
+		let value = parseFactor();
+		while (peek() === '*' || peek() === '/' || peek() === '%') {
+			const operator = next();
+			const right = parseFactor();
+			value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+		}
+		return value;
+	}
+
+	function parseFactor(): number {
+		const base = parseUnary();
+		if (peek() === '^' || peek() === '**') {
+			next();
+			return Math.pow(base, parseFactor());
+		}
+		return base;
+	}
+
+	function parseUnary(): number {
+		if (peek() === '-') {
+			next();
+			return -parseUnary();
+		}
+		if (peek() === '+') {
+			next();
+			return parseUnary();
+		}
+		return parsePrimary();
+	}
+
+	function parsePrimary(): number {
+		const token = next();
+		if (token === undefined) throw new Error('Unexpected end of expression');
+
+		if (token === '(') {
+			const value = parseExpression();
+			expect(')');
+			return value;
+		}
+
+		if (/^[\d.]/.test(token)) {
+			return parseFloat(token);
+		}
+
+		const name = token.toLowerCase();
+		if (Object.prototype.hasOwnProperty.call(MATH_CONSTANTS, name)) {
+			return MATH_CONSTANTS[name];
+		}
+
+		if (!Object.prototype.hasOwnProperty.call(MATH_FUNCTIONS, name)) {
+			throw new Error(`Unknown function or constant: ${token}`);
+		}
+		const fn = MATH_FUNCTIONS[name];
+
+		expect('(');
+		const args = [parseExpression()];
+		while (peek() === ',') {
+			next();
+			args.push(parseExpression());
+		}
+		expect(')');
+		return fn(...args);
+	}
+
+	const result = parseExpression();
+	if (position < tokens.length) {
+		throw new Error(`Unexpected token: ${peek()}`);
+	}
+	if (!Number.isFinite(result)) {
+		throw new Error('Expression does not evaluate to a finite number');
+	}
+
+	return result;
+}
+
+registerTool({
+	name: 'calculator',
+	description:
+		'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, log, ln, exp, sin, cos, tan, min, max, pow, pi and e.',
+	parameters: {
+		type: 'object',
+		properties: {
+			expression: { type: 'string', description: 'The expression to evaluate, e.g. "(2 + 3) * 4"' }
+		},
+		required: ['expression']
+	},
+	async execute(args) {
+		const expression = String(args.expression ?? '');
+		return { result: { expression, value: evaluateExpression(expression) } };
+	}
+});
+
+registerTool({
+	name: 'current_time',
+	description: 'Get the current date and time, optionally in a specific IANA time zone.',
+	parameters: {
+		type: 'object',
+		properties: {
+			timezone: {
+				type: 'string',
+				description: 'IANA time zone, e.g. "Europe/Paris". Defaults to UTC.'
+			}
+		}
+	},
+	async execute(args) {
+		const timezone = typeof args.timezone === 'string' && args.timezone ? args.timezone : 'UTC';
+		const now = new Date();
+
+		let local: string;
+		try {
+			local = now.toLocaleString('en-US', {
+				timeZone: timezone,
+				dateStyle: 'full',
+				timeStyle: 'long'
+			});
+		} catch {
+			throw new Error(`Unknown time zone: ${timezone}`);
+		}
+
+		return { result: { iso: now.toISOString(), timezone, local } };
+	}
+});
+
+registerTool({
+	name: 'search_chats',
+	description: "Search the user's own chat history for messages containing a phrase.",
+	parameters: {
+		type: 'object',
+		properties: {
+			query: { type: 'string', description: 'Text to search for' },
+			limit: {
+				type: 'integer',
+				minimum: 1,
+				maximum: 20,
+				description: 'Maximum results (default 5)'
+			}
+		},
+		required: ['query']
+	},
+	async execute(args, context) {
+		const query = String(args.query ?? '').trim();
+		if (!query) throw new Error('Query is required');
+
+		const { data, error } = await supabaseAdmin
+			.from('messages')
+			.select('chat_id, role, content, created_at, chats!inner(title, user_id)')
+			.eq('chats.user_id', context.userId)
+			.ilike('content', `%${query}%`)
+			.order('created_at', { ascending: false })
+			.limit(Math.min(Number(args.limit) || 5, 20));
+
+		if (error) {
+			throw new Error(`Failed to search chats: ${error.message}`);
+		}
+
+		return {
+			result: (data || []).map((match) => ({
+				chat_id: match.chat_id,
+				chat_title: (match.chats as { title?: string } | null)?.title,
+				role: match.role,
+				excerpt: match.content.slice(0, 300),
+				created_at: match.created_at
+			}))
+		};
+	}
+});
+
+registerTool({
+	name: 'search_files',
+	description: "Search the user's uploaded files by name and return any extracted text excerpts.",
+	parameters: {
+		type: 'object',
+		properties: {
+			query: { type: 'string', description: 'Text to search for in file names' },
+			file_type: { type: 'string', enum: ['pdf', 'image', 'audio'] },
+			limit: {
+				type: 'integer',
+				minimum: 1,
+				maximum: 20,
+				description: 'Maximum results (default 5)'
+			}
+		},
+		required: ['query']
+	},
+	async execute(args, context) {
+		const files = await listFileUploads(toolOwner(context), {
+			search: String(args.query ?? ''),
+			file_type: args.file_type as 'pdf' | 'image' | 'audio' | undefined,
+			include_public: false,
+			limit: Math.min(Number(args.limit) || 5, 20)
+		});
+
+		return {
+			result: files.map((file) => ({
+				id: file.id,
+				name: file.original_name,
+				file_type: file.file_type,
+				processing_status: file.processing_status,
+				excerpt:
+					typeof file.processed_data?.text === 'string'
+						? file.processed_data.text.slice(0, 500)
+						: undefined
+			}))
+		};
+	}
+});
+
+registerTool({
+	name: 'run_system_prompt',
+	description:
+		"Run one of the user's stored system prompts against an input and return the model's answer.",
+	parameters: {
+		type: 'object',
+		properties: {
+			prompt_id: { type: 'string', description: 'ID of the stored system prompt' },
+			input: { type: 'string', description: 'The user message to send with the prompt' },
+			variables: { type: 'object', description: 'Values for the prompt template variables' }
+		},
+		required: ['prompt_id', 'input']
+	},
+	async execute(args, context) {
+		const rendered = await executeSystemPrompt(toolOwner(context), String(args.prompt_id), {
+			variables: args.variables as Record<string, unknown> | undefined
+		});
+
+		const completion = await createCompletion({
+			messages: [
+				{ role: 'system', content: rendered.rendered_content },
+				{ role: 'user', content: String(args.input ?? '') }
+			],
+			model: context.model,
+			provider: context.provider,
+			apiKey: context.apiKey
+		});
+
+		const content = completion.choices[0]?.message?.content;
+
+		return {
+			result: typeof content === 'string' ? content : '',
+			model: completion.model,
+			usage: completion.usage
+		};
+	}
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import type { RequestEvent } from '@sveltejs/kit';
+import { defineRoute, t } from './openapi.js';
+import { validateRequest } from './validation.js';
+
+const widgets = defineRoute({
+	tag: 'Widgets',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a widget',
+			query: t.object({
+				limit: t.optional(t.integer({ minimum: 1, maximum: 100 })),
+				archived: t.optional(t.boolean()),
+				tags: t.optional(t.array(t.string()))
+			}),
+			response: t.object({})
+		},
+		PUT: {
+			summary: 'Update a widget',
+			body: t.object({
+				name: t.string({ minLength: 1 }),
+				color: t.optional(t.enum(['red', 'blue'])),
+				parts: t.optional(t.array(t.object({ sku: t.string(), quantity: t.integer() }))),
+				settings: t.optional(t.nullable(t.object({ visible: t.boolean() }))),
+				size: t.optional(t.union(t.integer(), t.enum(['small', 'large'])))
+			}),
+			response: t.object({})
+		},
+		POST: {
+			summary: 'Upload a widget picture',
+			multipart: true,
+			body: t.object({
+				file: t.file(),
+				process: t.optional(t.boolean()),
+				options: t.optional(t.object({ resize: t.optional(t.boolean()) }))
+			}),
+			response: t.object({})
+		}
+	}
+});
+
+const ID = '6f1c2a0e-8f4b-4d6e-9a7c-2b3f4e5a6b7c';
+
+function requestEvent(
+	path: string,
+	init: RequestInit = {},
+	params: Record<string, string> = { id: ID }
+): RequestEvent {
+	const url = `https://api.example.com/api/v1/widgets/${ID}${path}`;
+	return { request: new Request(url, init), url: new URL(url), params } as unknown as RequestEvent;
+}
+
+function jsonBody(body: unknown): RequestInit {
+	return {
+		method: 'PUT',
+		body: JSON.stringify(body),
+		headers: { 'Content-Type': 'application/json' }
+	};
+}
+
+async function issuesOf(promise: Promise<unknown>) {
+	try {
+		await promise;
+	} catch (err) {
+		const { status, body } = err as { status: number; body: App.Error };
+		expect(status).toBe(422);
+		expect(body.code).toBe('VALIDATION_ERROR');
+		return body.errors;
+	}
+	throw new Error('Expected the request to be rejected');
+}
+
+describe('validateRequest', () => {
+	it('should convert parameters to their declared types', async () => {
+		const input = await validateRequest(
+			requestEvent('?limit=25&archived=true&tags=a&tags=b&unused='),
+			widgets,
+			'GET'
+		);
+
+		expect(input.params).toEqual({ id: ID });
+		expect(input.query).toEqual({ limit: 25, archived: true, tags: ['a', 'b'] });
+		expect(input.body).toBeUndefined();
+	});
+
+	it('should wrap a single value of an array parameter', async () => {
+		const input = await validateRequest(requestEvent('?tags=a'), widgets, 'GET');
+
+		expect(input.query.tags).toEqual(['a']);
+	});
+
+	it('should list every invalid parameter', async () => {
+		const errors = await issuesOf(
+			validateRequest(
+				requestEvent('?limit=500&archived=maybe&sort=name', {}, { id: 'widget-1' }),
+				widgets,
+				'GET'
+			)
+		);
+
+		expect(errors).toEqual([
+			{ path: 'params.id', code: 'invalid_format', message: 'must be a valid uuid' },
+			{ path: 'query.sort', code: 'unknown_field', message: 'is not a known field' },
+			{ path: 'query.limit', code: 'too_big', message: 'must be <= 100' },
+			{ path: 'query.archived', code: 'invalid_type', message: 'must be of type boolean' }
+		]);
+	});
+
+	it('should return a valid body and ignore unknown fields', async () => {
+		const body = { name: 'Sprocket', parts: [{ sku: 'A1', quantity: 2 }], note: 'extra' };
+
+		const input = await validateRequest(requestEvent('', jsonBody(body)), widgets, 'PUT');
+
+		expect(input.body).toEqual(body);
+	});
+
+	it('should not convert the types of JSON fields', async () => {
+		const errors = await issuesOf(
+			validateRequest(
+				requestEvent('', jsonBody({ name: 'Sprocket', parts: [{ sku: 'A1', quantity: '2' }] })),
+				widgets,
+				'PUT'
+			)
+		);
+
+		expect(errors).toEqual([
+			{ path: 'body.parts[0].quantity', code: 'invalid_type', message: 'must be of type integer' }
+		]);
+	});
+
+	it('should give the path and code of every invalid body field', async () => {
+		const errors = await issuesOf(
+			validateRequest(
+				requestEvent('', jsonBody({ color: 'green', parts: [{ quantity: 1 }] })),
+				widgets,
+				'PUT'
+			)
+		);
+
+		expect(errors?.map(({ path, code }) => ({ path, code }))).toEqual([
+			{ path: 'body.name', code: 'required' },
+			{ path: 'body.color', code: 'invalid_enum' },
+			{ path: 'body.parts[0].sku', code: 'required' }
+		]);
+	});
+
+	it('should explain which option of a union failed', async () => {
+		const errors = await issuesOf(
+			validateRequest(
+				requestEvent('', jsonBody({ name: 'Sprocket', settings: {}, size: true })),
+				widgets,
+				'PUT'
+			)
+		);
+
+		expect(errors?.map(({ path, code }) => ({ path, code }))).toEqual([
+			{ path: 'body.settings.visible', code: 'required' },
+			{ path: 'body.size', code: 'invalid_value' }
+		]);
+	});
+
+	it('should report every required field of a missing body', async () => {
+		const errors = await issuesOf(
+			validateRequest(requestEvent('', { method: 'PUT' }), widgets, 'PUT')
+		);
+
+		expect(errors).toEqual([{ path: 'body.name', code: 'required', message: 'is required' }]);
+	});
+
+	it('should reject malformed JSON with 400', async () => {
+		await expect(
+			validateRequest(requestEvent('', { method: 'PUT', body: '{"name":' }), widgets, 'PUT')
+		).rejects.toMatchObject({ status: 400, body: { code: 'INVALID_JSON' } });
+	});
+
+	it('should leave the request body readable', async () => {
+		const event = requestEvent('', jsonBody({ name: 'Sprocket' }));
+		await validateRequest(event, widgets, 'PUT');
+
+		expect(await event.request.json()).toEqual({ name: 'Sprocket' });
+	});
+
+	it('should read form fields, files and JSON-encoded objects', async () => {
+		const form = new FormData();
+		const picture = new File(['png'], 'widget.png', { type: 'image/png' });
+		form.append('file', picture);
+		form.append('process', 'true');
+		form.append('options', '{"resize":true}');
+
+		const input = await validateRequest(
+			requestEvent('', { method: 'POST', body: form }),
+			widgets,
+			'POST'
+		);
+
+		expect(input.body.process).toBe(true);
+		expect(input.body.options).toEqual({ resize: true });
+		expect(input.body.file).toBeInstanceOf(File);
+		expect(input.body.file.name).toBe('widget.png');
+	});
+
+	it('should reject a form without its file or with malformed JSON', async () => {
+		const form = new FormData();
+		form.append('options', '{resize}');
+
+		const errors = await issuesOf(
+			validateRequest(requestEvent('', { method: 'POST', body: form }), widgets, 'POST')
+		);
+
+		expect(errors?.map(({ path, code }) => ({ path, code }))).toEqual([
+			{ path: 'body.file', code: 'required' },
+			{ path: 'body.options', code: 'invalid_type' }
+		]);
+	});
+});
@@ -0,0 +1,366 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { error } from '@sveltejs/kit';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type {
+	HttpMethod,
+	Infer,
+	JsonSchema,
+	Operation,
+	RouteDefinition,
+	Schema
+} from './openapi.js';
+
+/**
+ * Stable codes of the ways a request field can be invalid
+ */
+export const VALIDATION_ISSUE_CODES = [
+	'required',
+	'invalid_type',
+	'invalid_enum',
+	'invalid_format',
+	'too_short',
+	'too_long',
+	'too_small',
+	'too_big',
+	'unknown_field',
+	'invalid_value'
+] as const;
+
+export type ValidationIssueCode = (typeof VALIDATION_ISSUE_CODES)[number];
+
+/**
+ * One invalid field of a request
+ */
+export interface ValidationIssue {
+	path: string; // e.g. "body.messages[0].role" or "query.limit"
+	code: ValidationIssueCode;
+	message: string;
+}
+
+type RequestLocation = 'params' | 'query' | 'body';
+
+type InferOr<S, Fallback> = S extends Schema ? Infer<S> : Fallback;
+
+type OperationOf<R extends RouteDefinition, M extends keyof R['operations']> = NonNullable<
+	R['operations'][M]
+>;
+
+/**
+ * The validated, typed input of a route's operation
+ */
+export type RequestInput<R extends RouteDefinition, M extends keyof R['operations']> = {
+	params: R extends { params: infer P } ? InferOr<P, Record<string, never>> : Record<string, never>;
+	query: OperationOf<R, M> extends { query: infer Q }
+		? InferOr<Q, Record<string, never>>
+		: Record<string, never>;
+	body: OperationOf<R, M> extends { body: infer B } ? InferOr<B, undefined> : undefined;
+};
+
+// JSON bodies arrive typed. Path and query parameters and form fields are
+// strings, so they are converted to the types their schemas declare.
+const ajv = new Ajv({ allErrors: true, strict: false });
+const coercingAjv = new Ajv({ allErrors: true, strict: false, coerceTypes: 'array' });
+addFormats(ajv);
+addFormats(coercingAjv);
+
+// Compiled validators by how they validate, then by schema
+const validators = new Map<string, WeakMap<JsonSchema, ValidateFunction>>();
+
+const NO_PARAMETERS: JsonSchema = { type: 'object', properties: {} };
+
+interface CheckOptions {
+	coerce: boolean; // Convert strings to the declared types
+	closed: boolean; // Reject properties the schema doesn't list
+}
+
+/**
+ * Compile a schema once for each way it's validated
+ */
+function validator(schema: JsonSchema, options: CheckOptions): ValidateFunction {
+	const key = `${options.coerce}:${options.closed}`;
+	const cache = validators.get(key) ?? new WeakMap<JsonSchema, ValidateFunction>();
+	validators.set(key, cache);
+
+	let validate = cache.get(schema);
+	if (!validate) {
+		validate = (options.coerce ? coercingAjv : ajv).compile(
+			options.closed ? { ...schema, additionalProperties: false } : schema
+		);
+		cache.set(schema, validate);
+	}
+	return validate;
+}
+
+function fieldPath(location: string, instancePath: string, property?: string): string {
+	const segments = instancePath
+		.split('/')
+		.slice(1)
+		.map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+	if (property !== undefined) segments.push(property);
+
+	return segments.reduce(
+		(path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : `${path}.${segment}`),
+		location
+	);
+}
+
+function toIssue(location: string, err: ErrorObject): ValidationIssue {
+	const params = err.params as Record<string, unknown>;
+	const path = fieldPath(location, err.instancePath);
+
+	switch (err.keyword) {
+		case 'required':
+			return {
+				path: fieldPath(location, err.instancePath, params.missingProperty as string),
+				code: 'required',
+				message: 'is required'
+			};
+		case 'additionalProperties':
+			return {
+				path: fieldPath(location, err.instancePath, params.additionalProperty as string),
+				code: 'unknown_field',
+				message: 'is not a known field'
+			};
+		case 'type':
+			return { path, code: 'invalid_type', message: `must be of type ${params.type}` };
+		case 'enum':
+			return {
+				path,
+				code: 'invalid_enum',
+				message: `must be one of: ${(params.allowedValues as unknown[]).join(', ')}`
+			};
+		case 'const':
+			return { path, code: 'invalid_enum', message: `must be ${params.allowedValue}` };
+		case 'format':
+			return { path, code: 'invalid_format', message: `must be a valid ${params.format}` };
+		case 'pattern':
+			return { path, code: 'invalid_format', message: `must match ${params.pattern}` };
+		case 'minLength':
+			return { path, code: 'too_short', message: `must be at least ${params.limit} characters` };
+		case 'maxLength':
+			return { path, code: 'too_long', message: `must be at most ${params.limit} characters` };
+		case 'minItems':
+		case 'minProperties':
+			return { path, code: 'too_short', message: `must have at least ${params.limit} items` };
+		case 'maxItems':
+		case 'maxProperties':
+			return { path, code: 'too_long', message: `must have at most ${params.limit} items` };
+		case 'minimum':
+		case 'exclusiveMinimum':
+			return { path, code: 'too_small', message: `must be ${params.comparison} ${params.limit}` };
+		case 'maximum':
+		case 'exclusiveMaximum':
+			return { path, code: 'too_big', message: `must be ${params.comparison} ${params.limit}` };
+		default:
+			return { path, code: 'invalid_value', message: err.message ?? 'is invalid' };
+	}
+}
+
+/**
+ * Ajv reports why a value failed every option of an `anyOf`. When the value
+ * has the type of just one option, e.g. a nullable object that isn't null, its
+ * errors are the useful ones; otherwise the value simply matches no option.
+ */
+function explainAnyOf(errors: ErrorObject[]): ErrorObject[] {
+	let remaining = errors;
+	const anyOfs = errors
+		.filter((err) => err.keyword === 'anyOf')
+		.sort((a, b) => a.schemaPath.length - b.schemaPath.length);
+
+	for (const anyOf of anyOfs) {
+		if (!remaining.includes(anyOf)) continue;
+
+		const prefix = `${anyOf.schemaPath}/`;
+		const branches = new Map<string, ErrorObject[]>();
+		for (const err of remaining) {
+			if (!err.schemaPath.startsWith(prefix)) continue;
+			const branch = err.schemaPath.slice(prefix.length).split('/')[0];
+			branches.set(branch, [...(branches.get(branch) ?? []), err]);
+		}
+
+		// Options the value isn't even the type of
+		const mismatched = (branch: ErrorObject[]) =>
+			branch.some((err) => err.keyword === 'type' && err.instancePath === anyOf.instancePath);
+		const candidates = [...branches.values()].filter((branch) => !mismatched(branch));
+
+		const dropped = new Set<ErrorObject>([...branches.values()].flat());
+		if (candidates.length === 1) {
+			dropped.add(anyOf);
+			for (const err of candidates[0]) dropped.delete(err);
+		}
+		remaining = remaining.filter((err) => !dropped.has(err));
+	}
+
+	return remaining;
+}
+
+function check(
+	schema: JsonSchema,
+	data: unknown,
+	location: string,
+	options: CheckOptions
+): ValidationIssue[] {
+	const validate = validator(schema, options);
+	if (validate(data)) return [];
+
+	const issues = explainAnyOf(validate.errors ?? []).map((err) => toIssue(location, err));
+	return issues.filter(
+		(issue, index) =>
+			issues.findIndex((other) => other.path === issue.path && other.code === issue.code) === index
+	);
+}
+
+/**
+ * Reject a request with 422, listing every invalid field
+ */
+export function validationError(issues: ValidationIssue[]): never {
+	error(422, {
+		message: `Invalid request: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+		code: 'VALIDATION_ERROR',
+		errors: issues
+	});
+}
+
+function accepts(schema: JsonSchema | undefined, type: string): boolean {
+	if (!schema) return false;
+	if (schema.type === type) return true;
+	return ((schema.anyOf as JsonSchema[] | undefined) ?? []).some((option) => accepts(option, type));
+}
+
+function isFileSchema(schema: JsonSchema | undefined): boolean {
+	return (
+		schema?.format === 'binary' ||
+		(schema?.type === 'array' && isFileSchema(schema.items as JsonSchema))
+	);
+}
+
+/**
+ * Gather query parameters or form fields into an object to validate. Repeated
+ * names become arrays, and JSON is parsed where an object is expected. Files
+ * are set aside in `files`, since only their presence can be validated.
+ */
+function collectFields(
+	entries: [string, FormDataEntryValue][],
+	schema: JsonSchema | undefined,
+	location: RequestLocation,
+	issues: ValidationIssue[]
+): { data: Record<string, unknown>; files: Record<string, File | File[]> } {
+	const properties = (schema?.properties ?? {}) as Record<string, JsonSchema>;
+	const data: Record<string, unknown> = {};
+	const files: Record<string, File | File[]> = {};
+
+	for (const name of new Set(entries.map(([entryName]) => entryName))) {
+		const property = properties[name];
+		const values = entries.filter(([entryName]) => entryName === name).map(([, value]) => value);
+
+		if (isFileSchema(property)) {
+			const uploads = values.filter((value): value is File => typeof value !== 'string');
+			if (uploads.length < values.length) {
+				issues.push({
+					path: `${location}.${name}`,
+					code: 'invalid_type',
+					message: 'must be a file'
+				});
+			}
+			files[name] = property.type === 'array' ? uploads : uploads[0];
+			// Stands in for the files while the other fields are validated
+			data[name] = property.type === 'array' ? uploads.map((file) => file.name) : uploads[0]?.name;
+			continue;
+		}
+
+		if (values.some((value) => typeof value !== 'string')) {
+			issues.push({
+				path: `${location}.${name}`,
+				code: 'invalid_type',
+				message: 'must not be a file'
+			});
+			continue;
+		}
+
+		const parsed = (values as string[]).map((value) => {
+			if (!accepts(property, 'object')) return value;
+			try {
+				return JSON.parse(value);
+			} catch {
+				return value;
+			}
+		});
+		data[name] = parsed.length === 1 ? parsed[0] : parsed;
+	}
+
+	return { data, files };
+}
+
+async function readBody(
+	event: RequestEvent,
+	operation: Operation,
+	issues: ValidationIssue[]
+): Promise<unknown> {
+	// Read a copy, so the body can still be fingerprinted for idempotency
+	const request = event.request.clone();
+
+	if (operation.multipart) {
+		let form: FormData;
+		try {
+			form = await request.formData();
+		} catch {
+			error(400, { message: 'Request body must be multipart/form-data', code: 'INVALID_BODY' });
+		}
+
+		const { data, files } = collectFields([...form.entries()], operation.body, 'body', issues);
+		issues.push(...check(operation.body!, data, 'body', { coerce: true, closed: false }));
+		return { ...data, ...files };
+	}
+
+	const text = await request.text();
+	let body: unknown = {};
+	if (text.trim()) {
+		try {
+			body = JSON.parse(text);
+		} catch {
+			error(400, { message: 'Request body must be valid JSON', code: 'INVALID_JSON' });
+		}
+	}
+
+	issues.push(...check(operation.body!, body, 'body', { coerce: false, closed: false }));
+	return body;
+}
+
+/**
+ * Validate a request's path parameters, query and body against its route
+ * definition and return them typed. Path and query parameters and form fields
+ * are converted to the declared types, and empty query parameters count as
+ * absent. Unknown query parameters are rejected; unknown body fields are
+ * ignored. Throws 422 VALIDATION_ERROR listing every invalid field.
+ */
+export async function validateRequest<
+	R extends RouteDefinition,
+	M extends HttpMethod & keyof R['operations']
+>(event: RequestEvent, route: R, method: M): Promise<RequestInput<R, M>> {
+	const operation = route.operations[method] as Operation;
+	const issues: ValidationIssue[] = [];
+
+	const params: Record<string, unknown> = { ...event.params };
+	if (route.params) {
+		issues.push(...check(route.params, params, 'params', { coerce: true, closed: false }));
+	}
+
+	const { data: query } = collectFields(
+		[...event.url.searchParams.entries()].filter(([, value]) => value !== ''),
+		operation.query,
+		'query',
+		issues
+	);
+	issues.push(
+		...check(operation.query ?? NO_PARAMETERS, query, 'query', { coerce: true, closed: true })
+	);
+
+	const body = operation.body ? await readBody(event, operation, issues) : undefined;
+
+	if (issues.length > 0) {
+		validationError(issues);
+	}
+
+	return { params, query, body } as RequestInput<R, M>;
+}
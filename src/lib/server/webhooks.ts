@@ -0,0 +1,682 @@
+import { env } from '$env/dynamic/private';
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { supabaseAdmin } from './supabase.js';
+import { ipMatchesRange, parseIp } from './key-restrictions.js';
+import {
+	ownerColumns,
+	ownerFilter,
+	toOwner,
+	type Owner,
+	type ResourceOwner
+} from './organizations.js';
+
+/**
+ * Every event an endpoint can subscribe to. Published with the webhooks docs.
+ */
+export const WEBHOOK_EVENTS = [
+	{ type: 'file.processed', description: 'A file finished processing' },
+	{ type: 'file.failed', description: 'A file could not be processed' },
+	{ type: 'conversation.message.created', description: 'A message was added to a conversation' },
+	{
+		type: 'prompt.version.created',
+		description: 'A system prompt was created, updated or restored'
+	},
+	{ type: 'key.revoked', description: 'An API key was revoked or disabled' }
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]['type'];
+
+const EVENT_TYPES = new Set<string>(WEBHOOK_EVENTS.map((definition) => definition.type));
+
+export interface WebhookEndpoint {
+	id: string;
+	user_id: string; // Creator
+	org_id: string | null;
+	api_key_id: string | null; // Only events caused by this key, null for the whole workspace
+	url: string;
+	description: string | null;
+	events: string[]; // Event types, or "*" for all
+	is_active: boolean;
+	created_at: string;
+	updated_at: string;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	endpoint_id: string;
+	event_id: string; // Shared by every delivery of the same event, including replays
+	event_type: string;
+	payload: WebhookPayload;
+	status: 'pending' | 'succeeded' | 'failed';
+	attempts: number;
+	next_attempt_at: string | null;
+	last_attempt_at: string | null;
+	response_status: number | null;
+	response_body: string | null;
+	error: string | null;
+	duration_ms: number | null;
+	replay_of: string | null;
+	created_at: string;
+}
+
+/**
+ * The body POSTed to an endpoint
+ */
+export interface WebhookPayload {
+	id: string;
+	type: string;
+	created_at: string;
+	data: Record<string, unknown>;
+}
+
+/**
+ * Where an event happened: the workspace, and the API key that caused it if
+ * any. Audit actors can be passed as they are.
+ */
+export interface WebhookSource extends ResourceOwner {
+	api_key_id?: string | null;
+}
+
+export interface CreateWebhookEndpointRequest {
+	url: string;
+	description?: string | null;
+	events: string[];
+	api_key_id?: string | null;
+}
+
+// Columns returned to endpoint owners; never includes the secret
+const ENDPOINT_COLUMNS =
+	'id, user_id, org_id, api_key_id, url, description, events, is_active, created_at, updated_at';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_BASE_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const MAX_URL_LENGTH = 2048;
+
+// How long a delivery being attempted is hidden from the retry sweep
+const CLAIM_MS = 60 * 1000;
+
+// Addresses endpoints may not resolve to: this host, private networks, link
+// local (cloud metadata services), carrier-grade NAT, multicast and reserved
+const BLOCKED_RANGES = [
+	'0.0.0.0/8',
+	'10.0.0.0/8',
+	'100.64.0.0/10',
+	'127.0.0.0/8',
+	'169.254.0.0/16',
+	'172.16.0.0/12',
+	'192.0.0.0/24',
+	'192.168.0.0/16',
+	'198.18.0.0/15',
+	'224.0.0.0/3',
+	'::/128',
+	'::1/128',
+	'64:ff9b::/96',
+	'fc00::/7',
+	'fe80::/10',
+	'ff00::/8'
+];
+
+// Names that only mean something inside a network
+const INTERNAL_HOST_PATTERN = /(^|\.)(localhost|local|internal|home\.arpa)$/;
+
+function envInt(value: string | undefined, fallback: number): number {
+	const parsed = parseInt(value || '', 10);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Attempts before a delivery is given up on, from `WEBHOOK_MAX_ATTEMPTS`
+ */
+function maxAttempts(): number {
+	return envInt(env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+}
+
+/**
+ * Delay before retrying a delivery that has failed `attempts` times: doubling
+ * from `WEBHOOK_RETRY_BASE_DELAY_MS` (30 seconds), up to 6 hours
+ */
+export function retryDelay(attempts: number): number {
+	const base = envInt(env.WEBHOOK_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS);
+	return Math.min(base * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function generateSecret(): string {
+	return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * The `X-Webhook-Signature` header for a payload: an HMAC-SHA256 of
+ * "<timestamp>.<body>" with the endpoint's secret
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+	const signature = crypto
+		.createHmac('sha256', secret)
+		.update(`${timestamp}.${body}`)
+		.digest('hex');
+	return `t=${timestamp},v1=${signature}`;
+}
+
+function isBlockedAddress(address: string): boolean {
+	return !parseIp(address) || BLOCKED_RANGES.some((range) => ipMatchesRange(address, range));
+}
+
+/**
+ * Check that an endpoint's host is on the public internet, returning what's
+ * wrong with it if anything. Names are resolved, and every address they
+ * resolve to must be public, so they can't point the server at itself or its
+ * network.
+ */
+export async function checkWebhookHost(url: string): Promise<string | null> {
+	const host = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+
+	if (parseIp(host)) {
+		return isBlockedAddress(host) ? 'url must not point to a private or reserved address' : null;
+	}
+	if (!host.includes('.') || INTERNAL_HOST_PATTERN.test(host)) {
+		return 'url must use a public host name';
+	}
+
+	let addresses: { address: string }[];
+	try {
+		addresses = await lookup(host, { all: true });
+	} catch {
+		return `url host ${host} could not be resolved`;
+	}
+
+	if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+		return 'url must not point to a private or reserved address';
+	}
+
+	return null;
+}
+
+/**
+ * Check an endpoint URL, returning what's wrong with it if anything
+ */
+export async function validateWebhookUrl(url: unknown): Promise<string | null> {
+	if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+		return `url must be a URL of at most ${MAX_URL_LENGTH} characters`;
+	}
+
+	try {
+		const parsed = new URL(url);
+		if (parsed.protocol !== 'https:') {
+			return 'url must use https';
+		}
+		if (parsed.username || parsed.password) {
+			return 'url must not contain credentials';
+		}
+	} catch {
+		return 'url must be a valid URL';
+	}
+
+	return checkWebhookHost(url);
+}
+
+/**
+ * Check a list of subscribed events, returning what's wrong with it if anything
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+	if (!Array.isArray(events) || events.length === 0) {
+		return 'events must be a non-empty array of event types';
+	}
+
+	const unknownEvents = events.filter(
+		(type) => typeof type !== 'string' || (type !== '*' && !EVENT_TYPES.has(type))
+	);
+	if (unknownEvents.length > 0) {
+		return `Unknown events: ${unknownEvents.join(', ')}`;
+	}
+
+	return null;
+}
+
+/**
+ * Create an endpoint. The secret is only returned here and when it's rotated.
+ */
+export async function createWebhookEndpoint(
+	owner: Owner,
+	request: CreateWebhookEndpointRequest
+): Promise<WebhookEndpoint & { secret: string }> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.insert([
+			{
+				...ownerColumns(owner),
+				api_key_id: request.api_key_id || null,
+				url: request.url,
+				description: request.description || null,
+				events: [...new Set(request.events)],
+				secret: generateSecret()
+			}
+		])
+		.select(`${ENDPOINT_COLUMNS}, secret`)
+		.single();
+
+	if (error) {
+		throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * List a user's or organization's endpoints, newest first
+ */
+export async function listWebhookEndpoints(owner: Owner): Promise<WebhookEndpoint[]> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.select(ENDPOINT_COLUMNS)
+		.or(ownerFilter(owner))
+		.order('created_at', { ascending: false });
+
+	if (error) {
+		throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+	}
+
+	return data || [];
+}
+
+export async function getWebhookEndpoint(
+	owner: Owner,
+	endpointId: string
+): Promise<WebhookEndpoint | null> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.select(ENDPOINT_COLUMNS)
+		.eq('id', endpointId)
+		.or(ownerFilter(owner))
+		.single();
+
+	if (error) {
+		if (error.code === 'PGRST116') return null; // Not found
+		throw new Error(`Failed to get webhook endpoint: ${error.message}`);
+	}
+
+	return data;
+}
+
+export async function updateWebhookEndpoint(
+	owner: Owner,
+	endpointId: string,
+	updates: Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'events' | 'is_active'>>
+): Promise<WebhookEndpoint> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.update({
+			...updates,
+			...(updates.events && { events: [...new Set(updates.events)] }),
+			updated_at: new Date().toISOString()
+		})
+		.eq('id', endpointId)
+		.or(ownerFilter(owner))
+		.select(ENDPOINT_COLUMNS)
+		.single();
+
+	if (error) {
+		throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * Replace an endpoint's signing secret, returning the new one
+ */
+export async function rotateWebhookSecret(owner: Owner, endpointId: string): Promise<string> {
+	const secret = generateSecret();
+	const { error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.update({ secret, updated_at: new Date().toISOString() })
+		.eq('id', endpointId)
+		.or(ownerFilter(owner));
+
+	if (error) {
+		throw new Error(`Failed to rotate webhook secret: ${error.message}`);
+	}
+
+	return secret;
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(owner: Owner, endpointId: string): Promise<boolean> {
+	const { error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.delete()
+		.eq('id', endpointId)
+		.or(ownerFilter(owner));
+
+	if (error) {
+		throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+	}
+
+	return true;
+}
+
+/**
+ * An endpoint's deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+	endpointId: string,
+	options: { status?: string; limit?: number; offset?: number } = {}
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+	const limit = options.limit ?? 50;
+	const offset = options.offset ?? 0;
+
+	let query = supabaseAdmin
+		.from('webhook_deliveries')
+		.select('*', { count: 'exact' })
+		.eq('endpoint_id', endpointId)
+		.order('created_at', { ascending: false })
+		.range(offset, offset + limit - 1);
+
+	if (options.status) {
+		query = query.eq('status', options.status);
+	}
+
+	const { data, count, error } = await query;
+
+	if (error) {
+		throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+	}
+
+	return { deliveries: data || [], total: count || 0 };
+}
+
+/**
+ * POST a delivery's payload to its endpoint once and record the outcome. A
+ * failed delivery is scheduled for another attempt until `attemptLimit`. The
+ * host is checked again first, as what a name resolves to can change after
+ * the endpoint was registered; nothing is sent to a private address, so no
+ * response from one is ever recorded.
+ */
+async function attemptDelivery(
+	delivery: WebhookDelivery,
+	endpoint: { url: string; secret: string },
+	attemptLimit: number = maxAttempts()
+): Promise<WebhookDelivery> {
+	const body = JSON.stringify(delivery.payload);
+	const timestamp = Math.floor(Date.now() / 1000);
+	const startedAt = Date.now();
+
+	let responseStatus: number | null = null;
+	let responseBody: string | null = null;
+	let failure: string | null = null;
+
+	try {
+		const blocked = await checkWebhookHost(endpoint.url);
+		if (blocked) throw new Error(`Endpoint not allowed: ${blocked}`);
+
+		const response = await fetch(endpoint.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'SvelteKit-Accelerator-Webhooks/1.0',
+				'X-Webhook-Id': delivery.event_id,
+				'X-Webhook-Event': delivery.event_type,
+				'X-Webhook-Delivery': delivery.id,
+				'X-Webhook-Signature': signPayload(endpoint.secret, timestamp, body)
+			},
+			body,
+			redirect: 'manual',
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+		});
+
+		responseStatus = response.status;
+		responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+		if (!response.ok) {
+			failure = `Endpoint responded with ${response.status}`;
+		}
+	} catch (err) {
+		failure =
+			err instanceof Error && err.name === 'TimeoutError'
+				? `Endpoint did not respond within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+				: err instanceof Error
+					? err.message
+					: 'Delivery failed';
+	}
+
+	const attempts = delivery.attempts + 1;
+	const status = !failure ? 'succeeded' : attempts >= attemptLimit ? 'failed' : 'pending';
+
+	const { data, error } = await supabaseAdmin
+		.from('webhook_deliveries')
+		.update({
+			status,
+			attempts,
+			next_attempt_at:
+				status === 'pending' ? new Date(Date.now() + retryDelay(attempts)).toISOString() : null,
+			last_attempt_at: new Date(startedAt).toISOString(),
+			response_status: responseStatus,
+			response_body: responseBody,
+			error: failure,
+			duration_ms: Date.now() - startedAt
+		})
+		.eq('id', delivery.id)
+		.select()
+		.single();
+
+	if (error) {
+		throw new Error(`Failed to record webhook delivery: ${error.message}`);
+	}
+
+	return data;
+}
+
+function buildPayload(type: string, data: Record<string, unknown>): WebhookPayload {
+	return { id: crypto.randomUUID(), type, created_at: new Date().toISOString(), data };
+}
+
+/**
+ * Queue an event for every active endpoint subscribed to it in the source's
+ * workspace, then start delivering. Endpoints tied to an API key only get the
+ * events that key caused. Never throws: a webhook problem mustn't fail the
+ * action that raised the event.
+ */
+export async function dispatchWebhookEvent(
+	source: WebhookSource,
+	type: WebhookEventType,
+	data: Record<string, unknown>
+): Promise<void> {
+	try {
+		const { user_id, org_id } = toOwner(source);
+		let query = supabaseAdmin
+			.from('webhook_endpoints')
+			.select('id, url, secret')
+			.eq('is_active', true)
+			.overlaps('events', [type, '*']);
+
+		query = org_id ? query.eq('org_id', org_id) : query.eq('user_id', user_id).is('org_id', null);
+		query = source.api_key_id
+			? query.or(`api_key_id.is.null,api_key_id.eq.${source.api_key_id}`)
+			: query.is('api_key_id', null);
+
+		const { data: endpoints, error: endpointsError } = await query;
+		if (endpointsError) {
+			throw new Error(`Failed to find webhook endpoints: ${endpointsError.message}`);
+		}
+		if (!endpoints?.length) return;
+
+		const payload = buildPayload(type, data);
+		const { data: deliveries, error: insertError } = await supabaseAdmin
+			.from('webhook_deliveries')
+			.insert(
+				endpoints.map((endpoint) => ({
+					endpoint_id: endpoint.id,
+					event_id: payload.id,
+					event_type: type,
+					payload,
+					// Leave the first attempt to us; the sweep picks it up if we don't finish
+					next_attempt_at: new Date(Date.now() + CLAIM_MS).toISOString()
+				}))
+			)
+			.select();
+
+		if (insertError) {
+			throw new Error(`Failed to queue webhook deliveries: ${insertError.message}`);
+		}
+
+		const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+		for (const delivery of (deliveries || []) as WebhookDelivery[]) {
+			attemptDelivery(delivery, endpointsById.get(delivery.endpoint_id)!).catch((error) => {
+				console.error('Webhook delivery failed:', error);
+			});
+		}
+	} catch (error) {
+		console.error(`Error dispatching ${type} webhook:`, error);
+	}
+}
+
+/**
+ * Fetch an endpoint with its secret, for sending to it
+ */
+async function getEndpointForDelivery(
+	owner: Owner,
+	endpointId: string
+): Promise<{ id: string; url: string; secret: string } | null> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_endpoints')
+		.select('id, url, secret')
+		.eq('id', endpointId)
+		.or(ownerFilter(owner))
+		.single();
+
+	if (error) {
+		if (error.code === 'PGRST116') return null; // Not found
+		throw new Error(`Failed to get webhook endpoint: ${error.message}`);
+	}
+
+	return data;
+}
+
+async function createDelivery(
+	endpointId: string,
+	payload: WebhookPayload,
+	replayOf: string | null = null
+): Promise<WebhookDelivery> {
+	const { data, error } = await supabaseAdmin
+		.from('webhook_deliveries')
+		.insert([
+			{
+				endpoint_id: endpointId,
+				event_id: payload.id,
+				event_type: payload.type,
+				payload,
+				next_attempt_at: null,
+				replay_of: replayOf
+			}
+		])
+		.select()
+		.single();
+
+	if (error) {
+		throw new Error(`Failed to create webhook delivery: ${error.message}`);
+	}
+
+	return data;
+}
+
+/**
+ * Send a `webhook.test` event to an endpoint once, whatever it subscribes to,
+ * and return the outcome. Null if the endpoint doesn't exist.
+ */
+export async function sendTestWebhook(
+	owner: Owner,
+	endpointId: string
+): Promise<WebhookDelivery | null> {
+	const endpoint = await getEndpointForDelivery(owner, endpointId);
+	if (!endpoint) return null;
+
+	const delivery = await createDelivery(
+		endpoint.id,
+		buildPayload('webhook.test', { endpoint_id: endpoint.id, message: 'This is a test event' })
+	);
+	return attemptDelivery(delivery, endpoint, 1);
+}
+
+/**
+ * Send a past delivery's payload again, once, as a new delivery of the same
+ * event. Null if the endpoint or delivery doesn't exist.
+ */
+export async function replayWebhookDelivery(
+	owner: Owner,
+	endpointId: string,
+	deliveryId: string
+): Promise<WebhookDelivery | null> {
+	const endpoint = await getEndpointForDelivery(owner, endpointId);
+	if (!endpoint) return null;
+
+	const { data: original, error } = await supabaseAdmin
+		.from('webhook_deliveries')
+		.select('id, payload')
+		.eq('id', deliveryId)
+		.eq('endpoint_id', endpoint.id)
+		.single();
+
+	if (error) {
+		if (error.code === 'PGRST116') return null; // Not found
+		throw new Error(`Failed to get webhook delivery: ${error.message}`);
+	}
+
+	const delivery = await createDelivery(endpoint.id, original.payload, original.id);
+	return attemptDelivery(delivery, endpoint, 1);
+}
+
+/**
+ * Retry the deliveries that are due, oldest first. Each is claimed before it's
+ * attempted, so overlapping sweeps don't send the same delivery twice.
+ */
+export async function deliverDueWebhooks(
+	limit: number = 50
+): Promise<{ attempted: number; succeeded: number }> {
+	const now = new Date().toISOString();
+	const { data, error } = await supabaseAdmin
+		.from('webhook_deliveries')
+		.select('*, webhook_endpoints(url, secret, is_active)')
+		.eq('status', 'pending')
+		.lte('next_attempt_at', now)
+		.order('next_attempt_at', { ascending: true })
+		.limit(limit);
+
+	if (error) {
+		throw new Error(`Failed to list due webhook deliveries: ${error.message}`);
+	}
+
+	let attempted = 0;
+	let succeeded = 0;
+
+	for (const row of data || []) {
+		const { webhook_endpoints: endpoint, ...delivery } = row as WebhookDelivery & {
+			webhook_endpoints: { url: string; secret: string; is_active: boolean } | null;
+		};
+
+		const { data: claimed } = await supabaseAdmin
+			.from('webhook_deliveries')
+			.update(
+				endpoint?.is_active
+					? { next_attempt_at: new Date(Date.now() + CLAIM_MS).toISOString() }
+					: { status: 'failed', next_attempt_at: null, error: 'Endpoint is disabled' }
+			)
+			.eq('id', delivery.id)
+			.eq('next_attempt_at', delivery.next_attempt_at!)
+			.select('id');
+
+		if (!claimed?.length || !endpoint?.is_active) continue;
+
+		attempted++;
+		try {
+			const result = await attemptDelivery(delivery, endpoint);
+			if (result.status === 'succeeded') succeeded++;
+		} catch (err) {
+			console.error('Webhook delivery failed:', err);
+		}
+	}
+
+	return { attempted, succeeded };
+}
@@ -0,0 +1,22 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { PERMISSIONS, permissionsAllow, resolvePermissions } from '$lib/server/permissions.js';
+import type { LayoutServerLoad } from './$types';
+
+export const load: LayoutServerLoad = async (event) => {
+	const session = await requirePermission(event, 'admin:access');
+	const { roles, permissions } = await resolvePermissions(session.user);
+
+	// Which permissions the admin has, so pages can hide what they can't do
+	const can = Object.fromEntries(
+		Object.keys(PERMISSIONS).map((permission) => [
+			permission,
+			permissionsAllow(permissions, permission)
+		])
+	) as Record<keyof typeof PERMISSIONS, boolean>;
+
+	return {
+		user: session.user,
+		roles,
+		can
+	};
+};
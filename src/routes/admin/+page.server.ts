@@ -0,0 +1,25 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { getSystemHealth } from '$lib/server/dashboard.js';
+import { getUsageByUser } from '$lib/server/admin.js';
+import { permissionsAllow, resolvePermissions } from '$lib/server/permissions.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requirePermission(event, 'admin:access');
+	const { permissions } = await resolvePermissions(session.user);
+
+	const [health, topSpenders] = await Promise.all([
+		permissionsAllow(permissions, 'system:health') ? getSystemHealth() : null,
+		permissionsAllow(permissions, 'users:read')
+			? getUsageByUser({ limit: 10 }).catch((error) => {
+					console.error('Error loading usage by user:', error);
+					return [];
+				})
+			: []
+	]);
+
+	return {
+		health,
+		topSpenders
+	};
+};
@@ -0,0 +1,35 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { listAuditEvents, verifyAuditChain } from '$lib/server/audit.js';
+import type { PageServerLoad } from './$types';
+
+const PAGE_SIZE = 50;
+
+// Recent entries whose hashes are recomputed on each visit
+const VERIFY_ENTRIES = 1000;
+
+export const load: PageServerLoad = async (event) => {
+	await requirePermission(event, 'audit:read');
+
+	const action = event.url.searchParams.get('action') || '';
+	const actor = event.url.searchParams.get('actor') || '';
+	const page = Math.max(parseInt(event.url.searchParams.get('page') || '1', 10) || 1, 1);
+
+	const [{ events, total }, chain] = await Promise.all([
+		listAuditEvents({
+			action: action || undefined,
+			actor_id: actor || undefined,
+			limit: PAGE_SIZE,
+			offset: (page - 1) * PAGE_SIZE
+		}),
+		verifyAuditChain(VERIFY_ENTRIES)
+	]);
+
+	return {
+		action,
+		actor,
+		page,
+		pageCount: Math.max(Math.ceil(total / PAGE_SIZE), 1),
+		events,
+		chain
+	};
+};
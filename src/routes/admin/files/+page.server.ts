@@ -0,0 +1,9 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { listFailedFileJobs } from '$lib/server/admin.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	await requirePermission(event, 'files:manage');
+
+	return await listFailedFileJobs({ limit: 100 });
+};
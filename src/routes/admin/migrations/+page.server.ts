@@ -0,0 +1,9 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { getMigrationStatus } from '$lib/server/migrations.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	await requirePermission(event, 'migrations:read');
+
+	return await getMigrationStatus();
+};
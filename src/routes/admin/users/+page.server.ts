@@ -0,0 +1,25 @@
+import { requirePermission } from '$lib/server/auth.js';
+import { searchUsers } from '$lib/server/admin.js';
+import type { PageServerLoad } from './$types';
+
+const PAGE_SIZE = 25;
+
+export const load: PageServerLoad = async (event) => {
+	await requirePermission(event, 'users:read');
+
+	const search = event.url.searchParams.get('q') || '';
+	const page = Math.max(parseInt(event.url.searchParams.get('page') || '1', 10) || 1, 1);
+
+	const { users, total } = await searchUsers(search, {
+		limit: PAGE_SIZE,
+		offset: (page - 1) * PAGE_SIZE
+	});
+
+	return {
+		search,
+		page,
+		pageCount: Math.max(Math.ceil(total / PAGE_SIZE), 1),
+		total,
+		users
+	};
+};
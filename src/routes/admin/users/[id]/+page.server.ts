@@ -0,0 +1,29 @@
+import { error } from '@sveltejs/kit';
+import { requirePermission } from '$lib/server/auth.js';
+import { getAdminUser } from '$lib/server/admin.js';
+import { listAuditEvents } from '$lib/server/audit.js';
+import { listRoles, permissionsAllow, resolvePermissions } from '$lib/server/permissions.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requirePermission(event, 'users:read');
+	const { permissions } = await resolvePermissions(session.user);
+
+	const user = await getAdminUser(event.params.id);
+	if (!user) {
+		error(404, 'User not found');
+	}
+
+	const [roles, audit] = await Promise.all([
+		listRoles(),
+		permissionsAllow(permissions, 'audit:read')
+			? listAuditEvents({ target_id: user.id, limit: 20 })
+			: { events: [], total: 0 }
+	]);
+
+	return {
+		adminUser: user,
+		roles,
+		auditEvents: audit.events
+	};
+};
@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { processFile, updateFileProcessing } from '$lib/server/file-processor.js';
+
+// POST /api/admin/files/:id/retry - Process a failed file again
+export const POST: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'files:manage');
+	const fileId = event.params.id;
+
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'file.retried',
+		target_type: 'file',
+		target_id: fileId
+	});
+
+	await updateFileProcessing(fileId, { processing_status: 'processing' });
+	const result = await processFile(fileId);
+
+	return json(result);
+};
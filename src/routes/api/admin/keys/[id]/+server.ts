@@ -0,0 +1,27 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { setApiKeysActive } from '$lib/server/api-keys.js';
+
+// PUT /api/admin/keys/:id - Enable or disable any API key
+export const PUT: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'users:manage');
+	const body = await event.request.json().catch(() => ({}));
+
+	if (typeof body.is_active !== 'boolean') {
+		error(400, 'is_active must be a boolean');
+	}
+
+	const changed = await setApiKeysActive({ id: event.params.id }, body.is_active);
+	if (changed.length > 0) {
+		await recordAuditEvent(event, {
+			actor: sessionActor(session),
+			action: body.is_active ? 'api_key.enabled' : 'api_key.disabled',
+			target_type: 'api_key',
+			target_id: event.params.id
+		});
+	}
+
+	return json({ is_active: body.is_active, changed: changed.length > 0 });
+};
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { setApiKeysActive } from '$lib/server/api-keys.js';
+
+// DELETE /api/admin/users/:id/keys - Disable every API key a user created
+export const DELETE: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'users:manage');
+	const userId = event.params.id;
+
+	const keyIds = await setApiKeysActive({ user_id: userId }, false);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'user.keys_disabled',
+		target_type: 'user',
+		target_id: userId,
+		metadata: { api_key_ids: keyIds }
+	});
+
+	return json({ disabled: keyIds.length });
+};
@@ -0,0 +1,54 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { grantRole, listRoles, revokeRole } from '$lib/server/permissions.js';
+
+async function readRole(request: Request): Promise<string> {
+	const body = await request.json().catch(() => ({}));
+	const role = typeof body.role === 'string' ? body.role : '';
+
+	const roles = await listRoles();
+	if (!roles.some((candidate) => candidate.name === role)) {
+		error(400, `role must be one of: ${roles.map((candidate) => candidate.name).join(', ')}`);
+	}
+
+	return role;
+}
+
+// POST /api/admin/users/:id/roles - Grant a platform role
+export const POST: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'roles:manage');
+	const role = await readRole(event.request);
+
+	await grantRole(event.params.id, role, session.user.id);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'role.granted',
+		target_type: 'user',
+		target_id: event.params.id,
+		metadata: { role }
+	});
+
+	return json({ granted: role });
+};
+
+// DELETE /api/admin/users/:id/roles - Revoke a platform role
+export const DELETE: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'roles:manage');
+	const role = await readRole(event.request);
+
+	if (!(await revokeRole(event.params.id, role))) {
+		error(404, 'The user does not have this role');
+	}
+
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'role.revoked',
+		target_type: 'user',
+		target_id: event.params.id,
+		metadata: { role }
+	});
+
+	return json({ revoked: role });
+};
@@ -0,0 +1,48 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { suspendUser, unsuspendUser } from '$lib/server/suspensions.js';
+
+// POST /api/admin/users/:id/suspend - Suspend a user
+export const POST: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'users:manage');
+	const userId = event.params.id;
+	const body = await event.request.json().catch(() => ({}));
+
+	if (userId === session.user.id) {
+		error(400, 'You cannot suspend yourself');
+	}
+
+	const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+	if (!reason || reason.length > 500) {
+		error(400, 'reason is required and must be at most 500 characters');
+	}
+
+	await suspendUser(userId, reason, session.user.id);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'user.suspended',
+		target_type: 'user',
+		target_id: userId,
+		metadata: { reason }
+	});
+
+	return json({ suspended: true });
+};
+
+// DELETE /api/admin/users/:id/suspend - Lift a user's suspension
+export const DELETE: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'users:manage');
+	const userId = event.params.id;
+
+	await unsuspendUser(userId);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session),
+		action: 'user.unsuspended',
+		target_type: 'user',
+		target_id: userId
+	});
+
+	return json({ suspended: false });
+};
@@ -1,18 +1,69 @@
-import { json, error } from '@sveltejs/kit';
+import { json, error, isHttpError } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import {
 	createCompletion,
 	createCompletionStream,
 	parseStreamResponse,
-	truncateMessages,
+	truncateMessagesForModel,
 	estimateTokenCount,
-	type ChatMessage
+	estimateUsage,
+	isProviderApiError,
+	accumulateToolCalls,
+	validateChatMessage,
+	type ChatMessage,
+	type CompletionUsage,
+	type ToolCall
 } from '$lib/server/llm.js';
-import { addMessage, createChat, updateChatTitle, updateChatMessageCount } from '$lib/server/chats.js';
+import { getUserLlmProvider } from '$lib/server/favorite-models.js';
+import {
+	addMessage,
+	branchChat,
+	createChat,
+	updateChatTitle,
+	updateChatMessageCount,
+	type Message
+} from '$lib/server/chats.js';
 import { createApiTracker, trackUserActivity } from '$lib/server/analytics.js';
 import { getSystemPrompt } from '$lib/server/system-prompts.js';
 import { getStructuredOutput } from '$lib/server/structured-outputs.js';
 import { recordChatFiles, type FileAttachment } from '$lib/server/chat-files.js';
+import { runAgentStream, type AgentResult } from '$lib/server/agent.js';
+import { listTools } from '$lib/server/tools.js';
+import { budgetHeaders, calculateUsageCost, enforceBudget } from '$lib/server/budgets.js';
+
+/**
+ * Save the tool-call turns of an agent run, followed by its final answer.
+ * Returns the last message saved.
+ */
+async function saveAgentMessages(
+	chatId: string,
+	result: AgentResult,
+	model: string,
+	systemPromptData: { id: string; version: number } | null,
+	structuredOutputData: { id: string; version: number } | null
+): Promise<Message | null> {
+	let saved: Message | null = null;
+
+	for (const message of result.messages) {
+		const isAnswer = message === result.messages[result.messages.length - 1];
+		if (isAnswer && !message.content) continue;
+
+		saved = await addMessage(
+			chatId,
+			message.role as 'assistant' | 'tool',
+			typeof message.content === 'string' ? message.content : '',
+			model,
+			isAnswer ? result.usage.total_tokens : undefined,
+			systemPromptData?.id,
+			systemPromptData?.version,
+			structuredOutputData?.id,
+			structuredOutputData?.version,
+			{ toolCalls: message.tool_calls, toolCallId: message.tool_call_id }
+		);
+	}
+
+	return saved;
+}
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	const startTime = Date.now();
@@ -24,6 +75,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			error(401, 'Authentication required');
 		}
 
+		// Reject the request up front if the user is over budget
+		const budget = await enforceBudget(locals.user.id);
+
 		// Get user-provided API key from headers
 		const userApiKey = request.headers.get('x-openrouter-api-key');
 
@@ -42,6 +96,12 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			system_prompt_id,
 			structured_output_id,
 			response_format,
+			tools,
+			tool_choice,
+			server_tools,
+			max_steps,
+			edit_message_id,
+			regenerate_message_id,
 			attachments = []
 		} = await request.json();
 
@@ -56,14 +116,27 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		// Validate message format
 		for (const message of messages) {
-			if (!message.role || !message.content) {
-				error(400, 'Each message must have role and content');
-			}
-			if (!['system', 'user', 'assistant'].includes(message.role)) {
-				error(400, 'Invalid message role');
+			const messageError = validateChatMessage(message);
+			if (messageError) {
+				error(400, messageError);
 			}
 		}
 
+		if (tools !== undefined && !Array.isArray(tools)) {
+			error(400, 'Tools must be an array');
+		}
+
+		// Server tools run here in an agent loop; client-defined `tools` are returned to the caller
+		let serverToolNames: string[] | null = null;
+		if (server_tools === true) {
+			serverToolNames = listTools().map((tool) => tool.name);
+		} else if (Array.isArray(server_tools) && server_tools.length > 0) {
+			serverToolNames = server_tools;
+		}
+		if (serverToolNames && tools?.length) {
+			error(400, 'Server tools cannot be combined with client-defined tools');
+		}
+
 		// Process system prompt if ID is provided
 		let resolvedSystemPrompt = system_prompt;
 		let systemPromptData = null;
@@ -184,9 +257,29 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			isFirstMessage = true;
 		}
 
+		// An edit or regeneration starts a new branch beside an earlier turn; `messages`
+		// then holds the history before it, ending with the edited or answered user message
+		let userMessageId: string | undefined;
+		if (edit_message_id || regenerate_message_id) {
+			if (!chat_id) {
+				error(400, 'Only messages in a saved chat can be edited or regenerated');
+			}
+
+			const branchedFrom = edit_message_id
+				? await branchChat(chat_id, locals.user.id, edit_message_id, 'edit')
+				: await branchChat(chat_id, locals.user.id, regenerate_message_id, 'regenerate');
+			if (!branchedFrom) {
+				error(404, 'Message not found');
+			}
+
+			if (regenerate_message_id) {
+				userMessageId = branchedFrom.id;
+			}
+		}
+
 		// Get the last user message to save to database
 		const lastUserMessage = messages[messages.length - 1];
-		if (lastUserMessage && lastUserMessage.role === 'user') {
+		if (lastUserMessage && lastUserMessage.role === 'user' && !regenerate_message_id) {
 			// Extract text content for database storage
 			const textContent = typeof lastUserMessage.content === 'string' 
 				? lastUserMessage.content 
@@ -205,6 +298,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				structuredOutputData?.id,
 				structuredOutputData?.version
 			);
+			userMessageId = userMessage.id;
 
 			// Record file attachments if any
 			if (attachments && attachments.length > 0) {
@@ -261,8 +355,40 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			await updateChatMessageCount(currentChatId, locals.user.id);
 		}
 
-		// Truncate messages to prevent token limit issues
-		const truncatedMessages = truncateMessages(processedMessages, 4000);
+		// Save tool results the client is sending back for the previous assistant turn
+		if (chat_id && lastUserMessage?.role === 'tool') {
+			let firstToolIndex = messages.length - 1;
+			while (firstToolIndex > 0 && messages[firstToolIndex - 1].role === 'tool') {
+				firstToolIndex--;
+			}
+
+			for (const toolMessage of messages.slice(firstToolIndex)) {
+				await addMessage(
+					currentChatId,
+					'tool',
+					toolMessage.content,
+					model || 'moonshotai/kimi-k2:free',
+					undefined,
+					undefined,
+					undefined,
+					undefined,
+					undefined,
+					{ toolCallId: toolMessage.tool_call_id }
+				);
+			}
+
+			await updateChatMessageCount(currentChatId, locals.user.id);
+		}
+
+		// Truncate messages to fit the model's context window, leaving room for the reply
+		const truncatedMessages = await truncateMessagesForModel(
+			processedMessages as ChatMessage[],
+			model || 'moonshotai/kimi-k2:free',
+			max_completion_tokens || max_tokens
+		);
+
+		// Resolve the user's preferred provider for unprefixed model IDs
+		const preferredProvider = await getUserLlmProvider(locals.user.id).catch(() => null);
 
 		// Prepare the completion request
 		const completionRequest = {
@@ -276,14 +402,142 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			...(presence_penalty && { presence_penalty }),
 			stream,
 			response_format: resolvedResponseFormat,
+			...(tools?.length && { tools }),
+			...(tool_choice && { tool_choice }),
+			provider: preferredProvider,
 			...(userApiKey && { apiKey: userApiKey })
 		};
 
+		// Answer with the agent loop when server tools are enabled
+		if (serverToolNames) {
+			const chatModel = model || 'moonshotai/kimi-k2:free';
+			const agentEvents = runAgentStream({
+				request: completionRequest,
+				tools: serverToolNames,
+				maxSteps: max_steps,
+				stream,
+				context: { userId: locals.user.id, apiKey: userApiKey || undefined, provider: preferredProvider }
+			});
+
+			if (!stream) {
+				let result: AgentResult | null = null;
+				for await (const event of agentEvents) {
+					if (event.type === 'done') result = event.result;
+				}
+				if (!result) {
+					throw new Error('Agent finished without a result');
+				}
+
+				const answer = await saveAgentMessages(
+					currentChatId,
+					result,
+					chatModel,
+					systemPromptData,
+					structuredOutputData
+				);
+				await updateChatMessageCount(currentChatId, locals.user.id);
+
+				await tracker.track({
+					userId: locals.user.id,
+					model: chatModel,
+					tokensUsed: result.usage.total_tokens,
+					cost: await calculateUsageCost(chatModel, result.usage),
+					statusCode: 200
+				});
+
+				return json({
+					object: 'chat.completion',
+					created: Math.floor(Date.now() / 1000),
+					model: result.model,
+					choices: [
+						{
+							index: 0,
+							message: { role: 'assistant', content: result.content },
+							finish_reason: result.finish_reason
+						}
+					],
+					usage: result.usage,
+					tool_steps: result.steps,
+					chat_id: currentChatId,
+					user_message_id: userMessageId,
+					message_id: answer?.id
+				}, { headers: budgetHeaders(budget) });
+			}
+
+			const encoder = new TextEncoder();
+			const readableStream = new ReadableStream({
+				async start(controller) {
+					const send = (data: unknown) =>
+						controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+					let answer: Message | null = null;
+
+					try {
+						for await (const event of agentEvents) {
+							if (event.type === 'chunk') {
+								send(event.chunk);
+							} else if (event.type === 'step') {
+								send({ tool_step: event.step });
+							} else {
+								answer = await saveAgentMessages(
+									currentChatId,
+									event.result,
+									chatModel,
+									systemPromptData,
+									structuredOutputData
+								);
+								await updateChatMessageCount(currentChatId, locals.user!.id);
+								await tracker.track({
+									userId: locals.user!.id,
+									model: chatModel,
+									tokensUsed: event.result.usage.total_tokens,
+									cost: await calculateUsageCost(chatModel, event.result.usage),
+									statusCode: 200
+								});
+								send({ usage: event.result.usage });
+							}
+						}
+
+						send({
+							chat_id: currentChatId,
+							user_message_id: userMessageId,
+							message_id: answer?.id,
+							done: true
+						});
+					} catch (err) {
+						console.error('Agent stream error:', err);
+						send({
+							error: {
+								message: err instanceof Error ? err.message : 'An error occurred while processing your request',
+								code: 'stream_error'
+							},
+							chat_id: currentChatId,
+							done: true
+						});
+					}
+
+					controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+					controller.close();
+				}
+			});
+
+			return new Response(readableStream, {
+				headers: {
+					'Content-Type': 'text/event-stream',
+					'Cache-Control': 'no-cache',
+					Connection: 'keep-alive',
+					...budgetHeaders(budget)
+				}
+			});
+		}
+
 		// Handle streaming response
 		if (stream) {
 			try {
 				const responseStream = await createCompletionStream(completionRequest);
 				let assistantResponse = '';
+				const assistantToolCalls: ToolCall[] = [];
+				let streamUsage: CompletionUsage | undefined;
+				let assistantMessage: Message | null = null;
 
 				// Create a readable stream for the response
 				const readableStream = new ReadableStream({
@@ -299,17 +553,22 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 								// Accumulate the response for saving to database
 								const content = chunk.choices[0]?.delta?.content || '';
 								assistantResponse += content;
+								streamUsage = chunk.usage || streamUsage;
+								accumulateToolCalls(assistantToolCalls, chunk.choices[0]?.delta?.tool_calls);
 
 								const data = `data: ${JSON.stringify(chunk)}\n\n`;
 								controller.enqueue(new TextEncoder().encode(data));
 							}
 
 							// Save assistant response to database
-							if (assistantResponse.trim()) {
+							if (assistantResponse.trim() || assistantToolCalls.length > 0) {
 								// Estimate token count for streaming responses
-								const estimatedTokens = estimateTokenCount(assistantResponse.trim());
+								const estimatedTokens = estimateTokenCount(
+									assistantResponse.trim(),
+									model || 'moonshotai/kimi-k2:free'
+								);
 								
-								await addMessage(
+								assistantMessage = await addMessage(
 									currentChatId,
 									'assistant',
 									assistantResponse.trim(),
@@ -318,13 +577,27 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 									systemPromptData?.id,
 									systemPromptData?.version,
 									structuredOutputData?.id,
-									structuredOutputData?.version
+									structuredOutputData?.version,
+									{ toolCalls: assistantToolCalls }
 								);
 							}
 
+							const chatModel = model || 'moonshotai/kimi-k2:free';
+							const usage =
+								streamUsage || estimateUsage(truncatedMessages, assistantResponse, chatModel);
+							await tracker.track({
+								userId: locals.user!.id,
+								model: chatModel,
+								tokensUsed: usage.total_tokens,
+								cost: await calculateUsageCost(chatModel, usage),
+								statusCode: 200
+							});
+
 							// Send final message with chat_id
 							controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({
 								chat_id: currentChatId,
+								user_message_id: userMessageId,
+								message_id: assistantMessage?.id,
 								done: true
 							})}\n\n`));
 							controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
@@ -353,7 +626,8 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 					headers: {
 						'Content-Type': 'text/event-stream',
 						'Cache-Control': 'no-cache',
-						Connection: 'keep-alive'
+						Connection: 'keep-alive',
+						...budgetHeaders(budget)
 					}
 				});
 			} catch (streamError) {
@@ -375,17 +649,20 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		// Save assistant response to database
 		const assistantContent = completion.choices[0]?.message?.content;
-		if (assistantContent) {
-			await addMessage(
+		const assistantToolCalls = completion.choices[0]?.message?.tool_calls;
+		let assistantMessage: Message | null = null;
+		if (assistantContent || assistantToolCalls?.length) {
+			assistantMessage = await addMessage(
 				currentChatId,
 				'assistant',
-				assistantContent,
+				typeof assistantContent === 'string' ? assistantContent : '',
 				model || 'moonshotai/kimi-k2:free',
 				completion.usage?.total_tokens, // Include token usage
 				systemPromptData?.id,
 				systemPromptData?.version,
 				structuredOutputData?.id,
-				structuredOutputData?.version
+				structuredOutputData?.version,
+				{ toolCalls: assistantToolCalls }
 			);
 		}
 
@@ -394,6 +671,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			userId: locals.user.id,
 			model: model || 'moonshotai/kimi-k2:free',
 			tokensUsed: completion.usage?.total_tokens,
+			cost: await calculateUsageCost(
+				completion.routing?.model_used || model || 'moonshotai/kimi-k2:free',
+				completion.usage
+			),
 			statusCode: 200
 		});
 
@@ -415,9 +696,16 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			model: completion.model,
 			choices: completion.choices,
 			usage: completion.usage,
-			chat_id: currentChatId
-		});
+			chat_id: currentChatId,
+			user_message_id: userMessageId,
+			message_id: assistantMessage?.id
+		}, { headers: budgetHeaders(budget) });
 	} catch (err) {
+		// Pass through deliberate HTTP errors, such as a 402 when over budget
+		if (isHttpError(err)) {
+			throw err;
+		}
+
 		console.error('Chat API error:', err);
 		
 		// Track error
@@ -436,7 +724,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		if (err instanceof Error) {
 			// Handle specific errors
-			if (err.message.includes('OpenRouter API error')) {
+			if (isProviderApiError(err)) {
 				error(502, 'AI service temporarily unavailable');
 			}
 			if (err.message.includes('redirect')) {
@@ -2,6 +2,7 @@ import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { requireAuth } from '$lib/server/auth.js';
 import { getChat, getChatMessages, deleteChat, updateChat } from '$lib/server/chats.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
 
 export const GET: RequestHandler = async (event) => {
 	try {
@@ -45,10 +46,21 @@ export const PATCH: RequestHandler = async (event) => {
 
 export const DELETE: RequestHandler = async (event) => {
 	try {
-		const { user } = await requireAuth(event);
+		const session = await requireAuth(event);
 		const chatId = event.params.id;
 
-		await deleteChat(chatId, user.id);
+		const chat = await getChat(chatId, session.user.id);
+		await deleteChat(chatId, session.user.id);
+
+		if (chat) {
+			await recordAuditEvent(event, {
+				actor: sessionActor(session),
+				action: 'conversation.deleted',
+				target_type: 'conversation',
+				target_id: chatId,
+				before: chat
+			});
+		}
 		
 		return json({ success: true });
 	} catch (err) {
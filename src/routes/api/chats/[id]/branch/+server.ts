@@ -0,0 +1,33 @@
+import { json, error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requireAuth } from '$lib/server/auth.js';
+import { switchChatBranch } from '$lib/server/chats.js';
+
+// PUT /api/chats/:id/branch - Show the branch holding a message
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const { user } = await requireAuth(event);
+		const { message_id } = await event.request.json();
+
+		if (typeof message_id !== 'string' || !message_id) {
+			error(400, 'message_id is required');
+		}
+
+		const messages = await switchChatBranch(event.params.id, user.id, message_id);
+		if (!messages) {
+			error(404, 'Message not found');
+		}
+
+		return json({ messages });
+	} catch (err) {
+		if (isHttpError(err)) {
+			throw err;
+		}
+
+		console.error('Switch branch error:', err);
+		if (err instanceof Error && err.message.includes('not found')) {
+			error(404, 'Chat not found');
+		}
+		error(500, 'Failed to switch branch');
+	}
+};
@@ -1,7 +1,7 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { requireAuth } from '$lib/server/auth.js';
-import { getChat, getChatMessages } from '$lib/server/chats.js';
+import { getActiveChatMessages, getChat } from '$lib/server/chats.js';
 import { getChatFiles } from '$lib/server/chat-files.js';
 
 export const GET: RequestHandler = async (event) => {
@@ -11,7 +11,7 @@ export const GET: RequestHandler = async (event) => {
 
 		const [chat, messages, files] = await Promise.all([
 			getChat(chatId, user.id),
-			getChatMessages(chatId, user.id),
+			getActiveChatMessages(chatId, user.id),
 			getChatFiles(chatId)
 		]);
 
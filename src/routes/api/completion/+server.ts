@@ -1,6 +1,6 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { generateText } from '$lib/server/llm.js';
+import { generateText, isProviderApiError } from '$lib/server/llm.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	try {
@@ -34,7 +34,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		if (err instanceof Error) {
 			// Handle specific errors
-			if (err.message.includes('OpenRouter API error')) {
+			if (isProviderApiError(err)) {
 				error(502, 'AI service temporarily unavailable');
 			}
 			if (err.message.includes('redirect')) {
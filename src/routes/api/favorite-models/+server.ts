@@ -4,8 +4,10 @@ import {
 	addFavoriteModel,
 	removeFavoriteModel,
 	getUserFavoriteModels,
-	setDefaultModel
+	setDefaultModel,
+	setUserLlmProvider
 } from '$lib/server/favorite-models.js';
+import { getProvider } from '$lib/server/llm-providers.js';
 
 export const GET: RequestHandler = async ({ locals }) => {
 	if (!locals.session || !locals.user) {
@@ -73,7 +75,16 @@ export const PATCH: RequestHandler = async ({ request, locals }) => {
 	}
 
 	try {
-		const { modelId, action } = await request.json();
+		const { modelId, action, provider } = await request.json();
+
+		if (action === 'set_provider') {
+			if (provider && !getProvider(provider)) {
+				error(400, 'Unknown provider');
+			}
+
+			await setUserLlmProvider(locals.user.id, provider || null);
+			return json({ provider: provider || null });
+		}
 
 		if (!modelId || !action) {
 			error(400, 'Model ID and action are required');
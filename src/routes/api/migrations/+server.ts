@@ -1,5 +1,7 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
 import {
 	runPendingMigrations,
 	getMigrationStatus,
@@ -8,17 +10,16 @@ import {
 	seedDatabase
 } from '$lib/server/migrations.js';
 
-export const GET: RequestHandler = async ({ url, locals }) => {
-	try {
-		// Require authentication
-		if (!locals.session || !locals.user) {
-			error(401, 'Authentication required');
-		}
+export const GET: RequestHandler = async (event) => {
+	const action = event.url.searchParams.get('action');
 
-		// For now, anyone can check migration status
-		// In production, you might want to restrict this to admin users
-		const action = url.searchParams.get('action');
+	// Backups copy the whole database, so they need the same permission as running migrations
+	const session = await requirePermission(
+		event,
+		action === 'backup' ? 'migrations:run' : 'migrations:read'
+	);
 
+	try {
 		switch (action) {
 			case 'status':
 				const status = await getMigrationStatus();
@@ -35,6 +36,7 @@ export const GET: RequestHandler = async ({ url, locals }) => {
 				});
 
 			case 'backup':
+				await recordAuditEvent(event, { actor: sessionActor(session), action: 'database.backup' });
 				const backup = await createBackup();
 				return json({
 					success: backup.success,
@@ -55,17 +57,15 @@ export const GET: RequestHandler = async ({ url, locals }) => {
 	}
 };
 
-export const POST: RequestHandler = async ({ request, locals }) => {
-	try {
-		// Require authentication
-		if (!locals.session || !locals.user) {
-			error(401, 'Authentication required');
-		}
+export const POST: RequestHandler = async (event) => {
+	const session = await requirePermission(event, 'migrations:run');
 
-		const { action } = await request.json();
+	try {
+		const { action } = await event.request.json();
 
 		switch (action) {
 			case 'run':
+				await recordAuditEvent(event, { actor: sessionActor(session), action: 'migrations.run' });
 				const result = await runPendingMigrations();
 				return json({
 					success: result.success,
@@ -74,6 +74,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				});
 
 			case 'seed':
+				await recordAuditEvent(event, { actor: sessionActor(session), action: 'database.seeded' });
 				const seedResult = await seedDatabase();
 				return json({
 					success: seedResult.success,
@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { requirePermission } from '$lib/server/auth.js';
+import { getSystemHealth } from '$lib/server/dashboard.js';
+
+export const GET: RequestHandler = async (event) => {
+	await requirePermission(event, 'system:health');
+
+	return json({
+		success: true,
+		data: await getSystemHealth()
+	});
+};
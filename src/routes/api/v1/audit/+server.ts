@@ -0,0 +1,66 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import {
+	createApiHandler,
+	parsePagination,
+	createApiResponse,
+	apiOwner
+} from '$lib/server/api-middleware.js';
+import { requireAuth } from '$lib/server/auth.js';
+import { listAuditEvents } from '$lib/server/audit.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest, validationError, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// GET /api/v1/audit - List the audit log of the caller's workspace
+export const GET: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console. Reading an organization's
+		// log takes the same role as managing it.
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'GET');
+		return json(await handleListAuditEvents(input, owner));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleListAuditEvents(input, apiOwner(auth)),
+			{ required_scope: 'audit:read', input: { route, method: 'GET' } }
+		)(event);
+	}
+};
+
+function parseTimestamp(value: string | undefined, name: string): string | undefined {
+	if (!value) return undefined;
+
+	const timestamp = new Date(value);
+	if (isNaN(timestamp.getTime())) {
+		validationError([
+			{
+				path: `query.${name}`,
+				code: 'invalid_format',
+				message: 'must be an ISO 8601 date or timestamp'
+			}
+		]);
+	}
+	return timestamp.toISOString();
+}
+
+async function handleListAuditEvents({ query }: RequestInput<typeof route, 'GET'>, owner: Owner) {
+	const { limit, offset } = parsePagination(query);
+	const { events, total } = await listAuditEvents({
+		owner,
+		action: query.action,
+		target_type: query.target_type,
+		target_id: query.target_id,
+		actor_id: query.actor_id,
+		since: parseTimestamp(query.since, 'since'),
+		until: parseTimestamp(query.until, 'until'),
+		limit,
+		offset
+	});
+
+	return createApiResponse(events, { total, limit, offset });
+}
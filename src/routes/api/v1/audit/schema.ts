@@ -0,0 +1,42 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+export const AuditEventSchema = t.component(
+	'AuditEvent',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		seq: t.integer(),
+		actor_id: t.nullable(t.string({ format: 'uuid' })),
+		org_id: t.nullable(t.string({ format: 'uuid' })),
+		api_key_id: t.nullable(t.string({ format: 'uuid' })),
+		session_id: t.nullable(t.string()),
+		action: t.string({ example: 'api_key.revoked' }),
+		target_type: t.nullable(t.string()),
+		target_id: t.nullable(t.string()),
+		changes: t.record(t.object({ before: t.unknown(), after: t.unknown() })),
+		metadata: t.record(t.unknown()),
+		ip_address: t.nullable(t.string()),
+		prev_hash: t.nullable(t.string()),
+		hash: t.string(),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const route = defineRoute({
+	tag: 'Audit Log',
+	operations: {
+		GET: {
+			summary: "List the audit log of the caller's workspace",
+			scopes: ['audit:read'],
+			query: t.object({
+				...paginationQuery,
+				action: t.optional(t.string()),
+				target_type: t.optional(t.string()),
+				target_id: t.optional(t.string()),
+				actor_id: t.optional(t.string({ format: 'uuid' })),
+				since: t.optional(t.string({ description: 'ISO 8601 date or timestamp' })),
+				until: t.optional(t.string({ description: 'ISO 8601 date or timestamp' }))
+			}),
+			response: paginated(AuditEventSchema)
+		}
+	}
+});
@@ -1,12 +1,11 @@
 import type { RequestHandler } from './$types';
 import { json, error } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { 
-	createApiHandler, 
-	validateRequestBody, 
-	validateQueryParams,
+import {
+	createApiHandler,
 	parsePagination,
-	createApiResponse
+	createApiResponse,
+	apiOwner
 } from '$lib/server/api-middleware.js';
 import {
 	createApiKey,
@@ -15,6 +14,14 @@ import {
 	getApiUsageStats,
 	type CreateApiKeyRequest
 } from '$lib/server/api-keys.js';
+import { validateBudgetSettings } from '$lib/server/budgets.js';
+import { validateRateLimits } from '$lib/server/rate-limiter.js';
+import { findInvalidScopes, findUngrantedScopes } from '$lib/server/scopes.js';
+import { findLooserRestrictions, validateKeyRestrictions } from '$lib/server/key-restrictions.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // GET /api/v1/auth/keys - List API keys
 export const GET: RequestHandler = async (event) => {
@@ -24,10 +31,11 @@ export const GET: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		await validateRequest(event, route, 'GET');
 		
 		try {
-			const url = new URL(event.request.url);
-			const keys = await listApiKeys(session.user.id);
+			const keys = await listApiKeys(owner);
 			
 			return json({ apiKeys: keys });
 		} catch (error) {
@@ -37,13 +45,10 @@ export const GET: RequestHandler = async (event) => {
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const url = new URL(event.request.url);
-				validateQueryParams(url, ['limit', 'offset', 'page']);
-				
-				const { limit, offset } = parsePagination(url);
+			async (event, auth, { query }) => {
+				const { limit, offset } = parsePagination(query);
 				
-				const keys = await listApiKeys(auth.user_id);
+				const keys = await listApiKeys(apiOwner(auth));
 				
 				// Apply pagination
 				const paginatedKeys = keys.slice(offset, offset + limit);
@@ -54,7 +59,7 @@ export const GET: RequestHandler = async (event) => {
 					offset
 				});
 			},
-			{ required_scope: 'read' }
+			{ required_scope: 'keys:read', input: { route, method: 'GET' } }
 		)(event);
 	}
 };
@@ -67,11 +72,11 @@ export const POST: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { body } = await validateRequest(event, route, 'POST');
 		
 		try {
-			const body = await event.request.json();
-			
-			if (!body.name?.trim()) {
+			if (!body.name.trim()) {
 				return json({ error: 'Name is required' }, { status: 400 });
 			}
 			
@@ -79,26 +84,48 @@ export const POST: RequestHandler = async (event) => {
 				name: body.name,
 				scopes: body.scopes || ['read', 'write'],
 				rate_limit: body.rate_limit || 1000,
-				expires_at: body.expires_at
+				rate_limit_per_minute: body.rate_limit_per_minute,
+				rate_limit_per_day: body.rate_limit_per_day,
+				token_limit_per_minute: body.token_limit_per_minute,
+				expires_at: body.expires_at ?? undefined,
+				fallback_models: body.fallback_models ?? undefined,
+				daily_budget_usd: body.daily_budget_usd,
+				monthly_budget_usd: body.monthly_budget_usd,
+				budget_soft_limit_percent: body.budget_soft_limit_percent,
+				allowed_ips: body.allowed_ips,
+				allowed_origins: body.allowed_origins,
+				allowed_models: body.allowed_models
 			};
 			
 			// Validate scopes
-			const validScopes = [
-				// Legacy scopes
-				'read', 'write', 'delete', '*',
-				// Resource-specific scopes
-				'system-prompts:read', 'system-prompts:write',
-				'structured-outputs:read', 'structured-outputs:write',
-				'api-keys:read', 'api-keys:write',
-				'files:read', 'files:write',
-				'conversations:read', 'conversations:write'
-			];
-			const invalidScopes = request.scopes?.filter(scope => !validScopes.includes(scope));
+			const invalidScopes = request.scopes && findInvalidScopes(request.scopes);
 			if (invalidScopes && invalidScopes.length > 0) {
 				return json({ error: `Invalid scopes: ${invalidScopes.join(', ')}` }, { status: 400 });
 			}
+
+			const budgetError = validateBudgetSettings(body);
+			if (budgetError) {
+				return json({ error: budgetError }, { status: 400 });
+			}
+
+			const rateLimitError = validateRateLimits(body);
+			if (rateLimitError) {
+				return json({ error: rateLimitError }, { status: 400 });
+			}
+
+			const restrictionError = validateKeyRestrictions(body);
+			if (restrictionError) {
+				return json({ error: restrictionError }, { status: 400 });
+			}
 			
-			const result = await createApiKey(session.user.id, request);
+			const result = await createApiKey(owner, request);
+			await recordAuditEvent(event, {
+				actor: sessionActor(session, owner),
+				action: 'api_key.created',
+				target_type: 'api_key',
+				target_id: result.apiKey.id,
+				after: result.apiKey
+			});
 			
 			return json({
 				id: result.apiKey.id,
@@ -106,7 +133,17 @@ export const POST: RequestHandler = async (event) => {
 				key: result.apiKey.key, // Only returned on creation
 				scopes: result.apiKey.scopes,
 				rate_limit: result.apiKey.rate_limit,
+				rate_limit_per_minute: result.apiKey.rate_limit_per_minute,
+				rate_limit_per_day: result.apiKey.rate_limit_per_day,
+				token_limit_per_minute: result.apiKey.token_limit_per_minute,
 				expires_at: result.apiKey.expires_at,
+				fallback_models: result.apiKey.fallback_models,
+				daily_budget_usd: result.apiKey.daily_budget_usd,
+				monthly_budget_usd: result.apiKey.monthly_budget_usd,
+				budget_soft_limit_percent: result.apiKey.budget_soft_limit_percent,
+				allowed_ips: result.apiKey.allowed_ips,
+				allowed_origins: result.apiKey.allowed_origins,
+				allowed_models: result.apiKey.allowed_models,
 				created_at: result.apiKey.created_at
 			});
 		} catch (error) {
@@ -116,45 +153,85 @@ export const POST: RequestHandler = async (event) => {
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const body = await event.request.json();
-				validateRequestBody(body, ['name']);
-				
+			async (event, auth, { body }) => {
 				const request: CreateApiKeyRequest = {
 					name: body.name,
 					scopes: body.scopes || ['read', 'write'],
 					rate_limit: body.rate_limit || 100,
-					expires_at: body.expires_at
+					rate_limit_per_minute: body.rate_limit_per_minute,
+					rate_limit_per_day: body.rate_limit_per_day,
+					token_limit_per_minute: body.token_limit_per_minute,
+					expires_at: body.expires_at ?? undefined,
+					fallback_models: body.fallback_models ?? undefined,
+					daily_budget_usd: body.daily_budget_usd,
+					monthly_budget_usd: body.monthly_budget_usd,
+					budget_soft_limit_percent: body.budget_soft_limit_percent,
+					// Keys created with a restricted key inherit its restrictions unless narrowed
+					allowed_ips:
+						body.allowed_ips === undefined ? auth.restrictions.allowed_ips : body.allowed_ips,
+					allowed_origins:
+						body.allowed_origins === undefined
+							? auth.restrictions.allowed_origins
+							: body.allowed_origins,
+					allowed_models:
+						body.allowed_models === undefined
+							? auth.restrictions.allowed_models
+							: body.allowed_models
 				};
 				
 				// Validate scopes
-				const validScopes = [
-					// Legacy scopes
-					'read', 'write', 'delete', '*',
-					// Resource-specific scopes
-					'system-prompts:read', 'system-prompts:write',
-					'structured-outputs:read', 'structured-outputs:write',
-					'api-keys:read', 'api-keys:write',
-					'files:read', 'files:write',
-					'conversations:read', 'conversations:write'
-				];
-				const invalidScopes = request.scopes?.filter(scope => !validScopes.includes(scope));
+				const invalidScopes = request.scopes && findInvalidScopes(request.scopes);
 				if (invalidScopes && invalidScopes.length > 0) {
 					error(400, {
 						message: `Invalid scopes: ${invalidScopes.join(', ')}`,
 						code: 'INVALID_SCOPES'
 					});
 				}
-				
-				// Validate rate limit
-				if (request.rate_limit && (request.rate_limit < 1 || request.rate_limit > 10000)) {
-					error(400, {
-						message: 'Rate limit must be between 1 and 10000',
-						code: 'INVALID_RATE_LIMIT'
+
+				// A key can only create keys with access it holds itself
+				const ungrantedScopes = findUngrantedScopes(auth.scopes, request.scopes || []);
+				if (ungrantedScopes.length > 0) {
+					error(403, {
+						message: `This API key can't grant scopes it doesn't hold: ${ungrantedScopes.join(', ')}`,
+						code: 'SCOPES_NOT_HELD'
+					});
+				}
+
+				const budgetError = validateBudgetSettings(body);
+				if (budgetError) {
+					error(400, budgetError);
+				}
+
+				const rateLimitError = validateRateLimits(body);
+				if (rateLimitError) {
+					error(400, rateLimitError);
+				}
+
+				const restrictionError = validateKeyRestrictions(body);
+				if (restrictionError) {
+					error(400, restrictionError);
+				}
+
+				const looserRestrictions = findLooserRestrictions(auth.restrictions, {
+					allowed_ips: request.allowed_ips ?? null,
+					allowed_origins: request.allowed_origins ?? null,
+					allowed_models: request.allowed_models ?? null
+				});
+				if (looserRestrictions.length > 0) {
+					error(403, {
+						message: `This API key can't create a key less restricted than itself: ${looserRestrictions.join(', ')}`,
+						code: 'RESTRICTIONS_NOT_HELD'
 					});
 				}
 				
-				const result = await createApiKey(auth.user_id, request);
+				const result = await createApiKey(apiOwner(auth), request);
+				await recordAuditEvent(event, {
+					actor: apiActor(auth),
+					action: 'api_key.created',
+					target_type: 'api_key',
+					target_id: result.apiKey.id,
+					after: result.apiKey
+				});
 				
 				return {
 					id: result.apiKey.id,
@@ -162,11 +239,21 @@ export const POST: RequestHandler = async (event) => {
 					key: result.apiKey.key, // Only returned on creation
 					scopes: result.apiKey.scopes,
 					rate_limit: result.apiKey.rate_limit,
+					rate_limit_per_minute: result.apiKey.rate_limit_per_minute,
+					rate_limit_per_day: result.apiKey.rate_limit_per_day,
+					token_limit_per_minute: result.apiKey.token_limit_per_minute,
 					expires_at: result.apiKey.expires_at,
+					fallback_models: result.apiKey.fallback_models,
+					daily_budget_usd: result.apiKey.daily_budget_usd,
+					monthly_budget_usd: result.apiKey.monthly_budget_usd,
+					budget_soft_limit_percent: result.apiKey.budget_soft_limit_percent,
+					allowed_ips: result.apiKey.allowed_ips,
+					allowed_origins: result.apiKey.allowed_origins,
+					allowed_models: result.apiKey.allowed_models,
 					created_at: result.apiKey.created_at
 				};
 			},
-			{ required_scope: 'write' }
+			{ required_scope: 'keys:write', input: { route, method: 'POST' } }
 		)(event);
 	}
 };
\ No newline at end of file
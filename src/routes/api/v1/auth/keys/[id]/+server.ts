@@ -1,23 +1,36 @@
 import type { RequestHandler } from './$types';
-import { json, error } from '@sveltejs/kit';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { 
-	createApiHandler, 
-	validateRequestBody
-} from '$lib/server/api-middleware.js';
-import {
-	getApiKey,
-	updateApiKey,
-	revokeApiKey,
-	deleteApiKey
-} from '$lib/server/api-keys.js';
+import { createApiHandler, apiOwner, type ApiAuthResult } from '$lib/server/api-middleware.js';
+import { getApiKey, updateApiKey, revokeApiKey, deleteApiKey } from '$lib/server/api-keys.js';
+import { validateBudgetSettings } from '$lib/server/budgets.js';
+import { validateRateLimits } from '$lib/server/rate-limiter.js';
+import { findInvalidScopes, findUngrantedScopes } from '$lib/server/scopes.js';
+import { findLooserRestrictions, validateKeyRestrictions } from '$lib/server/key-restrictions.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { UpdateApiKeySchema } from '../schema.js';
+import { route } from './schema.js';
+
+const UPDATE_FIELDS = Object.keys(UpdateApiKeySchema.properties);
+
+// Limits a key can tighten on itself but not raise or remove
+const OWN_LIMIT_FIELDS = [
+	'rate_limit',
+	'rate_limit_per_minute',
+	'rate_limit_per_day',
+	'token_limit_per_minute',
+	'daily_budget_usd',
+	'monthly_budget_usd'
+] as const;
 
 // GET /api/v1/auth/keys/:id - Get specific API key
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const keyId = event.params.id!;
+	async (event, auth, { params }) => {
+		const keyId = params.id;
 		
-		const apiKey = await getApiKey(auth.user_id, keyId);
+		const apiKey = await getApiKey(apiOwner(auth), keyId);
 		if (!apiKey) {
 			error(404, {
 				message: 'API key not found',
@@ -27,65 +40,146 @@ export const GET: RequestHandler = createApiHandler(
 		
 		return apiKey;
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'keys:read', input: { route, method: 'GET' } }
 );
 
 // PUT /api/v1/auth/keys/:id - Update API key
-export const PUT: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const keyId = event.params.id!;
-		const body = await event.request.json();
-		
-		// Validate allowed update fields
-		const allowedFields = ['name', 'scopes', 'rate_limit', 'expires_at', 'is_active'];
-		const updateFields = Object.keys(body).filter(key => allowedFields.includes(key));
-		
-		if (updateFields.length === 0) {
+export const PUT: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'PUT');
+		return json(await handleUpdateKey(event, sessionActor(session, owner), input));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleUpdateKey(event, apiActor(auth), input, auth),
+			{ required_scope: 'keys:write', input: { route, method: 'PUT' } }
+		)(event);
+	}
+};
+
+/**
+ * Update a key. `caller` is set when the request was made with an API key,
+ * which can't give a key more access than it holds, leave it less restricted
+ * than itself, or change its own scopes or loosen its own limits.
+ */
+async function handleUpdateKey(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'PUT'>,
+	caller?: ApiAuthResult
+) {
+	const keyId = params.id;
+	const updateFields = Object.keys(body).filter(key => UPDATE_FIELDS.includes(key));
+	
+	if (updateFields.length === 0) {
+		error(400, {
+			message: `No valid update fields provided. Allowed fields: ${UPDATE_FIELDS.join(', ')}`,
+			code: 'NO_UPDATE_FIELDS'
+		});
+	}
+	
+	const updates = Object.fromEntries(
+		updateFields.map((field) => [field, body[field as keyof typeof body]])
+	) as Parameters<typeof updateApiKey>[2];
+	
+	// Validate scopes if provided
+	if (updates.scopes) {
+		const invalidScopes = findInvalidScopes(updates.scopes);
+		if (invalidScopes.length > 0) {
 			error(400, {
-				message: `No valid update fields provided. Allowed fields: ${allowedFields.join(', ')}`,
-				code: 'NO_UPDATE_FIELDS'
+				message: `Invalid scopes: ${invalidScopes.join(', ')}`,
+				code: 'INVALID_SCOPES'
 			});
 		}
-		
-		const updates: any = {};
-		for (const field of updateFields) {
-			updates[field] = body[field];
+
+		if (caller && keyId === caller.api_key_id) {
+			error(403, {
+				message: "An API key can't change its own scopes",
+				code: 'OWN_KEY_CHANGE_NOT_ALLOWED'
+			});
 		}
-		
-		// Validate scopes if provided
-		if (updates.scopes) {
-			const validScopes = [
-				// Legacy scopes
-				'read', 'write', 'delete', '*',
-				// Resource-specific scopes
-				'system-prompts:read', 'system-prompts:write',
-				'structured-outputs:read', 'structured-outputs:write',
-				'api-keys:read', 'api-keys:write',
-				'files:read', 'files:write',
-				'conversations:read', 'conversations:write'
-			];
-			const invalidScopes = updates.scopes.filter((scope: string) => !validScopes.includes(scope));
-			if (invalidScopes.length > 0) {
-				error(400, {
-					message: `Invalid scopes: ${invalidScopes.join(', ')}`,
-					code: 'INVALID_SCOPES'
-				});
-			}
+
+		const ungrantedScopes = caller ? findUngrantedScopes(caller.scopes, updates.scopes) : [];
+		if (ungrantedScopes.length > 0) {
+			error(403, {
+				message: `This API key can't grant scopes it doesn't hold: ${ungrantedScopes.join(', ')}`,
+				code: 'SCOPES_NOT_HELD'
+			});
 		}
-		
-		// Validate rate limit if provided
-		if (updates.rate_limit && (updates.rate_limit < 1 || updates.rate_limit > 10000)) {
-			error(400, {
-				message: 'Rate limit must be between 1 and 10000',
-				code: 'INVALID_RATE_LIMIT'
+	}
+	
+	if (updates.fallback_models?.length === 0) {
+		updates.fallback_models = null;
+	}
+	
+	const budgetError = validateBudgetSettings(updates);
+	if (budgetError) {
+		error(400, budgetError);
+	}
+
+	const rateLimitError = validateRateLimits(updates);
+	if (rateLimitError) {
+		error(400, rateLimitError);
+	}
+
+	const restrictionError = validateKeyRestrictions(updates);
+	if (restrictionError) {
+		error(400, restrictionError);
+	}
+	
+	const apiKey = await getApiKey(actor, keyId);
+	if (!apiKey) {
+		error(404, {
+			message: 'API key not found',
+			code: 'KEY_NOT_FOUND'
+		});
+	}
+
+	if (caller) {
+		const updated = { ...apiKey, ...updates };
+		const looserRestrictions = findLooserRestrictions(caller.restrictions, {
+			allowed_ips: updated.allowed_ips ?? null,
+			allowed_origins: updated.allowed_origins ?? null,
+			allowed_models: updated.allowed_models ?? null
+		});
+		if (looserRestrictions.length > 0) {
+			error(403, {
+				message: `This API key can't leave a key less restricted than itself: ${looserRestrictions.join(', ')}`,
+				code: 'RESTRICTIONS_NOT_HELD'
 			});
 		}
-		
-		const updatedKey = await updateApiKey(auth.user_id, keyId, updates);
-		return updatedKey;
-	},
-	{ required_scope: 'write' }
-);
+	}
+
+	if (caller && keyId === caller.api_key_id) {
+		const loosenedLimits = OWN_LIMIT_FIELDS.filter((field) => {
+			const current = apiKey[field];
+			const next = updates[field];
+			return next !== undefined && current != null && (next === null || next > current);
+		});
+		if (loosenedLimits.length > 0) {
+			error(403, {
+				message: `An API key can't raise or remove its own limits: ${loosenedLimits.join(', ')}`,
+				code: 'OWN_KEY_CHANGE_NOT_ALLOWED'
+			});
+		}
+	}
+	
+	const updatedKey = await updateApiKey(actor, keyId, updates);
+	await recordAuditEvent(event, {
+		actor,
+		action: 'api_key.updated',
+		target_type: 'api_key',
+		target_id: keyId,
+		before: apiKey,
+		after: updatedKey
+	});
+	return updatedKey;
+}
 
 // DELETE /api/v1/auth/keys/:id - Delete/revoke API key
 export const DELETE: RequestHandler = async (event) => {
@@ -95,24 +189,11 @@ export const DELETE: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		const { id } = event.params;
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'DELETE');
 		
 		try {
-			const url = new URL(event.request.url);
-			const permanent = url.searchParams.get('permanent') === 'true';
-			
-			if (permanent) {
-				// Permanently delete the key
-				await deleteApiKey(session.user.id, id!);
-			} else {
-				// Just revoke (deactivate) the key
-				await revokeApiKey(session.user.id, id!);
-			}
-			
-			return json({
-				deleted: true,
-				permanent
-			});
+			return json(await handleDeleteKey(event, sessionActor(session, owner), input));
 		} catch (error) {
 			console.error('Error deleting API key:', error);
 			return json({ error: 'Failed to delete API key' }, { status: 500 });
@@ -120,25 +201,42 @@ export const DELETE: RequestHandler = async (event) => {
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const keyId = event.params.id!;
-				const url = new URL(event.request.url);
-				const permanent = url.searchParams.get('permanent') === 'true';
-				
-				if (permanent) {
-					// Permanently delete the key
-					await deleteApiKey(auth.user_id, keyId);
-				} else {
-					// Just revoke (deactivate) the key
-					await revokeApiKey(auth.user_id, keyId);
-				}
-				
-				return {
-					deleted: true,
-					permanent
-				};
-			},
-			{ required_scope: 'delete' }
+			async (event, auth, input) => handleDeleteKey(event, apiActor(auth), input),
+			{ required_scope: 'keys:delete', input: { route, method: 'DELETE' } }
 		)(event);
 	}
-};
\ No newline at end of file
+};
+
+async function handleDeleteKey(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, query }: RequestInput<typeof route, 'DELETE'>
+) {
+	const keyId = params.id;
+	const permanent = query.permanent === true;
+	const apiKey = await getApiKey(actor, keyId);
+	
+	if (permanent) {
+		// Permanently delete the key
+		await deleteApiKey(actor, keyId);
+	} else {
+		// Just revoke (deactivate) the key
+		await revokeApiKey(actor, keyId);
+	}
+	
+	if (apiKey) {
+		await recordAuditEvent(event, {
+			actor,
+			action: permanent ? 'api_key.deleted' : 'api_key.revoked',
+			target_type: 'api_key',
+			target_id: keyId,
+			before: apiKey,
+			after: permanent ? null : { ...apiKey, is_active: false }
+		});
+	}
+	
+	return {
+		deleted: true,
+		permanent
+	};
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import type { RequestHandler } from './$types';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler } from '$lib/server/api-middleware.js';
+import { getApiKey, rotateApiKey, defaultRotationGracePeriod } from '$lib/server/api-keys.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// POST /api/v1/auth/keys/:id/rotate - Issue a successor key, keeping the old one for a grace period
+export const POST: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handleRotateKey(event, sessionActor(session, owner), input));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleRotateKey(event, apiActor(auth), input),
+			{ required_scope: 'keys:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleRotateKey(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'POST'>
+) {
+	const keyId = params.id;
+	const gracePeriod = body.grace_period_seconds ?? defaultRotationGracePeriod();
+
+	const apiKey = await getApiKey(actor, keyId);
+	if (!apiKey || !apiKey.is_active) {
+		error(404, 'API key not found');
+	}
+
+	if (apiKey.rotated_to) {
+		error(409, 'API key has already been rotated');
+	}
+
+	if (apiKey.expires_at && new Date(apiKey.expires_at) < new Date()) {
+		error(409, 'API key has expired');
+	}
+
+	const { apiKey: successor, previous } = await rotateApiKey(actor, apiKey, gracePeriod);
+	await recordAuditEvent(event, {
+		actor,
+		action: 'api_key.rotated',
+		target_type: 'api_key',
+		target_id: apiKey.id,
+		before: apiKey,
+		after: previous,
+		metadata: { successor_id: successor.id, grace_period_seconds: gracePeriod }
+	});
+
+	return {
+		id: successor.id,
+		name: successor.name,
+		key: successor.key, // Only returned on creation
+		key_prefix: successor.key_prefix,
+		scopes: successor.scopes,
+		rate_limit: successor.rate_limit,
+		expires_at: successor.expires_at,
+		created_at: successor.created_at,
+		previous_key: {
+			id: previous.id,
+			key_prefix: previous.key_prefix,
+			rotated_at: previous.rotated_at,
+			expires_at: previous.expires_at
+		}
+	};
+}
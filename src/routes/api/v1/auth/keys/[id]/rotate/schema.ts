@@ -0,0 +1,40 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { MAX_ROTATION_GRACE_SECONDS } from '$lib/server/api-keys.js';
+
+export const route = defineRoute({
+	tag: 'API Keys',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Rotate an API key',
+			description:
+				'Issues a successor key with the same settings. The old key keeps working until its grace period ends.',
+			scopes: ['keys:write'],
+			body: t.object({
+				grace_period_seconds: t.optional(
+					t.integer({
+						minimum: 0,
+						maximum: MAX_ROTATION_GRACE_SECONDS,
+						description: 'How long the old key keeps working'
+					})
+				)
+			}),
+			response: t.object({
+				id: t.string({ format: 'uuid' }),
+				name: t.string(),
+				key: t.string({ description: 'The successor key secret' }),
+				key_prefix: t.string(),
+				scopes: t.array(t.string()),
+				rate_limit: t.integer(),
+				expires_at: t.optional(t.nullable(t.string({ format: 'date-time' }))),
+				created_at: t.string({ format: 'date-time' }),
+				previous_key: t.object({
+					id: t.string({ format: 'uuid' }),
+					key_prefix: t.string(),
+					rotated_at: t.nullable(t.string({ format: 'date-time' })),
+					expires_at: t.nullable(t.string({ format: 'date-time' }))
+				})
+			})
+		}
+	}
+});
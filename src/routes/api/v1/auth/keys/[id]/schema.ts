@@ -0,0 +1,32 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ApiKeySchema, UpdateApiKeySchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'API Keys',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get an API key',
+			auth: 'key',
+			scopes: ['keys:read'],
+			response: ApiKeySchema
+		},
+		PUT: {
+			summary: 'Update an API key',
+			description: 'Only the fields sent are changed. Send `is_active: false` to disable the key.',
+			scopes: ['keys:write'],
+			body: UpdateApiKeySchema,
+			response: ApiKeySchema
+		},
+		DELETE: {
+			summary: 'Revoke or delete an API key',
+			scopes: ['keys:delete'],
+			query: t.object({
+				permanent: t.optional(
+					t.boolean({ default: false, description: 'Delete the key instead of revoking it' })
+				)
+			}),
+			response: t.object({ deleted: t.boolean(), permanent: t.boolean() })
+		}
+	}
+});
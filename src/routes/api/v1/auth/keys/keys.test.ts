@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from './+server.js';
+import { PUT } from './[id]/+server.js';
+import type { ApiAuthResult } from '$lib/server/api-middleware.js';
+
+vi.mock('$env/static/private', () => ({
+	OPENROUTER_API_KEY: 'test-api-key',
+	OPENROUTER_DEFAULT_MODEL: 'openai/gpt-3.5-turbo'
+}));
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+vi.mock('$lib/server/supabase.js', () => ({
+	supabaseAdmin: { from: vi.fn(), rpc: vi.fn() }
+}));
+
+// Runs the handler with the request's caller, skipping authentication
+vi.mock('$lib/server/api-middleware.js', () => ({
+	apiOwner: (auth: ApiAuthResult) => ({ user_id: auth.user_id, org_id: auth.org_id }),
+	createApiHandler:
+		(handler: (event: unknown, auth: ApiAuthResult, input: unknown) => Promise<unknown>) =>
+		async (event: { request: Request; params: Record<string, string>; auth: ApiAuthResult }) =>
+			Response.json(
+				await handler(event, event.auth, {
+					params: event.params,
+					body: await event.request.json()
+				})
+			)
+}));
+
+vi.mock('$lib/server/api-keys.js', () => ({
+	createApiKey: vi.fn(async (_owner: unknown, request: Record<string, unknown>) => ({
+		apiKey: { id: 'key-2', key: 'ska_live_new', ...request }
+	})),
+	getApiKey: vi.fn(async () => ({ id: 'key-2', scopes: ['prompts:read'] })),
+	updateApiKey: vi.fn(async (_owner: unknown, id: string, updates: object) => ({
+		id,
+		...updates
+	}))
+}));
+
+vi.mock('$lib/server/audit.js', () => ({
+	apiActor: (auth: ApiAuthResult) => ({
+		user_id: auth.user_id,
+		org_id: auth.org_id,
+		api_key_id: auth.api_key_id,
+		session_id: null
+	}),
+	recordAuditEvent: vi.fn(async () => {})
+}));
+
+function caller(overrides: Partial<ApiAuthResult> = {}): ApiAuthResult {
+	return {
+		user_id: 'user-1',
+		org_id: null,
+		org_role: null,
+		api_key_id: 'key-1',
+		scopes: ['read', 'write'],
+		rate_limit: 100,
+		rate_limits: {} as ApiAuthResult['rate_limits'],
+		fallback_models: [],
+		rotation: null,
+		restrictions: { allowed_ips: null, allowed_origins: null, allowed_models: null },
+		...overrides
+	};
+}
+
+function keyRequest(method: string, body: object, auth: ApiAuthResult, id?: string) {
+	return {
+		request: new Request('http://localhost/api/v1/auth/keys', {
+			method,
+			headers: { authorization: 'Bearer ska_live_caller' },
+			body: JSON.stringify(body)
+		}),
+		params: id ? { id } : {},
+		auth
+	} as never;
+}
+
+describe('API key management with an API key', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('should not create a key with scopes the caller does not hold', async () => {
+		const { createApiKey } = await import('$lib/server/api-keys.js');
+
+		await expect(
+			POST(keyRequest('POST', { name: 'Admin', scopes: ['*'] }, caller()))
+		).rejects.toMatchObject({ status: 403, body: { code: 'SCOPES_NOT_HELD' } });
+		await expect(
+			POST(keyRequest('POST', { name: 'Deleter', scopes: ['delete'] }, caller()))
+		).rejects.toMatchObject({ status: 403 });
+		expect(createApiKey).not.toHaveBeenCalled();
+
+		const response = await POST(
+			keyRequest('POST', { name: 'Reader', scopes: ['prompts:read'] }, caller())
+		);
+		expect(response.status).toBe(200);
+		expect(createApiKey).toHaveBeenCalledOnce();
+	});
+
+	it('should not give another key scopes the caller does not hold', async () => {
+		const { updateApiKey } = await import('$lib/server/api-keys.js');
+
+		await expect(
+			PUT(keyRequest('PUT', { scopes: ['*'] }, caller(), 'key-2'))
+		).rejects.toMatchObject({ status: 403, body: { code: 'SCOPES_NOT_HELD' } });
+		expect(updateApiKey).not.toHaveBeenCalled();
+
+		const response = await PUT(keyRequest('PUT', { scopes: ['schemas:read'] }, caller(), 'key-2'));
+		expect(response.status).toBe(200);
+	});
+
+	it('should not let a key change its own scopes', async () => {
+		const { updateApiKey } = await import('$lib/server/api-keys.js');
+		const auth = caller({ scopes: ['*'] });
+
+		await expect(
+			PUT(keyRequest('PUT', { scopes: ['prompts:read'] }, auth, 'key-1'))
+		).rejects.toMatchObject({ status: 403, body: { code: 'OWN_KEY_CHANGE_NOT_ALLOWED' } });
+		expect(updateApiKey).not.toHaveBeenCalled();
+
+		// Other settings can still be changed
+		const response = await PUT(keyRequest('PUT', { name: 'Renamed' }, auth, 'key-1'));
+		expect(response.status).toBe(200);
+	});
+
+	describe('with a restricted key', () => {
+		const restrictions = {
+			allowed_ips: ['203.0.113.0/24'],
+			allowed_origins: null,
+			allowed_models: ['openai/*']
+		};
+		const restricted = caller({ restrictions });
+
+		it('should not create a less restricted key', async () => {
+			const { createApiKey } = await import('$lib/server/api-keys.js');
+
+			await expect(
+				POST(keyRequest('POST', { name: 'Open', allowed_ips: null }, restricted))
+			).rejects.toMatchObject({ status: 403, body: { code: 'RESTRICTIONS_NOT_HELD' } });
+			await expect(
+				POST(keyRequest('POST', { name: 'Any model', allowed_models: ['*'] }, restricted))
+			).rejects.toMatchObject({ status: 403 });
+			expect(createApiKey).not.toHaveBeenCalled();
+
+			// Restrictions left out are inherited; narrower ones are kept
+			await POST(keyRequest('POST', { name: 'Narrow', allowed_ips: ['203.0.113.9'] }, restricted));
+			expect(createApiKey).toHaveBeenCalledWith(
+				{ user_id: 'user-1', org_id: null },
+				expect.objectContaining({ allowed_ips: ['203.0.113.9'], allowed_models: ['openai/*'] })
+			);
+		});
+
+		it('should not lift its own restrictions or leave another key less restricted', async () => {
+			const { getApiKey, updateApiKey } = await import('$lib/server/api-keys.js');
+
+			vi.mocked(getApiKey).mockResolvedValueOnce({ id: 'key-1', ...restrictions } as never);
+			await expect(
+				PUT(keyRequest('PUT', { allowed_ips: null }, restricted, 'key-1'))
+			).rejects.toMatchObject({ status: 403, body: { code: 'RESTRICTIONS_NOT_HELD' } });
+
+			// An unrestricted key stays out of reach until it's restricted as much
+			await expect(
+				PUT(keyRequest('PUT', { name: 'Renamed' }, restricted, 'key-2'))
+			).rejects.toMatchObject({ status: 403, body: { code: 'RESTRICTIONS_NOT_HELD' } });
+			expect(updateApiKey).not.toHaveBeenCalled();
+
+			const response = await PUT(keyRequest('PUT', restrictions, restricted, 'key-2'));
+			expect(response.status).toBe(200);
+		});
+	});
+
+	it('should not let a key raise or remove its own limits', async () => {
+		const { getApiKey, updateApiKey } = await import('$lib/server/api-keys.js');
+		const current = { id: 'key-1', daily_budget_usd: 5, rate_limit: 100 };
+
+		for (let i = 0; i < 3; i++) vi.mocked(getApiKey).mockResolvedValueOnce(current as never);
+		await expect(
+			PUT(keyRequest('PUT', { daily_budget_usd: null }, caller(), 'key-1'))
+		).rejects.toMatchObject({ status: 403, body: { code: 'OWN_KEY_CHANGE_NOT_ALLOWED' } });
+		await expect(
+			PUT(keyRequest('PUT', { rate_limit: 1000 }, caller(), 'key-1'))
+		).rejects.toMatchObject({ status: 403 });
+		expect(updateApiKey).not.toHaveBeenCalled();
+
+		// Tightening them, or setting one it didn't have, is fine
+		const response = await PUT(
+			keyRequest('PUT', { daily_budget_usd: 2, monthly_budget_usd: 20 }, caller(), 'key-1')
+		);
+		expect(response.status).toBe(200);
+	});
+});
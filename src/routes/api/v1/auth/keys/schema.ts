@@ -0,0 +1,88 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+const modelList = t.array(t.string({ pattern: '\\S' }), {
+	maxItems: 5,
+	description: 'Up to 5 model IDs'
+});
+const nullableInteger = t.nullable(t.integer({ minimum: 1 }));
+
+// Settings a key is created and updated with
+const keySettings = {
+	scopes: t.optional(t.array(t.string(), { example: ['prompts:read', 'completions:create'] })),
+	rate_limit: t.optional(
+		t.integer({ minimum: 1, maximum: 10000, description: 'Requests per hour' })
+	),
+	rate_limit_per_minute: t.optional(nullableInteger),
+	rate_limit_per_day: t.optional(nullableInteger),
+	token_limit_per_minute: t.optional(nullableInteger),
+	expires_at: t.optional(t.nullable(t.string({ format: 'date-time' }))),
+	fallback_models: t.optional(t.nullable(modelList)),
+	daily_budget_usd: t.optional(t.nullable(t.number({ minimum: 0 }))),
+	monthly_budget_usd: t.optional(t.nullable(t.number({ minimum: 0 }))),
+	budget_soft_limit_percent: t.optional(t.integer({ minimum: 1, maximum: 100 })),
+	allowed_ips: t.optional(t.nullable(t.array(t.string(), { description: 'IPs or CIDR ranges' }))),
+	allowed_origins: t.optional(t.nullable(t.array(t.string()))),
+	allowed_models: t.optional(t.nullable(t.array(t.string())))
+};
+
+export const ApiKeySchema = t.component(
+	'ApiKey',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid', description: 'The key creator' }),
+		org_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		name: t.string(),
+		key_prefix: t.string({ example: 'ska_live_3f9a0c1b2d4e5f60' }),
+		scopes: t.array(t.string()),
+		rate_limit: t.integer(),
+		rate_limit_per_minute: t.optional(t.nullable(t.integer())),
+		rate_limit_per_day: t.optional(t.nullable(t.integer())),
+		token_limit_per_minute: t.optional(t.nullable(t.integer())),
+		usage_count: t.integer(),
+		last_used_at: t.optional(t.nullable(t.string({ format: 'date-time' }))),
+		expires_at: t.optional(t.nullable(t.string({ format: 'date-time' }))),
+		is_active: t.boolean(),
+		fallback_models: t.optional(t.nullable(t.array(t.string()))),
+		daily_budget_usd: t.optional(t.nullable(t.number())),
+		monthly_budget_usd: t.optional(t.nullable(t.number())),
+		budget_soft_limit_percent: t.optional(t.integer()),
+		rotated_to: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		rotated_at: t.optional(t.nullable(t.string({ format: 'date-time' }))),
+		allowed_ips: t.optional(t.nullable(t.array(t.string()))),
+		allowed_origins: t.optional(t.nullable(t.array(t.string()))),
+		allowed_models: t.optional(t.nullable(t.array(t.string()))),
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const UpdateApiKeySchema = t.object({
+	name: t.optional(t.string({ minLength: 1 })),
+	is_active: t.optional(t.boolean()),
+	...keySettings
+});
+
+export const route = defineRoute({
+	tag: 'API Keys',
+	operations: {
+		GET: {
+			summary: 'List API keys',
+			scopes: ['keys:read'],
+			query: t.object(paginationQuery),
+			response: paginated(ApiKeySchema)
+		},
+		POST: {
+			summary: 'Create an API key',
+			description: 'The key secret is only returned in this response.',
+			scopes: ['keys:write'],
+			body: t.object({ name: t.string({ minLength: 1, example: 'Production' }), ...keySettings }),
+			response: t.object({
+				id: t.string({ format: 'uuid' }),
+				name: t.string(),
+				key: t.string({ description: 'The key secret' }),
+				created_at: t.string({ format: 'date-time' }),
+				...keySettings
+			})
+		}
+	}
+});
@@ -1,21 +1,14 @@
 import type { RequestHandler } from './$types';
-import { createApiHandler, validateQueryParams } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { getApiUsageStats } from '$lib/server/api-keys.js';
+import { route } from './schema.js';
 
 // GET /api/v1/auth/usage - Get API usage statistics
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const url = new URL(event.request.url);
-		validateQueryParams(url, ['days']);
+	async (event, auth, { query }) => {
+		const days = query.days ?? 30;
 		
-		const daysParam = url.searchParams.get('days');
-		const days = daysParam ? parseInt(daysParam, 10) : 30;
-		
-		if (isNaN(days) || days < 1 || days > 365) {
-			throw new Error('Days parameter must be between 1 and 365');
-		}
-		
-		const stats = await getApiUsageStats(auth.user_id, days);
+		const stats = await getApiUsageStats(apiOwner(auth), days);
 		
 		return {
 			period: {
@@ -26,5 +19,5 @@ export const GET: RequestHandler = createApiHandler(
 			...stats
 		};
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'usage:read', input: { route, method: 'GET' } }
 );
\ No newline at end of file
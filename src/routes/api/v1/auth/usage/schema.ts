@@ -0,0 +1,31 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Usage',
+	operations: {
+		GET: {
+			summary: 'Get API usage statistics',
+			auth: 'key',
+			scopes: ['usage:read'],
+			query: t.object({ days: t.optional(t.integer({ minimum: 1, maximum: 365, default: 30 })) }),
+			response: t.object({
+				period: t.object({
+					days: t.integer(),
+					start_date: t.string({ format: 'date' }),
+					end_date: t.string({ format: 'date' })
+				}),
+				total_requests: t.integer(),
+				total_tokens: t.integer(),
+				requests_by_key: t.record(t.integer()),
+				requests_by_model: t.record(t.integer()),
+				daily_usage: t.array(
+					t.object({
+						date: t.string({ format: 'date' }),
+						requests: t.integer(),
+						tokens: t.integer()
+					})
+				)
+			})
+		}
+	}
+});
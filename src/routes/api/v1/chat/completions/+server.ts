@@ -1,24 +1,71 @@
-import { json, error } from '@sveltejs/kit';
+import { json, error, isHttpError } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import {
 	createCompletion,
-	createCompletionStream,
+	createRoutedCompletionStream,
 	parseStreamResponse,
-	truncateMessages,
+	truncateMessagesForModel,
 	estimateTokenCount,
-	type ChatMessage
+	estimateUsage,
+	isProviderApiError,
+	chatMessageIssues,
+	type ChatMessage,
+	type CompletionUsage
 } from '$lib/server/llm.js';
-import { authenticateApiRequest, requireScope } from '$lib/server/api-middleware.js';
+import { getUserLlmProvider } from '$lib/server/favorite-models.js';
+import {
+	authenticateApiRequest,
+	checkApiRateLimit,
+	deprecationHeaders,
+	rateLimitResponse,
+	requireAllowedModels,
+	requireScope,
+	apiOwner
+} from '$lib/server/api-middleware.js';
+import { rateLimitHeaders, recordTokenUsage } from '$lib/server/rate-limiter.js';
+import { budgetHeaders, enforceBudget, recordCompletionCost } from '$lib/server/budgets.js';
 import { addMessage, createChat, updateChatTitle, updateChatMessageCount } from '$lib/server/chats.js';
 import { getSystemPrompt } from '$lib/server/system-prompts.js';
 import { getStructuredOutput } from '$lib/server/structured-outputs.js';
+import {
+	beginIdempotentRequest,
+	completeIdempotentRequest,
+	releaseIdempotentRequest,
+	type IdempotencyClaim
+} from '$lib/server/idempotency.js';
+import { validateRequest, validationError } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async (event) => {
+	const { request } = event;
 	const startTime = Date.now();
+	let idempotency: IdempotencyClaim | null = null;
 	
 	try {
 		// Authenticate API request
-		const auth = await authenticateApiRequest({ request } as any);
+		const auth = await authenticateApiRequest(event);
+		requireScope(auth.scopes, 'completions:create');
+
+		const rateLimit = await checkApiRateLimit(auth);
+		if (!rateLimit.allowed) {
+			return rateLimitResponse(rateLimit);
+		}
+
+		const { body } = await validateRequest(event, route, 'POST');
+		const messageIssues = chatMessageIssues(body.messages as ChatMessage[]);
+		if (messageIssues.length > 0) {
+			validationError(messageIssues);
+		}
+
+		// Replay the response to an earlier request with the same Idempotency-Key
+		const claim = await beginIdempotentRequest(event, auth.user_id);
+		if (claim instanceof Response) {
+			return claim;
+		}
+		idempotency = claim;
+
+		// Reject the request up front if the user or key is over budget
+		const budget = await enforceBudget(auth.user_id, auth.api_key_id, auth.org_id);
 		
 		// Get the request body
 		const {
@@ -34,37 +81,36 @@ export const POST: RequestHandler = async ({ request }) => {
 			system_prompt_id,
 			structured_output_id,
 			response_format,
+			tools,
+			tool_choice,
+			parallel_tool_calls,
+			fallback_models,
+			max_retries,
 			attachments = []
-		} = await request.json();
-
-		// Get user-provided OpenRouter API key from headers
-		const userApiKey = request.headers.get('x-openrouter-api-key');
+		} = body;
 
-		// Validate input
-		if (!messages || !Array.isArray(messages)) {
-			error(400, 'Messages array is required');
+		// A stream can't be stored for replay
+		if (stream && idempotency) {
+			error(400, {
+				message: 'Idempotency-Key is not supported for streaming requests',
+				code: 'IDEMPOTENCY_NOT_SUPPORTED'
+			});
 		}
 
-		if (messages.length === 0) {
-			error(400, 'At least one message is required');
-		}
+		// Get user-provided OpenRouter API key from headers
+		const userApiKey = request.headers.get('x-openrouter-api-key');
 
-		// Validate message format
-		for (const message of messages) {
-			if (!message.role || !message.content) {
-				error(400, 'Each message must have role and content');
-			}
-			if (!['system', 'user', 'assistant'].includes(message.role)) {
-				error(400, 'Invalid message role');
-			}
-		}
+		await requireAllowedModels(event, auth, [
+			model || 'moonshotai/kimi-k2:free',
+			...(fallback_models ?? auth.fallback_models)
+		]);
 
 		// Process system prompt if ID is provided
 		let resolvedSystemPrompt = null;
 		let systemPromptData = null;
 		if (system_prompt_id) {
 			try {
-				systemPromptData = await getSystemPrompt(auth.user_id, system_prompt_id, true);
+				systemPromptData = await getSystemPrompt(apiOwner(auth), system_prompt_id, true);
 				if (systemPromptData) {
 					resolvedSystemPrompt = systemPromptData.content;
 				}
@@ -78,7 +124,7 @@ export const POST: RequestHandler = async ({ request }) => {
 		let structuredOutputData = null;
 		if (structured_output_id) {
 			try {
-				structuredOutputData = await getStructuredOutput(auth.user_id, structured_output_id, true);
+				structuredOutputData = await getStructuredOutput(apiOwner(auth), structured_output_id, true);
 				if (structuredOutputData) {
 					resolvedResponseFormat = {
 						type: 'json_schema',
@@ -95,7 +141,7 @@ export const POST: RequestHandler = async ({ request }) => {
 		}
 
 		// Process attachments into multimodal content (similar to main chat API)
-		let processedMessages = [...messages];
+		let processedMessages = [...messages] as ChatMessage[];
 		if (attachments && attachments.length > 0) {
 			const lastUserIndex = processedMessages.length - 1;
 			const lastMessage = processedMessages[lastUserIndex];
@@ -124,7 +170,7 @@ export const POST: RequestHandler = async ({ request }) => {
 						contentArray.push({
 							type: 'file',
 							file: {
-								filename: attachment.name,
+								filename: attachment.name ?? 'document.pdf',
 								file_data: attachment.data // Base64 data URI for PDF
 							}
 						});
@@ -133,13 +179,21 @@ export const POST: RequestHandler = async ({ request }) => {
 
 				processedMessages[lastUserIndex] = {
 					...lastMessage,
-					content: contentArray
+					// PDFs are sent as file parts, which the provider accepts
+					content: contentArray as ChatMessage['content']
 				};
 			}
 		}
 
-		// Truncate messages to prevent token limit issues
-		const truncatedMessages = truncateMessages(processedMessages, 4000);
+		// Truncate messages to fit the model's context window, leaving room for the reply
+		const truncatedMessages = await truncateMessagesForModel(
+			processedMessages as ChatMessage[],
+			model || 'moonshotai/kimi-k2:free',
+			max_completion_tokens || max_tokens
+		);
+
+		// Resolve the user's preferred provider for unprefixed model IDs
+		const preferredProvider = await getUserLlmProvider(auth.user_id).catch(() => null);
 
 		// Prepare the completion request
 		const completionRequest = {
@@ -153,23 +207,48 @@ export const POST: RequestHandler = async ({ request }) => {
 			...(presence_penalty && { presence_penalty }),
 			stream,
 			response_format: resolvedResponseFormat,
+			...(tools?.length && { tools }),
+			...(tool_choice && { tool_choice }),
+			...(parallel_tool_calls !== undefined && { parallel_tool_calls }),
+			provider: preferredProvider,
+			// The request's fallback chain overrides the API key's default
+			fallback_models: fallback_models ?? auth.fallback_models,
+			...(typeof max_retries === 'number' && { max_retries }),
 			...(userApiKey && { apiKey: userApiKey })
 		};
 
 		// Handle streaming response
 		if (stream) {
-			const responseStream = await createCompletionStream(completionRequest);
+			const { stream: responseStream, routing } =
+				await createRoutedCompletionStream(completionRequest);
 
 			// Create a readable stream for the response
 			const readableStream = new ReadableStream({
 				async start(controller) {
 					try {
+						let reply = '';
+						let usage: CompletionUsage | undefined;
 						for await (const chunk of parseStreamResponse(responseStream)) {
+							reply += chunk.choices?.[0]?.delta?.content || '';
+							usage = chunk.usage || usage;
 							const data = `data: ${JSON.stringify(chunk)}\n\n`;
 							controller.enqueue(new TextEncoder().encode(data));
 						}
 						controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
 						controller.close();
+
+						const finalUsage =
+							usage || estimateUsage(truncatedMessages, reply, routing.model_used);
+						await recordCompletionCost({
+							user_id: auth.user_id,
+							org_id: auth.org_id,
+							api_key_id: auth.api_key_id,
+							endpoint: '/api/v1/chat/completions',
+							model: routing.model_used,
+							usage: finalUsage,
+							response_time: Date.now() - startTime
+						});
+						await recordTokenUsage(auth.api_key_id, auth.rate_limits, finalUsage.total_tokens);
 					} catch (err) {
 						console.error('Stream error:', err);
 						controller.error(err);
@@ -181,7 +260,12 @@ export const POST: RequestHandler = async ({ request }) => {
 				headers: {
 					'Content-Type': 'text/event-stream',
 					'Cache-Control': 'no-cache',
-					Connection: 'keep-alive'
+					Connection: 'keep-alive',
+					'X-Model-Used': routing.model_used,
+					'X-Model-Attempts': String(routing.attempts),
+					...budgetHeaders(budget),
+					...rateLimitHeaders(rateLimit),
+					...deprecationHeaders(auth)
 				}
 			});
 		}
@@ -189,20 +273,52 @@ export const POST: RequestHandler = async ({ request }) => {
 		// Handle regular completion
 		const completion = await createCompletion(completionRequest);
 
-		return json({
+		await recordCompletionCost({
+			user_id: auth.user_id,
+			org_id: auth.org_id,
+			api_key_id: auth.api_key_id,
+			endpoint: '/api/v1/chat/completions',
+			model: completion.routing?.model_used || completionRequest.model,
+			usage: completion.usage,
+			response_time: Date.now() - startTime
+		});
+		await recordTokenUsage(auth.api_key_id, auth.rate_limits, completion.usage?.total_tokens);
+
+		const response = json({
 			id: completion.id,
 			object: completion.object,
 			created: completion.created,
 			model: completion.model,
 			choices: completion.choices,
-			usage: completion.usage
+			usage: completion.usage,
+			routing: completion.routing
+		}, {
+			headers: {
+				...budgetHeaders(budget),
+				...rateLimitHeaders(rateLimit),
+				...deprecationHeaders(auth)
+			}
 		});
+		if (idempotency) {
+			await completeIdempotentRequest(idempotency, response);
+		}
+		return response;
 
 	} catch (err) {
+		// Failed requests can be retried with the same key
+		if (idempotency) {
+			await releaseIdempotentRequest(idempotency);
+		}
+
+		// Pass through deliberate HTTP errors, such as a 402 when over budget
+		if (isHttpError(err)) {
+			throw err;
+		}
+
 		console.error('Chat completions API error:', err);
 		
 		if (err instanceof Error) {
-			if (err.message.includes('OpenRouter API error')) {
+			if (isProviderApiError(err)) {
 				error(502, 'AI service temporarily unavailable');
 			}
 			if (err.message.includes('Authentication required')) {
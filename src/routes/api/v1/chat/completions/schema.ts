@@ -0,0 +1,169 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const ChatMessageSchema = t.component(
+	'ChatMessage',
+	t.object({
+		role: t.enum(['system', 'user', 'assistant', 'tool']),
+		content: t.optional(
+			t.nullable(
+				t.union(
+					t.string(),
+					t.array(
+						t.object({
+							type: t.enum(['text', 'image_url']),
+							text: t.optional(t.string()),
+							image_url: t.optional(
+								t.object({
+									url: t.string(),
+									detail: t.optional(t.enum(['low', 'high', 'auto']))
+								})
+							)
+						})
+					)
+				)
+			)
+		),
+		name: t.optional(t.string()),
+		tool_calls: t.optional(
+			t.array(
+				t.object({
+					id: t.string(),
+					type: t.enum(['function']),
+					function: t.object({
+						name: t.string(),
+						arguments: t.string({ description: 'JSON-encoded arguments' })
+					})
+				}),
+				{ description: 'Assistant messages only' }
+			)
+		),
+		tool_call_id: t.optional(t.string({ description: 'Tool messages only: the call answered' }))
+	})
+);
+
+export const UsageSchema = t.component(
+	'Usage',
+	t.object({
+		prompt_tokens: t.integer(),
+		completion_tokens: t.integer(),
+		total_tokens: t.integer(),
+		estimated_cost: t.optional(t.number({ description: 'USD' }))
+	})
+);
+
+export const RoutingSchema = t.component(
+	'Routing',
+	t.object({
+		model_used: t.string(),
+		attempts: t.integer(),
+		fallback_used: t.boolean(),
+		attempted: t.array(
+			t.object({
+				model: t.string(),
+				attempt: t.integer(),
+				status: t.optional(t.integer()),
+				error: t.optional(t.string()),
+				skipped: t.optional(t.boolean()),
+				duration_ms: t.integer()
+			})
+		)
+	})
+);
+
+export const ToolDefinitionSchema = t.object({
+	type: t.enum(['function']),
+	function: t.object({
+		name: t.string(),
+		description: t.optional(t.string()),
+		parameters: t.optional(t.record(t.unknown())),
+		strict: t.optional(t.boolean())
+	})
+});
+
+export const ToolChoiceSchema = t.union(
+	t.enum(['none', 'auto', 'required']),
+	t.object({
+		type: t.enum(['function']),
+		function: t.object({ name: t.string() })
+	})
+);
+
+// Sampling and routing options shared by the completion endpoints
+export const completionOptions = {
+	model: t.optional(t.string({ example: 'moonshotai/kimi-k2:free' })),
+	temperature: t.optional(t.number({ minimum: 0, maximum: 2 })),
+	max_tokens: t.optional(
+		t.integer({ minimum: 1, description: 'Deprecated, use max_completion_tokens' })
+	),
+	max_completion_tokens: t.optional(t.integer({ minimum: 1 })),
+	top_p: t.optional(t.number()),
+	frequency_penalty: t.optional(t.number()),
+	presence_penalty: t.optional(t.number()),
+	fallback_models: t.optional(
+		t.array(t.string({ pattern: '\\S' }), {
+			maxItems: 5,
+			description: "Overrides the key's fallback chain"
+		})
+	),
+	max_retries: t.optional(t.integer({ minimum: 0 }))
+};
+
+export const ChatCompletionSchema = t.component(
+	'ChatCompletion',
+	t.object({
+		id: t.string(),
+		object: t.string({ example: 'chat.completion' }),
+		created: t.integer(),
+		model: t.string(),
+		choices: t.array(
+			t.object({ index: t.integer(), message: ChatMessageSchema, finish_reason: t.string() })
+		),
+		usage: UsageSchema,
+		routing: t.optional(RoutingSchema)
+	})
+);
+
+export const route = defineRoute({
+	tag: 'Completions',
+	operations: {
+		POST: {
+			summary: 'Create a chat completion',
+			auth: 'key',
+			scopes: ['completions:create'],
+			body: t.object({
+				messages: t.array(ChatMessageSchema, {
+					minItems: 1,
+					example: [{ role: 'user', content: 'Hello!' }]
+				}),
+				stream: t.optional(t.boolean({ default: false })),
+				system_prompt_id: t.optional(t.string({ format: 'uuid' })),
+				structured_output_id: t.optional(t.string({ format: 'uuid' })),
+				response_format: t.optional(
+					t.object({
+						type: t.enum(['json_object', 'json_schema']),
+						json_schema: t.optional(
+							t.object({ name: t.string(), strict: t.optional(t.boolean()), schema: t.unknown() })
+						)
+					})
+				),
+				tools: t.optional(t.array(ToolDefinitionSchema)),
+				tool_choice: t.optional(ToolChoiceSchema),
+				parallel_tool_calls: t.optional(t.boolean()),
+				attachments: t.optional(
+					t.array(
+						t.object({
+							type: t.enum(['image', 'pdf']),
+							name: t.optional(t.string()),
+							data: t.string({ description: 'Base64 data URI' })
+						}),
+						{ description: 'Added to the last user message' }
+					)
+				),
+				...completionOptions
+			}),
+			response: ChatCompletionSchema,
+			stream:
+				'With `stream: true`, `data:` events carrying chat.completion.chunk objects, ending with `data: [DONE]`'
+		}
+	}
+});
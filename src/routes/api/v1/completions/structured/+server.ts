@@ -1,52 +1,39 @@
 import type { RequestHandler } from './$types';
-import { error } from '@sveltejs/kit';
-import { createApiHandler, validateRequestBody } from '$lib/server/api-middleware.js';
+import {
+	createApiHandler,
+	requireAllowedModels,
+	apiOwner
+} from '$lib/server/api-middleware.js';
 import {
 	createStructuredCompletion,
 	type StructuredCompletionRequest
 } from '$lib/server/structured-outputs.js';
+import { enforceBudget, recordCompletionCost } from '$lib/server/budgets.js';
+import { recordTokenUsage } from '$lib/server/rate-limiter.js';
+import { chatMessageIssues, type ChatMessage } from '$lib/server/llm.js';
+import { validationError } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // POST /api/v1/completions/structured - Create structured completion
 export const POST: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const body = await event.request.json();
-		validateRequestBody(body, ['messages']);
-		
-		// Validate messages
-		if (!Array.isArray(body.messages) || body.messages.length === 0) {
-			error(400, {
-				message: 'Messages must be a non-empty array',
-				code: 'INVALID_MESSAGES'
-			});
-		}
-		
-		// Validate message format
-		for (const [index, message] of body.messages.entries()) {
-			if (!message.role || !message.content) {
-				error(400, {
-					message: `Message at index ${index} must have role and content`,
-					code: 'INVALID_MESSAGE_FORMAT'
-				});
-			}
-			
-			if (!['system', 'user', 'assistant'].includes(message.role)) {
-				error(400, {
-					message: `Invalid message role at index ${index}: ${message.role}`,
-					code: 'INVALID_MESSAGE_ROLE'
-				});
-			}
-		}
+	async (event, auth, { body }) => {
+		const messages = body.messages as ChatMessage[];
+		const issues = chatMessageIssues(messages);
 		
 		// Must provide either schema_id or direct schema
 		if (!body.schema_id && !body.schema) {
-			error(400, {
-				message: 'Either schema_id or schema must be provided',
-				code: 'MISSING_SCHEMA'
+			issues.push({
+				path: 'body.schema',
+				code: 'required',
+				message: 'is required when schema_id is not given'
 			});
 		}
+		if (issues.length > 0) {
+			validationError(issues);
+		}
 		
 		const request: StructuredCompletionRequest = {
-			messages: body.messages,
+			messages,
 			model: body.model || 'openai/gpt-3.5-turbo',
 			temperature: body.temperature,
 			max_tokens: body.max_tokens,
@@ -61,20 +48,29 @@ export const POST: RequestHandler = createApiHandler(
 			user_id: auth.user_id,
 			apiKey: event.request.headers.get('x-openrouter-api-key') || undefined
 		};
-		
-		// Validate retry count
-		if (request.max_retries !== undefined && (request.max_retries < 0 || request.max_retries > 10)) {
-			error(400, {
-				message: 'max_retries must be between 0 and 10',
-				code: 'INVALID_MAX_RETRIES'
+
+		await requireAllowedModels(event, auth, [request.model]);
+		await enforceBudget(auth.user_id, auth.api_key_id, auth.org_id);
+
+		const result = await createStructuredCompletion(request, apiOwner(auth));
+
+		if (result.usage) {
+			await recordCompletionCost({
+				user_id: auth.user_id,
+				org_id: auth.org_id,
+				api_key_id: auth.api_key_id,
+				endpoint: event.url.pathname,
+				model: request.model!,
+				usage: result.usage
 			});
+			await recordTokenUsage(auth.api_key_id, auth.rate_limits, result.usage?.total_tokens);
 		}
-		
-		const result = await createStructuredCompletion(request, auth.user.id);
+
 		return result;
 	},
 	{ 
-		required_scope: 'write',
-		track_usage: true
+		required_scope: 'completions:create',
+		track_usage: true,
+		input: { route, method: 'POST' }
 	}
 );
\ No newline at end of file
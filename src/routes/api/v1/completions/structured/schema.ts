@@ -0,0 +1,39 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import {
+	ChatMessageSchema,
+	UsageSchema,
+	completionOptions
+} from '../../chat/completions/schema.js';
+
+export const route = defineRoute({
+	tag: 'Completions',
+	operations: {
+		POST: {
+			summary: 'Create a structured completion',
+			description:
+				'Asks the model for JSON matching a saved schema (`schema_id`) or one sent inline (`schema`), retrying until the output validates.',
+			auth: 'key',
+			scopes: ['completions:create'],
+			body: t.object({
+				messages: t.array(ChatMessageSchema, { minItems: 1 }),
+				schema_id: t.optional(t.string({ format: 'uuid' })),
+				schema: t.optional(t.record(t.unknown(), { description: 'A JSON Schema' })),
+				strict: t.optional(t.boolean()),
+				return_raw_response: t.optional(t.boolean()),
+				...completionOptions,
+				max_retries: t.optional(t.integer({ minimum: 0, maximum: 10 }))
+			}),
+			response: t.object({
+				id: t.string(),
+				object: t.string(),
+				created: t.integer(),
+				model: t.string(),
+				structured_output: t.unknown({ description: 'The validated JSON output' }),
+				raw_response: t.optional(t.string()),
+				validation_errors: t.optional(t.array(t.string())),
+				usage: t.optional(UsageSchema),
+				retries_used: t.optional(t.integer())
+			})
+		}
+	}
+});
@@ -1,17 +1,38 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { json, error as httpError } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler } from '$lib/server/api-middleware.js';
 import { supabaseAdmin } from '$lib/server/supabase.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
+// GET /api/v1/conversations - List conversations with their stats
 export const GET: RequestHandler = async (event) => {
-	const session = await requireAuth(event);
-	
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const input = await validateRequest(event, route, 'GET');
+		return json(await handleListConversations(input, session.user.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleListConversations(input, auth.user_id),
+			{ required_scope: 'conversations:read', input: { route, method: 'GET' } }
+		)(event);
+	}
+};
+
+async function handleListConversations(
+	{ query: params }: RequestInput<typeof route, 'GET'>,
+	userId: string
+) {
 	try {
-		const url = new URL(event.request.url);
-		const search = url.searchParams.get('search') || '';
-		const model = url.searchParams.get('model') || '';
-		const limit = parseInt(url.searchParams.get('limit') || '50');
-		const offset = parseInt(url.searchParams.get('offset') || '0');
+		const search = params.search || '';
+		const model = params.model || '';
+		const limit = params.limit ?? 50;
+		const offset = params.offset ?? 0;
 
 		let query = supabaseAdmin
 			.from('chats')
@@ -29,7 +50,7 @@ export const GET: RequestHandler = async (event) => {
 					token_count
 				)
 			`)
-			.eq('user_id', session.user.id)
+			.eq('user_id', userId)
 			.order('updated_at', { ascending: false });
 
 		// Apply filters
@@ -77,7 +98,7 @@ export const GET: RequestHandler = async (event) => {
 		const { data: statsData, error: statsError } = await supabaseAdmin
 			.from('chats')
 			.select('id, messages!inner(token_count)')
-			.eq('user_id', session.user.id);
+			.eq('user_id', userId);
 
 		if (statsError) throw statsError;
 
@@ -98,7 +119,7 @@ export const GET: RequestHandler = async (event) => {
 		const { data: activeData, error: activeError } = await supabaseAdmin
 			.from('chats')
 			.select('id')
-			.eq('user_id', session.user.id)
+			.eq('user_id', userId)
 			.gte('updated_at', sevenDaysAgo.toISOString());
 
 		if (activeError) throw activeError;
@@ -111,14 +132,14 @@ export const GET: RequestHandler = async (event) => {
 			active_conversations_7d: activeData?.length || 0
 		};
 
-		return json({
+		return {
 			conversations: processedConversations,
 			stats,
 			filters: { search, model }
-		});
+		};
 
 	} catch (error) {
 		console.error('Error fetching conversations:', error);
-		return json({ error: 'Failed to fetch conversations' }, { status: 500 });
+		httpError(500, 'Failed to fetch conversations');
 	}
-};
\ No newline at end of file
+}
\ No newline at end of file
@@ -1,12 +1,50 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { json, error as httpError, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler } from '$lib/server/api-middleware.js';
 import { supabaseAdmin } from '$lib/server/supabase.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
+// DELETE /api/v1/conversations/:id - Delete a conversation and its messages
 export const DELETE: RequestHandler = async (event) => {
-	const session = await requireAuth(event);
-	const { id } = event.params;
-	
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const { params } = await validateRequest(event, route, 'DELETE');
+		return json(await handleDeleteConversation(event, sessionActor(session), params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleDeleteConversation(event, apiActor(auth), params.id),
+			{ required_scope: 'conversations:write', input: { route, method: 'DELETE' } }
+		)(event);
+	}
+};
+
+async function handleDeleteConversation(event: RequestEvent, actor: AuditActor, id: string) {
+	const userId = actor.user_id;
+
+	// Make sure the conversation is the caller's before touching its messages
+	const { data: chat, error: chatError } = await supabaseAdmin
+		.from('chats')
+		.select('*')
+		.eq('id', id)
+		.eq('user_id', userId)
+		.single();
+
+	if (chatError && chatError.code !== 'PGRST116') {
+		console.error('Error deleting conversation:', chatError);
+		httpError(500, 'Failed to delete conversation');
+	}
+
+	if (!chat) {
+		httpError(404, 'Conversation not found or not authorized');
+	}
+
 	try {
 		// First delete all messages in this conversation
 		const { error: messagesError } = await supabaseAdmin
@@ -17,24 +55,21 @@ export const DELETE: RequestHandler = async (event) => {
 		if (messagesError) throw messagesError;
 
 		// Then delete the conversation
-		const { data, error } = await supabaseAdmin
-			.from('chats')
-			.delete()
-			.eq('id', id)
-			.eq('user_id', session.user.id)
-			.select()
-			.single();
+		const { error } = await supabaseAdmin.from('chats').delete().eq('id', id).eq('user_id', userId);
 
 		if (error) throw error;
-
-		if (!data) {
-			return json({ error: 'Conversation not found or not authorized' }, { status: 404 });
-		}
-
-		return json({ success: true, message: 'Conversation deleted successfully' });
-
 	} catch (error) {
 		console.error('Error deleting conversation:', error);
-		return json({ error: 'Failed to delete conversation' }, { status: 500 });
+		httpError(500, 'Failed to delete conversation');
 	}
-};
\ No newline at end of file
+
+	await recordAuditEvent(event, {
+		actor,
+		action: 'conversation.deleted',
+		target_type: 'conversation',
+		target_id: id,
+		before: chat
+	});
+
+	return { success: true, message: 'Conversation deleted successfully' };
+}
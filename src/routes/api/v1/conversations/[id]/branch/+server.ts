@@ -0,0 +1,24 @@
+import type { RequestHandler } from './$types';
+import { error } from '@sveltejs/kit';
+import { apiOwner, createApiHandler } from '$lib/server/api-middleware.js';
+import { getApiConversation, switchApiConversationBranch } from '$lib/server/api-conversations.js';
+import { route } from './schema.js';
+
+// PUT /api/v1/conversations/:id/branch - Switch the active branch
+export const PUT: RequestHandler = createApiHandler(
+	async (event, auth, { params, body }) => {
+		const owner = apiOwner(auth);
+		const conversation = await getApiConversation(owner, params.id);
+		if (!conversation) {
+			error(404, { message: 'Conversation not found', code: 'CONVERSATION_NOT_FOUND' });
+		}
+
+		const messages = await switchApiConversationBranch(owner, params.id, body.message_id);
+		if (!messages) {
+			error(404, { message: 'Message not found', code: 'MESSAGE_NOT_FOUND' });
+		}
+
+		return { active_message_id: messages.at(-1)?.id ?? null, messages };
+	},
+	{ required_scope: 'conversations:write', input: { route, method: 'PUT' } }
+);
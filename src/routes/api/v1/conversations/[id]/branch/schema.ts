@@ -0,0 +1,20 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ConversationBranchSchema } from '../messages/schema.js';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		PUT: {
+			summary: 'Switch the active branch',
+			description:
+				'Makes the branch holding a message the active one, following the newest reply after it. New messages continue from the end of the active branch, and its messages are the history for replies.',
+			auth: 'key',
+			scopes: ['conversations:write'],
+			body: t.object({
+				message_id: t.string({ format: 'uuid', description: 'Any message on the branch to show' })
+			}),
+			response: ConversationBranchSchema
+		}
+	}
+});
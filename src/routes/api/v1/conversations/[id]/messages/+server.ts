@@ -0,0 +1,38 @@
+import type { RequestHandler } from './$types';
+import { error } from '@sveltejs/kit';
+import { apiOwner, createApiHandler } from '$lib/server/api-middleware.js';
+import {
+	getActiveApiConversationMessages,
+	getApiConversation,
+	type SendMessageRequest
+} from '$lib/server/api-conversations.js';
+import { respondToTurn } from '$lib/server/conversation-turns.js';
+import { route } from './schema.js';
+
+// GET /api/v1/conversations/:id/messages - List the messages of the active branch
+export const GET: RequestHandler = createApiHandler(
+	async (event, auth, { params }) => {
+		const owner = apiOwner(auth);
+		const conversation = await getApiConversation(owner, params.id);
+		if (!conversation) {
+			error(404, { message: 'Conversation not found', code: 'CONVERSATION_NOT_FOUND' });
+		}
+
+		const messages = await getActiveApiConversationMessages(owner, params.id);
+		return { active_message_id: messages.at(-1)?.id ?? null, messages };
+	},
+	{ required_scope: 'conversations:read', input: { route, method: 'GET' } }
+);
+
+// POST /api/v1/conversations/:id/messages - Send a message and get the reply
+export const POST: RequestHandler = createApiHandler(
+	async (event, auth, { params, body }) =>
+		respondToTurn(event, auth, params.id, {
+			...body,
+			tools: body.tools as SendMessageRequest['tools']
+		}),
+	{
+		required_scope: ['conversations:write', 'completions:create'],
+		input: { route, method: 'POST' }
+	}
+);
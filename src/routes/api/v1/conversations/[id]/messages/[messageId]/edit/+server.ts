@@ -0,0 +1,19 @@
+import type { RequestHandler } from './$types';
+import { createApiHandler } from '$lib/server/api-middleware.js';
+import type { SendMessageRequest } from '$lib/server/api-conversations.js';
+import { respondToTurn } from '$lib/server/conversation-turns.js';
+import { route } from './schema.js';
+
+// POST /api/v1/conversations/:id/messages/:messageId/edit - Edit a message and get a new reply
+export const POST: RequestHandler = createApiHandler(
+	async (event, auth, { params, body }) =>
+		respondToTurn(event, auth, params.id, {
+			...body,
+			tools: body.tools as SendMessageRequest['tools'],
+			edit_message_id: params.messageId
+		}),
+	{
+		required_scope: ['conversations:write', 'completions:create'],
+		input: { route, method: 'POST' }
+	}
+);
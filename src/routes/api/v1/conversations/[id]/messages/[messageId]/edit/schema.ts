@@ -0,0 +1,25 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { TURN_STREAM, TurnResponseSchema, turnOptions } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	params: t.object({
+		id: t.string({ format: 'uuid' }),
+		messageId: t.string({ format: 'uuid' })
+	}),
+	operations: {
+		POST: {
+			summary: 'Edit a message and get a new reply',
+			description:
+				'Saves the new content as a sibling of a user message and answers it with the history before that message. The edit becomes the active branch; the original stays available as another branch.',
+			auth: 'key',
+			scopes: ['conversations:write', 'completions:create'],
+			body: t.object({
+				content: t.string({ minLength: 1, example: 'Actually, I need help with my invoice' }),
+				...turnOptions
+			}),
+			response: TurnResponseSchema,
+			stream: TURN_STREAM
+		}
+	}
+});
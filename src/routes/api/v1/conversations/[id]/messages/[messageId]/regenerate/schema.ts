@@ -0,0 +1,22 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { TURN_STREAM, TurnResponseSchema, turnOptions } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	params: t.object({
+		id: t.string({ format: 'uuid' }),
+		messageId: t.string({ format: 'uuid' })
+	}),
+	operations: {
+		POST: {
+			summary: 'Regenerate a reply',
+			description:
+				'Answers the user message before an assistant message again, saving the reply as a sibling of that message. The new reply becomes the active branch. `user_message` is the existing message that was answered.',
+			auth: 'key',
+			scopes: ['conversations:write', 'completions:create'],
+			body: t.object(turnOptions),
+			response: TurnResponseSchema,
+			stream: TURN_STREAM
+		}
+	}
+});
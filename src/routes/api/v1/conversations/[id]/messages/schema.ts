@@ -0,0 +1,106 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import {
+	ToolChoiceSchema,
+	ToolDefinitionSchema,
+	UsageSchema
+} from '../../../chat/completions/schema.js';
+
+export const ConversationMessageSchema = t.component(
+	'ConversationMessage',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		conversation_id: t.string({ format: 'uuid' }),
+		parent_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		role: t.enum(['system', 'user', 'assistant', 'tool']),
+		content: t.string(),
+		tool_calls: t.optional(
+			t.nullable(
+				t.array(
+					t.object({
+						id: t.string(),
+						type: t.enum(['function']),
+						function: t.object({ name: t.string(), arguments: t.string() })
+					})
+				)
+			)
+		),
+		tool_call_id: t.optional(t.nullable(t.string())),
+		tokens_used: t.optional(t.nullable(t.integer())),
+		model: t.optional(t.nullable(t.string())),
+		metadata: t.record(t.unknown()),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+// The active branch of a conversation, each message with its place among
+// the alternatives for its turn
+export const ConversationBranchSchema = t.component(
+	'ConversationBranch',
+	t.object({
+		active_message_id: t.nullable(t.string({ format: 'uuid' })),
+		messages: t.array(
+			t.extend(ConversationMessageSchema, {
+				branch: t.object({
+					index: t.integer({
+						minimum: 0,
+						description: 'Position among its siblings, oldest first'
+					}),
+					count: t.integer({ minimum: 1 }),
+					sibling_ids: t.array(t.string({ format: 'uuid' }))
+				})
+			})
+		)
+	})
+);
+
+// How a message, edit or regeneration is answered
+export const turnOptions = {
+	stream: t.optional(t.boolean({ default: false })),
+	include_history: t.optional(t.boolean({ default: true })),
+	max_history_messages: t.optional(t.integer({ minimum: 1, default: 20 })),
+	metadata: t.optional(t.record(t.unknown())),
+	tools: t.optional(t.array(ToolDefinitionSchema)),
+	tool_choice: t.optional(ToolChoiceSchema),
+	// Let the assistant call server tools; `true` enables all
+	server_tools: t.optional(t.union(t.boolean(), t.array(t.string()))),
+	max_steps: t.optional(t.integer({ minimum: 1 }))
+};
+
+export const TurnResponseSchema = t.object({
+	user_message: ConversationMessageSchema,
+	assistant_message: ConversationMessageSchema,
+	tool_steps: t.optional(t.array(t.unknown())),
+	memory_updated: t.optional(t.boolean()),
+	usage: t.optional(UsageSchema)
+});
+
+export const TURN_STREAM =
+	'With `stream: true`, `data:` events carrying chat.completion.chunk objects whose `id` is the assistant message, then a chunk without choices carrying `usage`, ending with `data: [DONE]`';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'List the messages of the active branch',
+			description:
+				'Follows the active branch from the first message to its last. Each message lists the alternatives for its turn, from edits and regenerations.',
+			auth: 'key',
+			scopes: ['conversations:read'],
+			response: ConversationBranchSchema
+		},
+		POST: {
+			summary: 'Send a message and get the reply',
+			description:
+				"Saves the message after the active message and answers it with the conversation's model, system prompt and the history of the active branch.",
+			auth: 'key',
+			scopes: ['conversations:write', 'completions:create'],
+			body: t.object({
+				content: t.string({ minLength: 1, example: 'Hello, I need help with my account' }),
+				...turnOptions
+			}),
+			response: TurnResponseSchema,
+			stream: TURN_STREAM
+		}
+	}
+});
@@ -0,0 +1,13 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		DELETE: {
+			summary: 'Delete a conversation and its messages',
+			scopes: ['conversations:write'],
+			response: t.object({ success: t.boolean(), message: t.string() })
+		}
+	}
+});
@@ -0,0 +1,45 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Conversations',
+	operations: {
+		GET: {
+			summary: 'List conversations with their stats',
+			scopes: ['conversations:read'],
+			query: t.object({
+				search: t.optional(t.string({ description: 'Matches conversation titles' })),
+				model: t.optional(t.string()),
+				limit: t.optional(t.integer({ minimum: 1, default: 50 })),
+				offset: t.optional(t.integer({ minimum: 0, default: 0 }))
+			}),
+			response: t.object({
+				conversations: t.array(
+					t.object({
+						id: t.string({ format: 'uuid' }),
+						title: t.string(),
+						model: t.nullable(t.string()),
+						message_count: t.integer(),
+						token_usage: t.integer(),
+						created_at: t.string({ format: 'date-time' }),
+						updated_at: t.string({ format: 'date-time' }),
+						latest_message: t.nullable(
+							t.object({
+								role: t.string(),
+								content: t.string({ description: 'The first 100 characters' }),
+								created_at: t.string({ format: 'date-time' })
+							})
+						)
+					})
+				),
+				stats: t.object({
+					total_conversations: t.integer(),
+					total_messages: t.integer(),
+					total_tokens: t.integer(),
+					avg_messages_per_conversation: t.number(),
+					active_conversations_7d: t.integer()
+				}),
+				filters: t.object({ search: t.string(), model: t.string() })
+			})
+		}
+	}
+});
@@ -1,35 +1,29 @@
 import type { RequestHandler } from './$types';
-import { 
-	createApiHandler, 
-	validateQueryParams,
+import {
+	createApiHandler,
 	parsePagination,
-	createApiResponse
+	createApiResponse,
+	apiOwner
 } from '$lib/server/api-middleware.js';
 import { listFileUploads, getProcessingStats } from '$lib/server/file-processor.js';
+import { route } from './schema.js';
 
 // GET /api/v1/files - List file uploads
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const url = new URL(event.request.url);
-		validateQueryParams(url, ['limit', 'offset', 'page', 'file_type', 'processing_status', 'include_public', 'search', 'stats']);
-		
+	async (event, auth, { query }) => {
 		// If stats is requested, return processing statistics
-		if (url.searchParams.get('stats') === 'true') {
-			const stats = await getProcessingStats(auth.user_id);
+		if (query.stats) {
+			const stats = await getProcessingStats(apiOwner(auth));
 			return stats;
 		}
 		
-		const { limit, offset } = parsePagination(url);
-		const fileType = url.searchParams.get('file_type') as 'pdf' | 'image' | 'audio' | undefined;
-		const processingStatus = url.searchParams.get('processing_status') || undefined;
-		const includePublic = url.searchParams.get('include_public') !== 'false';
-		const search = url.searchParams.get('search') || undefined;
+		const { limit, offset } = parsePagination(query);
 		
-		const files = await listFileUploads(auth.user_id, {
-			file_type: fileType,
-			processing_status,
-			include_public: includePublic,
-			search,
+		const files = await listFileUploads(apiOwner(auth), {
+			file_type: query.file_type,
+			processing_status: query.processing_status,
+			include_public: query.include_public !== false,
+			search: query.search,
 			limit,
 			offset
 		});
@@ -40,5 +34,5 @@ export const GET: RequestHandler = createApiHandler(
 			offset
 		});
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'files:read', input: { route, method: 'GET' } }
 );
\ No newline at end of file
@@ -1,14 +1,16 @@
 import type { RequestHandler } from './$types';
 import { error } from '@sveltejs/kit';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { getFileUpload, deleteFileUpload } from '$lib/server/file-processor.js';
+import { apiActor, recordAuditEvent } from '$lib/server/audit.js';
+import { route } from './schema.js';
 
 // GET /api/v1/files/:id - Get specific file
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const fileId = event.params.id!;
+	async (event, auth, { params }) => {
+		const fileId = params.id;
 		
-		const file = await getFileUpload(auth.user_id, fileId);
+		const file = await getFileUpload(apiOwner(auth), fileId);
 		if (!file) {
 			error(404, {
 				message: 'File not found',
@@ -18,19 +20,34 @@ export const GET: RequestHandler = createApiHandler(
 		
 		return file;
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'files:read', input: { route, method: 'GET' } }
 );
 
 // DELETE /api/v1/files/:id - Delete file
 export const DELETE: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const fileId = event.params.id!;
+	async (event, auth, { params }) => {
+		const fileId = params.id;
 		
-		await deleteFileUpload(auth.user_id, fileId);
+		const file = await getFileUpload(apiOwner(auth), fileId, false);
+		if (!file) {
+			error(404, {
+				message: 'File not found',
+				code: 'FILE_NOT_FOUND'
+			});
+		}
+		
+		await deleteFileUpload(apiOwner(auth), fileId);
+		await recordAuditEvent(event, {
+			actor: apiActor(auth),
+			action: 'file.deleted',
+			target_type: 'file',
+			target_id: fileId,
+			before: file
+		});
 		
 		return {
 			deleted: true
 		};
 	},
-	{ required_scope: 'delete' }
+	{ required_scope: 'files:delete', input: { route, method: 'DELETE' } }
 );
\ No newline at end of file
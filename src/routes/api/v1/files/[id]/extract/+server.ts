@@ -1,15 +1,15 @@
 import type { RequestHandler } from './$types';
 import { error } from '@sveltejs/kit';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { getFileUpload, processFile, type ProcessingOptions } from '$lib/server/file-processor.js';
+import { route } from './schema.js';
 
 // POST /api/v1/files/:id/extract - Extract text from PDF
 export const POST: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const fileId = event.params.id!;
-		const body = await event.request.json().catch(() => ({}));
+	async (event, auth, { params, body }) => {
+		const fileId = params.id;
 		
-		const file = await getFileUpload(auth.user_id, fileId);
+		const file = await getFileUpload(apiOwner(auth), fileId);
 		if (!file) {
 			error(404, {
 				message: 'File not found',
@@ -33,7 +33,7 @@ export const POST: RequestHandler = createApiHandler(
 			model: body.model
 		};
 		
-		const result = await processFile(fileId, options);
+		const result = await processFile(fileId, options, auth.api_key_id);
 		
 		if (!result.success) {
 			error(500, {
@@ -48,5 +48,5 @@ export const POST: RequestHandler = createApiHandler(
 			processing_status: 'completed'
 		};
 	},
-	{ required_scope: 'write' }
+	{ required_scope: 'files:upload', input: { route, method: 'POST' } }
 );
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Files',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Extract text from a PDF',
+			auth: 'key',
+			scopes: ['files:upload'],
+			body: t.object({
+				extract_metadata: t.optional(t.boolean({ default: true })),
+				format: t.optional(t.string({ default: 'text' })),
+				analyze_content: t.optional(t.boolean({ default: false })),
+				custom_prompt: t.optional(t.string()),
+				model: t.optional(t.string())
+			}),
+			response: t.object({
+				file_id: t.string({ format: 'uuid' }),
+				extracted_data: t.unknown(),
+				processing_status: t.enum(['completed'])
+			})
+		}
+	}
+});
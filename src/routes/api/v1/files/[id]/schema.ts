@@ -0,0 +1,21 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { FileUploadSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Files',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a file upload',
+			auth: 'key',
+			scopes: ['files:read'],
+			response: FileUploadSchema
+		},
+		DELETE: {
+			summary: 'Delete a file upload',
+			auth: 'key',
+			scopes: ['files:delete'],
+			response: t.object({ deleted: t.boolean() })
+		}
+	}
+});
@@ -0,0 +1,67 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+const fileTypes = ['pdf', 'image', 'audio'] as const;
+const processingStatuses = ['pending', 'processing', 'completed', 'failed'] as const;
+
+export const FileUploadSchema = t.component(
+	'FileUpload',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid', description: 'The uploader' }),
+		org_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		original_name: t.string(),
+		file_path: t.string(),
+		mime_type: t.string(),
+		file_size: t.integer({ description: 'Bytes' }),
+		file_type: t.enum(fileTypes),
+		processed_data: t.optional(t.unknown()),
+		processing_status: t.enum(processingStatuses),
+		processing_error: t.optional(t.nullable(t.string())),
+		is_public: t.boolean(),
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const ProcessingOptionsSchema = t.component(
+	'ProcessingOptions',
+	t.object({
+		extract_text: t.optional(t.boolean({ default: true })),
+		extract_metadata: t.optional(t.boolean({ default: true })),
+		analyze_content: t.optional(t.boolean({ default: false })),
+		custom_prompt: t.optional(t.string()),
+		model: t.optional(t.string()),
+		language: t.optional(t.string({ description: 'For audio transcription' })),
+		format: t.optional(t.string({ description: 'Output format' }))
+	})
+);
+
+export const route = defineRoute({
+	tag: 'Files',
+	operations: {
+		GET: {
+			summary: 'List file uploads',
+			description: 'With `stats=true`, returns processing statistics instead of files.',
+			auth: 'key',
+			scopes: ['files:read'],
+			query: t.object({
+				...paginationQuery,
+				file_type: t.optional(t.enum(fileTypes)),
+				processing_status: t.optional(t.enum(processingStatuses)),
+				include_public: t.optional(t.boolean({ default: true })),
+				search: t.optional(t.string()),
+				stats: t.optional(t.boolean({ default: false }))
+			}),
+			response: t.union(
+				paginated(FileUploadSchema),
+				t.object({
+					total_files: t.integer(),
+					by_type: t.record(t.integer()),
+					by_status: t.record(t.integer()),
+					total_size: t.integer(),
+					processing_queue_size: t.integer()
+				})
+			)
+		}
+	}
+});
@@ -1,27 +1,18 @@
 import type { RequestHandler } from './$types';
 import { error } from '@sveltejs/kit';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import {
 	createFileUpload,
 	validateFile,
 	processFile,
 	type ProcessingOptions
 } from '$lib/server/file-processor.js';
+import { route } from './schema.js';
 
 // POST /api/v1/files/upload - Upload file
 export const POST: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const formData = await event.request.formData();
-		const file = formData.get('file') as File;
-		const processNow = formData.get('process') === 'true';
-		const options = formData.get('options') ? JSON.parse(formData.get('options') as string) : {};
-		
-		if (!file) {
-			error(400, {
-				message: 'File is required',
-				code: 'MISSING_FILE'
-			});
-		}
+	async (event, auth, { body }) => {
+		const { file, process: processNow, options = {} } = body;
 		
 		// Validate file
 		const validation = validateFile(file);
@@ -38,7 +29,7 @@ export const POST: RequestHandler = createApiHandler(
 		
 		// Create file upload record
 		const fileUpload = await createFileUpload(
-			auth.user_id,
+			apiOwner(auth),
 			file,
 			mockFilePath,
 			validation.file_type as 'pdf' | 'image' | 'audio'
@@ -57,7 +48,7 @@ export const POST: RequestHandler = createApiHandler(
 			};
 			
 			// Process asynchronously (in a real implementation, you'd use a queue)
-			processFile(fileUpload.id, processingOptions).catch(error => {
+			processFile(fileUpload.id, processingOptions, auth.api_key_id).catch(error => {
 				console.error('File processing failed:', error);
 			});
 		}
@@ -71,5 +62,5 @@ export const POST: RequestHandler = createApiHandler(
 			created_at: fileUpload.created_at
 		};
 	},
-	{ required_scope: 'write' }
+	{ required_scope: 'files:upload', input: { route, method: 'POST' } }
 );
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ProcessingOptionsSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Files',
+	operations: {
+		POST: {
+			summary: 'Upload a file',
+			description:
+				'PDFs, images and audio. With `process=true` the file is processed in the background.',
+			auth: 'key',
+			scopes: ['files:upload'],
+			multipart: true,
+			body: t.object({
+				file: t.file(),
+				process: t.optional(t.boolean({ default: false })),
+				// Sent as a JSON-encoded form field
+				options: t.optional(ProcessingOptionsSchema)
+			}),
+			response: t.object({
+				id: t.string({ format: 'uuid' }),
+				original_name: t.string(),
+				file_type: t.enum(['pdf', 'image', 'audio']),
+				file_size: t.integer(),
+				processing_status: t.enum(['pending', 'processing', 'completed', 'failed']),
+				created_at: t.string({ format: 'date-time' })
+			})
+		}
+	}
+});
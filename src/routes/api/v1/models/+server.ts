@@ -0,0 +1,70 @@
+import type { RequestHandler } from './$types';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import {
+	createApiHandler,
+	createApiResponse,
+	parsePagination
+} from '$lib/server/api-middleware.js';
+import {
+	filterModels,
+	getCatalogStatus,
+	getModelCatalog,
+	type ModelFilters
+} from '$lib/server/model-catalog.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+async function listModels(event: RequestEvent, { query }: RequestInput<typeof route, 'GET'>) {
+	const filters: ModelFilters = {
+		modality: query.modality,
+		min_context_length: query.min_context_length,
+		max_price: query.max_price,
+		free_only: query.free_only,
+		provider: query.provider,
+		search: query.search,
+		sort: query.sort
+	};
+
+	let catalog;
+	try {
+		// Users who bring their own OpenRouter key can browse without a server key
+		catalog = await getModelCatalog(event.request.headers.get('x-openrouter-api-key') || undefined);
+	} catch (err) {
+		console.error('Failed to load model catalog:', err);
+		error(502, 'Failed to load model catalog');
+	}
+
+	const models = filterModels(catalog, filters);
+
+	// The whole filtered catalog is returned unless a page is asked for
+	const paginated = query.limit !== undefined || query.page !== undefined;
+	const { limit, offset } = paginated
+		? parsePagination(query)
+		: { limit: models.length, offset: 0 };
+
+	return {
+		...createApiResponse(models.slice(offset, offset + limit), {
+			total: models.length,
+			limit,
+			offset
+		}),
+		catalog: getCatalogStatus()
+	};
+}
+
+// GET /api/v1/models - Search the model catalog
+export const GET: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for the chat page's model picker
+		await requireAuth(event);
+		return json(await listModels(event, await validateRequest(event, route, 'GET')));
+	}
+
+	return createApiHandler((event, auth, input) => listModels(event, input), {
+		required_scope: 'models:read',
+		input: { route, method: 'GET' }
+	})(event);
+};
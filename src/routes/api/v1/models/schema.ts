@@ -0,0 +1,65 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+export const ModelSchema = t.component(
+	'Model',
+	t.object({
+		id: t.string({ example: 'anthropic/claude-3-opus' }),
+		name: t.string(),
+		description: t.optional(t.string()),
+		created: t.optional(t.integer()),
+		provider: t.string({ description: 'Routing provider the model is served through' }),
+		vendor: t.string({ description: 'Model author from the ID' }),
+		pricing: t.object({
+			prompt: t.optional(t.string({ description: 'USD per token, absent when unknown' })),
+			completion: t.optional(t.string()),
+			image: t.optional(t.string()),
+			request: t.optional(t.string())
+		}),
+		cost_per_1k: t.object({
+			prompt: t.nullable(t.number()),
+			completion: t.nullable(t.number())
+		}),
+		is_free: t.boolean(),
+		capabilities: t.object({
+			input_modalities: t.array(t.string()),
+			output_modalities: t.array(t.string()),
+			context_length: t.integer(),
+			max_completion_tokens: t.optional(t.integer()),
+			multimodal: t.boolean()
+		}),
+		top_provider: t.optional(
+			t.object({
+				max_completion_tokens: t.optional(t.nullable(t.integer())),
+				max_context_tokens: t.optional(t.nullable(t.integer()))
+			})
+		)
+	})
+);
+
+export const route = defineRoute({
+	tag: 'Models',
+	operations: {
+		GET: {
+			summary: 'Search the model catalog',
+			description: 'The whole filtered catalog is returned unless `limit` or `page` is set.',
+			scopes: ['models:read'],
+			query: t.object({
+				modality: t.optional(t.string({ description: 'Required input modality, e.g. image' })),
+				min_context_length: t.optional(t.number({ minimum: 0 })),
+				max_price: t.optional(t.number({ minimum: 0, description: 'Max USD per 1K tokens' })),
+				free_only: t.optional(t.boolean({ default: false })),
+				provider: t.optional(t.string()),
+				search: t.optional(t.string()),
+				sort: t.optional(t.enum(['name', 'price', 'context_length', 'created'])),
+				...paginationQuery
+			}),
+			response: t.extend(paginated(ModelSchema), {
+				catalog: t.object({
+					fetched_at: t.nullable(t.string({ format: 'date-time' })),
+					stale: t.boolean(),
+					model_count: t.integer()
+				})
+			})
+		}
+	}
+});
@@ -0,0 +1,11 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { getOpenApiDocument } from '$lib/server/api-routes.js';
+
+// GET /api/v1/openapi.json - The OpenAPI 3.1 document for the v1 API, built from
+// the definitions beside each route. Public, like /api/v1/scopes.
+export const GET: RequestHandler = async ({ url }) => {
+	return json(getOpenApiDocument({ serverUrl: url.origin }), {
+		headers: { 'Cache-Control': 'public, max-age=300' }
+	});
+};
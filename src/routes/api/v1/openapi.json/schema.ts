@@ -0,0 +1,12 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Meta',
+	operations: {
+		GET: {
+			summary: 'Get this OpenAPI document',
+			auth: 'none',
+			response: t.record(t.unknown(), { description: 'An OpenAPI 3.1 document' })
+		}
+	}
+});
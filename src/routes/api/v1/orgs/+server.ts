@@ -0,0 +1,58 @@
+import type { RequestHandler } from './$types';
+import { json, error } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createOrganization, listOrganizations, slugify } from '$lib/server/organizations.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { validateRequest, validationError } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// Organizations are managed from the developer console, so these routes use
+// session auth only.
+
+// GET /api/v1/orgs - List the organizations the user belongs to
+export const GET: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	await validateRequest(event, route, 'GET');
+	return json({ organizations: await listOrganizations(session.user.id) });
+};
+
+// POST /api/v1/orgs - Create an organization owned by the user
+export const POST: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { body } = await validateRequest(event, route, 'POST');
+
+	const name = body.name.trim();
+	if (!name) {
+		validationError([{ path: 'body.name', code: 'too_short', message: 'must not be blank' }]);
+	}
+
+	if (body.slug !== undefined && slugify(body.slug) !== body.slug) {
+		validationError([
+			{
+				path: 'body.slug',
+				code: 'invalid_format',
+				message: 'may only contain lowercase letters, numbers and dashes'
+			}
+		]);
+	}
+
+	let organization;
+	try {
+		organization = await createOrganization(session.user.id, { name, slug: body.slug });
+	} catch (err) {
+		if (err instanceof Error && err.message.includes('duplicate key')) {
+			error(409, 'An organization with this slug already exists');
+		}
+		throw err;
+	}
+
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: 'organization.created',
+		target_type: 'organization',
+		target_id: organization.id,
+		after: organization
+	});
+
+	return json(organization, { status: 201 });
+};
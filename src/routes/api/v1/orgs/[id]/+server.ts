@@ -0,0 +1,85 @@
+import type { RequestHandler } from './$types';
+import { json, error } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { validateBudgetSettings } from '$lib/server/budgets.js';
+import {
+	deleteOrganization,
+	getActiveOrgId,
+	listMembers,
+	requireOrgAccess,
+	setActiveOrgId,
+	updateOrganization
+} from '$lib/server/organizations.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { validateRequest, validationError } from '$lib/server/validation.js';
+import { UpdateOrganizationSchema } from '../schema.js';
+import { route } from './schema.js';
+
+const UPDATE_FIELDS = Object.keys(UpdateOrganizationSchema.properties);
+
+// GET /api/v1/orgs/:id - Get an organization and its members
+export const GET: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params } = await validateRequest(event, route, 'GET');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'read');
+
+	return json({ ...organization, members: await listMembers(organization.id) });
+};
+
+// PUT /api/v1/orgs/:id - Rename an organization or change its budgets
+export const PUT: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params, body } = await validateRequest(event, route, 'PUT');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'manage');
+
+	const updates = Object.fromEntries(
+		Object.entries(body).filter(([field]) => UPDATE_FIELDS.includes(field))
+	);
+
+	if (Object.keys(updates).length === 0) {
+		error(400, `No valid fields to update. Allowed fields: ${UPDATE_FIELDS.join(', ')}`);
+	}
+
+	if (body.name !== undefined && !body.name.trim()) {
+		validationError([{ path: 'body.name', code: 'too_short', message: 'must not be blank' }]);
+	}
+
+	const budgetError = validateBudgetSettings(updates);
+	if (budgetError) {
+		error(400, budgetError);
+	}
+
+	const updated = await updateOrganization(organization.id, updates);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: 'organization.updated',
+		target_type: 'organization',
+		target_id: organization.id,
+		before: organization,
+		after: { ...organization, ...updated }
+	});
+
+	return json(updated);
+};
+
+// DELETE /api/v1/orgs/:id - Delete an organization with everything it owns
+export const DELETE: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params } = await validateRequest(event, route, 'DELETE');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'own');
+
+	await deleteOrganization(organization.id);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: 'organization.deleted',
+		target_type: 'organization',
+		target_id: organization.id,
+		before: organization
+	});
+
+	if (getActiveOrgId(event.cookies) === organization.id) {
+		setActiveOrgId(event.cookies, null);
+	}
+
+	return json({ deleted: true });
+};
@@ -0,0 +1,44 @@
+import type { RequestHandler } from './$types';
+import { json, error } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { addMember, listMembers, requireOrgAccess, roleAllows } from '$lib/server/organizations.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { validateRequest, validationError } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// GET /api/v1/orgs/:id/members - List an organization's members
+export const GET: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params } = await validateRequest(event, route, 'GET');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'read');
+
+	return json({ members: await listMembers(organization.id) });
+};
+
+// POST /api/v1/orgs/:id/members - Add a user to an organization by username
+export const POST: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params, body } = await validateRequest(event, route, 'POST');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'manage');
+
+	if (!body.username.trim()) {
+		validationError([{ path: 'body.username', code: 'too_short', message: 'must not be blank' }]);
+	}
+
+	const role = body.role ?? 'member';
+
+	if (role === 'owner' && !roleAllows(organization.role, 'own')) {
+		error(403, 'Only owners can add other owners');
+	}
+
+	const member = await addMember(organization.id, body.username, role);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: 'organization.member_added',
+		target_type: 'user',
+		target_id: member.user_id,
+		after: { role: member.role }
+	});
+
+	return json(member, { status: 201 });
+};
@@ -0,0 +1,73 @@
+import type { RequestHandler } from './$types';
+import { json, error } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import {
+	getActiveOrgId,
+	getMemberRole,
+	removeMember,
+	requireOrgAccess,
+	roleAllows,
+	setActiveOrgId,
+	updateMemberRole
+} from '$lib/server/organizations.js';
+import { recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// PUT /api/v1/orgs/:id/members/:userId - Change a member's role
+export const PUT: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params, body } = await validateRequest(event, route, 'PUT');
+	const organization = await requireOrgAccess(session.user.id, params.id, 'manage');
+
+	// Only owners can hand out or take away ownership
+	const currentRole = await getMemberRole(organization.id, params.userId);
+	if ((body.role === 'owner' || currentRole === 'owner') && !roleAllows(organization.role, 'own')) {
+		error(403, 'Only owners can change who owns the organization');
+	}
+
+	const member = await updateMemberRole(organization.id, params.userId, body.role);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: 'organization.member_role_changed',
+		target_type: 'user',
+		target_id: member.user_id,
+		before: { role: currentRole },
+		after: { role: member.role }
+	});
+
+	return json(member);
+};
+
+// DELETE /api/v1/orgs/:id/members/:userId - Remove a member, or leave the organization
+export const DELETE: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { params } = await validateRequest(event, route, 'DELETE');
+	const leaving = params.userId === session.user.id;
+	const organization = await requireOrgAccess(
+		session.user.id,
+		params.id,
+		leaving ? 'read' : 'manage'
+	);
+
+	const memberRole = await getMemberRole(organization.id, params.userId);
+	if (!leaving && memberRole === 'owner') {
+		if (!roleAllows(organization.role, 'own')) {
+			error(403, 'Only owners can remove other owners');
+		}
+	}
+
+	await removeMember(organization.id, params.userId);
+	await recordAuditEvent(event, {
+		actor: sessionActor(session, { user_id: session.user.id, org_id: organization.id }),
+		action: leaving ? 'organization.member_left' : 'organization.member_removed',
+		target_type: 'user',
+		target_id: params.userId,
+		before: { role: memberRole }
+	});
+	if (leaving && getActiveOrgId(event.cookies) === organization.id) {
+		setActiveOrgId(event.cookies, null);
+	}
+
+	return json({ removed: true });
+};
@@ -0,0 +1,21 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { OrganizationMemberSchema, OrgRoleSchema } from '../../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Organizations',
+	params: t.object({ id: t.string({ format: 'uuid' }), userId: t.string({ format: 'uuid' }) }),
+	operations: {
+		PUT: {
+			summary: "Change a member's role",
+			description: 'Only owners can hand out or take away ownership.',
+			auth: 'session',
+			body: t.object({ role: OrgRoleSchema }),
+			response: OrganizationMemberSchema
+		},
+		DELETE: {
+			summary: 'Remove a member, or leave the organization',
+			auth: 'session',
+			response: t.object({ removed: t.boolean() })
+		}
+	}
+});
@@ -0,0 +1,26 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ORG_ROLES } from '$lib/server/organizations.js';
+import { OrganizationMemberSchema } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Organizations',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: "List an organization's members",
+			auth: 'session',
+			response: t.object({ members: t.array(OrganizationMemberSchema) })
+		},
+		POST: {
+			summary: 'Add a user to an organization by username',
+			description: 'Only owners can add other owners.',
+			auth: 'session',
+			body: t.object({
+				username: t.string({ minLength: 1 }),
+				role: t.optional(t.enum(ORG_ROLES, { default: 'member' }))
+			}),
+			response: OrganizationMemberSchema,
+			status: 201
+		}
+	}
+});
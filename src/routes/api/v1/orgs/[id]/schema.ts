@@ -0,0 +1,34 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import {
+	OrganizationMemberSchema,
+	OrganizationSchema,
+	OrgRoleSchema,
+	UpdateOrganizationSchema
+} from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Organizations',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get an organization and its members',
+			auth: 'session',
+			response: t.extend(OrganizationSchema, {
+				role: OrgRoleSchema,
+				members: t.array(OrganizationMemberSchema)
+			})
+		},
+		PUT: {
+			summary: 'Rename an organization or change its budgets',
+			auth: 'session',
+			body: UpdateOrganizationSchema,
+			response: OrganizationSchema
+		},
+		DELETE: {
+			summary: 'Delete an organization with everything it owns',
+			description: 'Only owners can delete an organization.',
+			auth: 'session',
+			response: t.object({ deleted: t.boolean() })
+		}
+	}
+});
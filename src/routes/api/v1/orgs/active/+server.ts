@@ -0,0 +1,19 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { requireOrgAccess, setActiveOrgId } from '$lib/server/organizations.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// PUT /api/v1/orgs/active - Switch the developer console to an organization, or
+// back to the personal workspace with `org_id: null`
+export const PUT: RequestHandler = async (event) => {
+	const session = await requireAuth(event);
+	const { body } = await validateRequest(event, route, 'PUT');
+	const orgId = body.org_id ?? null;
+
+	const organization = orgId ? await requireOrgAccess(session.user.id, orgId, 'read') : null;
+	setActiveOrgId(event.cookies, orgId);
+
+	return json({ active_org: organization });
+};
@@ -0,0 +1,17 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { OrganizationSchema, OrgRoleSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Organizations',
+	operations: {
+		PUT: {
+			summary: 'Switch the developer console to an organization',
+			description: 'Send `org_id: null` to switch back to the personal workspace.',
+			auth: 'session',
+			body: t.object({ org_id: t.optional(t.nullable(t.string({ format: 'uuid' }))) }),
+			response: t.object({
+				active_org: t.nullable(t.extend(OrganizationSchema, { role: OrgRoleSchema }))
+			})
+		}
+	}
+});
@@ -0,0 +1,64 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ORG_ROLES } from '$lib/server/organizations.js';
+
+const budgets = {
+	daily_budget_usd: t.optional(t.nullable(t.number({ minimum: 0 }))),
+	monthly_budget_usd: t.optional(t.nullable(t.number({ minimum: 0 }))),
+	budget_soft_limit_percent: t.optional(t.integer({ minimum: 1, maximum: 100 }))
+};
+
+export const OrgRoleSchema = t.enum(ORG_ROLES);
+
+export const OrganizationSchema = t.component(
+	'Organization',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		name: t.string(),
+		slug: t.string(),
+		created_by: t.string({ format: 'uuid' }),
+		...budgets,
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const OrganizationMemberSchema = t.component(
+	'OrganizationMember',
+	t.object({
+		org_id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid' }),
+		role: OrgRoleSchema,
+		username: t.optional(t.nullable(t.string())),
+		full_name: t.optional(t.nullable(t.string())),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const UpdateOrganizationSchema = t.object({
+	name: t.optional(t.string({ minLength: 1, maxLength: 100 })),
+	...budgets
+});
+
+export const route = defineRoute({
+	tag: 'Organizations',
+	operations: {
+		GET: {
+			summary: 'List the organizations you belong to',
+			auth: 'session',
+			response: t.object({
+				organizations: t.array(t.extend(OrganizationSchema, { role: OrgRoleSchema }))
+			})
+		},
+		POST: {
+			summary: 'Create an organization',
+			description: 'You become its owner.',
+			auth: 'session',
+			body: t.object({
+				name: t.string({ minLength: 1, maxLength: 100, example: 'Acme' }),
+				slug: t.optional(t.string({ pattern: '^[a-z0-9-]+$' }))
+			}),
+			response: OrganizationSchema,
+			status: 201
+		}
+	}
+});
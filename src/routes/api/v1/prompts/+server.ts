@@ -1,20 +1,23 @@
 import type { RequestHandler } from './$types';
-import { error, json } from '@sveltejs/kit';
-import { 
-	createApiHandler, 
-	validateRequestBody, 
-	validateQueryParams,
+import { json } from '@sveltejs/kit';
+import {
+	createApiHandler,
 	parsePagination,
-	createApiResponse
+	createApiResponse,
+	apiOwner
 } from '$lib/server/api-middleware.js';
 import { requireAuth } from '$lib/server/auth.js';
 import {
 	createSystemPrompt,
 	listSystemPrompts,
 	getTrendingPrompts,
-	getPromptCategories,
 	type CreateSystemPromptRequest
 } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { dispatchWebhookEvent } from '$lib/server/webhooks.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // GET /api/v1/prompts - List system prompts
 export const GET: RequestHandler = async (event) => {
@@ -23,24 +26,19 @@ export const GET: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		const url = new URL(event.request.url);
-		
-		const category = url.searchParams.get('category') || undefined;
-		const search = url.searchParams.get('search') || undefined;
-		const trending = url.searchParams.get('trending') === 'true';
-		const limit = parseInt(url.searchParams.get('limit') || '50');
-		const offset = parseInt(url.searchParams.get('offset') || '0');
-		const includePublic = url.searchParams.get('include_public') !== 'false';
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const { query } = await validateRequest(event, route, 'GET');
+		const { limit, offset } = parsePagination(query, 50);
 		
 		let prompts;
 		
-		if (trending) {
+		if (query.trending) {
 			prompts = await getTrendingPrompts(limit);
 		} else {
-			prompts = await listSystemPrompts(session.user.id, {
-				category,
-				include_public: includePublic,
-				search,
+			prompts = await listSystemPrompts(owner, {
+				category: query.category,
+				include_public: query.include_public !== false,
+				search: query.search,
 				limit,
 				offset
 			});
@@ -57,25 +55,18 @@ export const GET: RequestHandler = async (event) => {
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const url = new URL(event.request.url);
-				validateQueryParams(url, ['limit', 'offset', 'page', 'category', 'include_public', 'search', 'trending']);
-				
-				const { limit, offset } = parsePagination(url);
-				const category = url.searchParams.get('category') || undefined;
-				const includePublic = url.searchParams.get('include_public') !== 'false';
-				const search = url.searchParams.get('search') || undefined;
-				const trending = url.searchParams.get('trending') === 'true';
+			async (event, auth, { query }) => {
+				const { limit, offset } = parsePagination(query);
 				
 				let prompts;
 				
-				if (trending) {
+				if (query.trending) {
 					prompts = await getTrendingPrompts(limit);
 				} else {
-					prompts = await listSystemPrompts(auth.user_id, {
-						category,
-						include_public: includePublic,
-						search,
+					prompts = await listSystemPrompts(apiOwner(auth), {
+						category: query.category,
+						include_public: query.include_public !== false,
+						search: query.search,
 						limit,
 						offset
 					});
@@ -87,7 +78,7 @@ export const GET: RequestHandler = async (event) => {
 					offset
 				});
 			},
-			{ required_scope: 'read' }
+			{ required_scope: 'prompts:read', input: { route, method: 'GET' } }
 		)(event);
 	}
 };
@@ -99,30 +90,8 @@ export const POST: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		const body = await event.request.json();
-		
-		if (!body.name || !body.content) {
-			error(400, { message: 'Name and content are required' });
-		}
-		
-		// Validate variables schema if provided
-		if (body.variables) {
-			if (typeof body.variables !== 'object' || Array.isArray(body.variables)) {
-				error(400, { message: 'Variables must be an object' });
-			}
-			
-			// Validate each variable definition
-			for (const [name, variable] of Object.entries(body.variables)) {
-				if (!variable || typeof variable !== 'object') {
-					error(400, { message: `Variable '${name}' must be an object` });
-				}
-				
-				const v = variable as any;
-				if (!v.type || !['string', 'number', 'boolean', 'array', 'object'].includes(v.type)) {
-					error(400, { message: `Variable '${name}' must have a valid type` });
-				}
-			}
-		}
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const { body } = await validateRequest(event, route, 'POST');
 		
 		const request: CreateSystemPromptRequest = {
 			name: body.name,
@@ -133,43 +102,24 @@ export const POST: RequestHandler = async (event) => {
 			is_public: body.is_public || false
 		};
 		
-		const prompt = await createSystemPrompt(session.user.id, request);
+		const prompt = await createSystemPrompt(owner, request);
+		await recordAuditEvent(event, {
+			actor: sessionActor(session, owner),
+			action: 'system_prompt.created',
+			target_type: 'system_prompt',
+			target_id: prompt.id,
+			after: prompt
+		});
+		await dispatchWebhookEvent(sessionActor(session, owner), 'prompt.version.created', {
+			prompt_id: prompt.id,
+			name: prompt.name,
+			version: prompt.version
+		});
 		return json(prompt);
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const body = await event.request.json();
-				validateRequestBody(body, ['name', 'content']);
-				
-				// Validate variables schema if provided
-				if (body.variables) {
-					if (typeof body.variables !== 'object' || Array.isArray(body.variables)) {
-						error(400, {
-							message: 'Variables must be an object',
-							code: 'INVALID_VARIABLES'
-						});
-					}
-					
-					// Validate each variable definition
-					for (const [name, variable] of Object.entries(body.variables)) {
-						if (!variable || typeof variable !== 'object') {
-							error(400, {
-								message: `Variable '${name}' must be an object`,
-								code: 'INVALID_VARIABLE_DEFINITION'
-							});
-						}
-						
-						const v = variable as any;
-						if (!v.type || !['string', 'number', 'boolean', 'array', 'object'].includes(v.type)) {
-							error(400, {
-								message: `Variable '${name}' must have a valid type`,
-								code: 'INVALID_VARIABLE_TYPE'
-							});
-						}
-					}
-				}
-				
+			async (event, auth, { body }) => {
 				const request: CreateSystemPromptRequest = {
 					name: body.name,
 					description: body.description,
@@ -179,10 +129,22 @@ export const POST: RequestHandler = async (event) => {
 					is_public: body.is_public || false
 				};
 				
-				const prompt = await createSystemPrompt(auth.user_id, request);
+				const prompt = await createSystemPrompt(apiOwner(auth), request);
+				await recordAuditEvent(event, {
+					actor: apiActor(auth),
+					action: 'system_prompt.created',
+					target_type: 'system_prompt',
+					target_id: prompt.id,
+					after: prompt
+				});
+				await dispatchWebhookEvent(apiActor(auth), 'prompt.version.created', {
+					prompt_id: prompt.id,
+					name: prompt.name,
+					version: prompt.version
+				});
 				return prompt;
 			},
-			{ required_scope: 'write' }
+			{ required_scope: 'prompts:write', input: { route, method: 'POST' } }
 		)(event);
 	}
 };
\ No newline at end of file
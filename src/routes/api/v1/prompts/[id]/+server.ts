@@ -1,6 +1,6 @@
 import type { RequestHandler } from './$types';
 import { error, json } from '@sveltejs/kit';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { requireAuth } from '$lib/server/auth.js';
 import {
 	getSystemPrompt,
@@ -8,13 +8,37 @@ import {
 	deleteSystemPrompt,
 	forkSystemPrompt
 } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor } from '$lib/server/audit.js';
+import { dispatchWebhookEvent } from '$lib/server/webhooks.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { UpdateSystemPromptSchema } from '../schema.js';
+import { route } from './schema.js';
+
+const UPDATE_FIELDS = Object.keys(UpdateSystemPromptSchema.properties);
+
+/**
+ * The update fields of a validated body, ignoring any others
+ */
+function promptUpdates(body: Record<string, unknown>) {
+	const updates = Object.fromEntries(
+		Object.entries(body).filter(([field]) => UPDATE_FIELDS.includes(field))
+	);
+	if (Object.keys(updates).length === 0) {
+		error(400, {
+			message: `No valid update fields provided. Allowed fields: ${UPDATE_FIELDS.join(', ')}`,
+			code: 'NO_UPDATE_FIELDS'
+		});
+	}
+	return updates;
+}
 
 // GET /api/v1/prompts/:id - Get specific system prompt
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const promptId = event.params.id!;
+	async (event, auth, { params }) => {
+		const promptId = params.id;
 		
-		const prompt = await getSystemPrompt(auth.user_id, promptId);
+		const prompt = await getSystemPrompt(apiOwner(auth), promptId);
 		if (!prompt) {
 			error(404, {
 				message: 'System prompt not found',
@@ -24,7 +48,7 @@ export const GET: RequestHandler = createApiHandler(
 		
 		return prompt;
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'prompts:read', input: { route, method: 'GET' } }
 );
 
 // PUT /api/v1/prompts/:id - Update system prompt
@@ -34,94 +58,69 @@ export const PUT: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		const promptId = event.params.id!;
-		const body = await event.request.json();
-		
-		const allowedFields = ['name', 'description', 'content', 'variables', 'category', 'is_public'];
-		const updateFields = Object.keys(body).filter(key => allowedFields.includes(key));
-		
-		if (updateFields.length === 0) {
-			error(400, { message: `No valid update fields provided. Allowed fields: ${allowedFields.join(', ')}` });
-		}
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const { params, body } = await validateRequest(event, route, 'PUT');
+		const promptId = params.id;
+		const updates = promptUpdates(body);
 		
-		const updates: any = {};
-		for (const field of updateFields) {
-			updates[field] = body[field];
-		}
-		
-		// Validate variables if provided
-		if (updates.variables) {
-			if (typeof updates.variables !== 'object' || Array.isArray(updates.variables)) {
-				error(400, { message: 'Variables must be an object' });
-			}
-			
-			for (const [name, variable] of Object.entries(updates.variables)) {
-				if (!variable || typeof variable !== 'object') {
-					error(400, { message: `Variable '${name}' must be an object` });
-				}
-				
-				const v = variable as any;
-				if (!v.type || !['string', 'number', 'boolean', 'array', 'object'].includes(v.type)) {
-					error(400, { message: `Variable '${name}' must have a valid type` });
-				}
-			}
+		const prompt = await getSystemPrompt(owner, promptId, false);
+		if (!prompt) {
+			error(404, { message: 'System prompt not found' });
 		}
 		
-		const updatedPrompt = await updateSystemPrompt(session.user.id, promptId, updates);
+		const updatedPrompt = await updateSystemPrompt(owner, promptId, updates);
+		await recordAuditEvent(event, {
+			actor: sessionActor(session, owner),
+			action:
+				updatedPrompt.is_public !== prompt.is_public
+					? 'system_prompt.visibility_changed'
+					: 'system_prompt.updated',
+			target_type: 'system_prompt',
+			target_id: promptId,
+			before: prompt,
+			after: updatedPrompt
+		});
+		await dispatchWebhookEvent(sessionActor(session, owner), 'prompt.version.created', {
+			prompt_id: updatedPrompt.id,
+			name: updatedPrompt.name,
+			version: updatedPrompt.version
+		});
 		return json(updatedPrompt);
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const promptId = event.params.id!;
-				const body = await event.request.json();
+			async (event, auth, { params, body }) => {
+				const promptId = params.id;
+				const updates = promptUpdates(body);
 				
-				const allowedFields = ['name', 'description', 'content', 'variables', 'category', 'is_public'];
-				const updateFields = Object.keys(body).filter(key => allowedFields.includes(key));
-				
-				if (updateFields.length === 0) {
-					error(400, {
-						message: `No valid update fields provided. Allowed fields: ${allowedFields.join(', ')}`,
-						code: 'NO_UPDATE_FIELDS'
+				const prompt = await getSystemPrompt(apiOwner(auth), promptId, false);
+				if (!prompt) {
+					error(404, {
+						message: 'System prompt not found',
+						code: 'PROMPT_NOT_FOUND'
 					});
 				}
 				
-				const updates: any = {};
-				for (const field of updateFields) {
-					updates[field] = body[field];
-				}
-				
-				// Validate variables if provided
-				if (updates.variables) {
-					if (typeof updates.variables !== 'object' || Array.isArray(updates.variables)) {
-						error(400, {
-							message: 'Variables must be an object',
-							code: 'INVALID_VARIABLES'
-						});
-					}
-					
-					for (const [name, variable] of Object.entries(updates.variables)) {
-						if (!variable || typeof variable !== 'object') {
-							error(400, {
-								message: `Variable '${name}' must be an object`,
-								code: 'INVALID_VARIABLE_DEFINITION'
-							});
-						}
-						
-						const v = variable as any;
-						if (!v.type || !['string', 'number', 'boolean', 'array', 'object'].includes(v.type)) {
-							error(400, {
-								message: `Variable '${name}' must have a valid type`,
-								code: 'INVALID_VARIABLE_TYPE'
-							});
-						}
-					}
-				}
-				
-				const updatedPrompt = await updateSystemPrompt(auth.user_id, promptId, updates);
+				const updatedPrompt = await updateSystemPrompt(apiOwner(auth), promptId, updates);
+				await recordAuditEvent(event, {
+					actor: apiActor(auth),
+					action:
+						updatedPrompt.is_public !== prompt.is_public
+							? 'system_prompt.visibility_changed'
+							: 'system_prompt.updated',
+					target_type: 'system_prompt',
+					target_id: promptId,
+					before: prompt,
+					after: updatedPrompt
+				});
+				await dispatchWebhookEvent(apiActor(auth), 'prompt.version.created', {
+					prompt_id: updatedPrompt.id,
+					name: updatedPrompt.name,
+					version: updatedPrompt.version
+				});
 				return updatedPrompt;
 			},
-			{ required_scope: 'write' }
+			{ required_scope: 'prompts:write', input: { route, method: 'PUT' } }
 		)(event);
 	}
 };
@@ -133,24 +132,53 @@ export const DELETE: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		const promptId = event.params.id!;
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const { params } = await validateRequest(event, route, 'DELETE');
+		const promptId = params.id;
 		
-		await deleteSystemPrompt(session.user.id, promptId);
+		const prompt = await getSystemPrompt(owner, promptId, false);
+		if (!prompt) {
+			error(404, { message: 'System prompt not found' });
+		}
+		
+		await deleteSystemPrompt(owner, promptId);
+		await recordAuditEvent(event, {
+			actor: sessionActor(session, owner),
+			action: 'system_prompt.deleted',
+			target_type: 'system_prompt',
+			target_id: promptId,
+			before: prompt
+		});
 		
 		return json({ deleted: true });
 	} else {
 		// Use API key auth for external requests
 		return createApiHandler(
-			async (event, auth) => {
-				const promptId = event.params.id!;
+			async (event, auth, { params }) => {
+				const promptId = params.id;
+				
+				const prompt = await getSystemPrompt(apiOwner(auth), promptId, false);
+				if (!prompt) {
+					error(404, {
+						message: 'System prompt not found',
+						code: 'PROMPT_NOT_FOUND'
+					});
+				}
 				
-				await deleteSystemPrompt(auth.user_id, promptId);
+				await deleteSystemPrompt(apiOwner(auth), promptId);
+				await recordAuditEvent(event, {
+					actor: apiActor(auth),
+					action: 'system_prompt.deleted',
+					target_type: 'system_prompt',
+					target_id: promptId,
+					before: prompt
+				});
 				
 				return {
 					deleted: true
 				};
 			},
-			{ required_scope: 'delete' }
+			{ required_scope: 'prompts:delete', input: { route, method: 'DELETE' } }
 		)(event);
 	}
 };
\ No newline at end of file
@@ -1,5 +1,5 @@
 import type { RequestHandler } from './$types';
-import { createApiHandler, validateRequestBody } from '$lib/server/api-middleware.js';
+import { createApiHandler, requireAllowedModels, apiOwner } from '$lib/server/api-middleware.js';
 import {
 	executeSystemPrompt,
 	type ExecutePromptRequest
@@ -9,12 +9,14 @@ import {
 	type ChatMessage,
 	type CompletionRequest
 } from '$lib/server/llm.js';
+import { enforceBudget, recordCompletionCost } from '$lib/server/budgets.js';
+import { recordTokenUsage } from '$lib/server/rate-limiter.js';
+import { route } from './schema.js';
 
 // POST /api/v1/prompts/:id/execute - Execute system prompt
 export const POST: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const promptId = event.params.id!;
-		const body = await event.request.json();
+	async (event, auth, { params, body }) => {
+		const promptId = params.id;
 		
 		const executeRequest: ExecutePromptRequest = {
 			variables: body.variables,
@@ -22,13 +24,13 @@ export const POST: RequestHandler = createApiHandler(
 		};
 		
 		// Execute the prompt template
-		const result = await executeSystemPrompt(auth.user_id, promptId, executeRequest);
+		const result = await executeSystemPrompt(apiOwner(auth), promptId, executeRequest);
 		
 		// If messages are provided, also create a completion
-		if (body.messages && Array.isArray(body.messages)) {
+		if (body.messages) {
 			const messages: ChatMessage[] = [
 				{ role: 'system', content: result.rendered_content },
-				...body.messages
+				...(body.messages as ChatMessage[])
 			];
 			
 			const completionRequest: CompletionRequest = {
@@ -39,10 +41,27 @@ export const POST: RequestHandler = createApiHandler(
 				top_p: body.top_p,
 				frequency_penalty: body.frequency_penalty,
 				presence_penalty: body.presence_penalty,
+				fallback_models: body.fallback_models ?? auth.fallback_models,
 				apiKey: event.request.headers.get('x-openrouter-api-key') || undefined
 			};
-			
+
+			await requireAllowedModels(event, auth, [
+				completionRequest.model,
+				...(completionRequest.fallback_models || [])
+			]);
+			await enforceBudget(auth.user_id, auth.api_key_id, auth.org_id);
+
 			const completion = await createCompletion(completionRequest);
+
+			await recordCompletionCost({
+				user_id: auth.user_id,
+				org_id: auth.org_id,
+				api_key_id: auth.api_key_id,
+				endpoint: event.url.pathname,
+				model: completion.routing?.model_used || completionRequest.model!,
+				usage: completion.usage
+			});
+			await recordTokenUsage(auth.api_key_id, auth.rate_limits, completion.usage?.total_tokens);
 			
 			return {
 				prompt_execution: result,
@@ -52,7 +71,8 @@ export const POST: RequestHandler = createApiHandler(
 					created: completion.created,
 					model: completion.model,
 					choices: completion.choices,
-					usage: completion.usage
+					usage: completion.usage,
+					routing: completion.routing
 				}
 			};
 		}
@@ -62,5 +82,5 @@ export const POST: RequestHandler = createApiHandler(
 			prompt_execution: result
 		};
 	},
-	{ required_scope: 'read' }
+	{ required_scope: ['prompts:read', 'completions:create'], input: { route, method: 'POST' } }
 );
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import {
+	ChatCompletionSchema,
+	ChatMessageSchema,
+	completionOptions
+} from '../../../chat/completions/schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Execute a system prompt',
+			description:
+				'Renders the prompt with `variables`. With `messages`, also runs a chat completion with the rendered prompt as the system message.',
+			auth: 'key',
+			scopes: ['prompts:read', 'completions:create'],
+			body: t.object({
+				variables: t.optional(t.record(t.unknown(), { example: { company: 'Acme' } })),
+				validate_variables: t.optional(t.boolean({ default: true })),
+				messages: t.optional(t.array(ChatMessageSchema)),
+				...completionOptions
+			}),
+			response: t.object({
+				prompt_execution: t.object({
+					rendered_content: t.string(),
+					variables_used: t.record(t.unknown()),
+					validation_errors: t.optional(t.array(t.string()))
+				}),
+				completion: t.optional(ChatCompletionSchema)
+			})
+		}
+	}
+});
@@ -1,33 +1,68 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { json, error, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { restorePromptVersion } from '$lib/server/system-prompts.js';
+import { createApiHandler } from '$lib/server/api-middleware.js';
+import { getSystemPrompt, restorePromptVersion } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { dispatchWebhookEvent } from '$lib/server/webhooks.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // POST /api/v1/prompts/:id/restore - Restore a prompt to a previous version
 export const POST: RequestHandler = async (event) => {
-	const session = await requireAuth(event);
-	const promptId = event.params.id!;
-	
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handleRestoreVersion(event, sessionActor(session, owner), input));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleRestoreVersion(event, apiActor(auth), input),
+			{ required_scope: 'prompts:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleRestoreVersion(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'POST'>
+) {
+	const promptId = params.id;
+	const { version, changeSummary } = body;
+
+	const prompt = await getSystemPrompt(actor, promptId, false);
+
+	let restoredPrompt;
 	try {
-		const body = await event.request.json();
-		const { version, changeSummary } = body;
-		
-		if (!version) {
-			return json({ error: 'Version number is required' }, { status: 400 });
-		}
-		
-		const restoredPrompt = await restorePromptVersion(
-			session.user.id, 
-			promptId, 
+		restoredPrompt = await restorePromptVersion(
+			actor,
+			promptId,
 			version,
 			changeSummary || `Restored to version ${version}`
 		);
-		
-		return json(restoredPrompt);
-	} catch (error) {
-		return json(
-			{ error: error instanceof Error ? error.message : 'Failed to restore version' }, 
-			{ status: 400 }
-		);
+	} catch (err) {
+		error(400, err instanceof Error ? err.message : 'Failed to restore version');
 	}
-};
\ No newline at end of file
+
+	await recordAuditEvent(event, {
+		actor,
+		action: 'system_prompt.restored',
+		target_type: 'system_prompt',
+		target_id: promptId,
+		before: prompt,
+		after: restoredPrompt,
+		metadata: { version }
+	});
+	await dispatchWebhookEvent(actor, 'prompt.version.created', {
+		prompt_id: restoredPrompt.id,
+		name: restoredPrompt.name,
+		version: restoredPrompt.version
+	});
+	return restoredPrompt;
+}
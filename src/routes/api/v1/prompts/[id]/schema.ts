@@ -0,0 +1,27 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { SystemPromptSchema, UpdateSystemPromptSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a system prompt',
+			auth: 'key',
+			scopes: ['prompts:read'],
+			response: SystemPromptSchema
+		},
+		PUT: {
+			summary: 'Update a system prompt',
+			description: 'Only the fields sent are changed. Each update creates a new version.',
+			scopes: ['prompts:write'],
+			body: UpdateSystemPromptSchema,
+			response: SystemPromptSchema
+		},
+		DELETE: {
+			summary: 'Delete a system prompt',
+			scopes: ['prompts:delete'],
+			response: t.object({ deleted: t.boolean() })
+		}
+	}
+});
@@ -1,20 +1,35 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { json, error } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { getPromptVersions } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // GET /api/v1/prompts/:id/versions - Get version history for a prompt
 export const GET: RequestHandler = async (event) => {
-	const session = await requireAuth(event);
-	const promptId = event.params.id!;
-	
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const { params } = await validateRequest(event, route, 'GET');
+		return json(await handleGetVersions(owner, params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleGetVersions(apiOwner(auth), params.id),
+			{ required_scope: 'prompts:read', input: { route, method: 'GET' } }
+		)(event);
+	}
+};
+
+async function handleGetVersions(owner: Owner, promptId: string) {
 	try {
-		const versions = await getPromptVersions(session.user.id, promptId);
-		return json(versions);
-	} catch (error) {
-		return json(
-			{ error: error instanceof Error ? error.message : 'Failed to get version history' }, 
-			{ status: 400 }
-		);
+		return await getPromptVersions(owner, promptId);
+	} catch (err) {
+		error(400, err instanceof Error ? err.message : 'Failed to get version history');
 	}
-};
\ No newline at end of file
+}
@@ -0,0 +1,14 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { SystemPromptVersionSchema } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get the version history of a system prompt',
+			scopes: ['prompts:read'],
+			response: t.array(SystemPromptVersionSchema)
+		}
+	}
+});
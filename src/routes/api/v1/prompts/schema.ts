@@ -0,0 +1,114 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+export const PromptVariableSchema = t.component(
+	'PromptVariable',
+	t.object({
+		type: t.enum(['string', 'number', 'boolean', 'array', 'object']),
+		required: t.optional(t.boolean()),
+		default: t.optional(t.unknown()),
+		description: t.optional(t.string()),
+		validation: t.optional(
+			t.object({
+				min: t.optional(t.number()),
+				max: t.optional(t.number()),
+				pattern: t.optional(t.string()),
+				enum: t.optional(t.array(t.unknown())),
+				minLength: t.optional(t.integer()),
+				maxLength: t.optional(t.integer())
+			})
+		)
+	})
+);
+
+// Fields a prompt is created with; each names a new version when updated
+const promptFields = {
+	name: t.string({ minLength: 1, example: 'Support agent' }),
+	description: t.optional(t.string()),
+	content: t.string({
+		minLength: 1,
+		example: 'You are a support agent for {{company}}.',
+		description: 'Template with {{variable}} placeholders'
+	}),
+	variables: t.optional(t.record(PromptVariableSchema)),
+	category: t.optional(t.string()),
+	is_public: t.optional(t.boolean({ default: false }))
+};
+
+export const SystemPromptSchema = t.component(
+	'SystemPrompt',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid', description: 'The creator' }),
+		org_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		name: t.string(),
+		description: t.optional(t.nullable(t.string())),
+		content: t.string(),
+		variables: t.record(PromptVariableSchema),
+		category: t.string(),
+		is_public: t.boolean(),
+		usage_count: t.integer(),
+		version: t.integer(),
+		is_latest: t.boolean(),
+		parent_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const SystemPromptVersionSchema = t.component(
+	'SystemPromptVersion',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		prompt_id: t.string({ format: 'uuid' }),
+		version: t.integer(),
+		name: t.string(),
+		description: t.optional(t.nullable(t.string())),
+		content: t.string(),
+		variables: t.record(PromptVariableSchema),
+		category: t.string(),
+		is_public: t.boolean(),
+		changed_by: t.string({ format: 'uuid' }),
+		change_summary: t.optional(t.nullable(t.string())),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const CreateSystemPromptSchema = t.object(promptFields);
+
+export const UpdateSystemPromptSchema = t.object({
+	name: t.optional(promptFields.name),
+	description: promptFields.description,
+	content: t.optional(promptFields.content),
+	variables: promptFields.variables,
+	category: promptFields.category,
+	is_public: t.optional(t.boolean())
+});
+
+export const RestoreVersionSchema = t.object({
+	version: t.integer({ minimum: 1 }),
+	changeSummary: t.optional(t.string())
+});
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	operations: {
+		GET: {
+			summary: 'List system prompts',
+			scopes: ['prompts:read'],
+			query: t.object({
+				...paginationQuery,
+				category: t.optional(t.string()),
+				include_public: t.optional(t.boolean({ default: true })),
+				search: t.optional(t.string()),
+				trending: t.optional(t.boolean({ default: false }))
+			}),
+			response: paginated(SystemPromptSchema)
+		},
+		POST: {
+			summary: 'Create a system prompt',
+			scopes: ['prompts:write'],
+			body: CreateSystemPromptSchema,
+			response: SystemPromptSchema
+		}
+	}
+});
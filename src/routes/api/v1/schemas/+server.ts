@@ -1,11 +1,10 @@
 import type { RequestHandler } from './$types';
 import { error } from '@sveltejs/kit';
-import { 
-	createApiHandler, 
-	validateRequestBody, 
-	validateQueryParams,
+import {
+	createApiHandler,
 	parsePagination,
-	createApiResponse
+	createApiResponse,
+	apiOwner
 } from '$lib/server/api-middleware.js';
 import {
 	createStructuredOutput,
@@ -13,26 +12,22 @@ import {
 	getTrendingStructuredOutputs,
 	type CreateStructuredOutputRequest
 } from '$lib/server/structured-outputs.js';
+import { apiActor, recordAuditEvent } from '$lib/server/audit.js';
+import { route } from './schema.js';
 
 // GET /api/v1/schemas - List structured output schemas
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const url = new URL(event.request.url);
-		validateQueryParams(url, ['limit', 'offset', 'page', 'include_public', 'search', 'trending']);
-		
-		const { limit, offset } = parsePagination(url);
-		const includePublic = url.searchParams.get('include_public') !== 'false';
-		const search = url.searchParams.get('search') || undefined;
-		const trending = url.searchParams.get('trending') === 'true';
+	async (event, auth, { query }) => {
+		const { limit, offset } = parsePagination(query);
 		
 		let schemas;
 		
-		if (trending) {
+		if (query.trending) {
 			schemas = await getTrendingStructuredOutputs(limit);
 		} else {
-			schemas = await listStructuredOutputs(auth.user_id, {
-				include_public: includePublic,
-				search,
+			schemas = await listStructuredOutputs(apiOwner(auth), {
+				include_public: query.include_public !== false,
+				search: query.search,
 				limit,
 				offset
 			});
@@ -44,23 +39,12 @@ export const GET: RequestHandler = createApiHandler(
 			offset
 		});
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'schemas:read', input: { route, method: 'GET' } }
 );
 
 // POST /api/v1/schemas - Create structured output schema
 export const POST: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const body = await event.request.json();
-		validateRequestBody(body, ['name', 'json_schema']);
-		
-		// Basic JSON schema validation
-		if (!body.json_schema || typeof body.json_schema !== 'object') {
-			error(400, {
-				message: 'json_schema must be a valid object',
-				code: 'INVALID_SCHEMA'
-			});
-		}
-		
+	async (event, auth, { body }) => {
 		if (!body.json_schema.type) {
 			error(400, {
 				message: 'json_schema must have a type property',
@@ -76,8 +60,15 @@ export const POST: RequestHandler = createApiHandler(
 			is_public: body.is_public || false
 		};
 		
-		const schema = await createStructuredOutput(auth.user_id, request);
+		const schema = await createStructuredOutput(apiOwner(auth), request);
+		await recordAuditEvent(event, {
+			actor: apiActor(auth),
+			action: 'structured_output.created',
+			target_type: 'structured_output',
+			target_id: schema.id,
+			after: schema
+		});
 		return schema;
 	},
-	{ required_scope: 'write' }
+	{ required_scope: 'schemas:write', input: { route, method: 'POST' } }
 );
\ No newline at end of file
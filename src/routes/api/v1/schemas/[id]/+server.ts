@@ -1,19 +1,24 @@
 import type { RequestHandler } from './$types';
 import { error } from '@sveltejs/kit';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import {
 	getStructuredOutput,
 	updateStructuredOutput,
 	deleteStructuredOutput,
 	forkStructuredOutput
 } from '$lib/server/structured-outputs.js';
+import { apiActor, recordAuditEvent } from '$lib/server/audit.js';
+import { UpdateStructuredOutputSchema } from '../schema.js';
+import { route } from './schema.js';
+
+const UPDATE_FIELDS = Object.keys(UpdateStructuredOutputSchema.properties);
 
 // GET /api/v1/schemas/:id - Get specific structured output schema
 export const GET: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const schemaId = event.params.id!;
+	async (event, auth, { params }) => {
+		const schemaId = params.id;
 		
-		const schema = await getStructuredOutput(auth.user_id, schemaId);
+		const schema = await getStructuredOutput(apiOwner(auth), schemaId);
 		if (!schema) {
 			error(404, {
 				message: 'Structured output schema not found',
@@ -23,63 +28,82 @@ export const GET: RequestHandler = createApiHandler(
 		
 		return schema;
 	},
-	{ required_scope: 'read' }
+	{ required_scope: 'schemas:read', input: { route, method: 'GET' } }
 );
 
 // PUT /api/v1/schemas/:id - Update structured output schema
 export const PUT: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const schemaId = event.params.id!;
-		const body = await event.request.json();
+	async (event, auth, { params, body }) => {
+		const schemaId = params.id;
 		
-		const allowedFields = ['name', 'description', 'json_schema', 'example_output', 'is_public'];
-		const updateFields = Object.keys(body).filter(key => allowedFields.includes(key));
+		const updateFields = Object.keys(body).filter(key => UPDATE_FIELDS.includes(key));
 		
 		if (updateFields.length === 0) {
 			error(400, {
-				message: `No valid update fields provided. Allowed fields: ${allowedFields.join(', ')}`,
+				message: `No valid update fields provided. Allowed fields: ${UPDATE_FIELDS.join(', ')}`,
 				code: 'NO_UPDATE_FIELDS'
 			});
 		}
 		
-		const updates: any = {};
-		for (const field of updateFields) {
-			updates[field] = body[field];
+		const updates = Object.fromEntries(updateFields.map((field) => [field, body[field as keyof typeof body]]));
+		
+		if (body.json_schema && !body.json_schema.type) {
+			error(400, {
+				message: 'json_schema must have a type property',
+				code: 'MISSING_SCHEMA_TYPE'
+			});
 		}
 		
-		// Validate JSON schema if provided
-		if (updates.json_schema) {
-			if (!updates.json_schema || typeof updates.json_schema !== 'object') {
-				error(400, {
-					message: 'json_schema must be a valid object',
-					code: 'INVALID_SCHEMA'
-				});
-			}
-			
-			if (!updates.json_schema.type) {
-				error(400, {
-					message: 'json_schema must have a type property',
-					code: 'MISSING_SCHEMA_TYPE'
-				});
-			}
+		const schema = await getStructuredOutput(apiOwner(auth), schemaId, false);
+		if (!schema) {
+			error(404, {
+				message: 'Structured output schema not found',
+				code: 'SCHEMA_NOT_FOUND'
+			});
 		}
 		
-		const updatedSchema = await updateStructuredOutput(auth.user_id, schemaId, updates);
+		const updatedSchema = await updateStructuredOutput(apiOwner(auth), schemaId, updates);
+		await recordAuditEvent(event, {
+			actor: apiActor(auth),
+			action:
+				updatedSchema.is_public !== schema.is_public
+					? 'structured_output.visibility_changed'
+					: 'structured_output.updated',
+			target_type: 'structured_output',
+			target_id: schemaId,
+			before: schema,
+			after: updatedSchema
+		});
 		return updatedSchema;
 	},
-	{ required_scope: 'write' }
+	{ required_scope: 'schemas:write', input: { route, method: 'PUT' } }
 );
 
 // DELETE /api/v1/schemas/:id - Delete structured output schema
 export const DELETE: RequestHandler = createApiHandler(
-	async (event, auth) => {
-		const schemaId = event.params.id!;
+	async (event, auth, { params }) => {
+		const schemaId = params.id;
+		
+		const schema = await getStructuredOutput(apiOwner(auth), schemaId, false);
+		if (!schema) {
+			error(404, {
+				message: 'Structured output schema not found',
+				code: 'SCHEMA_NOT_FOUND'
+			});
+		}
 		
-		await deleteStructuredOutput(auth.user_id, schemaId);
+		await deleteStructuredOutput(apiOwner(auth), schemaId);
+		await recordAuditEvent(event, {
+			actor: apiActor(auth),
+			action: 'structured_output.deleted',
+			target_type: 'structured_output',
+			target_id: schemaId,
+			before: schema
+		});
 		
 		return {
 			deleted: true
 		};
 	},
-	{ required_scope: 'delete' }
+	{ required_scope: 'schemas:delete', input: { route, method: 'DELETE' } }
 );
\ No newline at end of file
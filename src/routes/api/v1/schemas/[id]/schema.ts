@@ -0,0 +1,29 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { StructuredOutputSchema, UpdateStructuredOutputSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a structured output schema',
+			auth: 'key',
+			scopes: ['schemas:read'],
+			response: StructuredOutputSchema
+		},
+		PUT: {
+			summary: 'Update a structured output schema',
+			description: 'Only the fields sent are changed. Each update creates a new version.',
+			auth: 'key',
+			scopes: ['schemas:write'],
+			body: UpdateStructuredOutputSchema,
+			response: StructuredOutputSchema
+		},
+		DELETE: {
+			summary: 'Delete a structured output schema',
+			auth: 'key',
+			scopes: ['schemas:delete'],
+			response: t.object({ deleted: t.boolean() })
+		}
+	}
+});
@@ -0,0 +1,84 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+
+export const JsonSchemaSchema = t.record(t.unknown(), {
+	description: 'A JSON Schema',
+	example: { type: 'object', properties: { sentiment: { type: 'string' } } }
+});
+
+export const StructuredOutputSchema = t.component(
+	'StructuredOutput',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid', description: 'The creator' }),
+		org_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		name: t.string(),
+		description: t.optional(t.nullable(t.string())),
+		json_schema: JsonSchemaSchema,
+		example_output: t.optional(t.unknown()),
+		is_public: t.boolean(),
+		usage_count: t.integer(),
+		version: t.integer(),
+		is_latest: t.boolean(),
+		parent_id: t.optional(t.nullable(t.string({ format: 'uuid' }))),
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const StructuredOutputVersionSchema = t.component(
+	'StructuredOutputVersion',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		output_id: t.string({ format: 'uuid' }),
+		version: t.integer(),
+		name: t.string(),
+		description: t.optional(t.nullable(t.string())),
+		json_schema: JsonSchemaSchema,
+		example_output: t.optional(t.unknown()),
+		is_public: t.boolean(),
+		changed_by: t.string({ format: 'uuid' }),
+		change_summary: t.optional(t.nullable(t.string())),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const CreateStructuredOutputSchema = t.object({
+	name: t.string({ minLength: 1, example: 'Sentiment' }),
+	description: t.optional(t.string()),
+	json_schema: JsonSchemaSchema,
+	example_output: t.optional(t.unknown()),
+	is_public: t.optional(t.boolean({ default: false }))
+});
+
+export const UpdateStructuredOutputSchema = t.object({
+	name: t.optional(t.string({ minLength: 1 })),
+	description: t.optional(t.string()),
+	json_schema: t.optional(JsonSchemaSchema),
+	example_output: t.optional(t.unknown()),
+	is_public: t.optional(t.boolean())
+});
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	operations: {
+		GET: {
+			summary: 'List structured output schemas',
+			auth: 'key',
+			scopes: ['schemas:read'],
+			query: t.object({
+				...paginationQuery,
+				include_public: t.optional(t.boolean({ default: true })),
+				search: t.optional(t.string()),
+				trending: t.optional(t.boolean({ default: false }))
+			}),
+			response: paginated(StructuredOutputSchema)
+		},
+		POST: {
+			summary: 'Create a structured output schema',
+			auth: 'key',
+			scopes: ['schemas:write'],
+			body: CreateStructuredOutputSchema,
+			response: StructuredOutputSchema
+		}
+	}
+});
@@ -0,0 +1,13 @@
+import type { RequestHandler } from './$types';
+import { json } from '@sveltejs/kit';
+import { createApiResponse } from '$lib/server/api-middleware.js';
+import { LEGACY_SCOPES, SCOPE_CATALOG } from '$lib/server/scopes.js';
+
+// GET /api/v1/scopes - The scopes an API key can be given. Public, so clients can
+// work out which scopes to request before they have a key.
+export const GET: RequestHandler = async () => {
+	return json({
+		...createApiResponse(SCOPE_CATALOG),
+		legacy_scopes: LEGACY_SCOPES
+	});
+};
@@ -0,0 +1,31 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'API Keys',
+	operations: {
+		GET: {
+			summary: 'List the scopes an API key can be given',
+			description:
+				'Public, so clients can work out which scopes to request before they have a key.',
+			auth: 'none',
+			response: t.object({
+				data: t.array(
+					t.object({
+						resource: t.string(),
+						label: t.string(),
+						scopes: t.array(
+							t.object({
+								scope: t.string({ example: 'prompts:read' }),
+								action: t.string(),
+								description: t.string()
+							})
+						)
+					})
+				),
+				legacy_scopes: t.record(t.array(t.string()), {
+					description: 'Old scope names and the scopes they grant'
+				})
+			})
+		}
+	}
+});
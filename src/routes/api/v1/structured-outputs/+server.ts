@@ -1,8 +1,12 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { createStructuredOutput, listStructuredOutputs } from '$lib/server/structured-outputs.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 export const GET: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
@@ -10,24 +14,26 @@ export const GET: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleGetRequest(event, session.user.id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const input = await validateRequest(event, route, 'GET');
+		return json(await handleGetRequest(owner, input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleGetRequest(event, user_id);
+		return createApiHandler(async (event, auth, input) => {
+			return handleGetRequest(apiOwner(auth), input);
 		}, {
-			required_scope: 'structured-outputs:read',
-			track_usage: true
+			required_scope: 'schemas:read',
+			track_usage: true,
+			input: { route, method: 'GET' }
 		})(event);
 	}
 };
 
-async function handleGetRequest(event: any, userId: string) {
+async function handleGetRequest(owner: Owner, { query }: RequestInput<typeof route, 'GET'>) {
 	try {
-		const url = new URL(event.request.url);
-		const search = url.searchParams.get('search') || '';
+		const search = query.search || '';
 
-		const schemas = await listStructuredOutputs(userId, { 
+		const schemas = await listStructuredOutputs(owner, { 
 			search: search || undefined,
 			include_public: false 
 		});
@@ -62,14 +68,14 @@ async function handleGetRequest(event: any, userId: string) {
 			};
 		}) || [];
 
-		return json({
+		return {
 			schemas: processedSchemas,
 			filters: { search }
-		});
+		};
 
-	} catch (error) {
-		console.error('Error fetching structured outputs:', error);
-		return json({ error: 'Failed to fetch structured outputs' }, { status: 500 });
+	} catch (err) {
+		console.error('Error fetching structured outputs:', err);
+		error(500, 'Failed to fetch structured outputs');
 	}
 }
 
@@ -79,38 +85,50 @@ export const POST: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handlePostRequest(event, session.user.id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handlePostRequest(event, sessionActor(session, owner), input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handlePostRequest(event, user_id);
+		return createApiHandler(async (event, auth, input) => {
+			return handlePostRequest(event, apiActor(auth), input);
 		}, {
-			required_scope: 'structured-outputs:write',
-			track_usage: true
+			required_scope: 'schemas:write',
+			track_usage: true,
+			input: { route, method: 'POST' }
 		})(event);
 	}
 };
 
-async function handlePostRequest(event: any, userId: string) {
+async function handlePostRequest(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ body }: RequestInput<typeof route, 'POST'>
+) {
 	try {
-		const { name, description, json_schema, is_public = false } = await event.request.json();
+		const { name, description, json_schema, is_public = false } = body;
 
-		const newSchema = await createStructuredOutput(userId, {
+		const newSchema = await createStructuredOutput(actor, {
 			name,
 			description,
 			json_schema,
 			is_public
 		});
+		await recordAuditEvent(event, {
+			actor,
+			action: 'structured_output.created',
+			target_type: 'structured_output',
+			target_id: newSchema.id,
+			after: newSchema
+		});
 
-		return json({
+		return {
 			...newSchema,
 			schema: newSchema.json_schema
-		});
+		};
 
-	} catch (error) {
-		console.error('Error creating structured output:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to create structured output' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error creating structured output:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to create structured output');
 	}
 }
\ No newline at end of file
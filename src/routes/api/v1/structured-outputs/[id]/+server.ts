@@ -1,118 +1,151 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { deleteStructuredOutput, updateStructuredOutput, getStructuredOutput } from '$lib/server/structured-outputs.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 export const GET: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleGetRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const { params } = await validateRequest(event, route, 'GET');
+		return json(await handleGetRequest(owner, params.id));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleGetRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, { params }) => {
+			return handleGetRequest(apiOwner(auth), params.id);
 		}, {
-			required_scope: 'structured-outputs:read',
-			track_usage: true
+			required_scope: 'schemas:read',
+			track_usage: true,
+			input: { route, method: 'GET' }
 		})(event);
 	}
 };
 
-async function handleGetRequest(event: any, userId: string, outputId: string) {
-	try {
-		const output = await getStructuredOutput(userId, outputId);
-		
-		if (!output) {
-			return json({ error: 'Schema not found' }, { status: 404 });
-		}
-
-		return json({
-			...output,
-			schema: output.json_schema
-		});
-
-	} catch (error) {
-		console.error('Error fetching structured output:', error);
-		return json({ error: 'Failed to fetch structured output' }, { status: 500 });
+async function handleGetRequest(owner: Owner, outputId: string) {
+	const output = await getStructuredOutput(owner, outputId);
+	
+	if (!output) {
+		error(404, { message: 'Schema not found', code: 'SCHEMA_NOT_FOUND' });
 	}
+
+	return {
+		...output,
+		schema: output.json_schema
+	};
 }
 
 export const PUT: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handlePutRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'PUT');
+		return json(await handlePutRequest(event, sessionActor(session, owner), input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handlePutRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, input) => {
+			return handlePutRequest(event, apiActor(auth), input);
 		}, {
-			required_scope: 'structured-outputs:write',
-			track_usage: true
+			required_scope: 'schemas:write',
+			track_usage: true,
+			input: { route, method: 'PUT' }
 		})(event);
 	}
 };
 
-async function handlePutRequest(event: any, userId: string, outputId: string) {
-	try {
-		const { name, description, json_schema, is_public } = await event.request.json();
+async function handlePutRequest(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'PUT'>
+) {
+	const outputId = params.id;
+	const { name, description, json_schema, is_public } = body;
+
+	const output = await getStructuredOutput(actor, outputId, false);
+	if (!output) {
+		error(404, { message: 'Schema not found', code: 'SCHEMA_NOT_FOUND' });
+	}
 
-		const updatedOutput = await updateStructuredOutput(userId, outputId, {
+	try {
+		const updatedOutput = await updateStructuredOutput(actor, outputId, {
 			name,
 			description,
 			json_schema,
 			is_public
 		}, 'Updated via API');
+		await recordAuditEvent(event, {
+			actor,
+			action:
+				updatedOutput.is_public !== output.is_public
+					? 'structured_output.visibility_changed'
+					: 'structured_output.updated',
+			target_type: 'structured_output',
+			target_id: outputId,
+			before: output,
+			after: updatedOutput
+		});
 
-		return json({
+		return {
 			...updatedOutput,
 			schema: updatedOutput.json_schema
-		});
+		};
 
-	} catch (error) {
-		console.error('Error updating structured output:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to update structured output' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error updating structured output:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to update structured output');
 	}
 }
 
 export const DELETE: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleDeleteRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const { params } = await validateRequest(event, route, 'DELETE');
+		return json(await handleDeleteRequest(event, sessionActor(session, owner), params.id));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleDeleteRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, { params }) => {
+			return handleDeleteRequest(event, apiActor(auth), params.id);
 		}, {
-			required_scope: 'structured-outputs:write',
-			track_usage: true
+			required_scope: 'schemas:delete',
+			track_usage: true,
+			input: { route, method: 'DELETE' }
 		})(event);
 	}
 };
 
-async function handleDeleteRequest(event: any, userId: string, outputId: string) {
+async function handleDeleteRequest(event: RequestEvent, actor: AuditActor, outputId: string) {
+	const output = await getStructuredOutput(actor, outputId, false);
+	if (!output) {
+		error(404, { message: 'Schema not found', code: 'SCHEMA_NOT_FOUND' });
+	}
+
 	try {
-		await deleteStructuredOutput(userId, outputId);
-		return json({ success: true, message: 'Schema deleted successfully' });
+		await deleteStructuredOutput(actor, outputId);
+		await recordAuditEvent(event, {
+			actor,
+			action: 'structured_output.deleted',
+			target_type: 'structured_output',
+			target_id: outputId,
+			before: output
+		});
+		return { success: true, message: 'Schema deleted successfully' };
 
-	} catch (error) {
-		console.error('Error deleting structured output:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to delete structured output' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error deleting structured output:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to delete structured output');
 	}
-};
\ No newline at end of file
+};
@@ -1,50 +1,63 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
 import { createApiHandler } from '$lib/server/api-middleware.js';
-import { restoreOutputVersion } from '$lib/server/structured-outputs.js';
+import { getStructuredOutput, restoreOutputVersion } from '$lib/server/structured-outputs.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // POST /api/v1/structured-outputs/:id/restore - Restore a structured output to a previous version
 export const POST: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const outputId = event.params.id!;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleRestoreVersion(event, session.user.id, outputId);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handleRestoreVersion(event, sessionActor(session, owner), input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleRestoreVersion(event, user_id, outputId);
+		return createApiHandler(async (event, auth, input) => {
+			return handleRestoreVersion(event, apiActor(auth), input);
 		}, {
-			required_scope: 'structured-outputs:write',
-			track_usage: true
+			required_scope: 'schemas:write',
+			track_usage: true,
+			input: { route, method: 'POST' }
 		})(event);
 	}
 };
 
-async function handleRestoreVersion(event: any, userId: string, outputId: string) {
+async function handleRestoreVersion(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'POST'>
+) {
+	const outputId = params.id;
+	const { version, changeSummary } = body;
+
 	try {
-		const body = await event.request.json();
-		const { version, changeSummary } = body;
-		
-		if (!version) {
-			return json({ error: 'Version number is required' }, { status: 400 });
-		}
-		
+		const output = await getStructuredOutput(actor, outputId, false);
 		const restoredOutput = await restoreOutputVersion(
-			userId, 
+			actor, 
 			outputId, 
 			version,
 			changeSummary || `Restored to version ${version}`
 		);
+		await recordAuditEvent(event, {
+			actor,
+			action: 'structured_output.restored',
+			target_type: 'structured_output',
+			target_id: outputId,
+			before: output,
+			after: restoredOutput,
+			metadata: { version }
+		});
 		
-		return json(restoredOutput);
-	} catch (error) {
-		return json(
-			{ error: error instanceof Error ? error.message : 'Failed to restore version' }, 
-			{ status: 500 }
-		);
+		return restoredOutput;
+	} catch (err) {
+		error(500, err instanceof Error ? err.message : 'Failed to restore version');
 	}
-}
\ No newline at end of file
+}
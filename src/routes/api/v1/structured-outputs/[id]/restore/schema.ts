@@ -0,0 +1,17 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { StructuredOutputSchema } from '../../../schemas/schema.js';
+import { RestoreVersionSchema } from '../../../prompts/schema.js';
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Restore a structured output schema to a previous version',
+			description: 'The restored schema becomes a new version.',
+			scopes: ['schemas:write'],
+			body: RestoreVersionSchema,
+			response: StructuredOutputSchema
+		}
+	}
+});
@@ -0,0 +1,29 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { UpdateStructuredOutputSchema } from '../../schemas/schema.js';
+import { ConsoleStructuredOutputSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a structured output schema',
+			description: 'Prefer `GET /api/v1/schemas/{id}`.',
+			scopes: ['schemas:read'],
+			response: ConsoleStructuredOutputSchema
+		},
+		PUT: {
+			summary: 'Update a structured output schema',
+			description: 'Prefer `PUT /api/v1/schemas/{id}`.',
+			scopes: ['schemas:write'],
+			body: UpdateStructuredOutputSchema,
+			response: ConsoleStructuredOutputSchema
+		},
+		DELETE: {
+			summary: 'Delete a structured output schema',
+			description: 'Prefer `DELETE /api/v1/schemas/{id}`.',
+			scopes: ['schemas:delete'],
+			response: t.object({ success: t.boolean(), message: t.string() })
+		}
+	}
+});
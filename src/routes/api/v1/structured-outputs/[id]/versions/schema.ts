@@ -0,0 +1,14 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { StructuredOutputVersionSchema } from '../../../schemas/schema.js';
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get the version history of a structured output schema',
+			scopes: ['schemas:read'],
+			response: t.array(StructuredOutputVersionSchema)
+		}
+	}
+});
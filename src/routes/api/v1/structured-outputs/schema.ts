@@ -0,0 +1,30 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { CreateStructuredOutputSchema, StructuredOutputSchema } from '../schemas/schema.js';
+
+// The developer console's view of a schema, with `json_schema` repeated as `schema`
+export const ConsoleStructuredOutputSchema = t.extend(StructuredOutputSchema, {
+	schema: t.record(t.unknown())
+});
+
+export const route = defineRoute({
+	tag: 'Schemas',
+	operations: {
+		GET: {
+			summary: 'List your structured output schemas',
+			description: 'The developer console listing. Prefer `GET /api/v1/schemas`.',
+			scopes: ['schemas:read'],
+			query: t.object({ search: t.optional(t.string()) }),
+			response: t.object({
+				schemas: t.array(t.extend(ConsoleStructuredOutputSchema, { is_valid: t.boolean() })),
+				filters: t.object({ search: t.string() })
+			})
+		},
+		POST: {
+			summary: 'Create a structured output schema',
+			description: 'Prefer `POST /api/v1/schemas`.',
+			scopes: ['schemas:write'],
+			body: CreateStructuredOutputSchema,
+			response: ConsoleStructuredOutputSchema
+		}
+	}
+});
@@ -1,8 +1,13 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { createSystemPrompt, listSystemPrompts } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { dispatchWebhookEvent } from '$lib/server/webhooks.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 export const GET: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
@@ -10,25 +15,27 @@ export const GET: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleGetRequest(event, session.user.id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const input = await validateRequest(event, route, 'GET');
+		return json(await handleGetRequest(owner, input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleGetRequest(event, user_id);
+		return createApiHandler(async (event, auth, input) => {
+			return handleGetRequest(apiOwner(auth), input);
 		}, {
-			required_scope: 'system-prompts:read',
-			track_usage: true
+			required_scope: 'prompts:read',
+			track_usage: true,
+			input: { route, method: 'GET' }
 		})(event);
 	}
 };
 
-async function handleGetRequest(event: any, userId: string) {
+async function handleGetRequest(owner: Owner, { query }: RequestInput<typeof route, 'GET'>) {
 	try {
-		const url = new URL(event.request.url);
-		const search = url.searchParams.get('search') || '';
-		const category = url.searchParams.get('category') || '';
+		const search = query.search || '';
+		const category = query.category || '';
 
-		const prompts = await listSystemPrompts(userId, { 
+		const prompts = await listSystemPrompts(owner, { 
 			search: search || undefined,
 			category: category || undefined,
 			include_public: false 
@@ -42,14 +49,14 @@ async function handleGetRequest(event: any, userId: string) {
 			};
 		}) || [];
 
-		return json({
+		return {
 			prompts: processedPrompts,
 			filters: { search, category }
-		});
+		};
 
-	} catch (error) {
-		console.error('Error fetching system prompts:', error);
-		return json({ error: 'Failed to fetch system prompts' }, { status: 500 });
+	} catch (err) {
+		console.error('Error fetching system prompts:', err);
+		error(500, 'Failed to fetch system prompts');
 	}
 }
 
@@ -59,23 +66,30 @@ export const POST: RequestHandler = async (event) => {
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handlePostRequest(event, session.user.id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handlePostRequest(event, sessionActor(session, owner), input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handlePostRequest(event, user_id);
+		return createApiHandler(async (event, auth, input) => {
+			return handlePostRequest(event, apiActor(auth), input);
 		}, {
-			required_scope: 'system-prompts:write',
-			track_usage: true
+			required_scope: 'prompts:write',
+			track_usage: true,
+			input: { route, method: 'POST' }
 		})(event);
 	}
 };
 
-async function handlePostRequest(event: any, userId: string) {
+async function handlePostRequest(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ body }: RequestInput<typeof route, 'POST'>
+) {
 	try {
-		const { name, description, content, variables, category, is_public = false } = await event.request.json();
+		const { name, description, content, variables, category, is_public = false } = body;
 
-		const newPrompt = await createSystemPrompt(userId, {
+		const newPrompt = await createSystemPrompt(actor, {
 			name,
 			description,
 			content,
@@ -83,13 +97,23 @@ async function handlePostRequest(event: any, userId: string) {
 			category,
 			is_public
 		});
+		await recordAuditEvent(event, {
+			actor,
+			action: 'system_prompt.created',
+			target_type: 'system_prompt',
+			target_id: newPrompt.id,
+			after: newPrompt
+		});
+		await dispatchWebhookEvent(actor, 'prompt.version.created', {
+			prompt_id: newPrompt.id,
+			name: newPrompt.name,
+			version: newPrompt.version
+		});
 
-		return json(newPrompt);
+		return newPrompt;
 
-	} catch (error) {
-		console.error('Error creating system prompt:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to create system prompt' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error creating system prompt:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to create system prompt');
 	}
-}
\ No newline at end of file
+}
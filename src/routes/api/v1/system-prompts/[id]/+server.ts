@@ -1,68 +1,81 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { deleteSystemPrompt, updateSystemPrompt, getSystemPrompt } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { dispatchWebhookEvent } from '$lib/server/webhooks.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 export const GET: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleGetRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const { params } = await validateRequest(event, route, 'GET');
+		return json(await handleGetRequest(owner, params.id));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleGetRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, { params }) => {
+			return handleGetRequest(apiOwner(auth), params.id);
 		}, {
-			required_scope: 'system-prompts:read',
-			track_usage: true
+			required_scope: 'prompts:read',
+			track_usage: true,
+			input: { route, method: 'GET' }
 		})(event);
 	}
 };
 
-async function handleGetRequest(event: any, userId: string, promptId: string) {
-	try {
-		const prompt = await getSystemPrompt(userId, promptId);
-		
-		if (!prompt) {
-			return json({ error: 'System prompt not found' }, { status: 404 });
-		}
-
-		return json(prompt);
-
-	} catch (error) {
-		console.error('Error fetching system prompt:', error);
-		return json({ error: 'Failed to fetch system prompt' }, { status: 500 });
+async function handleGetRequest(owner: Owner, promptId: string) {
+	const prompt = await getSystemPrompt(owner, promptId);
+	
+	if (!prompt) {
+		error(404, { message: 'System prompt not found', code: 'PROMPT_NOT_FOUND' });
 	}
+
+	return prompt;
 }
 
 export const PUT: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handlePutRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const input = await validateRequest(event, route, 'PUT');
+		return json(await handlePutRequest(event, sessionActor(session, owner), input));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handlePutRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, input) => {
+			return handlePutRequest(event, apiActor(auth), input);
 		}, {
-			required_scope: 'system-prompts:write',
-			track_usage: true
+			required_scope: 'prompts:write',
+			track_usage: true,
+			input: { route, method: 'PUT' }
 		})(event);
 	}
 };
 
-async function handlePutRequest(event: any, userId: string, promptId: string) {
-	try {
-		const { name, description, content, variables, category, is_public } = await event.request.json();
+async function handlePutRequest(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'PUT'>
+) {
+	const promptId = params.id;
+	const { name, description, content, variables, category, is_public } = body;
 
-		const updatedPrompt = await updateSystemPrompt(userId, promptId, {
+	const prompt = await getSystemPrompt(actor, promptId, false);
+	if (!prompt) {
+		error(404, { message: 'System prompt not found', code: 'PROMPT_NOT_FOUND' });
+	}
+
+	try {
+		const updatedPrompt = await updateSystemPrompt(actor, promptId, {
 			name,
 			description,
 			content,
@@ -70,45 +83,71 @@ async function handlePutRequest(event: any, userId: string, promptId: string) {
 			category,
 			is_public
 		}, 'Updated via API');
+		await recordAuditEvent(event, {
+			actor,
+			action:
+				updatedPrompt.is_public !== prompt.is_public
+					? 'system_prompt.visibility_changed'
+					: 'system_prompt.updated',
+			target_type: 'system_prompt',
+			target_id: promptId,
+			before: prompt,
+			after: updatedPrompt
+		});
+		await dispatchWebhookEvent(actor, 'prompt.version.created', {
+			prompt_id: updatedPrompt.id,
+			name: updatedPrompt.name,
+			version: updatedPrompt.version
+		});
 
-		return json(updatedPrompt);
+		return updatedPrompt;
 
-	} catch (error) {
-		console.error('Error updating system prompt:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to update system prompt' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error updating system prompt:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to update system prompt');
 	}
 }
 
 export const DELETE: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const { id } = event.params;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleDeleteRequest(event, session.user.id, id);
+		const owner = await resolveSessionOwner(event, session.user.id, 'write');
+		const { params } = await validateRequest(event, route, 'DELETE');
+		return json(await handleDeleteRequest(event, sessionActor(session, owner), params.id));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleDeleteRequest(event, user_id, id);
+		return createApiHandler(async (event, auth, { params }) => {
+			return handleDeleteRequest(event, apiActor(auth), params.id);
 		}, {
-			required_scope: 'system-prompts:write',
-			track_usage: true
+			required_scope: 'prompts:delete',
+			track_usage: true,
+			input: { route, method: 'DELETE' }
 		})(event);
 	}
 };
 
-async function handleDeleteRequest(event: any, userId: string, promptId: string) {
+async function handleDeleteRequest(event: RequestEvent, actor: AuditActor, promptId: string) {
+	const prompt = await getSystemPrompt(actor, promptId, false);
+	if (!prompt) {
+		error(404, { message: 'System prompt not found', code: 'PROMPT_NOT_FOUND' });
+	}
+
 	try {
-		await deleteSystemPrompt(userId, promptId);
-		return json({ success: true, message: 'System prompt deleted successfully' });
+		await deleteSystemPrompt(actor, promptId);
+		await recordAuditEvent(event, {
+			actor,
+			action: 'system_prompt.deleted',
+			target_type: 'system_prompt',
+			target_id: promptId,
+			before: prompt
+		});
+		return { success: true, message: 'System prompt deleted successfully' };
 
-	} catch (error) {
-		console.error('Error deleting system prompt:', error);
-		return json({ 
-			error: error instanceof Error ? error.message : 'Failed to delete system prompt' 
-		}, { status: 500 });
+	} catch (err) {
+		console.error('Error deleting system prompt:', err);
+		error(500, err instanceof Error ? err.message : 'Failed to delete system prompt');
 	}
-};
\ No newline at end of file
+};
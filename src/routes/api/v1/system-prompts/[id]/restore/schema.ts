@@ -0,0 +1,16 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { RestoreVersionSchema, SystemPromptSchema } from '../../../prompts/schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Restore a system prompt to a previous version',
+			description: 'Prefer `POST /api/v1/prompts/{id}/restore`.',
+			scopes: ['prompts:write'],
+			body: RestoreVersionSchema,
+			response: SystemPromptSchema
+		}
+	}
+});
@@ -0,0 +1,28 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { SystemPromptSchema, UpdateSystemPromptSchema } from '../../prompts/schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a system prompt',
+			description: 'Prefer `GET /api/v1/prompts/{id}`.',
+			scopes: ['prompts:read'],
+			response: SystemPromptSchema
+		},
+		PUT: {
+			summary: 'Update a system prompt',
+			description: 'Prefer `PUT /api/v1/prompts/{id}`.',
+			scopes: ['prompts:write'],
+			body: UpdateSystemPromptSchema,
+			response: SystemPromptSchema
+		},
+		DELETE: {
+			summary: 'Delete a system prompt',
+			description: 'Prefer `DELETE /api/v1/prompts/{id}`.',
+			scopes: ['prompts:delete'],
+			response: t.object({ success: t.boolean(), message: t.string() })
+		}
+	}
+});
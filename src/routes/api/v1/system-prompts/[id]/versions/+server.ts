@@ -1,37 +1,38 @@
 import type { RequestHandler } from './$types';
-import { json } from '@sveltejs/kit';
+import { error, json } from '@sveltejs/kit';
 import { requireAuth } from '$lib/server/auth.js';
-import { createApiHandler } from '$lib/server/api-middleware.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
 import { getPromptVersions } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
 
 // GET /api/v1/system-prompts/:id/versions - Get version history for a system prompt
 export const GET: RequestHandler = async (event) => {
 	const authHeader = event.request.headers.get('Authorization');
-	const promptId = event.params.id!;
 	
 	if (!authHeader) {
 		// Use session-based auth for developer console
 		const session = await requireAuth(event);
-		return handleGetVersions(session.user.id, promptId);
+		const owner = await resolveSessionOwner(event, session.user.id, 'read');
+		const { params } = await validateRequest(event, route, 'GET');
+		return json(await handleGetVersions(owner, params.id));
 	} else {
 		// Use API key auth for external requests
-		return createApiHandler(async (event, { user_id }) => {
-			return handleGetVersions(user_id, promptId);
+		return createApiHandler(async (event, auth, { params }) => {
+			return handleGetVersions(apiOwner(auth), params.id);
 		}, {
-			required_scope: 'system-prompts:read',
-			track_usage: true
+			required_scope: 'prompts:read',
+			track_usage: true,
+			input: { route, method: 'GET' }
 		})(event);
 	}
 };
 
-async function handleGetVersions(userId: string, promptId: string) {
+async function handleGetVersions(owner: Owner, promptId: string) {
 	try {
-		const versions = await getPromptVersions(userId, promptId);
-		return json(versions);
-	} catch (error) {
-		return json(
-			{ error: error instanceof Error ? error.message : 'Failed to get version history' }, 
-			{ status: 500 }
-		);
+		return await getPromptVersions(owner, promptId);
+	} catch (err) {
+		error(500, err instanceof Error ? err.message : 'Failed to get version history');
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,15 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { SystemPromptVersionSchema } from '../../../prompts/schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get the version history of a system prompt',
+			description: 'Prefer `GET /api/v1/prompts/{id}/versions`.',
+			scopes: ['prompts:read'],
+			response: t.array(SystemPromptVersionSchema)
+		}
+	}
+});
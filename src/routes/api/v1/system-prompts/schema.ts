@@ -0,0 +1,25 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { CreateSystemPromptSchema, SystemPromptSchema } from '../prompts/schema.js';
+
+export const route = defineRoute({
+	tag: 'Prompts',
+	operations: {
+		GET: {
+			summary: 'List your system prompts',
+			description: 'The developer console listing. Prefer `GET /api/v1/prompts`.',
+			scopes: ['prompts:read'],
+			query: t.object({ search: t.optional(t.string()), category: t.optional(t.string()) }),
+			response: t.object({
+				prompts: t.array(SystemPromptSchema),
+				filters: t.object({ search: t.string(), category: t.string() })
+			})
+		},
+		POST: {
+			summary: 'Create a system prompt',
+			description: 'Prefer `POST /api/v1/prompts`.',
+			scopes: ['prompts:write'],
+			body: CreateSystemPromptSchema,
+			response: SystemPromptSchema
+		}
+	}
+});
@@ -0,0 +1,55 @@
+import type { RequestHandler } from './$types';
+import { createApiHandler } from '$lib/server/api-middleware.js';
+import { chatMessageIssues, getModelContextWindow, type ChatMessage } from '$lib/server/llm.js';
+import {
+	countMessageTokens,
+	countPromptTokens,
+	countTokens,
+	getEncodingForModel,
+	isApproximateEncoding,
+	loadTokenizer
+} from '$lib/server/tokenizer.js';
+import { validationError } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// POST /api/v1/tokenize - Count prompt tokens for a model
+export const POST: RequestHandler = createApiHandler(
+	async (event, auth, { body }) => {
+		const model = body.model || 'moonshotai/kimi-k2:free';
+		const messages = body.messages as ChatMessage[] | undefined;
+
+		if (body.text === undefined && messages === undefined) {
+			validationError([
+				{ path: 'body.text', code: 'required', message: 'is required when messages is not given' }
+			]);
+		}
+
+		const issues = chatMessageIssues(messages ?? []);
+		if (issues.length > 0) {
+			validationError(issues);
+		}
+
+		await loadTokenizer(model);
+		const encoding = getEncodingForModel(model);
+		const tokens = messages
+			? countPromptTokens(messages, model)
+			: countTokens(body.text ?? '', model);
+		const contextWindow = await getModelContextWindow(model);
+
+		return {
+			model,
+			encoding,
+			approximate: isApproximateEncoding(encoding),
+			tokens,
+			...(messages && {
+				messages: messages.map((message, index) => ({
+					index,
+					tokens: countMessageTokens(message, model)
+				}))
+			}),
+			context_length: contextWindow.context_length,
+			remaining_tokens: Math.max(contextWindow.context_length - tokens, 0)
+		};
+	},
+	{ required_scope: 'models:read', input: { route, method: 'POST' } }
+);
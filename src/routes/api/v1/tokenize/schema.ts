@@ -0,0 +1,28 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { ChatMessageSchema } from '../chat/completions/schema.js';
+
+export const route = defineRoute({
+	tag: 'Models',
+	operations: {
+		POST: {
+			summary: 'Count prompt tokens for a model',
+			description: 'Send either `text` or `messages`.',
+			auth: 'key',
+			scopes: ['models:read'],
+			body: t.object({
+				text: t.optional(t.string({ example: 'How many tokens is this?' })),
+				messages: t.optional(t.array(ChatMessageSchema)),
+				model: t.optional(t.string({ default: 'moonshotai/kimi-k2:free' }))
+			}),
+			response: t.object({
+				model: t.string(),
+				encoding: t.string(),
+				approximate: t.boolean(),
+				tokens: t.integer(),
+				messages: t.optional(t.array(t.object({ index: t.integer(), tokens: t.integer() }))),
+				context_length: t.integer(),
+				remaining_tokens: t.integer()
+			})
+		}
+	}
+});
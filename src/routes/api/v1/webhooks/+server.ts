@@ -0,0 +1,96 @@
+import type { RequestHandler } from './$types';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler, createApiResponse, apiOwner } from '$lib/server/api-middleware.js';
+import { getApiKey } from '$lib/server/api-keys.js';
+import {
+	createWebhookEndpoint,
+	listWebhookEndpoints,
+	validateWebhookUrl
+} from '$lib/server/webhooks.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// GET /api/v1/webhooks - List webhook endpoints
+export const GET: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		await validateRequest(event, route, 'GET');
+		return json(await handleListWebhooks(owner));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(async (event, auth) => handleListWebhooks(apiOwner(auth)), {
+			required_scope: 'webhooks:read',
+			input: { route, method: 'GET' }
+		})(event);
+	}
+};
+
+// POST /api/v1/webhooks - Create a webhook endpoint
+export const POST: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'POST');
+		return json(await handleCreateWebhook(event, sessionActor(session, owner), input), {
+			status: 201
+		});
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleCreateWebhook(event, apiActor(auth), input),
+			{ required_scope: 'webhooks:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleListWebhooks(owner: Owner) {
+	const endpoints = await listWebhookEndpoints(owner);
+	return createApiResponse(endpoints, { total: endpoints.length });
+}
+
+async function handleCreateWebhook(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ body }: RequestInput<typeof route, 'POST'>
+) {
+	const problem = await validateWebhookUrl(body.url);
+	if (problem) {
+		error(400, { message: problem, code: 'INVALID_WEBHOOK' });
+	}
+
+	// Endpoints can be tied to one of the workspace's keys
+	if (body.api_key_id != null) {
+		if (!(await getApiKey(actor, body.api_key_id))) {
+			error(400, {
+				message: 'api_key_id must be an API key in this workspace',
+				code: 'INVALID_WEBHOOK'
+			});
+		}
+	}
+
+	const endpoint = await createWebhookEndpoint(actor, {
+		url: body.url,
+		description: body.description,
+		events: body.events,
+		api_key_id: body.api_key_id
+	});
+	await recordAuditEvent(event, {
+		actor,
+		action: 'webhook.created',
+		target_type: 'webhook_endpoint',
+		target_id: endpoint.id,
+		after: endpoint
+	});
+
+	return endpoint; // The secret is only returned on creation
+}
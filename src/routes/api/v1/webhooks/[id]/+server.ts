@@ -0,0 +1,132 @@
+import type { RequestHandler } from './$types';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
+import {
+	deleteWebhookEndpoint,
+	getWebhookEndpoint,
+	updateWebhookEndpoint,
+	validateWebhookUrl,
+	type WebhookEndpoint
+} from '$lib/server/webhooks.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// GET /api/v1/webhooks/:id - Get a webhook endpoint
+export const GET: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { params } = await validateRequest(event, route, 'GET');
+		return json(await handleGetWebhook(owner, params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleGetWebhook(apiOwner(auth), params.id),
+			{ required_scope: 'webhooks:read', input: { route, method: 'GET' } }
+		)(event);
+	}
+};
+
+// PUT /api/v1/webhooks/:id - Update a webhook endpoint
+export const PUT: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'PUT');
+		return json(await handleUpdateWebhook(event, sessionActor(session, owner), input));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleUpdateWebhook(event, apiActor(auth), input),
+			{ required_scope: 'webhooks:write', input: { route, method: 'PUT' } }
+		)(event);
+	}
+};
+
+// DELETE /api/v1/webhooks/:id - Delete a webhook endpoint and its delivery log
+export const DELETE: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { params } = await validateRequest(event, route, 'DELETE');
+		return json(await handleDeleteWebhook(event, sessionActor(session, owner), params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleDeleteWebhook(event, apiActor(auth), params.id),
+			{ required_scope: 'webhooks:delete', input: { route, method: 'DELETE' } }
+		)(event);
+	}
+};
+
+async function requireWebhook(owner: Owner, endpointId: string): Promise<WebhookEndpoint> {
+	const endpoint = await getWebhookEndpoint(owner, endpointId);
+	if (!endpoint) {
+		error(404, { message: 'Webhook endpoint not found', code: 'WEBHOOK_NOT_FOUND' });
+	}
+	return endpoint;
+}
+
+async function handleGetWebhook(owner: Owner, endpointId: string) {
+	return requireWebhook(owner, endpointId);
+}
+
+async function handleUpdateWebhook(
+	event: RequestEvent,
+	actor: AuditActor,
+	{ params, body }: RequestInput<typeof route, 'PUT'>
+) {
+	const endpointId = params.id;
+	const problem = body.url !== undefined ? await validateWebhookUrl(body.url) : null;
+	if (problem) {
+		error(400, { message: problem, code: 'INVALID_WEBHOOK' });
+	}
+
+	const updates = Object.fromEntries(
+		(['url', 'description', 'events', 'is_active'] as const)
+			.filter((field) => body[field] !== undefined)
+			.map((field) => [field, body[field]])
+	);
+	if (Object.keys(updates).length === 0) {
+		error(400, 'No valid fields to update');
+	}
+
+	const endpoint = await requireWebhook(actor, endpointId);
+	const updated = await updateWebhookEndpoint(actor, endpointId, updates);
+	await recordAuditEvent(event, {
+		actor,
+		action: 'webhook.updated',
+		target_type: 'webhook_endpoint',
+		target_id: endpointId,
+		before: endpoint,
+		after: updated
+	});
+
+	return updated;
+}
+
+async function handleDeleteWebhook(event: RequestEvent, actor: AuditActor, endpointId: string) {
+	const endpoint = await requireWebhook(actor, endpointId);
+	await deleteWebhookEndpoint(actor, endpointId);
+	await recordAuditEvent(event, {
+		actor,
+		action: 'webhook.deleted',
+		target_type: 'webhook_endpoint',
+		target_id: endpointId,
+		before: endpoint
+	});
+
+	return { deleted: true };
+}
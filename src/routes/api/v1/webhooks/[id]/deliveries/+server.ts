@@ -0,0 +1,49 @@
+import type { RequestHandler } from './$types';
+import { error, json } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import {
+	createApiHandler,
+	parsePagination,
+	createApiResponse,
+	apiOwner
+} from '$lib/server/api-middleware.js';
+import { getWebhookEndpoint, listWebhookDeliveries } from '$lib/server/webhooks.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest, type RequestInput } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// GET /api/v1/webhooks/:id/deliveries - List an endpoint's deliveries, newest first
+export const GET: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const input = await validateRequest(event, route, 'GET');
+		return json(await handleListDeliveries(input, owner));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, input) => handleListDeliveries(input, apiOwner(auth)),
+			{ required_scope: 'webhooks:read', input: { route, method: 'GET' } }
+		)(event);
+	}
+};
+
+async function handleListDeliveries(
+	{ params, query }: RequestInput<typeof route, 'GET'>,
+	owner: Owner
+) {
+	const endpointId = params.id;
+	const status = query.status;
+
+	if (!(await getWebhookEndpoint(owner, endpointId))) {
+		error(404, { message: 'Webhook endpoint not found', code: 'WEBHOOK_NOT_FOUND' });
+	}
+
+	const { limit, offset } = parsePagination(query);
+	const { deliveries, total } = await listWebhookDeliveries(endpointId, { status, limit, offset });
+
+	return createApiResponse(deliveries, { total, limit, offset });
+}
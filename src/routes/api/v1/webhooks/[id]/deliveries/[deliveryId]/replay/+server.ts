@@ -0,0 +1,36 @@
+import type { RequestHandler } from './$types';
+import { error, json } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
+import { replayWebhookDelivery } from '$lib/server/webhooks.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// POST /api/v1/webhooks/:id/deliveries/:deliveryId/replay - Send a past delivery's event again
+export const POST: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { params } = await validateRequest(event, route, 'POST');
+		return json(await handleReplay(owner, params.id, params.deliveryId));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleReplay(apiOwner(auth), params.id, params.deliveryId),
+			{ required_scope: 'webhooks:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleReplay(owner: Owner, endpointId: string, deliveryId: string) {
+	const delivery = await replayWebhookDelivery(owner, endpointId, deliveryId);
+	if (!delivery) {
+		error(404, { message: 'Webhook delivery not found', code: 'DELIVERY_NOT_FOUND' });
+	}
+
+	return delivery;
+}
@@ -0,0 +1,17 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { WebhookDeliverySchema } from '../../../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	params: t.object({
+		id: t.string({ format: 'uuid' }),
+		deliveryId: t.string({ format: 'uuid' })
+	}),
+	operations: {
+		POST: {
+			summary: "Send a past delivery's event again",
+			scopes: ['webhooks:write'],
+			response: WebhookDeliverySchema
+		}
+	}
+});
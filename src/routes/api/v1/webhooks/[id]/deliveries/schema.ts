@@ -0,0 +1,18 @@
+import { defineRoute, paginated, paginationQuery, t } from '$lib/server/openapi.js';
+import { WebhookDeliverySchema } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: "List an endpoint's deliveries, newest first",
+			scopes: ['webhooks:read'],
+			query: t.object({
+				...paginationQuery,
+				status: t.optional(t.enum(['pending', 'succeeded', 'failed']))
+			}),
+			response: paginated(WebhookDeliverySchema)
+		}
+	}
+});
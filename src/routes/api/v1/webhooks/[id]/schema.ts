@@ -0,0 +1,26 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { UpdateWebhookSchema, WebhookEndpointSchema } from '../schema.js';
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		GET: {
+			summary: 'Get a webhook endpoint',
+			scopes: ['webhooks:read'],
+			response: WebhookEndpointSchema
+		},
+		PUT: {
+			summary: 'Update a webhook endpoint',
+			description: 'Only the fields sent are changed.',
+			scopes: ['webhooks:write'],
+			body: UpdateWebhookSchema,
+			response: WebhookEndpointSchema
+		},
+		DELETE: {
+			summary: 'Delete a webhook endpoint and its delivery log',
+			scopes: ['webhooks:delete'],
+			response: t.object({ deleted: t.boolean() })
+		}
+	}
+});
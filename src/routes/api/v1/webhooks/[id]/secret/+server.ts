@@ -0,0 +1,44 @@
+import type { RequestHandler } from './$types';
+import { error, json, type RequestEvent } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler } from '$lib/server/api-middleware.js';
+import { getWebhookEndpoint, rotateWebhookSecret } from '$lib/server/webhooks.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import { apiActor, recordAuditEvent, sessionActor, type AuditActor } from '$lib/server/audit.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// POST /api/v1/webhooks/:id/secret - Replace the endpoint's signing secret
+export const POST: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { params } = await validateRequest(event, route, 'POST');
+		return json(await handleRotateSecret(event, sessionActor(session, owner), params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleRotateSecret(event, apiActor(auth), params.id),
+			{ required_scope: 'webhooks:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleRotateSecret(event: RequestEvent, actor: AuditActor, endpointId: string) {
+	if (!(await getWebhookEndpoint(actor, endpointId))) {
+		error(404, { message: 'Webhook endpoint not found', code: 'WEBHOOK_NOT_FOUND' });
+	}
+
+	const secret = await rotateWebhookSecret(actor, endpointId);
+	await recordAuditEvent(event, {
+		actor,
+		action: 'webhook.secret_rotated',
+		target_type: 'webhook_endpoint',
+		target_id: endpointId
+	});
+
+	return { id: endpointId, secret }; // Only returned here
+}
@@ -0,0 +1,14 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: "Replace an endpoint's signing secret",
+			description: 'The new secret is only returned in this response.',
+			scopes: ['webhooks:write'],
+			response: t.object({ id: t.string({ format: 'uuid' }), secret: t.string() })
+		}
+	}
+});
@@ -0,0 +1,36 @@
+import type { RequestHandler } from './$types';
+import { error, json } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { createApiHandler, apiOwner } from '$lib/server/api-middleware.js';
+import { sendTestWebhook } from '$lib/server/webhooks.js';
+import { resolveSessionOwner, type Owner } from '$lib/server/organizations.js';
+import { validateRequest } from '$lib/server/validation.js';
+import { route } from './schema.js';
+
+// POST /api/v1/webhooks/:id/test - Send a test event and report how the endpoint answered
+export const POST: RequestHandler = async (event) => {
+	const authHeader = event.request.headers.get('authorization');
+
+	if (!authHeader) {
+		// Use session-based auth for developer console
+		const session = await requireAuth(event);
+		const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+		const { params } = await validateRequest(event, route, 'POST');
+		return json(await handleTestWebhook(owner, params.id));
+	} else {
+		// Use API key auth for external requests
+		return createApiHandler(
+			async (event, auth, { params }) => handleTestWebhook(apiOwner(auth), params.id),
+			{ required_scope: 'webhooks:write', input: { route, method: 'POST' } }
+		)(event);
+	}
+};
+
+async function handleTestWebhook(owner: Owner, endpointId: string) {
+	const delivery = await sendTestWebhook(owner, endpointId);
+	if (!delivery) {
+		error(404, { message: 'Webhook endpoint not found', code: 'WEBHOOK_NOT_FOUND' });
+	}
+
+	return delivery;
+}
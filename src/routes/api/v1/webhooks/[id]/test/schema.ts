@@ -0,0 +1,14 @@
+import { defineRoute, t } from '$lib/server/openapi.js';
+import { WebhookDeliverySchema } from '../../schema.js';
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	params: t.object({ id: t.string({ format: 'uuid' }) }),
+	operations: {
+		POST: {
+			summary: 'Send a test event and report how the endpoint answered',
+			scopes: ['webhooks:write'],
+			response: WebhookDeliverySchema
+		}
+	}
+});
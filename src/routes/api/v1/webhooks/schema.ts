@@ -0,0 +1,82 @@
+import { defineRoute, paginated, t } from '$lib/server/openapi.js';
+import { WEBHOOK_EVENTS } from '$lib/server/webhooks.js';
+
+const eventTypes = t.array(t.enum([...WEBHOOK_EVENTS.map((event) => event.type), '*']), {
+	minItems: 1,
+	description: 'Event types, or "*" for all',
+	example: ['file.processed']
+});
+
+export const WebhookEndpointSchema = t.component(
+	'WebhookEndpoint',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		user_id: t.string({ format: 'uuid', description: 'The creator' }),
+		org_id: t.nullable(t.string({ format: 'uuid' })),
+		api_key_id: t.nullable(
+			t.string({ format: 'uuid', description: 'Only events caused by this key' })
+		),
+		url: t.string({ format: 'uri' }),
+		description: t.nullable(t.string()),
+		events: t.array(t.string()),
+		is_active: t.boolean(),
+		created_at: t.string({ format: 'date-time' }),
+		updated_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const WebhookDeliverySchema = t.component(
+	'WebhookDelivery',
+	t.object({
+		id: t.string({ format: 'uuid' }),
+		endpoint_id: t.string({ format: 'uuid' }),
+		event_id: t.string({ description: 'Shared by every delivery of the same event' }),
+		event_type: t.string(),
+		payload: t.object({
+			id: t.string(),
+			type: t.string(),
+			created_at: t.string({ format: 'date-time' }),
+			data: t.record(t.unknown())
+		}),
+		status: t.enum(['pending', 'succeeded', 'failed']),
+		attempts: t.integer(),
+		next_attempt_at: t.nullable(t.string({ format: 'date-time' })),
+		last_attempt_at: t.nullable(t.string({ format: 'date-time' })),
+		response_status: t.nullable(t.integer()),
+		response_body: t.nullable(t.string()),
+		error: t.nullable(t.string()),
+		duration_ms: t.nullable(t.integer()),
+		replay_of: t.nullable(t.string({ format: 'uuid' })),
+		created_at: t.string({ format: 'date-time' })
+	})
+);
+
+export const UpdateWebhookSchema = t.object({
+	url: t.optional(t.string({ format: 'uri' })),
+	description: t.optional(t.nullable(t.string({ maxLength: 500 }))),
+	events: t.optional(eventTypes),
+	is_active: t.optional(t.boolean())
+});
+
+export const route = defineRoute({
+	tag: 'Webhooks',
+	operations: {
+		GET: {
+			summary: 'List webhook endpoints',
+			scopes: ['webhooks:read'],
+			response: paginated(WebhookEndpointSchema)
+		},
+		POST: {
+			summary: 'Create a webhook endpoint',
+			description: 'The signing secret is only returned in this response.',
+			scopes: ['webhooks:write'],
+			body: t.object({
+				url: t.string({ format: 'uri', example: 'https://example.com/webhooks' }),
+				events: eventTypes,
+				description: t.optional(t.nullable(t.string({ maxLength: 500 }))),
+				api_key_id: t.optional(t.nullable(t.string({ format: 'uuid' })))
+			}),
+			response: t.extend(WebhookEndpointSchema, { secret: t.string() })
+		}
+	}
+});
@@ -0,0 +1,27 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { env } from '$env/dynamic/private';
+import crypto from 'crypto';
+import { deliverDueWebhooks } from '$lib/server/webhooks.js';
+
+function matchesSecret(token: string, secret: string): boolean {
+	const a = Buffer.from(token);
+	const b = Buffer.from(secret);
+	return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// POST /api/webhooks/deliver - Retry the webhook deliveries that are due. Call
+// it every minute from a scheduler with `Authorization: Bearer <WEBHOOK_CRON_SECRET>`.
+export const POST: RequestHandler = async ({ request }) => {
+	const secret = env.WEBHOOK_CRON_SECRET;
+	if (!secret) {
+		error(503, 'Webhook retries are not configured');
+	}
+
+	const token = (request.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+	if (!matchesSecret(token, secret)) {
+		error(401, 'Invalid cron secret');
+	}
+
+	return json(await deliverDueWebhooks());
+};
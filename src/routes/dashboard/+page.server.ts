@@ -1,19 +1,68 @@
+import { fail } from '@sveltejs/kit';
 import { requireAuth, getUserProfile } from '$lib/server/auth.js';
 import { getDashboardStats } from '$lib/server/dashboard.js';
-import type { PageServerLoad } from './$types';
+import {
+	getBudgetStatus,
+	getUserBudgetSettings,
+	updateUserBudgetSettings,
+	validateBudgetSettings
+} from '$lib/server/budgets.js';
+import type { Actions, PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const { user } = await requireAuth(event);
 
-	// Get user profile and dashboard stats
-	const [profile, dashboardStats] = await Promise.all([
+	// Get user profile, dashboard stats and spending
+	const [profile, dashboardStats, budgetSettings, budgetStatus] = await Promise.all([
 		getUserProfile(user.id),
-		getDashboardStats(user.id)
+		getDashboardStats(user.id),
+		getUserBudgetSettings(user.id).catch((error) => {
+			console.error('Failed to fetch budget settings:', error);
+			return null;
+		}),
+		getBudgetStatus(user.id).catch((error) => {
+			console.error('Failed to fetch budget status:', error);
+			return null;
+		})
 	]);
 
 	return {
 		user,
 		profile,
-		stats: dashboardStats
+		stats: dashboardStats,
+		budgetSettings,
+		budgetStatus
 	};
 };
+
+function parseBudget(value: FormDataEntryValue | null): number | null {
+	const text = value?.toString().trim();
+	return text ? Number(text) : null;
+}
+
+export const actions: Actions = {
+	updateBudget: async (event) => {
+		const { user } = await requireAuth(event);
+		const data = await event.request.formData();
+
+		const settings = {
+			daily_budget_usd: parseBudget(data.get('daily_budget_usd')),
+			monthly_budget_usd: parseBudget(data.get('monthly_budget_usd')),
+			budget_soft_limit_percent: Number(data.get('budget_soft_limit_percent') || 80)
+		};
+
+		const budgetError = validateBudgetSettings(settings);
+		if (budgetError) {
+			return fail(400, { budgetError });
+		}
+
+		try {
+			await updateUserBudgetSettings(user.id, settings);
+		} catch (error) {
+			console.error('Failed to update budget settings:', error);
+			return fail(500, { budgetError: 'Failed to update budget settings' });
+		}
+
+		return { budgetSaved: true };
+	}
+};
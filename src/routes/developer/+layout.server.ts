@@ -1,10 +1,26 @@
-import { requireAuth } from '$lib/server/auth.js';
+import { hasPermission, requireAuth } from '$lib/server/auth.js';
+import { getActiveOrgId, listOrganizations, setActiveOrgId } from '$lib/server/organizations.js';
 import type { LayoutServerLoad } from './$types';
 
 export const load: LayoutServerLoad = async (event) => {
 	const session = await requireAuth(event);
-	
+
+	const organizations = await listOrganizations(session.user.id).catch((error) => {
+		console.error('Error loading organizations:', error);
+		return null;
+	});
+
+	const activeOrgId = getActiveOrgId(event.cookies);
+	const activeOrg = organizations?.find((org) => org.id === activeOrgId) || null;
+	if (activeOrgId && organizations && !activeOrg) {
+		// The user has left the org since picking it
+		setActiveOrgId(event.cookies, null);
+	}
+
 	return {
-		user: session.user
+		user: session.user,
+		organizations: organizations || [],
+		activeOrg,
+		canAccessAdmin: await hasPermission(session.user, 'admin:access').catch(() => false)
 	};
-};
\ No newline at end of file
+};
@@ -3,11 +3,12 @@ import { listApiKeys, getApiUsageStats } from '$lib/server/api-keys.js';
 import { listSystemPrompts } from '$lib/server/system-prompts.js';
 import { listStructuredOutputs } from '$lib/server/structured-outputs.js';
 import { getProcessingStats } from '$lib/server/file-processor.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const session = await requireAuth(event);
-	const userId = session.user.id;
+	const owner = await resolveSessionOwner(event, session.user.id);
 
 	try {
 		// Get overview statistics in parallel
@@ -18,11 +19,11 @@ export const load: PageServerLoad = async (event) => {
 			schemas,
 			fileStats
 		] = await Promise.all([
-			listApiKeys(userId),
-			getApiUsageStats(userId, 7), // Last 7 days
-			listSystemPrompts(userId, { limit: 5 }),
-			listStructuredOutputs(userId, { limit: 5 }),
-			getProcessingStats(userId)
+			listApiKeys(owner),
+			getApiUsageStats(owner, 7), // Last 7 days
+			listSystemPrompts(owner, { limit: 5 }),
+			listStructuredOutputs(owner, { limit: 5 }),
+			getProcessingStats(owner)
 		]);
 
 		return {
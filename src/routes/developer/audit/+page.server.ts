@@ -0,0 +1,50 @@
+import { requireAuth } from '$lib/server/auth.js';
+import { listAuditEvents } from '$lib/server/audit.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import type { PageServerLoad } from './$types';
+
+const PAGE_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The start of a YYYY-MM-DD date picked in the filters, shifted by whole days
+ */
+function dayStart(value: string, days = 0): string | undefined {
+	const time = Date.parse(value);
+	return isNaN(time) ? undefined : new Date(time + days * DAY_MS).toISOString();
+}
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requireAuth(event);
+	// An organization's log is visible to the members who can manage it
+	const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+
+	const action = event.url.searchParams.get('action') || '';
+	const targetType = event.url.searchParams.get('target_type') || '';
+	const since = event.url.searchParams.get('since') || '';
+	const until = event.url.searchParams.get('until') || '';
+	const page = Math.max(parseInt(event.url.searchParams.get('page') || '1', 10) || 1, 1);
+
+	const { events, total } = await listAuditEvents({
+		owner,
+		action: action || undefined,
+		target_type: targetType || undefined,
+		since: dayStart(since),
+		// Include the whole of the last day
+		until: dayStart(until, 1),
+		limit: PAGE_SIZE,
+		offset: (page - 1) * PAGE_SIZE
+	});
+
+	return {
+		userId: session.user.id,
+		action,
+		targetType,
+		since,
+		until,
+		page,
+		pageCount: Math.max(Math.ceil(total / PAGE_SIZE), 1),
+		events
+	};
+};
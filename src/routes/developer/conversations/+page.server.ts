@@ -1,13 +1,34 @@
 import { requireAuth } from '$lib/server/auth.js';
 import { supabaseAdmin } from '$lib/server/supabase.js';
+import { listApiConversations } from '$lib/server/api-conversations.js';
+import { getConversationMemory, getMemoryStrategy } from '$lib/server/conversation-memory.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const { url } = event;
 	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id);
 	
 	const search = url.searchParams.get('search') || undefined;
 	const limit = 20;
+
+	// Conversations created through the API, with their memory summaries
+	const apiConversations = await listApiConversations(owner, { search, limit })
+		.then((conversations) =>
+			conversations.map((conversation) => ({
+				id: conversation.id,
+				title: conversation.title,
+				model: conversation.model,
+				updated_at: conversation.updated_at,
+				memory_strategy: getMemoryStrategy(conversation.metadata),
+				memory: getConversationMemory(conversation.metadata)
+			}))
+		)
+		.catch((error) => {
+			console.error('Error loading API conversations:', error);
+			return [];
+		});
 	
 	try {
 		// Get conversations with message counts and latest message
@@ -36,6 +57,7 @@ export const load: PageServerLoad = async (event) => {
 			console.error('Error loading conversations:', error);
 			return {
 				conversations: [],
+				apiConversations,
 				filters: { search }
 			};
 		}
@@ -56,12 +78,14 @@ export const load: PageServerLoad = async (event) => {
 		
 		return {
 			conversations: transformedConversations,
+			apiConversations,
 			filters: { search }
 		};
 	} catch (error) {
 		console.error('Error loading conversations:', error);
 		return {
 			conversations: [],
+			apiConversations,
 			filters: { search }
 		};
 	}
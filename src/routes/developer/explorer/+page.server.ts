@@ -0,0 +1,28 @@
+import { requireAuth } from '$lib/server/auth.js';
+import { listApiKeys } from '$lib/server/api-keys.js';
+import { listApiOperations } from '$lib/server/api-routes.js';
+import { missingScopes } from '$lib/server/scopes.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id, 'read');
+
+	const operations = listApiOperations();
+	const apiKeys = (await listApiKeys(owner))
+		.filter((key) => key.is_active)
+		.map((key) => ({
+			id: key.id,
+			name: key.name,
+			key_prefix: key.key_prefix,
+			// The scopes each operation needs that the key lacks, by operation ID
+			missing_scopes: Object.fromEntries(
+				operations
+					.map((operation) => [operation.id, missingScopes(key.scopes, operation.scopes)])
+					.filter(([, missing]) => missing.length > 0)
+			) as Record<string, string[]>
+		}));
+
+	return { operations, apiKeys };
+};
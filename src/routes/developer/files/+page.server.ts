@@ -1,12 +1,14 @@
 import { requireAuth } from '$lib/server/auth.js';
 import { getProcessingStats } from '$lib/server/file-processor.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id);
 	
 	try {
-		const stats = await getProcessingStats(session.user.id);
+		const stats = await getProcessingStats(owner);
 		
 		// Transform the data to match expected structure
 		const fileStats = {
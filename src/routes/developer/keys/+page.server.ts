@@ -1,20 +1,25 @@
 import { requireAuth } from '$lib/server/auth.js';
 import { listApiKeys } from '$lib/server/api-keys.js';
+import { SCOPE_CATALOG } from '$lib/server/scopes.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id);
 	
 	try {
-		const apiKeys = await listApiKeys(session.user.id);
+		const apiKeys = await listApiKeys(owner);
 		
 		return {
-			apiKeys
+			apiKeys,
+			scopeCatalog: SCOPE_CATALOG
 		};
 	} catch (error) {
 		console.error('Error loading API keys:', error);
 		return {
-			apiKeys: []
+			apiKeys: [],
+			scopeCatalog: SCOPE_CATALOG
 		};
 	}
 };
\ No newline at end of file
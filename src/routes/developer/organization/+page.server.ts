@@ -0,0 +1,22 @@
+import { requireAuth } from '$lib/server/auth.js';
+import { listMembers, type OrganizationMember } from '$lib/server/organizations.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requireAuth(event);
+	const { activeOrg } = await event.parent();
+
+	let members: OrganizationMember[] = [];
+	if (activeOrg) {
+		try {
+			members = await listMembers(activeOrg.id);
+		} catch (error) {
+			console.error('Error loading organization members:', error);
+		}
+	}
+
+	return {
+		userId: session.user.id,
+		members
+	};
+};
@@ -1,23 +1,25 @@
 import { requireAuth } from '$lib/server/auth.js';
 import { listSystemPrompts, getPromptCategories } from '$lib/server/system-prompts.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const { url } = event;
 	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id);
 	
 	const category = url.searchParams.get('category') || undefined;
 	const search = url.searchParams.get('search') || undefined;
 	
 	try {
 		const [prompts, categories] = await Promise.all([
-			listSystemPrompts(session.user.id, {
+			listSystemPrompts(owner, {
 				category,
 				search,
 				include_public: true,
 				limit: 50
 			}),
-			getPromptCategories(session.user.id)
+			getPromptCategories(owner)
 		]);
 		
 		return {
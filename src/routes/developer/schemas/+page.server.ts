@@ -1,15 +1,17 @@
 import { requireAuth } from '$lib/server/auth.js';
 import { listStructuredOutputs } from '$lib/server/structured-outputs.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async (event) => {
 	const { url } = event;
 	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id);
 	
 	const search = url.searchParams.get('search') || undefined;
 	
 	try {
-		const schemas = await listStructuredOutputs(session.user.id, {
+		const schemas = await listStructuredOutputs(owner, {
 			search,
 			limit: 50
 		});
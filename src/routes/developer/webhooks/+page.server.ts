@@ -0,0 +1,23 @@
+import { requireAuth } from '$lib/server/auth.js';
+import { listApiKeys } from '$lib/server/api-keys.js';
+import { listWebhookEndpoints, WEBHOOK_EVENTS } from '$lib/server/webhooks.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+
+	const [endpoints, apiKeys] = await Promise.all([
+		listWebhookEndpoints(owner),
+		listApiKeys(owner).then((keys) =>
+			keys.map((key) => ({ id: key.id, name: key.name, key_prefix: key.key_prefix }))
+		)
+	]);
+
+	return {
+		endpoints,
+		apiKeys,
+		events: WEBHOOK_EVENTS
+	};
+};
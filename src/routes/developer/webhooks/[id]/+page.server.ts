@@ -0,0 +1,34 @@
+import { error } from '@sveltejs/kit';
+import { requireAuth } from '$lib/server/auth.js';
+import { getWebhookEndpoint, listWebhookDeliveries } from '$lib/server/webhooks.js';
+import { resolveSessionOwner } from '$lib/server/organizations.js';
+import type { PageServerLoad } from './$types';
+
+const PAGE_SIZE = 25;
+
+export const load: PageServerLoad = async (event) => {
+	const session = await requireAuth(event);
+	const owner = await resolveSessionOwner(event, session.user.id, 'manage');
+
+	const endpoint = await getWebhookEndpoint(owner, event.params.id);
+	if (!endpoint) {
+		error(404, 'Webhook endpoint not found');
+	}
+
+	const status = event.url.searchParams.get('status') || '';
+	const page = Math.max(parseInt(event.url.searchParams.get('page') || '1', 10) || 1, 1);
+
+	const { deliveries, total } = await listWebhookDeliveries(endpoint.id, {
+		status: status || undefined,
+		limit: PAGE_SIZE,
+		offset: (page - 1) * PAGE_SIZE
+	});
+
+	return {
+		endpoint,
+		deliveries,
+		status,
+		page,
+		pageCount: Math.max(Math.ceil(total / PAGE_SIZE), 1)
+	};
+};
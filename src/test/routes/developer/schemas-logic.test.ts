@@ -198,10 +198,15 @@ describe('Schema Management Logic', () => {
 			const mockToday = new Date('2023-02-15');
 			vi.setSystemTime(mockToday);
 
-			const recent = getRecentSchemas(mockSchemas, 30);
-			// Only Order Schema should be within 30 days of Feb 15
-			expect(recent).toHaveLength(1);
-			expect(recent[0].name).toBe('Order Schema');
+			try {
+				const recent = getRecentSchemas(mockSchemas, 30);
+				// Only Order Schema should be within 30 days of Feb 15
+				expect(recent).toHaveLength(1);
+				expect(recent[0].name).toBe('Order Schema');
+			} finally {
+				// Tests share one process, so don't leak the mocked date into other files
+				vi.useRealTimers();
+			}
 		});
 	});
 });